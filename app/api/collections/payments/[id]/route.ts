@@ -0,0 +1,238 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { verifyToken } from "@/lib/auth";
+import { cookies } from "next/headers";
+import { z } from "zod";
+import {
+  postJournalEntry,
+  syncGroupFund,
+  syncGroupMemberContribution,
+} from "@/lib/ledger";
+import { syncCollectionTotal } from "@/lib/collections";
+import { recordAudit } from "@/lib/audit";
+import { checkPeriodsOpen } from "@/lib/periods";
+
+const reason = z.string().trim().min(1, "Reason is required");
+
+const correctPaymentSchema = z.discriminatedUnion("action", [
+  // Payment was recorded by mistake - back to unpaid
+  z.object({ action: z.literal("MARK_UNPAID"), reason }),
+  // Payment was recorded against the wrong member
+  z.object({ action: z.literal("REASSIGN"), memberId: z.string(), reason }),
+]);
+
+// Correct a recorded collection payment: mark it unpaid or move it to another
+// member. Collection totals, member contributions, the group fund and the
+// ledger are all updated together, and the change is written to the audit log.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user || user.role !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Forbidden - Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const data = correctPaymentSchema.parse(body);
+
+    const payment = await prisma.collectionPayment.findUnique({
+      where: { id },
+      include: {
+        member: true,
+        collection: { include: { cycle: true } },
+      },
+    });
+
+    if (!payment) {
+      return NextResponse.json({ error: "Payment not found" }, { status: 404 });
+    }
+
+    if (payment.status !== "PAID") {
+      return NextResponse.json(
+        { error: "Only paid payments can be corrected" },
+        { status: 400 }
+      );
+    }
+
+    // Nothing can be posted into a closed month
+    const closedPeriodError = await checkPeriodsOpen(prisma, new Date());
+    if (closedPeriodError) {
+      return NextResponse.json({ error: closedPeriodError }, { status: 400 });
+    }
+
+    const { collection } = payment;
+    const groupId = collection.cycle.groupId;
+    const now = new Date();
+
+    if (data.action === "MARK_UNPAID") {
+      const updated = await prisma.$transaction(async (tx) => {
+        const updatedPayment = await tx.collectionPayment.update({
+          where: { id: payment.id },
+          data: { status: "PENDING" },
+        });
+
+        // Take the contribution back out of the cycle's fund
+        await postJournalEntry(tx, {
+          date: now,
+          description: `Week ${collection.week} collection from ${payment.member.name} marked unpaid: ${data.reason}`,
+          source: "COLLECTION_PAYMENT",
+          sourceId: payment.id,
+          groupId,
+          cycleId: collection.cycleId,
+          createdById: user.id,
+          lines: [
+            {
+              account: "MEMBER_CONTRIBUTIONS",
+              memberId: payment.memberId,
+              debit: payment.amount,
+            },
+            { account: "CASH", credit: payment.amount },
+          ],
+        });
+
+        await syncCollectionTotal(tx, collection.id);
+        if (payment.groupMemberId) {
+          await syncGroupMemberContribution(tx, payment.groupMemberId);
+        }
+        await syncGroupFund(tx, collection.cycleId);
+
+        await recordAudit(tx, {
+          action: "COLLECTION_PAYMENT_UNPAID",
+          entityType: "CollectionPayment",
+          entityId: payment.id,
+          reason: data.reason,
+          details: {
+            collectionId: collection.id,
+            memberId: payment.memberId,
+            amount: payment.amount,
+            status: { from: "PAID", to: "PENDING" },
+          },
+          userId: user.id,
+        });
+
+        return updatedPayment;
+      });
+
+      return NextResponse.json({ payment: updated }, { status: 200 });
+    }
+
+    // REASSIGN
+    if (data.memberId === payment.memberId) {
+      return NextResponse.json(
+        { error: "Payment is already attributed to this member" },
+        { status: 400 }
+      );
+    }
+
+    const targetGroupMember = groupId
+      ? await prisma.groupMember.findFirst({
+          where: { groupId, memberId: data.memberId, isActive: true },
+          include: { member: true },
+        })
+      : null;
+
+    if (!targetGroupMember) {
+      return NextResponse.json(
+        { error: "Member is not an active member of this group" },
+        { status: 400 }
+      );
+    }
+
+    const targetPayment = await prisma.collectionPayment.findUnique({
+      where: {
+        collectionId_memberId: {
+          collectionId: collection.id,
+          memberId: data.memberId,
+        },
+      },
+    });
+
+    if (targetPayment) {
+      return NextResponse.json(
+        { error: "Member already has a payment for this week" },
+        { status: 400 }
+      );
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const updatedPayment = await tx.collectionPayment.update({
+        where: { id: payment.id },
+        data: {
+          memberId: data.memberId,
+          groupMemberId: targetGroupMember.id,
+        },
+      });
+
+      // Same cash, credited to the right member
+      await postJournalEntry(tx, {
+        date: now,
+        description: `Week ${collection.week} collection moved from ${payment.member.name} to ${targetGroupMember.member.name}: ${data.reason}`,
+        source: "COLLECTION_PAYMENT",
+        sourceId: payment.id,
+        groupId,
+        cycleId: collection.cycleId,
+        createdById: user.id,
+        lines: [
+          {
+            account: "MEMBER_CONTRIBUTIONS",
+            memberId: payment.memberId,
+            debit: payment.amount,
+          },
+          {
+            account: "MEMBER_CONTRIBUTIONS",
+            memberId: data.memberId,
+            credit: payment.amount,
+          },
+        ],
+      });
+
+      if (payment.groupMemberId) {
+        await syncGroupMemberContribution(tx, payment.groupMemberId);
+      }
+      await syncGroupMemberContribution(tx, targetGroupMember.id);
+
+      await recordAudit(tx, {
+        action: "COLLECTION_PAYMENT_REASSIGNED",
+        entityType: "CollectionPayment",
+        entityId: payment.id,
+        reason: data.reason,
+        details: {
+          collectionId: collection.id,
+          amount: payment.amount,
+          memberId: { from: payment.memberId, to: data.memberId },
+        },
+        userId: user.id,
+      });
+
+      return updatedPayment;
+    });
+
+    return NextResponse.json({ payment: updated }, { status: 200 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error correcting payment:", error);
+    return NextResponse.json(
+      { error: "Failed to correct payment" },
+      { status: 500 }
+    );
+  }
+}
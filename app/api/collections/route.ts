@@ -3,17 +3,41 @@ import prisma from "@/lib/prisma";
 import { verifyToken } from "@/lib/auth";
 import { cookies } from "next/headers";
 import { z } from "zod";
-
-const createCollectionSchema = z.object({
-  cycleId: z.string(),
-  week: z.number().int().positive(),
-  collectionDate: z.string().datetime(),
-});
+import { Prisma } from "@prisma/client";
+import { DEFAULT_WEEKLY_AMOUNT, positiveMoneySchema } from "@/lib/money";
+import {
+  postJournalEntry,
+  syncGroupFund,
+  syncGroupMemberContribution,
+} from "@/lib/ledger";
+import { syncCollectionTotal } from "@/lib/collections";
+import { checkPeriodsOpen } from "@/lib/periods";
+import { collectionDateOf, isMeetingHeld } from "@/lib/utils";
+import {
+  hashRequestBody,
+  isUniqueConstraintError,
+  readIdempotencyKey,
+  replayIdempotentResponse,
+  saveIdempotentResponse,
+} from "@/lib/idempotency";
+
+const createCollectionSchema = z
+  .object({
+    cycleId: z.string().optional(),
+    groupId: z.string().optional(), // Records into the group's active cycle
+    week: z.number().int().positive(),
+    collectionDate: z.string().datetime().optional(), // Defaults to the week's meeting date, skipping holidays
+  })
+  .refine((data) => data.cycleId || data.groupId, {
+    message: "Provide the cycle or the group",
+  });
+
+const RECORD_PAYMENT_SCOPE = "PUT /api/collections";
 
 const recordPaymentSchema = z.object({
   collectionId: z.string(),
   memberId: z.string(),
-  amount: z.number().positive().default(100),
+  amount: positiveMoneySchema.default(DEFAULT_WEEKLY_AMOUNT),
   paymentMethod: z.string().optional(),
 });
 
@@ -84,11 +108,59 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const data = createCollectionSchema.parse(body);
 
+    // Get cycle details with group and active members
+    const cycleInclude = {
+      group: {
+        include: {
+          holidays: true,
+          members: {
+            where: { isActive: true },
+            include: { member: true },
+          },
+        },
+      },
+    } satisfies Prisma.LoanCycleInclude;
+    const cycle = data.cycleId
+      ? await prisma.loanCycle.findUnique({
+          where: { id: data.cycleId },
+          include: cycleInclude,
+        })
+      : await prisma.loanCycle.findFirst({
+          where: { groupId: data.groupId, isActive: true },
+          include: cycleInclude,
+        });
+
+    if (!cycle) {
+      return NextResponse.json(
+        {
+          error: data.cycleId
+            ? "Cycle not found"
+            : "Group has no active cycle - start one first",
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!cycle.group) {
+      return NextResponse.json(
+        { error: "Group not found for this cycle" },
+        { status: 404 }
+      );
+    }
+
+    // Contributions go into the fund of the cycle the group is running
+    if (!cycle.isActive) {
+      return NextResponse.json(
+        { error: "Collections can only be recorded in an active cycle" },
+        { status: 400 }
+      );
+    }
+
     // Check if collection already exists
     const existing = await prisma.weeklyCollection.findUnique({
       where: {
         cycleId_week: {
-          cycleId: data.cycleId,
+          cycleId: cycle.id,
           week: data.week,
         },
       },
@@ -101,29 +173,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get cycle details with group and active members
-    const cycle = await prisma.loanCycle.findUnique({
-      where: { id: data.cycleId },
-      include: {
-        group: {
-          include: {
-            members: {
-              where: { isActive: true },
-              include: { member: true },
-            },
-          },
-        },
-      },
-    });
-
-    if (!cycle) {
-      return NextResponse.json({ error: "Cycle not found" }, { status: 404 });
-    }
-
-    if (!cycle.group) {
+    // Weeks are counted in meetings held, so holidays push the date back
+    const collectionDate = data.collectionDate
+      ? new Date(data.collectionDate)
+      : collectionDateOf(
+          cycle.startDate,
+          data.week,
+          cycle.group.meetingDay,
+          cycle.group.holidays
+        );
+    if (!isMeetingHeld(collectionDate, cycle.group.holidays)) {
       return NextResponse.json(
-        { error: "Group not found for this cycle" },
-        { status: 404 }
+        { error: "The group does not meet on this date - it is a holiday" },
+        { status: 400 }
       );
     }
 
@@ -134,16 +196,16 @@ export async function POST(request: NextRequest) {
     const activeMemberCount = activeMembers.length;
     // Calculate expected amount based on each member's individual weekly amount
     const expectedAmount = activeMembers.reduce(
-      (sum, gm) => sum + (gm.weeklyAmount || 100),
+      (sum, gm) => sum + (gm.weeklyAmount || DEFAULT_WEEKLY_AMOUNT),
       0
     );
 
     const collection = await prisma.weeklyCollection.create({
       data: {
-        cycleId: data.cycleId,
+        cycleId: cycle.id,
         groupId: cycle.groupId || null,
         week: data.week,
-        collectionDate: new Date(data.collectionDate),
+        collectionDate,
         totalCollected: 0,
         expectedAmount: expectedAmount,
         activeMemberCount: activeMemberCount,
@@ -172,7 +234,12 @@ export async function POST(request: NextRequest) {
 }
 
 // Record a payment for a collection
+// Send an Idempotency-Key header to make retries safe: a replay returns the
+// original response instead of recording the payment again
 export async function PUT(request: NextRequest) {
+  let idempotencyKey: string | null = null;
+  let requestHash = "";
+
   try {
     const cookieStore = await cookies();
     const token = cookieStore.get("auth-token")?.value;
@@ -192,187 +259,218 @@ export async function PUT(request: NextRequest) {
     const body = await request.json();
     const data = recordPaymentSchema.parse(body);
 
-    // Check if payment already exists
-    const existingPayment = await prisma.collectionPayment.findUnique({
-      where: {
-        collectionId_memberId: {
-          collectionId: data.collectionId,
-          memberId: data.memberId,
-        },
-      },
-    });
+    // Nothing can be posted into a closed month
+    const closedPeriodError = await checkPeriodsOpen(prisma, new Date());
+    if (closedPeriodError) {
+      return NextResponse.json({ error: closedPeriodError }, { status: 400 });
+    }
 
-    let payment;
-    if (existingPayment) {
-      // Update existing payment
-      payment = await prisma.collectionPayment.update({
-        where: { id: existingPayment.id },
-        data: {
-          amount: data.amount,
-          paymentDate: new Date(),
-          paymentMethod: data.paymentMethod,
-          status: "PAID",
-        },
-      });
-
-      // If updating existing payment, calculate the difference
-      const amountDifference = data.amount - existingPayment.amount;
-      if (amountDifference !== 0 && existingPayment.groupMemberId) {
-        await prisma.groupMember.update({
-          where: { id: existingPayment.groupMemberId },
-          data: {
-            totalContributed: {
-              increment: amountDifference,
+    // A retried request with the same key gets the original response back
+    const idempotency = readIdempotencyKey(request);
+    if ("error" in idempotency) {
+      return NextResponse.json({ error: idempotency.error }, { status: 400 });
+    }
+    idempotencyKey = idempotency.key;
+    requestHash = hashRequestBody(body);
+    if (idempotencyKey) {
+      const replay = await replayIdempotentResponse(
+        prisma,
+        RECORD_PAYMENT_SCOPE,
+        idempotencyKey,
+        requestHash
+      );
+      if (replay) return replay;
+    }
+
+    // All writes succeed or none do, so a failure part-way through never
+    // leaves the fund, totals and ledger out of step
+    const payment = await prisma.$transaction(
+      async (tx) => {
+        // Check if payment already exists
+        const existingPayment = await tx.collectionPayment.findUnique({
+          where: {
+            collectionId_memberId: {
+              collectionId: data.collectionId,
+              memberId: data.memberId,
             },
           },
         });
-      }
-    } else {
-      // Get group member for this payment
-      const collectionForMember = await prisma.weeklyCollection.findUnique({
-        where: { id: data.collectionId },
-        include: {
-          cycle: {
+
+        let payment;
+        if (existingPayment) {
+          // Update existing payment
+          payment = await tx.collectionPayment.update({
+            where: { id: existingPayment.id },
+            data: {
+              amount: data.amount,
+              paymentDate: new Date(),
+              paymentMethod: data.paymentMethod,
+              status: "PAID",
+            },
+          });
+        } else {
+          // Get group member for this payment
+          const collectionForMember = await tx.weeklyCollection.findUnique({
+            where: { id: data.collectionId },
             include: {
-              group: {
+              cycle: {
                 include: {
-                  members: {
-                    where: {
-                      memberId: data.memberId,
-                      isActive: true,
+                  group: {
+                    include: {
+                      members: {
+                        where: {
+                          memberId: data.memberId,
+                          isActive: true,
+                        },
+                      },
                     },
                   },
                 },
               },
             },
-          },
-        },
-      });
-
-      const groupMember = collectionForMember?.cycle?.group?.members[0] || null;
-      const groupMemberId = groupMember?.id || null;
-
-      // Use member's weekly amount if not specified, or use provided amount
-      const paymentAmount = data.amount || groupMember?.weeklyAmount || 100;
-
-      // Create new payment
-      payment = await prisma.collectionPayment.create({
-        data: {
-          collectionId: data.collectionId,
-          memberId: data.memberId,
-          groupMemberId: groupMemberId,
-          amount: paymentAmount,
-          paymentDate: new Date(),
-          paymentMethod: data.paymentMethod,
-          status: "PAID",
-        },
-      });
-
-      // Update group member's total contributed when payment is created
-      if (groupMemberId) {
-        await prisma.groupMember.update({
-          where: { id: groupMemberId },
-          data: {
-            totalContributed: {
-              increment: paymentAmount,
+          });
+
+          const groupMember = collectionForMember?.cycle?.group?.members[0] || null;
+          const groupMemberId = groupMember?.id || null;
+
+          // Use member's weekly amount if not specified, or use provided amount
+          const paymentAmount =
+            data.amount || groupMember?.weeklyAmount || DEFAULT_WEEKLY_AMOUNT;
+
+          // Create new payment
+          payment = await tx.collectionPayment.create({
+            data: {
+              collectionId: data.collectionId,
+              memberId: data.memberId,
+              groupMemberId: groupMemberId,
+              amount: paymentAmount,
+              paymentDate: new Date(),
+              paymentMethod: data.paymentMethod,
+              status: "PAID",
             },
-          },
-        });
-      }
-    }
+          });
+        }
 
-    // Get collection first to find group
-    const collectionForGroup = await prisma.weeklyCollection.findUnique({
-      where: { id: data.collectionId },
-      include: {
-        cycle: {
+        // Get collection first to find group
+        const collectionForGroup = await tx.weeklyCollection.findUnique({
+          where: { id: data.collectionId },
           include: {
-            group: true,
+            cycle: {
+              include: {
+                group: true,
+              },
+            },
           },
-        },
-      },
-    });
+        });
 
-    // Get group member for linking payment
-    let groupMember = null;
-    if (collectionForGroup?.cycle?.groupId) {
-      groupMember = await prisma.groupMember.findFirst({
-        where: {
-          groupId: collectionForGroup.cycle.groupId,
-          memberId: data.memberId,
-          isActive: true,
-        },
-      });
-    }
+        // Get group member for linking payment
+        let groupMember = null;
+        if (collectionForGroup?.cycle?.groupId) {
+          groupMember = await tx.groupMember.findFirst({
+            where: {
+              groupId: collectionForGroup.cycle.groupId,
+              memberId: data.memberId,
+              isActive: true,
+            },
+          });
+        }
 
-    // Update collection total
-    const collection = await prisma.weeklyCollection.findUnique({
-      where: { id: data.collectionId },
-      include: {
-        payments: {
+        // Update collection total
+        const collection = await tx.weeklyCollection.findUnique({
+          where: { id: data.collectionId },
           include: {
-            member: true,
-          },
-        },
-        cycle: {
-          include: {
-            group: {
+            payments: {
+              include: {
+                member: true,
+              },
+            },
+            cycle: {
               include: {
-                members: {
-                  where: { isActive: true },
+                group: {
+                  include: {
+                    members: {
+                      where: { isActive: true },
+                    },
+                  },
                 },
               },
             },
-            groupFund: true,
           },
-        },
-      },
-    });
+        });
 
-    if (collection) {
-      const totalCollected = collection.payments.reduce(
-        (sum, p) => sum + (p.status === "PAID" ? p.amount : 0),
-        0
-      );
+        if (collection) {
+          // Update payment with groupMemberId if found (if not already set)
+          if (groupMember && payment && !payment.groupMemberId) {
+            await tx.collectionPayment.update({
+              where: { id: payment.id },
+              data: { groupMemberId: groupMember.id },
+            });
+          }
+
+          await syncCollectionTotal(tx, data.collectionId);
+
+          // Refresh the member's total contributed from their paid payments
+          const groupMemberId = payment.groupMemberId || groupMember?.id;
+          if (groupMemberId) {
+            await syncGroupMemberContribution(tx, groupMemberId);
+          }
+
+          // Post the contribution (or the change to it) to the ledger
+          // Cash goes into the cycle's group fund, credited to the member's contributions
+          // An unpaid (PENDING) payment was never posted, so it counts as new
+          const wasPaid = existingPayment?.status === "PAID";
+          const amountPosted =
+            existingPayment && wasPaid
+              ? payment.amount - existingPayment.amount // Difference if updating
+              : payment.amount; // Full amount if new payment
+
+          if (amountPosted !== 0) {
+            await postJournalEntry(tx, {
+              date: payment.paymentDate,
+              description: `Week ${collection.week} collection from ${
+                collection.payments.find((p) => p.memberId === data.memberId)
+                  ?.member.name || "member"
+              }${wasPaid ? " (amount corrected)" : ""}`,
+              source: "COLLECTION_PAYMENT",
+              sourceId: payment.id,
+              groupId: collection.cycle?.groupId,
+              cycleId: collection.cycleId,
+              createdById: user.id,
+              lines: [
+                {
+                  account: "CASH",
+                  debit: Math.max(amountPosted, 0),
+                  credit: Math.max(-amountPosted, 0),
+                },
+                {
+                  account: "MEMBER_CONTRIBUTIONS",
+                  memberId: data.memberId,
+                  debit: Math.max(-amountPosted, 0),
+                  credit: Math.max(amountPosted, 0),
+                },
+              ],
+            });
+          }
 
-      // Update payment with groupMemberId if found (if not already set)
-      if (groupMember && payment && !payment.groupMemberId) {
-        await prisma.collectionPayment.update({
-          where: { id: payment.id },
-          data: { groupMemberId: groupMember.id },
-        });
-      }
+          // Group fund balance is derived from the cycle's cash in the ledger
+          await syncGroupFund(tx, collection.cycleId);
+        }
 
-      await prisma.weeklyCollection.update({
-        where: { id: data.collectionId },
-        data: {
-          totalCollected: totalCollected,
-          isCompleted: totalCollected >= (collection.expectedAmount || 0),
-        },
-      });
-
-      // Add payment amount to group fund's investment pool
-      // This represents the member's contribution to the group pool
-      if (collection.cycle?.groupFund) {
-        const paymentAmount = existingPayment
-          ? data.amount - existingPayment.amount // Difference if updating
-          : data.amount; // Full amount if new payment
-
-        if (paymentAmount > 0) {
-          await prisma.groupFund.update({
-            where: { id: collection.cycle.groupFund.id },
-            data: {
-              investmentPool: {
-                increment: paymentAmount,
-              },
-              totalFunds: {
-                increment: paymentAmount,
-              },
-            },
+        if (idempotencyKey) {
+          await saveIdempotentResponse(tx, {
+            scope: RECORD_PAYMENT_SCOPE,
+            key: idempotencyKey,
+            requestHash,
+            statusCode: 200,
+            response: { payment },
+            createdById: user.id,
           });
         }
-      }
-    }
+
+        return payment;
+      },
+      { timeout: 15000 }
+    );
 
     return NextResponse.json({ payment }, { status: 200 });
   } catch (error) {
@@ -383,6 +481,17 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    // A concurrent request with the same key won the race - return its result
+    if (idempotencyKey && isUniqueConstraintError(error)) {
+      const replay = await replayIdempotentResponse(
+        prisma,
+        RECORD_PAYMENT_SCOPE,
+        idempotencyKey,
+        requestHash
+      );
+      if (replay) return replay;
+    }
+
     console.error("Error recording payment:", error);
     return NextResponse.json(
       { error: "Failed to record payment" },
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { verifyToken } from "@/lib/auth";
+import { cookies } from "next/headers";
+import { z } from "zod";
+import { formatMoney, positiveMoneySchema } from "@/lib/money";
+
+const placeBidSchema = z.object({
+  memberId: z.string().min(1, "Member is required"),
+  amount: positiveMoneySchema, // Amount the member is willing to take from the pot
+});
+
+// Record a member's bid in an open weekly auction
+// A member may bid again with a lower amount; every bid is kept as history.
+// Members who have already won the pot this cycle cannot bid.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; week: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user || user.role !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Forbidden - Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { id, week } = await params;
+    const body = await request.json();
+    const data = placeBidSchema.parse(body);
+
+    const auction = await prisma.cycleAuction.findUnique({
+      where: { cycleId_week: { cycleId: id, week: parseInt(week) || 0 } },
+      include: { cycle: true },
+    });
+
+    if (!auction) {
+      return NextResponse.json({ error: "Auction not found" }, { status: 404 });
+    }
+
+    if (auction.status !== "OPEN") {
+      return NextResponse.json(
+        { error: "This auction has already been settled" },
+        { status: 400 }
+      );
+    }
+
+    const groupMember = auction.cycle.groupId
+      ? await prisma.groupMember.findUnique({
+          where: {
+            groupId_memberId: {
+              groupId: auction.cycle.groupId,
+              memberId: data.memberId,
+            },
+          },
+          include: { member: true },
+        })
+      : null;
+
+    if (!groupMember || !groupMember.isActive) {
+      return NextResponse.json(
+        { error: "Member not found in group or is inactive" },
+        { status: 404 }
+      );
+    }
+
+    const alreadyWon = await prisma.cycleAuction.findFirst({
+      where: { cycleId: auction.cycleId, winnerId: data.memberId },
+    });
+    if (alreadyWon) {
+      return NextResponse.json(
+        {
+          error: `${groupMember.member.name} already won the pot in week ${alreadyWon.week} of this cycle`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (data.amount > auction.potAmount) {
+      return NextResponse.json(
+        {
+          error: `A bid cannot be more than the ${formatMoney(
+            auction.potAmount
+          )} pot`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const bid = await prisma.auctionBid.create({
+      data: {
+        auctionId: auction.id,
+        memberId: data.memberId,
+        amount: data.amount,
+        recordedById: user.id,
+      },
+      include: {
+        member: { select: { id: true, name: true, userId: true } },
+      },
+    });
+
+    return NextResponse.json({ bid }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error recording bid:", error);
+    return NextResponse.json(
+      { error: "Failed to record bid" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,323 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { verifyToken } from "@/lib/auth";
+import { cookies } from "next/headers";
+import { z } from "zod";
+import { postJournalEntry, syncGroupFund, syncSavings } from "@/lib/ledger";
+import { checkPeriodsOpen } from "@/lib/periods";
+import { syncInstallments } from "@/lib/installments";
+import { recordAudit } from "@/lib/audit";
+import {
+  checkFundAvailable,
+  fundShortfallMessage,
+  recordFundOverride,
+} from "@/lib/funds";
+import { formatMoney, splitEvenly } from "@/lib/money";
+
+const settleAuctionSchema = z.object({
+  date: z.string().optional(), // Defaults to today
+  disbursementMethod: z.enum(["CASH", "UPI", "BANK_TRANSFER"]).optional(),
+  fundOverrideReason: z.string().trim().min(1).optional(), // Settle although the group fund cannot cover the pot
+});
+
+// Close a weekly auction. The lowest bid wins (the earliest bid on a tie):
+// the winner gets the week's rotation slot and a loan of the amount they bid,
+// and the discount is shared equally as dividend into the savings of the
+// group's other active members.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; week: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user || user.role !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Forbidden - Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { id, week } = await params;
+    const body = await request.json();
+    const data = settleAuctionSchema.parse(body);
+
+    const auction = await prisma.cycleAuction.findUnique({
+      where: { cycleId_week: { cycleId: id, week: parseInt(week) || 0 } },
+      include: {
+        cycle: {
+          include: {
+            group: {
+              include: {
+                members: {
+                  where: { isActive: true },
+                  include: { member: true },
+                },
+              },
+            },
+          },
+        },
+        bids: {
+          include: { member: true },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+
+    if (!auction) {
+      return NextResponse.json({ error: "Auction not found" }, { status: 404 });
+    }
+
+    if (auction.status !== "OPEN") {
+      return NextResponse.json(
+        { error: "This auction has already been settled" },
+        { status: 400 }
+      );
+    }
+
+    const { cycle } = auction;
+    const group = cycle.group;
+    if (!group) {
+      return NextResponse.json(
+        { error: "This cycle does not allocate its pot by auction" },
+        { status: 400 }
+      );
+    }
+
+    // Lowest bid wins; bids are in the order they were placed, so the
+    // earliest of equal bids is kept
+    const winningBid = auction.bids.reduce<(typeof auction.bids)[number] | null>(
+      (lowest, bid) => (!lowest || bid.amount < lowest.amount ? bid : lowest),
+      null
+    );
+    if (!winningBid) {
+      return NextResponse.json(
+        { error: "No bids have been placed in this auction" },
+        { status: 400 }
+      );
+    }
+
+    const date = data.date ? new Date(data.date) : new Date();
+
+    // Nothing can be posted into a closed month
+    const closedPeriodError = await checkPeriodsOpen(prisma, date);
+    if (closedPeriodError) {
+      return NextResponse.json({ error: closedPeriodError }, { status: 400 });
+    }
+
+    const winner = winningBid.member;
+    const discount = auction.potAmount - winningBid.amount;
+    const recipients = group.members.filter((gm) => gm.memberId !== winner.id);
+    const dividends = splitEvenly(discount, recipients.length)
+      .map((amount, index) => ({ groupMember: recipients[index], amount }))
+      .filter((d) => d.amount > 0);
+
+    const result = await prisma.$transaction(
+      async (tx) => {
+        // Both the winner's loan and the dividend come out of the pot
+        const shortfall = await checkFundAvailable(tx, {
+          cycleId: cycle.id,
+          amount: auction.potAmount,
+        });
+        if (shortfall && !data.fundOverrideReason) {
+          return { shortfall, settled: null };
+        }
+
+        const sequence = await tx.loanSequence.create({
+          data: {
+            cycleId: cycle.id,
+            memberId: winner.id,
+            week: auction.week,
+            loanAmount: winningBid.amount,
+            status: "DISBURSED",
+            disbursedAt: date,
+          },
+        });
+
+        const loan = await tx.loan.create({
+          data: {
+            memberId: winner.id,
+            cycleId: cycle.id,
+            sequenceId: sequence.id,
+            principal: winningBid.amount,
+            remaining: winningBid.amount,
+            weeks: group.loanWeeks,
+            currentWeek: 0,
+            status: "ACTIVE",
+            reason: `Won week ${auction.week} auction`,
+            disbursedAt: date,
+            disbursementMethod: data.disbursementMethod || null,
+            // Interest terms are fixed for the life of the loan
+            interestMethod: group.interestMethod,
+            interestRate: group.interestRate,
+            interestRatePeriod: group.interestRatePeriod,
+          },
+        });
+
+        await tx.groupMember.updateMany({
+          where: { groupId: group.id, memberId: winner.id },
+          data: { totalReceived: { increment: winningBid.amount } },
+        });
+
+        // Post the disbursement: the loan is paid out of the cycle's group fund
+        await postJournalEntry(tx, {
+          date,
+          description: `Loan disbursed to ${winner.name} (won week ${auction.week} auction)`,
+          source: "LOAN_DISBURSEMENT",
+          sourceId: loan.id,
+          groupId: group.id,
+          cycleId: cycle.id,
+          createdById: user.id,
+          lines: [
+            {
+              account: "LOANS_RECEIVABLE",
+              debit: winningBid.amount,
+              memberId: winner.id,
+              loanId: loan.id,
+            },
+            { account: "CASH", credit: winningBid.amount },
+          ],
+        });
+
+        // The discount leaves the cycle's fund and becomes the other
+        // members' savings, as a savings distribution does
+        if (dividends.length > 0) {
+          await postJournalEntry(tx, {
+            date,
+            description: `Week ${auction.week} auction dividend (discount ${formatMoney(
+              discount
+            )})`,
+            source: "AUCTION_DIVIDEND",
+            sourceId: auction.id,
+            groupId: group.id,
+            cycleId: cycle.id,
+            createdById: user.id,
+            lines: [
+              { account: "CASH", credit: discount },
+              { account: "CASH", cycleId: null, debit: discount },
+              { account: "MEMBER_CONTRIBUTIONS", debit: discount },
+              ...dividends.map((d) => ({
+                account: "MEMBER_SAVINGS" as const,
+                cycleId: null,
+                memberId: d.groupMember.memberId,
+                credit: d.amount,
+              })),
+            ],
+          });
+
+          for (const dividend of dividends) {
+            const memberId = dividend.groupMember.memberId;
+            let savings = await tx.savings.findFirst({ where: { memberId } });
+            if (!savings) {
+              savings = await tx.savings.create({
+                data: { memberId, totalAmount: 0 },
+              });
+            }
+
+            // Savings total is derived from the member's savings in the ledger
+            const newTotal = await syncSavings(tx, savings.id, memberId);
+            await tx.savingsTransaction.create({
+              data: {
+                savingsId: savings.id,
+                date,
+                amount: dividend.amount,
+                total: newTotal,
+              },
+            });
+          }
+        }
+
+        // Group fund balance is derived from the cycle's cash in the ledger
+        await syncGroupFund(tx, cycle.id);
+
+        await syncInstallments(tx, loan.id);
+
+        if (shortfall && data.fundOverrideReason) {
+          await recordFundOverride(tx, {
+            loanId: loan.id,
+            cycleId: cycle.id,
+            shortfall,
+            reason: data.fundOverrideReason,
+            userId: user.id,
+          });
+        }
+
+        const settled = await tx.cycleAuction.update({
+          where: { id: auction.id },
+          data: {
+            status: "SETTLED",
+            winnerId: winner.id,
+            winningBid: winningBid.amount,
+            discount,
+            sequenceId: sequence.id,
+            loanId: loan.id,
+            settledAt: date,
+            settledById: user.id,
+          },
+        });
+
+        await tx.loanCycle.update({
+          where: { id: cycle.id },
+          data: { currentWeek: Math.max(cycle.currentWeek, auction.week) },
+        });
+
+        await recordAudit(tx, {
+          action: "CYCLE_AUCTION_SETTLED",
+          entityType: "LoanCycle",
+          entityId: cycle.id,
+          details: {
+            auctionId: auction.id,
+            week: auction.week,
+            potAmount: auction.potAmount,
+            bids: auction.bids.length,
+            winnerId: winner.id,
+            winningBid: winningBid.amount,
+            discount,
+            dividendMembers: dividends.length,
+            loanId: loan.id,
+          },
+          userId: user.id,
+        });
+
+        return { shortfall, settled: { auction: settled, sequence, loan } };
+      },
+      { timeout: 15000 }
+    );
+
+    if (!result.settled) {
+      return NextResponse.json(
+        { error: fundShortfallMessage(result.shortfall!), ...result.shortfall },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        ...result.settled,
+        message: `${winner.name} won with a bid of ${formatMoney(
+          winningBid.amount
+        )} - ${formatMoney(discount)} shared as dividend`,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error settling auction:", error);
+    return NextResponse.json(
+      { error: "Failed to settle auction" },
+      { status: 500 }
+    );
+  }
+}
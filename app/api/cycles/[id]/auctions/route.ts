@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { verifyToken } from "@/lib/auth";
+import { cookies } from "next/headers";
+import { z } from "zod";
+import { positiveMoneySchema, sumMoney } from "@/lib/money";
+
+const openAuctionSchema = z.object({
+  week: z.number().int().positive().optional(), // Defaults to the week after the last auction
+  potAmount: positiveMoneySchema.optional(), // Defaults to the active members' weekly contributions
+});
+
+// Auctions of a cycle with every bid placed, oldest week first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const cycle = await prisma.loanCycle.findUnique({
+      where: { id },
+      include: {
+        group: {
+          include: {
+            members: {
+              where: { isActive: true },
+              include: { member: true },
+            },
+          },
+        },
+        groupFund: true,
+        auctions: {
+          include: {
+            winner: { select: { id: true, name: true, userId: true } },
+            bids: {
+              include: {
+                member: { select: { id: true, name: true, userId: true } },
+              },
+              orderBy: { createdAt: "asc" },
+            },
+          },
+          orderBy: { week: "asc" },
+        },
+      },
+    });
+
+    if (!cycle) {
+      return NextResponse.json({ error: "Cycle not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ cycle }, { status: 200 });
+  } catch (error) {
+    console.error("Error fetching auctions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch auctions" },
+      { status: 500 }
+    );
+  }
+}
+
+// Open the next week's auction in an auction cycle
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user || user.role !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Forbidden - Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const data = openAuctionSchema.parse(body);
+
+    const cycle = await prisma.loanCycle.findUnique({
+      where: { id },
+      include: {
+        group: {
+          include: { members: { where: { isActive: true } } },
+        },
+        auctions: { orderBy: { week: "asc" } },
+      },
+    });
+
+    if (!cycle) {
+      return NextResponse.json({ error: "Cycle not found" }, { status: 404 });
+    }
+
+    if (cycle.allocationMode !== "AUCTION" || !cycle.group) {
+      return NextResponse.json(
+        { error: "This cycle does not allocate its pot by auction" },
+        { status: 400 }
+      );
+    }
+
+    if (!cycle.isActive) {
+      return NextResponse.json(
+        { error: "This cycle has ended" },
+        { status: 400 }
+      );
+    }
+
+    const open = cycle.auctions.find((a) => a.status === "OPEN");
+    if (open) {
+      return NextResponse.json(
+        { error: `Week ${open.week}'s auction is still open - settle it first` },
+        { status: 400 }
+      );
+    }
+
+    const lastWeek = cycle.auctions[cycle.auctions.length - 1]?.week ?? 0;
+    const week = data.week ?? lastWeek + 1;
+    if (cycle.auctions.some((a) => a.week === week)) {
+      return NextResponse.json(
+        { error: `Week ${week} has already been auctioned` },
+        { status: 400 }
+      );
+    }
+
+    const potAmount =
+      data.potAmount ??
+      sumMoney(cycle.group.members.map((gm) => gm.weeklyAmount));
+    if (potAmount <= 0) {
+      return NextResponse.json(
+        { error: "The group has no active members contributing to the pot" },
+        { status: 400 }
+      );
+    }
+
+    const auction = await prisma.cycleAuction.create({
+      data: {
+        cycleId: cycle.id,
+        week,
+        potAmount,
+        openedById: user.id,
+      },
+    });
+
+    return NextResponse.json({ auction }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error opening auction:", error);
+    return NextResponse.json(
+      { error: "Failed to open auction" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,357 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { verifyToken } from "@/lib/auth";
+import { cookies } from "next/headers";
+import { z } from "zod";
+import { recordAudit } from "@/lib/audit";
+import { loanCalendarInclude } from "@/lib/installments";
+import {
+  drawRotationOrder,
+  generateDrawSeed,
+  verifyRotationDraw,
+} from "@/lib/draw";
+import {
+  DEFAULT_WEEKLY_AMOUNT,
+  formatMoney,
+  positiveMoneySchema,
+  sumMoney,
+} from "@/lib/money";
+import {
+  calculateArrears,
+  loanSchedule,
+  meetingPausesOf,
+} from "@/lib/utils";
+
+const drawRotationSchema = z.object({
+  officer: z.string().trim().min(1).optional(), // Who drew the lots - defaults to the admin
+  excludeReceived: z.boolean().default(true),
+  excludeOverdue: z.boolean().default(false),
+  loanAmount: positiveMoneySchema.optional(), // Defaults to the active members' weekly contributions
+});
+
+type ExclusionReason = "RECEIVED" | "OVERDUE";
+
+// Draws of a cycle, newest first, each re-run from its seed to show whether
+// the saved order still matches
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const draws = await prisma.rotationDraw.findMany({
+      where: { cycleId: id },
+      include: {
+        sequences: {
+          include: {
+            member: { select: { id: true, name: true, userId: true } },
+          },
+          orderBy: { week: "asc" },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json(
+      {
+        draws: draws.map((draw) => ({
+          ...draw,
+          verified: verifyRotationDraw(draw),
+        })),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Error fetching rotation draws:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch rotation draws" },
+      { status: 500 }
+    );
+  }
+}
+
+// Draw lots for the rest of a cycle's rotation order. Every active member who
+// passes the constraints gets one week, from the week after the last slot.
+// The seed, the eligible members and who drew are kept, so the order can be
+// re-verified later.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user || user.role !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Forbidden - Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const data = drawRotationSchema.parse(body);
+
+    const cycle = await prisma.loanCycle.findUnique({
+      where: { id },
+      include: {
+        group: {
+          include: {
+            members: {
+              where: { isActive: true },
+              include: { member: true },
+            },
+          },
+        },
+        sequences: { orderBy: { week: "asc" } },
+        loans: { where: { disbursedAt: { not: null } } },
+      },
+    });
+
+    if (!cycle) {
+      return NextResponse.json({ error: "Cycle not found" }, { status: 404 });
+    }
+
+    const group = cycle.group;
+    if (!group || cycle.allocationMode !== "FIXED") {
+      return NextResponse.json(
+        { error: "Only a group's fixed rotation cycle can be drawn" },
+        { status: 400 }
+      );
+    }
+
+    if (!cycle.isActive) {
+      return NextResponse.json(
+        { error: "This cycle has ended" },
+        { status: 400 }
+      );
+    }
+
+    // A drawn order stands until it is paid out - no redrawing open slots
+    if (cycle.sequences.some((s) => s.status === "PENDING")) {
+      return NextResponse.json(
+        {
+          error:
+            "The cycle still has rotation slots waiting to be paid out - the order has already been drawn",
+        },
+        { status: 400 }
+      );
+    }
+
+    const now = new Date();
+    const memberIds = group.members.map((gm) => gm.memberId);
+    const reasons = new Map<string, ExclusionReason[]>();
+    const exclude = (memberId: string, reason: ExclusionReason) =>
+      reasons.set(memberId, [...(reasons.get(memberId) ?? []), reason]);
+
+    if (data.excludeReceived) {
+      // Paid a rotation slot or a loan from this cycle's pot (a top-up only
+      // carries an earlier loan forward)
+      const received = new Set([
+        ...cycle.sequences.map((s) => s.memberId),
+        ...cycle.loans.filter((l) => !l.topUpOfId).map((l) => l.memberId),
+      ]);
+      memberIds
+        .filter((memberId) => received.has(memberId))
+        .forEach((memberId) => exclude(memberId, "RECEIVED"));
+    }
+
+    if (data.excludeOverdue) {
+      // Loans behind their schedule, or weekly contributions past their date
+      // that were not paid - with no payment recorded at all, or one not
+      // marked paid
+      const [loans, collections] = await Promise.all([
+        prisma.loan.findMany({
+          where: {
+            memberId: { in: memberIds },
+            status: { in: ["ACTIVE", "DEFAULTED"] },
+          },
+          include: loanCalendarInclude,
+        }),
+        prisma.weeklyCollection.findMany({
+          where: { groupId: group.id, collectionDate: { lt: now } },
+          select: {
+            collectionDate: true,
+            payments: {
+              where: { status: "PAID" },
+              select: { memberId: true },
+            },
+          },
+        }),
+      ]);
+
+      // Only collections held since the member joined were theirs to pay
+      const unpaid = group.members
+        .filter((gm) =>
+          collections.some(
+            (collection) =>
+              collection.collectionDate >= gm.joiningDate &&
+              !collection.payments.some(
+                (payment) => payment.memberId === gm.memberId
+              )
+          )
+        )
+        .map((gm) => gm.memberId);
+
+      const overdue = new Set([
+        ...loans
+          .filter(
+            (loan) =>
+              loan.status === "DEFAULTED" ||
+              calculateArrears(
+                loanSchedule(loan),
+                {
+                  ...loan,
+                  meetingDay: loan.cycle?.group?.meetingDay,
+                  pauses: meetingPausesOf(loan),
+                },
+                now
+              ).weeksInArrears > 0
+          )
+          .map((loan) => loan.memberId),
+        ...unpaid,
+      ]);
+      memberIds
+        .filter((memberId) => overdue.has(memberId))
+        .forEach((memberId) => exclude(memberId, "OVERDUE"));
+    }
+
+    const eligible = memberIds.filter((memberId) => !reasons.has(memberId));
+    if (eligible.length === 0) {
+      return NextResponse.json(
+        { error: "No members are eligible for the draw" },
+        { status: 400 }
+      );
+    }
+
+    const loanAmount =
+      data.loanAmount ??
+      sumMoney(
+        group.members.map(
+          (gm) => gm.weeklyAmount || group.weeklyAmount || DEFAULT_WEEKLY_AMOUNT
+        )
+      );
+    if (loanAmount <= 0) {
+      return NextResponse.json(
+        { error: "The group has no active members contributing to the pot" },
+        { status: 400 }
+      );
+    }
+
+    // The seed is only ever picked here, so no one can choose an order by
+    // trying seeds before the draw
+    const seed = generateDrawSeed();
+    const sortedIds = [...eligible].sort();
+    const order = drawRotationOrder(seed, sortedIds);
+    const firstWeek = (cycle.sequences[cycle.sequences.length - 1]?.week ?? 0) + 1;
+    const officer = data.officer || user.name || user.email;
+    const names = new Map(
+      group.members.map((gm) => [gm.memberId, gm.member.name])
+    );
+    const excluded = [...reasons].map(([memberId, memberReasons]) => ({
+      memberId,
+      name: names.get(memberId) ?? "",
+      reasons: memberReasons,
+    }));
+
+    const result = await prisma.$transaction(
+      async (tx) => {
+        const draw = await tx.rotationDraw.create({
+          data: {
+            cycleId: cycle.id,
+            seed,
+            memberIds: sortedIds,
+            order,
+            excluded,
+            excludeReceived: data.excludeReceived,
+            excludeOverdue: data.excludeOverdue,
+            firstWeek,
+            loanAmount,
+            officer,
+            drawnById: user.id,
+          },
+        });
+
+        await tx.loanSequence.createMany({
+          data: order.map((memberId, index) => ({
+            cycleId: cycle.id,
+            memberId,
+            week: firstWeek + index,
+            loanAmount,
+            drawId: draw.id,
+          })),
+        });
+
+        await recordAudit(tx, {
+          action: "ROTATION_DRAWN",
+          entityType: "LoanCycle",
+          entityId: cycle.id,
+          details: {
+            drawId: draw.id,
+            seed,
+            officer,
+            firstWeek,
+            loanAmount,
+            order,
+            excluded,
+          },
+          userId: user.id,
+        });
+
+        return tx.rotationDraw.findUnique({
+          where: { id: draw.id },
+          include: {
+            sequences: {
+              include: {
+                member: { select: { id: true, name: true, userId: true } },
+              },
+              orderBy: { week: "asc" },
+            },
+          },
+        });
+      },
+      { timeout: 15000 }
+    );
+
+    return NextResponse.json(
+      {
+        draw: result,
+        message: `Rotation order drawn for weeks ${firstWeek}-${
+          firstWeek + order.length - 1
+        } (${formatMoney(loanAmount)} each) with seed ${seed}`,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error drawing rotation order:", error);
+    return NextResponse.json(
+      { error: "Failed to draw rotation order" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,266 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { verifyToken } from "@/lib/auth";
+import { cookies } from "next/headers";
+import { z } from "zod";
+import { moneySchema } from "@/lib/money";
+import { postJournalEntry, syncGroupFund } from "@/lib/ledger";
+import { checkPeriodsOpen } from "@/lib/periods";
+import { checkGuarantors } from "@/lib/guarantors";
+import { syncInstallments } from "@/lib/installments";
+import {
+  addToWaitlist,
+  checkFundAvailable,
+  fundShortfallMessage,
+  recordFundOverride,
+} from "@/lib/funds";
+import { guarantorRulesOf, NO_GUARANTOR_LIMITS } from "@/lib/utils";
+
+const createLoanSchema = z.object({
+  memberId: z.string().min(1, "Member is required"), // Member receiving the loan
+  loanAmount: moneySchema.positive("Loan amount must be positive"),
+  loanWeeks: z
+    .number()
+    .int()
+    .positive("Loan duration must be positive")
+    .default(10),
+  reason: z.string().optional(), // Reason for the loan
+  disbursedAt: z.string().optional(), // Optional disbursal date
+  disbursementMethod: z.enum(["CASH", "UPI", "BANK_TRANSFER"]).optional(), // Payment method for disbursement
+  guarantor1Id: z.string().optional(),
+  guarantor2Id: z.string().optional(),
+  fundOverrideReason: z.string().trim().min(1).optional(), // Pay out although the group fund cannot cover it
+});
+
+// Lend to a member from an active cycle's group fund. The loan is disbursed
+// at once unless it waits for its guarantors or for the fund to cover it.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user || user.role !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Forbidden - Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const data = createLoanSchema.parse(body);
+
+    const cycle = await prisma.loanCycle.findUnique({
+      where: { id },
+      include: { group: true },
+    });
+
+    if (!cycle) {
+      return NextResponse.json({ error: "Cycle not found" }, { status: 404 });
+    }
+
+    if (!cycle.isActive) {
+      return NextResponse.json(
+        { error: "Loans can only be added to an active cycle" },
+        { status: 400 }
+      );
+    }
+
+    if (cycle.allocationMode === "AUCTION") {
+      return NextResponse.json(
+        { error: "An auction cycle pays out through its weekly auctions" },
+        { status: 400 }
+      );
+    }
+
+    const member = await prisma.member.findUnique({
+      where: { id: data.memberId },
+    });
+
+    if (!member) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 });
+    }
+
+    const group = cycle.group;
+    const groupMember = group
+      ? await prisma.groupMember.findUnique({
+          where: {
+            groupId_memberId: {
+              groupId: group.id,
+              memberId: data.memberId,
+            },
+          },
+        })
+      : null;
+
+    if (group && (!groupMember || !groupMember.isActive)) {
+      return NextResponse.json(
+        { error: "Member not found in group or is inactive" },
+        { status: 404 }
+      );
+    }
+
+    // Guarantors must be allowed by the group's rules
+    const guarantorError = await checkGuarantors(
+      prisma,
+      {
+        borrowerId: data.memberId,
+        guarantorIds: [data.guarantor1Id, data.guarantor2Id],
+        amount: data.loanAmount,
+      },
+      group ? guarantorRulesOf(group) : NO_GUARANTOR_LIMITS
+    );
+    if (guarantorError) {
+      return NextResponse.json({ error: guarantorError }, { status: 400 });
+    }
+
+    // A guaranteed loan waits for its guarantors to accept before it is
+    // disbursed (see /api/loans/disburse)
+    const awaitingGuarantors = !!(data.guarantor1Id || data.guarantor2Id);
+
+    const disbursedAt = data.disbursedAt
+      ? new Date(data.disbursedAt)
+      : new Date();
+
+    // Nothing can be posted into a closed month
+    const closedPeriodError = await checkPeriodsOpen(prisma, disbursedAt);
+    if (closedPeriodError) {
+      return NextResponse.json({ error: closedPeriodError }, { status: 400 });
+    }
+
+    const result = await prisma.$transaction(
+      async (tx) => {
+        // A loan the fund cannot cover waits its turn on the waitlist unless
+        // an admin overrides the check
+        const shortfall = awaitingGuarantors
+          ? null
+          : await checkFundAvailable(tx, {
+              cycleId: cycle.id,
+              amount: data.loanAmount,
+            });
+        const unfunded = !!shortfall && !data.fundOverrideReason;
+
+        const loan = await tx.loan.create({
+          data: {
+            memberId: data.memberId,
+            cycleId: cycle.id,
+            principal: data.loanAmount,
+            remaining: data.loanAmount,
+            weeks: data.loanWeeks,
+            currentWeek: 0,
+            status: awaitingGuarantors || unfunded ? "PENDING" : "ACTIVE",
+            disbursedAt: awaitingGuarantors || unfunded ? null : disbursedAt,
+            disbursementMethod: data.disbursementMethod || null,
+            guarantor1Id: data.guarantor1Id || null,
+            guarantor2Id: data.guarantor2Id || null,
+            // Interest terms are fixed for the life of the loan
+            ...(group && {
+              interestMethod: group.interestMethod,
+              interestRate: group.interestRate,
+              interestRatePeriod: group.interestRatePeriod,
+            }),
+            ...(data.reason && { reason: data.reason }),
+          },
+        });
+
+        if (shortfall && unfunded) {
+          await addToWaitlist(tx, {
+            cycleId: cycle.id,
+            memberId: data.memberId,
+            amount: data.loanAmount,
+            loanId: loan.id,
+            reason: fundShortfallMessage(shortfall),
+            userId: user.id,
+          });
+          return { loan, waitlisted: true };
+        }
+
+        if (awaitingGuarantors) {
+          return { loan, waitlisted: false };
+        }
+
+        if (groupMember) {
+          await tx.groupMember.update({
+            where: { id: groupMember.id },
+            data: {
+              totalReceived: {
+                increment: data.loanAmount,
+              },
+            },
+          });
+        }
+
+        // Post the disbursement: the loan is paid out of the cycle's group fund
+        await postJournalEntry(tx, {
+          date: disbursedAt,
+          description: `Loan disbursed to ${member.name}`,
+          source: "LOAN_DISBURSEMENT",
+          sourceId: loan.id,
+          groupId: cycle.groupId,
+          cycleId: cycle.id,
+          createdById: user.id,
+          lines: [
+            {
+              account: "LOANS_RECEIVABLE",
+              debit: data.loanAmount,
+              memberId: data.memberId,
+              loanId: loan.id,
+            },
+            { account: "CASH", credit: data.loanAmount },
+          ],
+        });
+
+        // Group fund balance is derived from the cycle's cash in the ledger
+        await syncGroupFund(tx, cycle.id);
+
+        await syncInstallments(tx, loan.id);
+
+        if (shortfall && data.fundOverrideReason) {
+          await recordFundOverride(tx, {
+            loanId: loan.id,
+            cycleId: cycle.id,
+            shortfall,
+            reason: data.fundOverrideReason,
+            userId: user.id,
+          });
+        }
+
+        return { loan, waitlisted: false };
+      },
+      { timeout: 15000 }
+    );
+
+    return NextResponse.json(
+      {
+        loan: result.loan,
+        message: result.waitlisted
+          ? "Loan added - the group fund cannot cover it yet, so it is on the waitlist"
+          : awaitingGuarantors
+          ? "Loan added - it is disbursed once its guarantors accept"
+          : "Loan added and disbursed successfully",
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error adding loan to cycle:", error);
+    return NextResponse.json(
+      { error: "Failed to add loan to cycle" },
+      { status: 500 }
+    );
+  }
+}
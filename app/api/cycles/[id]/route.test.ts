@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+
+const { db, postJournalEntry } = vi.hoisted(() => {
+  const db = {
+    loanCycle: { findUnique: vi.fn(), update: vi.fn() },
+    journalEntry: { findMany: vi.fn() },
+    journalLine: { findMany: vi.fn() },
+    collectionPayment: { aggregate: vi.fn() },
+    savings: { findFirst: vi.fn() },
+    savingsTransaction: { create: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  db.$transaction.mockImplementation(async (fn: (tx: unknown) => unknown) =>
+    fn(db)
+  );
+  return { db, postJournalEntry: vi.fn() };
+});
+
+vi.mock("@/lib/prisma", () => ({ default: db }));
+vi.mock("@/lib/auth", () => ({
+  verifyToken: async () => ({ id: "admin-1", role: "ADMIN" }),
+}));
+vi.mock("next/headers", () => ({
+  cookies: async () => ({ get: () => ({ value: "token" }) }),
+}));
+vi.mock("@/lib/periods", () => ({ checkPeriodsOpen: async () => null }));
+vi.mock("@/lib/ledger", () => ({
+  getAccountBalance: async () => 60000,
+  postJournalEntry,
+  syncGroupFund: vi.fn(),
+  syncSavings: async () => 0,
+}));
+
+import { PUT } from "./route";
+
+// A cycle merged from one-loan cycles: the first loan was repaid, and shared
+// out to savings, before the ledger was kept; the second was repaid since
+const cycle = {
+  id: "cycle-1",
+  cycleNumber: 1,
+  groupId: "group-1",
+  isActive: true,
+  endDate: null,
+  group: {
+    members: [
+      { member: { id: "member-1", name: "Asha" } },
+      { member: { id: "member-2", name: "Meena" } },
+    ],
+  },
+  loans: [
+    { id: "loan-1", status: "COMPLETED", totalPrincipalPaid: 100000 },
+    { id: "loan-2", status: "COMPLETED", totalPrincipalPaid: 60000 },
+  ],
+};
+
+const close = () =>
+  PUT(
+    new NextRequest(`http://localhost/api/cycles/${cycle.id}`, {
+      method: "PUT",
+      body: JSON.stringify({ isActive: false }),
+    }),
+    { params: Promise.resolve({ id: cycle.id }) }
+  );
+
+describe("PUT /api/cycles/[id]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.loanCycle.findUnique
+      .mockResolvedValueOnce(cycle)
+      .mockResolvedValue({ ...cycle, isActive: false });
+    db.journalEntry.findMany.mockResolvedValue([]);
+    db.journalLine.findMany.mockResolvedValue([{ loanId: "loan-2" }]);
+    db.collectionPayment.aggregate.mockResolvedValue({
+      _sum: { amount: 1000 },
+    });
+    db.savings.findFirst.mockImplementation(async ({ where }) => ({
+      id: `savings-${where.memberId}`,
+    }));
+  });
+
+  it("shares out only the principal repaid since the ledger on closing", async () => {
+    const response = await close();
+
+    expect(response.status).toBe(200);
+    expect(db.journalLine.findMany.mock.calls[0][0].where).toEqual({
+      loanId: { in: ["loan-1", "loan-2"] },
+    });
+    const { lines } = postJournalEntry.mock.calls[0][1];
+    expect(lines).toContainEqual({
+      account: "MEMBER_CONTRIBUTIONS",
+      debit: 60000,
+    });
+    expect(
+      lines.filter(
+        (line: { account: string }) => line.account === "MEMBER_SAVINGS"
+      )
+    ).toEqual([
+      expect.objectContaining({ memberId: "member-1", credit: 30000 }),
+      expect.objectContaining({ memberId: "member-2", credit: 30000 }),
+    ]);
+  });
+});
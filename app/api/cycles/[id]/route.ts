@@ -3,13 +3,16 @@ import prisma from "@/lib/prisma";
 import { verifyToken } from "@/lib/auth";
 import { cookies } from "next/headers";
 import { z } from "zod";
+import { positiveMoneySchema } from "@/lib/money";
 import { Prisma } from "@prisma/client";
+import { checkPeriodsOpen } from "@/lib/periods";
+import { shareOutCycleFund } from "@/lib/funds";
 
 const updateCycleSchema = z.object({
   startDate: z.string().optional(),
-  endDate: z.string().optional(),
+  endDate: z.string().nullable().optional(), // null clears it
   isActive: z.boolean().optional(),
-  weeklyAmount: z.number().positive().optional(),
+  weeklyAmount: positiveMoneySchema.optional(),
 });
 
 export async function GET(
@@ -90,16 +93,69 @@ export async function PUT(
     const body = await request.json();
     const data = updateCycleSchema.parse(body);
 
+    const existing = await prisma.loanCycle.findUnique({ where: { id } });
+
+    if (!existing) {
+      return NextResponse.json({ error: "Cycle not found" }, { status: 404 });
+    }
+
+    // A group runs one cycle at a time
+    if (data.isActive && !existing.isActive && existing.groupId) {
+      const activeCycle = await prisma.loanCycle.findFirst({
+        where: { groupId: existing.groupId, isActive: true },
+      });
+      if (activeCycle) {
+        return NextResponse.json(
+          {
+            error: `Group already has an active cycle (#${activeCycle.cycleNumber}) - close it before reopening this one`,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Closing a cycle may share its fund out, which is posted today
+    const closing = data.isActive === false && existing.isActive;
+    const closedAt = new Date();
+    if (closing) {
+      const closedPeriodError = await checkPeriodsOpen(prisma, closedAt);
+      if (closedPeriodError) {
+        return NextResponse.json({ error: closedPeriodError }, { status: 400 });
+      }
+    }
+
     const updateData: Prisma.LoanCycleUpdateInput = {};
     if (data.startDate) updateData.startDate = new Date(data.startDate);
-    if (data.endDate !== undefined)
-      updateData.endDate = data.endDate ? new Date(data.endDate) : null;
+    if (data.endDate) updateData.endDate = new Date(data.endDate);
+    else if (closing) updateData.endDate = existing.endDate ?? closedAt;
+    else if (data.endDate !== undefined) updateData.endDate = null;
     if (data.isActive !== undefined) updateData.isActive = data.isActive;
     if (data.weeklyAmount) updateData.weeklyAmount = data.weeklyAmount;
 
-    const cycle = await prisma.loanCycle.update({
+    await prisma.$transaction(
+      async (tx) => {
+        await tx.loanCycle.update({
+          where: { id },
+          data: updateData,
+        });
+
+        // Once its loans are repaid a closed cycle's fund is shared out to
+        // the members' savings; otherwise the last repayment does it
+        if (closing) {
+          await shareOutCycleFund(tx, {
+            cycleId: id,
+            date: closedAt,
+            description: `Savings distribution on closing cycle #${existing.cycleNumber}`,
+            sourceId: id,
+            userId: user.id,
+          });
+        }
+      },
+      { timeout: 15000 }
+    );
+
+    const cycle = await prisma.loanCycle.findUnique({
       where: { id },
-      data: updateData,
       include: {
         loans: {
           include: { member: true },
@@ -205,6 +261,16 @@ export async function DELETE(
         where: { cycleId: id },
       });
 
+      // Delete rotation draws
+      await tx.rotationDraw.deleteMany({
+        where: { cycleId: id },
+      });
+
+      // Delete waitlist entries
+      await tx.loanWaitlistEntry.deleteMany({
+        where: { cycleId: id },
+      });
+
       // Delete collections
       await tx.weeklyCollection.deleteMany({
         where: { cycleId: id },
@@ -3,21 +3,15 @@ import prisma from "@/lib/prisma";
 import { verifyToken } from "@/lib/auth";
 import { cookies } from "next/headers";
 import { z } from "zod";
+import { DEFAULT_WEEKLY_AMOUNT } from "@/lib/money";
 
+// A cycle is a period of a group's savings and lending: one group fund, with
+// loans added to it as the fund allows (see ./[id]/loans), or, in an auction
+// cycle, each week's pot going to the lowest bidder (see ./[id]/auctions)
 const createCycleSchema = z.object({
-  groupId: z.string().optional(), // Optional group - can work without groups
-  memberId: z.string().min(1, "Member is required"), // Member receiving the loan
-  loanAmount: z.number().positive("Loan amount must be positive"),
-  loanWeeks: z
-    .number()
-    .int()
-    .positive("Loan duration must be positive")
-    .default(10),
-  reason: z.string().optional(), // Reason for the loan
-  disbursedAt: z.string().optional(), // Optional disbursal date
-  disbursementMethod: z.enum(["CASH", "UPI", "BANK_TRANSFER"]).optional(), // Payment method for disbursement
-  guarantor1Id: z.string().optional(),
-  guarantor2Id: z.string().optional(),
+  groupId: z.string().min(1, "Group is required"),
+  startDate: z.string().optional(), // Defaults to today
+  allocationMode: z.enum(["FIXED", "AUCTION"]).default("FIXED"),
 });
 
 export async function GET(request: NextRequest) {
@@ -43,7 +37,9 @@ export async function GET(request: NextRequest) {
           include: { member: true },
           orderBy: { week: "asc" },
         },
+        draws: { orderBy: { createdAt: "desc" } },
         groupFund: true,
+        group: { select: { id: true, name: true } },
       },
       orderBy: { cycleNumber: "desc" },
     });
@@ -78,170 +74,59 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const data = createCycleSchema.parse(body);
 
-    // Verify member exists
-    const member = await prisma.member.findUnique({
-      where: { id: data.memberId },
+    const group = await prisma.group.findUnique({
+      where: { id: data.groupId },
     });
 
-    if (!member) {
-      return NextResponse.json(
-        { error: "Member not found" },
-        { status: 404 }
-      );
+    if (!group) {
+      return NextResponse.json({ error: "Group not found" }, { status: 404 });
     }
 
-    // Get group if provided, otherwise work without group
-    let group = null;
-    let groupMember = null;
-    let weeklyAmount = 100; // Default weekly amount
-
-    if (data.groupId) {
-      group = await prisma.group.findUnique({
-        where: { id: data.groupId },
-      });
-
-      if (!group) {
-        return NextResponse.json(
-          { error: "Group not found" },
-          { status: 404 }
-        );
-      }
+    // A group runs one cycle at a time, so its contributions and loans share
+    // one fund
+    const activeCycle = await prisma.loanCycle.findFirst({
+      where: { groupId: group.id, isActive: true },
+    });
 
-      groupMember = await prisma.groupMember.findUnique({
-        where: {
-          groupId_memberId: {
-            groupId: data.groupId,
-            memberId: data.memberId,
-          },
+    if (activeCycle) {
+      return NextResponse.json(
+        {
+          error: `Group already has an active cycle (#${activeCycle.cycleNumber}) - close it before starting the next one`,
         },
-      });
-
-      if (!groupMember || !groupMember.isActive) {
-        return NextResponse.json(
-          { error: "Member not found in group or is inactive" },
-          { status: 404 }
-        );
-      }
-
-      weeklyAmount = group.weeklyAmount || 100;
+        { status: 400 }
+      );
     }
 
-    // Get the next cycle number (for group if provided, or global if no group)
     const lastCycle = await prisma.loanCycle.findFirst({
-      where: data.groupId ? { groupId: data.groupId } : { groupId: null },
+      where: { groupId: group.id },
       orderBy: { cycleNumber: "desc" },
     });
 
-    const cycleNumber = lastCycle ? lastCycle.cycleNumber + 1 : 1;
-
-    // Check if cycle with this number already exists (only if group provided)
-    if (data.groupId) {
-      const existingCycle = await prisma.loanCycle.findUnique({
-        where: {
-          groupId_cycleNumber: {
-            groupId: data.groupId,
-            cycleNumber: cycleNumber,
-          },
-        },
-      });
-
-      if (existingCycle) {
-        return NextResponse.json(
-          { error: "Cycle number already exists for this group" },
-          { status: 400 }
-        );
-      }
-    }
-
-    // Calculate start date (disbursal date or now)
-    const startDate = data.disbursedAt
-      ? new Date(data.disbursedAt)
-      : new Date();
-
-    // Create cycle and loan in a transaction
-    const result = await prisma.$transaction(async (tx) => {
-      // Get current group fund balance from previous cycles or initialize
-      // For now, we'll start with 0 and funds will be added through collections
-      const cycle = await tx.loanCycle.create({
-        data: {
-          cycleNumber: cycleNumber,
-          groupId: data.groupId || null,
-          startDate: startDate,
-          weeklyAmount: weeklyAmount,
-          isActive: true,
-          groupFund: {
-            create: {
-              investmentPool: 0, // Will be filled by member contributions via collections
-              totalFunds: 0,
-            },
+    const cycle = await prisma.loanCycle.create({
+      data: {
+        cycleNumber: lastCycle ? lastCycle.cycleNumber + 1 : 1,
+        groupId: group.id,
+        startDate: data.startDate ? new Date(data.startDate) : new Date(),
+        weeklyAmount: group.weeklyAmount || DEFAULT_WEEKLY_AMOUNT,
+        allocationMode: data.allocationMode,
+        isActive: true,
+        groupFund: {
+          create: {
+            investmentPool: 0, // Filled by member contributions via collections
+            totalFunds: 0,
           },
         },
-      });
-
-      // Create and disburse the loan
-      // Note: reason field is optional in schema
-      const loan = await tx.loan.create({
-        data: {
-          memberId: data.memberId,
-          cycleId: cycle.id,
-          principal: data.loanAmount,
-          remaining: data.loanAmount,
-          weeks: data.loanWeeks,
-          currentWeek: 0,
-          status: "ACTIVE",
-          disbursedAt: startDate,
-          disbursementMethod: data.disbursementMethod || null,
-          guarantor1Id: data.guarantor1Id || null,
-          guarantor2Id: data.guarantor2Id || null,
-          // reason is optional - only include if provided and Prisma client supports it
-          ...(data.reason && { reason: data.reason }),
-        },
-      });
-
-      // Update group member's total received (if in a group)
-      if (groupMember) {
-        await tx.groupMember.update({
-          where: { id: groupMember.id },
-          data: {
-            totalReceived: {
-              increment: data.loanAmount,
-            },
-          },
-        });
-      }
-
-      // Deduct loan amount from group fund's investment pool
-      // The loan comes from the group's pooled funds (member contributions)
-      // Get the group fund that was just created
-      const groupFund = await tx.groupFund.findUnique({
-        where: { cycleId: cycle.id },
-      });
-      
-      if (groupFund) {
-        // Note: If investment pool is 0 or less than loan amount, that's okay
-        // The loan is disbursed from future member contributions
-        // We track the deduction for accounting purposes
-        await tx.groupFund.update({
-          where: { id: groupFund.id },
-          data: {
-            investmentPool: {
-              decrement: data.loanAmount,
-            },
-            totalFunds: {
-              decrement: data.loanAmount,
-            },
-          },
-        });
-      }
-
-      return { cycle, loan };
+      },
+      include: { groupFund: true },
     });
 
     return NextResponse.json(
       {
-        cycle: result.cycle,
-        loan: result.loan,
-        message: "Loan cycle created and loan disbursed successfully",
+        cycle,
+        message:
+          data.allocationMode === "AUCTION"
+            ? "Auction cycle created - open the first week's auction once the pot is collected"
+            : "Cycle created - add loans to it as contributions build up its fund",
       },
       { status: 201 }
     );
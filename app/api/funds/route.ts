@@ -3,10 +3,13 @@ import prisma from '@/lib/prisma'
 import { verifyToken } from '@/lib/auth'
 import { cookies } from 'next/headers'
 import { z } from 'zod'
+import { positiveMoneySchema } from '@/lib/money'
+import { postJournalEntry, syncGroupFund } from '@/lib/ledger'
+import { checkPeriodsOpen } from '@/lib/periods'
 
 const addInvestmentSchema = z.object({
   cycleId: z.string(),
-  amount: z.number().positive(),
+  amount: positiveMoneySchema,
   date: z.string(),
 })
 
@@ -79,6 +82,12 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const data = addInvestmentSchema.parse(body)
 
+    // Nothing can be posted into a closed month
+    const closedPeriodError = await checkPeriodsOpen(prisma, new Date(data.date))
+    if (closedPeriodError) {
+      return NextResponse.json({ error: closedPeriodError }, { status: 400 })
+    }
+
     // Get or create group fund for cycle
     let groupFund = await prisma.groupFund.findFirst({
       where: { cycleId: data.cycleId },
@@ -94,16 +103,30 @@ export async function POST(request: NextRequest) {
       })
     }
 
-    // Add to investment pool
-    const newInvestmentPool = groupFund.investmentPool + data.amount
-    const newTotalFunds = groupFund.totalFunds + data.amount
+    const cycle = await prisma.loanCycle.findUnique({
+      where: { id: data.cycleId },
+      select: { groupId: true },
+    })
+
+    // Post the investment into the cycle's group fund
+    await postJournalEntry(prisma, {
+      date: new Date(data.date),
+      description: 'Investment added to group pool',
+      source: 'FUND_INVESTMENT',
+      sourceId: groupFund.id,
+      groupId: cycle?.groupId,
+      cycleId: data.cycleId,
+      createdById: user.id,
+      lines: [
+        { account: 'CASH', debit: data.amount },
+        { account: 'CAPITAL_INVESTMENT', credit: data.amount },
+      ],
+    })
 
-    const updatedFund = await prisma.groupFund.update({
+    // Group fund balance is derived from the cycle's cash in the ledger
+    await syncGroupFund(prisma, data.cycleId)
+    const updatedFund = await prisma.groupFund.findUniqueOrThrow({
       where: { id: groupFund.id },
-      data: {
-        investmentPool: newInvestmentPool,
-        totalFunds: newTotalFunds,
-      },
     })
 
     return NextResponse.json(
@@ -0,0 +1,219 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { verifyToken } from "@/lib/auth";
+import { cookies } from "next/headers";
+import { z } from "zod";
+import { recordAudit } from "@/lib/audit";
+import { syncGroupInstallments } from "@/lib/installments";
+
+const addHolidaySchema = z.object({
+  startDate: z.string(),
+  endDate: z.string(), // Inclusive
+  reason: z.string().trim().min(1, "Reason is required"),
+});
+
+// Weeks the group does not meet (harvest, festivals), earliest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const holidays = await prisma.groupHoliday.findMany({
+      where: { groupId: id },
+      orderBy: { startDate: "asc" },
+    });
+
+    return NextResponse.json({ holidays }, { status: 200 });
+  } catch (error) {
+    console.error("Error fetching group holidays:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch group holidays" },
+      { status: 500 }
+    );
+  }
+}
+
+// Add a holiday. Meetings in it are skipped, so the due dates of the group's
+// outstanding loans move on and are rebuilt.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user || user.role !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Forbidden - Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const data = addHolidaySchema.parse(body);
+
+    const startDate = new Date(data.startDate);
+    const endDate = new Date(data.endDate);
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+    }
+
+    if (endDate < startDate) {
+      return NextResponse.json(
+        { error: "End date must be on or after the start date" },
+        { status: 400 }
+      );
+    }
+
+    const group = await prisma.group.findUnique({ where: { id } });
+    if (!group) {
+      return NextResponse.json({ error: "Group not found" }, { status: 404 });
+    }
+
+    const holiday = await prisma.$transaction(
+      async (tx) => {
+        const created = await tx.groupHoliday.create({
+          data: {
+            groupId: id,
+            startDate,
+            endDate,
+            reason: data.reason,
+            createdById: user.id,
+          },
+        });
+
+        const loansRescheduled = await syncGroupInstallments(tx, id);
+
+        await recordAudit(tx, {
+          action: "GROUP_HOLIDAY_ADDED",
+          entityType: "Group",
+          entityId: id,
+          reason: data.reason,
+          details: {
+            holidayId: created.id,
+            startDate: startDate.toISOString(),
+            endDate: endDate.toISOString(),
+            loansRescheduled,
+          },
+          userId: user.id,
+        });
+
+        return created;
+      },
+      { timeout: 15000 }
+    );
+
+    return NextResponse.json({ holiday }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error adding group holiday:", error);
+    return NextResponse.json(
+      { error: "Failed to add group holiday" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user || user.role !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Forbidden - Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const holidayId = searchParams.get("holidayId");
+
+    if (!holidayId) {
+      return NextResponse.json(
+        { error: "holidayId is required" },
+        { status: 400 }
+      );
+    }
+
+    const holiday = await prisma.groupHoliday.findFirst({
+      where: { id: holidayId, groupId: id },
+    });
+
+    if (!holiday) {
+      return NextResponse.json(
+        { error: "Holiday not found in group" },
+        { status: 404 }
+      );
+    }
+
+    await prisma.$transaction(
+      async (tx) => {
+        await tx.groupHoliday.delete({ where: { id: holiday.id } });
+
+        const loansRescheduled = await syncGroupInstallments(tx, id);
+
+        await recordAudit(tx, {
+          action: "GROUP_HOLIDAY_REMOVED",
+          entityType: "Group",
+          entityId: id,
+          details: {
+            holidayId: holiday.id,
+            startDate: holiday.startDate.toISOString(),
+            endDate: holiday.endDate.toISOString(),
+            reason: holiday.reason,
+            loansRescheduled,
+          },
+          userId: user.id,
+        });
+      },
+      { timeout: 15000 }
+    );
+
+    return NextResponse.json(
+      { message: "Holiday removed" },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Error removing group holiday:", error);
+    return NextResponse.json(
+      { error: "Failed to remove group holiday" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,12 +3,20 @@ import prisma from "@/lib/prisma";
 import { verifyToken } from "@/lib/auth";
 import { cookies } from "next/headers";
 import { z } from "zod";
+import { DEFAULT_WEEKLY_AMOUNT, positiveMoneySchema } from "@/lib/money";
+import {
+  postJournalEntry,
+  syncGroupMemberContribution,
+  syncSavings,
+} from "@/lib/ledger";
+import { checkPeriodsOpen } from "@/lib/periods";
+import { collectionDateOf } from "@/lib/utils";
 
 const addMemberSchema = z.object({
   memberId: z.string(),
   joiningDate: z.string().datetime(),
   joiningWeek: z.number().int().positive(),
-  weeklyAmount: z.number().positive().optional(), // Optional: member's weekly contribution amount
+  weeklyAmount: positiveMoneySchema.optional(), // Optional: member's weekly contribution amount
 });
 
 export async function GET(
@@ -84,6 +92,7 @@ export async function POST(
     // Check if group exists
     const group = await prisma.group.findUnique({
       where: { id },
+      include: { holidays: true },
     });
 
     if (!group) {
@@ -117,7 +126,8 @@ export async function POST(
     }
 
     // Use provided weeklyAmount or default from group or 100
-    const memberWeeklyAmount = data.weeklyAmount || group.weeklyAmount || 100;
+    const memberWeeklyAmount =
+      data.weeklyAmount || group.weeklyAmount || DEFAULT_WEEKLY_AMOUNT;
 
     // Get active cycles for this group to calculate backdated payments
     const activeCycles = await prisma.loanCycle.findMany({
@@ -132,6 +142,17 @@ export async function POST(
       },
     });
 
+    // Backdated payments are dated on the joining date, which must be in an open month
+    if (data.joiningWeek > 1 && activeCycles.length > 0) {
+      const closedPeriodError = await checkPeriodsOpen(
+        prisma,
+        new Date(data.joiningDate)
+      );
+      if (closedPeriodError) {
+        return NextResponse.json({ error: closedPeriodError }, { status: 400 });
+      }
+    }
+
     // Create group member
     const groupMember = await prisma.groupMember.create({
       data: {
@@ -177,8 +198,12 @@ export async function POST(
                 cycleId: cycle.id,
                 groupId: id,
                 week: week,
-                collectionDate: new Date(
-                  new Date(cycle.startDate).getTime() + (week - 1) * 7 * 24 * 60 * 60 * 1000
+                // Meeting dates skip the group's holidays
+                collectionDate: collectionDateOf(
+                  cycle.startDate,
+                  week,
+                  group.meetingDay,
+                  group.holidays
                 ),
                 totalCollected: 0,
                 expectedAmount: 0,
@@ -221,14 +246,6 @@ export async function POST(
               },
             });
 
-            // Update group member's total contributed
-            await tx.groupMember.update({
-              where: { id: groupMember.id },
-              data: {
-                totalContributed: { increment: memberWeeklyAmount },
-              },
-            });
-
             // Create savings transaction for this payment
             let savings = await tx.savings.findFirst({
               where: { memberId: data.memberId },
@@ -243,7 +260,26 @@ export async function POST(
               });
             }
 
-            const newTotal = savings.totalAmount + memberWeeklyAmount;
+            // Post the catch-up payment to the member's savings
+            await postJournalEntry(tx, {
+              date: new Date(data.joiningDate),
+              description: `Backdated week ${week} payment from ${member.name}`,
+              source: "SAVINGS_DEPOSIT",
+              sourceId: savings.id,
+              groupId: id,
+              createdById: user.id,
+              lines: [
+                { account: "CASH", debit: memberWeeklyAmount },
+                {
+                  account: "MEMBER_SAVINGS",
+                  memberId: data.memberId,
+                  credit: memberWeeklyAmount,
+                },
+              ],
+            });
+
+            // Savings total is derived from the member's savings in the ledger
+            const newTotal = await syncSavings(tx, savings.id, data.memberId);
             await tx.savingsTransaction.create({
               data: {
                 savingsId: savings.id,
@@ -253,11 +289,6 @@ export async function POST(
               },
             });
 
-            await tx.savings.update({
-              where: { id: savings.id },
-              data: { totalAmount: newTotal },
-            });
-
             backdatedPayments.push({
               cycleId: cycle.id,
               week: week,
@@ -266,6 +297,11 @@ export async function POST(
           }
         }
       }
+
+      // Total contributed is derived from the member's paid collection payments
+      if (backdatedPayments.length > 0) {
+        await syncGroupMemberContribution(tx, groupMember.id);
+      }
     });
 
     return NextResponse.json(
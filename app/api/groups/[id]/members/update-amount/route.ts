@@ -3,10 +3,11 @@ import prisma from "@/lib/prisma";
 import { verifyToken } from "@/lib/auth";
 import { cookies } from "next/headers";
 import { z } from "zod";
+import { positiveMoneySchema } from "@/lib/money";
 
 const updateAmountSchema = z.object({
   memberId: z.string(),
-  weeklyAmount: z.number().positive(),
+  weeklyAmount: positiveMoneySchema,
 });
 
 export async function PUT(
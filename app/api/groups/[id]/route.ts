@@ -2,6 +2,23 @@ import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
 import { verifyToken } from "@/lib/auth";
 import { cookies } from "next/headers";
+import { z } from "zod";
+import {
+  arrearsRulesSchema,
+  guarantorRulesSchema,
+  interestTermsSchema,
+  penaltyRulesSchema,
+} from "@/lib/utils";
+import { recordAudit } from "@/lib/audit";
+
+const updateGroupSchema = z
+  .object({
+    loanWeeks: z.number().int().positive().optional(),
+  })
+  .merge(interestTermsSchema)
+  .merge(penaltyRulesSchema)
+  .merge(guarantorRulesSchema)
+  .merge(arrearsRulesSchema);
 
 export async function GET(
   request: NextRequest,
@@ -47,6 +64,9 @@ export async function GET(
             },
           },
         },
+        holidays: {
+          orderBy: { startDate: "asc" },
+        },
       },
     });
 
@@ -63,3 +83,100 @@ export async function GET(
     );
   }
 }
+
+// Change the loan terms of a group
+// Interest changes only affect loans created afterwards - existing loans keep
+// the terms they were disbursed on. Late fine rules apply to all of the
+// group's loans from now on.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user || user.role !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Forbidden - Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const data = updateGroupSchema.parse(body);
+
+    const existing = await prisma.group.findUnique({ where: { id } });
+
+    if (!existing) {
+      return NextResponse.json({ error: "Group not found" }, { status: 404 });
+    }
+
+    const group = await prisma.$transaction(async (tx) => {
+      const updated = await tx.group.update({
+        where: { id },
+        data,
+      });
+
+      await recordAudit(tx, {
+        action: "GROUP_LOAN_TERMS_UPDATED",
+        entityType: "Group",
+        entityId: id,
+        details: {
+          from: {
+            loanWeeks: existing.loanWeeks,
+            interestMethod: existing.interestMethod,
+            interestRate: existing.interestRate,
+            interestRatePeriod: existing.interestRatePeriod,
+            penaltyType: existing.penaltyType,
+            penaltyAmount: existing.penaltyAmount,
+            penaltyRate: existing.penaltyRate,
+            penaltyGraceDays: existing.penaltyGraceDays,
+            maxActiveGuarantees: existing.maxActiveGuarantees,
+            guaranteeSavingsMultiple: existing.guaranteeSavingsMultiple,
+            meetingDay: existing.meetingDay,
+            defaultAfterDays: existing.defaultAfterDays,
+          },
+          to: {
+            loanWeeks: updated.loanWeeks,
+            interestMethod: updated.interestMethod,
+            interestRate: updated.interestRate,
+            interestRatePeriod: updated.interestRatePeriod,
+            penaltyType: updated.penaltyType,
+            penaltyAmount: updated.penaltyAmount,
+            penaltyRate: updated.penaltyRate,
+            penaltyGraceDays: updated.penaltyGraceDays,
+            maxActiveGuarantees: updated.maxActiveGuarantees,
+            guaranteeSavingsMultiple: updated.guaranteeSavingsMultiple,
+            meetingDay: updated.meetingDay,
+            defaultAfterDays: updated.defaultAfterDays,
+          },
+        },
+        userId: user.id,
+      });
+
+      return updated;
+    });
+
+    return NextResponse.json({ group }, { status: 200 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error updating group:", error);
+    return NextResponse.json(
+      { error: "Failed to update group" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,361 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { verifyToken } from "@/lib/auth";
+import { cookies } from "next/headers";
+import { z } from "zod";
+import { moneySchema, positiveMoneySchema, sumMoney } from "@/lib/money";
+import {
+  postJournalEntry,
+  syncGroupFund,
+  syncGroupMemberContribution,
+  syncSavings,
+} from "@/lib/ledger";
+import { recordAudit } from "@/lib/audit";
+import { checkPeriodsOpen } from "@/lib/periods";
+import { syncInstallments } from "@/lib/installments";
+import { interestTermsSchema } from "@/lib/utils";
+
+const openingLoanSchema = z.object({
+  principal: positiveMoneySchema,
+  remaining: positiveMoneySchema, // Principal still outstanding at cut-over
+  weeks: z.number().int().positive().optional(), // Defaults to the group's loan weeks
+  currentWeek: z.number().int().min(0), // Installments already paid on paper
+  disbursedAt: z.string().datetime(),
+  reason: z.string().optional(),
+});
+
+const openingMemberSchema = z.object({
+  memberId: z.string(),
+  joiningWeek: z.number().int().positive().default(1),
+  joiningDate: z.string().datetime(),
+  weeklyAmount: positiveMoneySchema.optional(),
+  totalContributed: moneySchema.nonnegative().default(0),
+  savings: moneySchema.nonnegative().default(0),
+  loan: openingLoanSchema.optional(),
+});
+
+const importGroupSchema = z
+  .object({
+    name: z.string().min(1, "Group name is required"),
+    weeklyAmount: positiveMoneySchema.optional(),
+    loanWeeks: z.number().int().positive().default(10),
+    cutoverDate: z.string().datetime(), // Date the paper register balances are taken at
+    cycleNumber: z.number().int().positive().default(1),
+    cycleStartDate: z.string().datetime(),
+    currentWeek: z.number().int().min(0), // Week the running cycle has reached
+    fundBalance: moneySchema, // Cash in the group fund at cut-over
+    members: z
+      .array(openingMemberSchema)
+      .min(1, "At least one member is required"),
+  })
+  .merge(interestTermsSchema);
+
+// Import a group that has been running on paper
+// Creates the group, its running cycle, members, savings balances and
+// in-flight loans as of the cut-over date. Balances are posted to the ledger
+// as opening entries so everything derived from the ledger starts from the
+// paper register's figures.
+export async function POST(request: NextRequest) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user || user.role !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Forbidden - Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const data = importGroupSchema.parse(body);
+
+    const cutoverDate = new Date(data.cutoverDate);
+    const cycleStartDate = new Date(data.cycleStartDate);
+
+    if (cycleStartDate > cutoverDate) {
+      return NextResponse.json(
+        { error: "Cycle start date must be on or before the cut-over date" },
+        { status: 400 }
+      );
+    }
+
+    const memberIds = data.members.map((m) => m.memberId);
+    if (new Set(memberIds).size !== memberIds.length) {
+      return NextResponse.json(
+        { error: "Each member can only be listed once" },
+        { status: 400 }
+      );
+    }
+
+    const members = await prisma.member.findMany({
+      where: { id: { in: memberIds } },
+    });
+    const memberNames = new Map(members.map((m) => [m.id, m.name]));
+
+    for (const entry of data.members) {
+      const name = memberNames.get(entry.memberId);
+      if (!name) {
+        return NextResponse.json(
+          { error: `Member ${entry.memberId} not found` },
+          { status: 404 }
+        );
+      }
+
+      if (!entry.loan) continue;
+      const weeks = entry.loan.weeks ?? data.loanWeeks;
+      if (entry.loan.remaining > entry.loan.principal) {
+        return NextResponse.json(
+          { error: `${name}'s outstanding loan balance exceeds its principal` },
+          { status: 400 }
+        );
+      }
+      if (entry.loan.currentWeek >= weeks) {
+        return NextResponse.json(
+          {
+            error: `${name}'s loan has paid ${entry.loan.currentWeek} of ${weeks} weeks - only loans still being repaid can be imported`,
+          },
+          { status: 400 }
+        );
+      }
+      if (new Date(entry.loan.disbursedAt) > cutoverDate) {
+        return NextResponse.json(
+          { error: `${name}'s loan was disbursed after the cut-over date` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Nothing can be posted into a closed month
+    const closedPeriodError = await checkPeriodsOpen(prisma, cutoverDate);
+    if (closedPeriodError) {
+      return NextResponse.json({ error: closedPeriodError }, { status: 400 });
+    }
+
+    // Find admin user by email
+    const adminUser = await prisma.user.findUnique({
+      where: { email: user.email },
+    });
+
+    if (!adminUser) {
+      return NextResponse.json(
+        { error: "Admin user not found" },
+        { status: 404 }
+      );
+    }
+
+    const result = await prisma.$transaction(
+      async (tx) => {
+        const group = await tx.group.create({
+          data: {
+            name: data.name,
+            adminId: adminUser.id,
+            weeklyAmount: data.weeklyAmount,
+            loanWeeks: data.loanWeeks,
+            interestMethod: data.interestMethod,
+            interestRate: data.interestRate,
+            interestRatePeriod: data.interestRatePeriod,
+            openingBalanceDate: cutoverDate,
+          },
+        });
+
+        const cycle = await tx.loanCycle.create({
+          data: {
+            cycleNumber: data.cycleNumber,
+            groupId: group.id,
+            startDate: cycleStartDate,
+            weeklyAmount: data.weeklyAmount,
+            currentWeek: data.currentWeek,
+            isActive: true,
+            groupFund: {
+              create: {
+                investmentPool: 0, // Filled from the opening entry below
+                totalFunds: 0,
+              },
+            },
+          },
+          include: { groupFund: true },
+        });
+
+        // Group fund: cash the cycle holds at cut-over (may be overdrawn)
+        if (data.fundBalance !== 0) {
+          const amount = Math.abs(data.fundBalance);
+          const overdrawn = data.fundBalance < 0;
+          await postJournalEntry(tx, {
+            date: cutoverDate,
+            description: `Opening group fund balance for ${group.name} cycle #${cycle.cycleNumber}`,
+            source: "OPENING_BALANCE",
+            sourceId: cycle.groupFund?.id,
+            groupId: group.id,
+            cycleId: cycle.id,
+            createdById: user.id,
+            lines: [
+              {
+                account: "CASH",
+                debit: overdrawn ? 0 : amount,
+                credit: overdrawn ? amount : 0,
+              },
+              {
+                account: "OPENING_BALANCE",
+                debit: overdrawn ? amount : 0,
+                credit: overdrawn ? 0 : amount,
+              },
+            ],
+          });
+        }
+
+        for (const entry of data.members) {
+          const name = memberNames.get(entry.memberId) ?? "";
+
+          // Past contributions are already part of the fund balance above,
+          // so they are kept on the member without a ledger entry of their own
+          const groupMember = await tx.groupMember.create({
+            data: {
+              groupId: group.id,
+              memberId: entry.memberId,
+              joiningWeek: entry.joiningWeek,
+              joiningDate: new Date(entry.joiningDate),
+              weeklyAmount: entry.weeklyAmount ?? data.weeklyAmount,
+              openingContributed: entry.totalContributed,
+              totalReceived: entry.loan?.principal ?? 0,
+            },
+          });
+          await syncGroupMemberContribution(tx, groupMember.id);
+
+          // Savings: owed to the member and held as general cash
+          if (entry.savings > 0) {
+            let savings = await tx.savings.findFirst({
+              where: { memberId: entry.memberId },
+            });
+            if (!savings) {
+              savings = await tx.savings.create({
+                data: { memberId: entry.memberId, totalAmount: 0 },
+              });
+            }
+
+            await postJournalEntry(tx, {
+              date: cutoverDate,
+              description: `Opening savings balance - ${name}`,
+              source: "OPENING_BALANCE",
+              sourceId: savings.id,
+              groupId: group.id,
+              createdById: user.id,
+              lines: [
+                { account: "CASH", debit: entry.savings },
+                {
+                  account: "MEMBER_SAVINGS",
+                  memberId: entry.memberId,
+                  credit: entry.savings,
+                },
+              ],
+            });
+
+            const newTotal = await syncSavings(tx, savings.id, entry.memberId);
+            await tx.savingsTransaction.create({
+              data: {
+                savingsId: savings.id,
+                date: cutoverDate,
+                amount: entry.savings,
+                total: newTotal,
+                isOpeningBalance: true,
+              },
+            });
+          }
+
+          // In-flight loan: principal still receivable at cut-over
+          if (entry.loan) {
+            const loan = await tx.loan.create({
+              data: {
+                memberId: entry.memberId,
+                cycleId: cycle.id,
+                principal: entry.loan.principal,
+                remaining: entry.loan.remaining,
+                weeks: entry.loan.weeks ?? data.loanWeeks,
+                currentWeek: entry.loan.currentWeek,
+                totalPrincipalPaid: entry.loan.principal - entry.loan.remaining,
+                status: "ACTIVE",
+                disbursedAt: new Date(entry.loan.disbursedAt),
+                isOpeningBalance: true,
+                openingWeek: entry.loan.currentWeek,
+                interestMethod: group.interestMethod,
+                interestRate: group.interestRate,
+                interestRatePeriod: group.interestRatePeriod,
+                ...(entry.loan.reason && { reason: entry.loan.reason }),
+              },
+            });
+
+            await postJournalEntry(tx, {
+              date: cutoverDate,
+              description: `Opening loan balance - ${name}`,
+              source: "OPENING_BALANCE",
+              sourceId: loan.id,
+              groupId: group.id,
+              cycleId: cycle.id,
+              createdById: user.id,
+              lines: [
+                {
+                  account: "LOANS_RECEIVABLE",
+                  debit: entry.loan.remaining,
+                  memberId: entry.memberId,
+                  loanId: loan.id,
+                },
+                { account: "OPENING_BALANCE", credit: entry.loan.remaining },
+              ],
+            });
+
+            await syncInstallments(tx, loan.id);
+          }
+        }
+
+        // Group fund balance is derived from the cycle's cash in the ledger
+        await syncGroupFund(tx, cycle.id);
+
+        await recordAudit(tx, {
+          action: "GROUP_IMPORTED",
+          entityType: "Group",
+          entityId: group.id,
+          details: {
+            cutoverDate: cutoverDate.toISOString(),
+            cycleId: cycle.id,
+            members: data.members.length,
+            fundBalance: data.fundBalance,
+            savings: sumMoney(data.members.map((m) => m.savings)),
+            loansOutstanding: sumMoney(
+              data.members.map((m) => m.loan?.remaining ?? 0)
+            ),
+          },
+          userId: user.id,
+        });
+
+        return tx.group.findUniqueOrThrow({
+          where: { id: group.id },
+          include: {
+            cycles: { include: { groupFund: true, loans: true } },
+            members: true,
+          },
+        });
+      },
+      { timeout: 30000 }
+    );
+
+    return NextResponse.json({ group: result }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error importing group:", error);
+    return NextResponse.json(
+      { error: "Failed to import group" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,12 +3,24 @@ import prisma from "@/lib/prisma";
 import { verifyToken } from "@/lib/auth";
 import { cookies } from "next/headers";
 import { z } from "zod";
+import { positiveMoneySchema } from "@/lib/money";
+import {
+  arrearsRulesSchema,
+  guarantorRulesSchema,
+  interestTermsSchema,
+  penaltyRulesSchema,
+} from "@/lib/utils";
 
-const createGroupSchema = z.object({
-  name: z.string().min(1, "Group name is required"),
-  weeklyAmount: z.number().positive().optional(), // Optional: default/suggested amount
-  loanWeeks: z.number().int().positive().default(10),
-});
+const createGroupSchema = z
+  .object({
+    name: z.string().min(1, "Group name is required"),
+    weeklyAmount: positiveMoneySchema.optional(), // Optional: default/suggested amount
+    loanWeeks: z.number().int().positive().default(10),
+  })
+  .merge(interestTermsSchema)
+  .merge(penaltyRulesSchema)
+  .merge(guarantorRulesSchema)
+  .merge(arrearsRulesSchema);
 
 export async function GET(request: NextRequest) {
   try {
@@ -101,6 +113,17 @@ export async function POST(request: NextRequest) {
         adminId: adminUser.id,
         weeklyAmount: data.weeklyAmount,
         loanWeeks: data.loanWeeks,
+        interestMethod: data.interestMethod,
+        interestRate: data.interestRate,
+        interestRatePeriod: data.interestRatePeriod,
+        penaltyType: data.penaltyType,
+        penaltyAmount: data.penaltyAmount,
+        penaltyRate: data.penaltyRate,
+        penaltyGraceDays: data.penaltyGraceDays,
+        maxActiveGuarantees: data.maxActiveGuarantees,
+        guaranteeSavingsMultiple: data.guaranteeSavingsMultiple,
+        meetingDay: data.meetingDay,
+        defaultAfterDays: data.defaultAfterDays,
       },
       include: {
         cycles: true,
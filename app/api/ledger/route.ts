@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { verifyToken } from "@/lib/auth";
+import { cookies } from "next/headers";
+import { LedgerAccount, Prisma } from "@prisma/client";
+import { CHART_OF_ACCOUNTS, getAccountBalance } from "@/lib/ledger";
+
+// Journal entries with their lines, filtered by ledger dimensions
+// e.g. /api/ledger?cycleId=...&account=CASH shows how a group fund balance was reached
+export async function GET(request: NextRequest) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const groupId = searchParams.get("groupId");
+    const cycleId = searchParams.get("cycleId");
+    const memberId = searchParams.get("memberId");
+    const loanId = searchParams.get("loanId");
+    const account = searchParams.get("account");
+
+    if (account && !(account in CHART_OF_ACCOUNTS)) {
+      return NextResponse.json({ error: "Invalid account" }, { status: 400 });
+    }
+
+    const lineFilter: Prisma.JournalLineWhereInput = {};
+    if (groupId) lineFilter.groupId = groupId;
+    if (cycleId) lineFilter.cycleId = cycleId;
+    if (memberId) lineFilter.memberId = memberId;
+    if (loanId) lineFilter.loanId = loanId;
+    if (account) lineFilter.account = account as LedgerAccount;
+
+    const entries = await prisma.journalEntry.findMany({
+      where: { lines: { some: lineFilter } },
+      include: { lines: true },
+      orderBy: [{ date: "asc" }, { createdAt: "asc" }],
+    });
+
+    // Balance of the requested account for the same filter, if one was asked for
+    const balance = account
+      ? await getAccountBalance(prisma, account as LedgerAccount, lineFilter)
+      : null;
+
+    return NextResponse.json(
+      { entries, balance, accounts: CHART_OF_ACCOUNTS },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Error fetching ledger:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch ledger" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,195 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { verifyToken } from "@/lib/auth";
+import { cookies } from "next/headers";
+import { z } from "zod";
+import { recordAudit } from "@/lib/audit";
+import { syncInstallments } from "@/lib/installments";
+
+const addMoratoriumSchema = z.object({
+  startDate: z.string(),
+  endDate: z.string(), // Inclusive
+  reason: z.string().trim().min(1, "Reason is required"),
+});
+
+// Pause a loan's repayments, e.g. after a crop failure or illness. The
+// installments that would fall due in the pause move on to the meetings
+// after it and are not counted as overdue; the schedule itself is unchanged.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user || user.role !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Forbidden - Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const data = addMoratoriumSchema.parse(body);
+
+    const startDate = new Date(data.startDate);
+    const endDate = new Date(data.endDate);
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+    }
+
+    if (endDate < startDate) {
+      return NextResponse.json(
+        { error: "End date must be on or after the start date" },
+        { status: 400 }
+      );
+    }
+
+    const loan = await prisma.loan.findUnique({ where: { id } });
+
+    if (!loan) {
+      return NextResponse.json({ error: "Loan not found" }, { status: 404 });
+    }
+
+    if (
+      (loan.status !== "ACTIVE" && loan.status !== "DEFAULTED") ||
+      !loan.disbursedAt
+    ) {
+      return NextResponse.json(
+        { error: "Only active or defaulted loans can be given a moratorium" },
+        { status: 400 }
+      );
+    }
+
+    const moratorium = await prisma.$transaction(
+      async (tx) => {
+        const created = await tx.loanMoratorium.create({
+          data: {
+            loanId: loan.id,
+            startDate,
+            endDate,
+            reason: data.reason,
+            approvedById: user.id,
+          },
+        });
+
+        await syncInstallments(tx, loan.id);
+
+        await recordAudit(tx, {
+          action: "LOAN_MORATORIUM_ADDED",
+          entityType: "Loan",
+          entityId: loan.id,
+          reason: data.reason,
+          details: {
+            moratoriumId: created.id,
+            startDate: startDate.toISOString(),
+            endDate: endDate.toISOString(),
+          },
+          userId: user.id,
+        });
+
+        return created;
+      },
+      { timeout: 15000 }
+    );
+
+    return NextResponse.json({ moratorium }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error adding loan moratorium:", error);
+    return NextResponse.json(
+      { error: "Failed to add loan moratorium" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user || user.role !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Forbidden - Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const moratoriumId = searchParams.get("moratoriumId");
+
+    if (!moratoriumId) {
+      return NextResponse.json(
+        { error: "moratoriumId is required" },
+        { status: 400 }
+      );
+    }
+
+    const moratorium = await prisma.loanMoratorium.findFirst({
+      where: { id: moratoriumId, loanId: id },
+    });
+
+    if (!moratorium) {
+      return NextResponse.json(
+        { error: "Moratorium not found on this loan" },
+        { status: 404 }
+      );
+    }
+
+    await prisma.$transaction(
+      async (tx) => {
+        await tx.loanMoratorium.delete({ where: { id: moratorium.id } });
+
+        await syncInstallments(tx, id);
+
+        await recordAudit(tx, {
+          action: "LOAN_MORATORIUM_REMOVED",
+          entityType: "Loan",
+          entityId: id,
+          details: {
+            moratoriumId: moratorium.id,
+            startDate: moratorium.startDate.toISOString(),
+            endDate: moratorium.endDate.toISOString(),
+            reason: moratorium.reason,
+          },
+          userId: user.id,
+        });
+      },
+      { timeout: 15000 }
+    );
+
+    return NextResponse.json(
+      { message: "Moratorium removed" },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Error removing loan moratorium:", error);
+    return NextResponse.json(
+      { error: "Failed to remove loan moratorium" },
+      { status: 500 }
+    );
+  }
+}
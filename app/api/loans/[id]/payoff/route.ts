@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { verifyToken } from "@/lib/auth";
+import { cookies } from "next/headers";
+import {
+  calculatePayoffQuote,
+  loanSchedule,
+  meetingPausesOf,
+  NO_PENALTY,
+  penaltyRulesOf,
+} from "@/lib/utils";
+
+// What it takes to close a loan on a date: principal still owed, interest
+// and late fines accrued, what closing early saves, and the total
+// Filters: date (yyyy-MM-dd, defaults to now) - the repayment date the quote
+// is for, read the same way /api/loans/repay reads paymentDate
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const dateParam = searchParams.get("date");
+
+    const date = dateParam ? new Date(dateParam) : new Date();
+    if (isNaN(date.getTime())) {
+      return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+    }
+
+    const loan = await prisma.loan.findUnique({
+      where: { id },
+      include: {
+        member: true,
+        moratoriums: true,
+        cycle: { include: { group: { include: { holidays: true } } } },
+      },
+    });
+
+    if (!loan) {
+      return NextResponse.json({ error: "Loan not found" }, { status: 404 });
+    }
+
+    // Members can only quote their own loans
+    if (user.role !== "ADMIN") {
+      const userRecord = await prisma.user.findUnique({
+        where: { id: user.id },
+        select: { userId: true },
+      });
+
+      if (!userRecord?.userId || userRecord.userId !== loan.member.userId) {
+        return NextResponse.json(
+          { error: "Forbidden - You can only view your own loans" },
+          { status: 403 }
+        );
+      }
+    }
+
+    if (loan.status === "PENDING" || !loan.disbursedAt) {
+      return NextResponse.json(
+        { error: "Loan has not been disbursed yet" },
+        { status: 400 }
+      );
+    }
+
+    if (loan.status === "COMPLETED") {
+      return NextResponse.json(
+        { error: "Loan already completed" },
+        { status: 400 }
+      );
+    }
+
+    if (loan.status === "WRITTEN_OFF") {
+      return NextResponse.json(
+        { error: "Loan has been written off - record a recovery instead" },
+        { status: 400 }
+      );
+    }
+
+    const group = loan.cycle?.group;
+    const repayments = await prisma.loanTransaction.findMany({
+      where: { loanId: loan.id, type: "REPAYMENT", reversedAt: null },
+      select: { week: true, date: true },
+    });
+    const quote = calculatePayoffQuote(
+      {
+        ...loan,
+        meetingDay: group?.meetingDay,
+        pauses: meetingPausesOf(loan),
+      },
+      loanSchedule(loan),
+      repayments,
+      group ? penaltyRulesOf(group) : NO_PENALTY,
+      date
+    );
+
+    return NextResponse.json(
+      {
+        quote: {
+          ...quote,
+          loan: {
+            id: loan.id,
+            status: loan.status,
+            principal: loan.principal,
+            weeks: loan.weeks,
+            currentWeek: loan.currentWeek,
+            disbursedAt: loan.disbursedAt,
+            interestMethod: loan.interestMethod,
+            interestRate: loan.interestRate,
+            interestRatePeriod: loan.interestRatePeriod,
+            totalPrincipalPaid: loan.principal - loan.remaining,
+            totalInterestPaid: loan.totalInterestPaid,
+          },
+          member: {
+            id: loan.member.id,
+            name: loan.member.name,
+            userId: loan.member.userId,
+          },
+          group: group ? { id: group.id, name: group.name } : null,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Error calculating payoff quote:", error);
+    return NextResponse.json(
+      { error: "Failed to calculate payoff quote" },
+      { status: 500 }
+    );
+  }
+}
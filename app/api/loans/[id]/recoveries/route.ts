@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { verifyToken } from "@/lib/auth";
+import { cookies } from "next/headers";
+import { z } from "zod";
+import { formatMoney, positiveMoneySchema } from "@/lib/money";
+import { recordAudit } from "@/lib/audit";
+import { postJournalEntry, syncGroupFund } from "@/lib/ledger";
+import { checkPeriodsOpen } from "@/lib/periods";
+import { shareOutCycleFund } from "@/lib/funds";
+
+const recoverySchema = z.object({
+  amount: positiveMoneySchema,
+  date: z.string().optional(), // Defaults to today
+  paymentMethod: z.enum(["CASH", "UPI", "BANK_TRANSFER"]).optional(),
+  note: z.string().trim().optional(),
+});
+
+// Record cash recovered on a written-off loan
+// The cash goes into the cycle's group fund as recovery income; the loan
+// stays written off and its balance is not reopened
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user || user.role !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Forbidden - Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const data = recoverySchema.parse(body);
+
+    const loan = await prisma.loan.findUnique({
+      where: { id },
+      include: { member: true, cycle: true },
+    });
+
+    if (!loan) {
+      return NextResponse.json({ error: "Loan not found" }, { status: 404 });
+    }
+
+    if (loan.status !== "WRITTEN_OFF") {
+      return NextResponse.json(
+        {
+          error:
+            "Recoveries are only recorded on written-off loans - record a repayment instead",
+        },
+        { status: 400 }
+      );
+    }
+
+    const outstanding = loan.writtenOffAmount - loan.totalRecovered;
+    if (data.amount > outstanding) {
+      return NextResponse.json(
+        {
+          error: `Amount is more than the ${formatMoney(
+            outstanding
+          )} written off and not yet recovered`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const date = data.date ? new Date(data.date) : new Date();
+
+    // Nothing can be posted into a closed month
+    const closedPeriodError = await checkPeriodsOpen(prisma, date);
+    if (closedPeriodError) {
+      return NextResponse.json({ error: closedPeriodError }, { status: 400 });
+    }
+
+    const result = await prisma.$transaction(
+      async (tx) => {
+        const recovery = await tx.loanRecovery.create({
+          data: {
+            loanId: loan.id,
+            date,
+            amount: data.amount,
+            paymentMethod: data.paymentMethod || null,
+            note: data.note || null,
+            recordedById: user.id,
+          },
+        });
+
+        const updatedLoan = await tx.loan.update({
+          where: { id: loan.id },
+          data: { totalRecovered: { increment: data.amount } },
+        });
+
+        await postJournalEntry(tx, {
+          date,
+          description: `Recovery on written-off loan - ${loan.member.name}`,
+          source: "LOAN_RECOVERY",
+          sourceId: recovery.id,
+          groupId: loan.cycle?.groupId,
+          cycleId: loan.cycleId,
+          createdById: user.id,
+          lines: [
+            { account: "CASH", debit: data.amount },
+            {
+              account: "RECOVERY_INCOME",
+              credit: data.amount,
+              memberId: loan.memberId,
+              loanId: loan.id,
+            },
+          ],
+        });
+
+        // Group fund balance is derived from the cycle's cash in the ledger
+        if (loan.cycleId) {
+          await syncGroupFund(tx, loan.cycleId);
+
+          // A finished cycle has no fund left: the recovered cash leaves it
+          // with the rest of its share-out
+          await shareOutCycleFund(tx, {
+            cycleId: loan.cycleId,
+            date,
+            description: `Savings distribution on recovery from ${loan.member.name}`,
+            sourceId: loan.id,
+            userId: user.id,
+          });
+        }
+
+        await recordAudit(tx, {
+          action: "LOAN_RECOVERY_RECORDED",
+          entityType: "Loan",
+          entityId: loan.id,
+          reason: data.note,
+          details: {
+            recoveryId: recovery.id,
+            amount: data.amount,
+            totalRecovered: updatedLoan.totalRecovered,
+            writtenOffAmount: loan.writtenOffAmount,
+          },
+          userId: user.id,
+        });
+
+        return { recovery, loan: updatedLoan };
+      },
+      { timeout: 15000 }
+    );
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error recording loan recovery:", error);
+    return NextResponse.json(
+      { error: "Failed to record recovery" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,197 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { verifyToken } from "@/lib/auth";
+import { cookies } from "next/headers";
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { positiveMoneySchema } from "@/lib/money";
+import { recordAudit } from "@/lib/audit";
+import { syncInstallments } from "@/lib/installments";
+import {
+  interestTermsOf,
+  loanSchedule,
+  MAX_RESTRUCTURE_TERM_MULTIPLE,
+  restructuredWeeks,
+  restructureSchedule,
+  type PaymentScheduleRow,
+} from "@/lib/utils";
+
+const restructureLoanSchema = z
+  .object({
+    weeks: z.number().int().positive().optional(), // New total number of installments
+    installmentAmount: positiveMoneySchema.optional(), // Or a fixed principal per installment
+    startWeek: z.number().int().positive().optional(), // Week after disbursal the first new installment is due
+    reason: z.string().trim().min(1, "Reason is required"),
+  })
+  .refine((data) => !(data.weeks && data.installmentAmount), {
+    message: "Set either the number of weeks or the installment size, not both",
+  })
+  .refine((data) => data.weeks || data.installmentAmount || data.startWeek, {
+    message: "Set the number of weeks, the installment size or the start week",
+  });
+
+// Schedules are stored as JSON rows
+const scheduleJson = (schedule: PaymentScheduleRow[]) =>
+  schedule as unknown as Prisma.InputJsonArray;
+
+// Restructure a loan the group has agreed to reschedule (e.g. a member falls
+// sick). Installments already repaid stay as they were; the rest of the
+// principal is spread over the new term. The schedule before and after is
+// kept on the loan's restructure history along with the approval reason.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user || user.role !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Forbidden - Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const data = restructureLoanSchema.parse(body);
+
+    const loan = await prisma.loan.findUnique({
+      where: { id },
+      include: { cycle: { include: { group: true } } },
+    });
+
+    if (!loan) {
+      return NextResponse.json({ error: "Loan not found" }, { status: 404 });
+    }
+
+    if (loan.status !== "ACTIVE" || loan.remaining <= 0) {
+      return NextResponse.json(
+        { error: "Only active loans with a balance can be restructured" },
+        { status: 400 }
+      );
+    }
+
+    const scheduleBefore = loanSchedule(loan);
+    const covered = loan.currentWeek;
+
+    if (data.weeks !== undefined && data.weeks <= covered) {
+      return NextResponse.json(
+        {
+          error: `${covered} installments are already repaid - the new term must be longer than that`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const lastDueWeek = scheduleBefore[covered - 1]?.dueWeek ?? 0;
+    if (data.startWeek !== undefined && data.startWeek <= lastDueWeek) {
+      return NextResponse.json(
+        {
+          error: `Start week must be after week ${lastDueWeek}, when the last repaid installment was due`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // The new term can run to a few times the group's usual loan term
+    const maxWeeks =
+      (loan.cycle?.group?.loanWeeks || 10) * MAX_RESTRUCTURE_TERM_MULTIPLE;
+    const weeksAfter = restructuredWeeks(
+      scheduleBefore,
+      covered,
+      loan.principal,
+      data
+    );
+    if (weeksAfter > maxWeeks) {
+      return NextResponse.json(
+        {
+          error: `The new schedule would have ${weeksAfter} installments - at most ${maxWeeks} are allowed`,
+        },
+        { status: 400 }
+      );
+    }
+    if (data.startWeek !== undefined && data.startWeek > maxWeeks) {
+      return NextResponse.json(
+        { error: `Start week must be no later than week ${maxWeeks}` },
+        { status: 400 }
+      );
+    }
+
+    const scheduleAfter = restructureSchedule(
+      scheduleBefore,
+      covered,
+      loan.principal,
+      interestTermsOf(loan),
+      data,
+      maxWeeks
+    );
+
+    const result = await prisma.$transaction(
+      async (tx) => {
+        const restructure = await tx.loanRestructure.create({
+          data: {
+            loanId: loan.id,
+            reason: data.reason,
+            weeksBefore: scheduleBefore.length,
+            weeksAfter: scheduleAfter.length,
+            remaining: loan.remaining,
+            installmentsKept: covered,
+            scheduleBefore: scheduleJson(scheduleBefore),
+            scheduleAfter: scheduleJson(scheduleAfter),
+            approvedById: user.id,
+          },
+        });
+
+        const updatedLoan = await tx.loan.update({
+          where: { id: loan.id },
+          data: {
+            weeks: scheduleAfter.length,
+            schedule: scheduleJson(scheduleAfter),
+          },
+        });
+
+        await syncInstallments(tx, loan.id);
+
+        await recordAudit(tx, {
+          action: "LOAN_RESTRUCTURED",
+          entityType: "Loan",
+          entityId: loan.id,
+          reason: data.reason,
+          details: {
+            restructureId: restructure.id,
+            weeks: { from: scheduleBefore.length, to: scheduleAfter.length },
+            installmentAmount: data.installmentAmount ?? null,
+            startWeek: data.startWeek ?? null,
+            remaining: loan.remaining,
+          },
+          userId: user.id,
+        });
+
+        return { loan: updatedLoan, restructure };
+      },
+      { timeout: 15000 }
+    );
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error restructuring loan:", error);
+    return NextResponse.json(
+      { error: "Failed to restructure loan" },
+      { status: 500 }
+    );
+  }
+}
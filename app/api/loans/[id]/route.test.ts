@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+
+const { db } = vi.hoisted(() => ({
+  db: { loan: { findUnique: vi.fn(), update: vi.fn() } },
+}));
+
+vi.mock("@/lib/prisma", () => ({ default: db }));
+vi.mock("@/lib/auth", () => ({
+  verifyToken: async () => ({ id: "admin-1", role: "ADMIN" }),
+}));
+vi.mock("next/headers", () => ({
+  cookies: async () => ({ get: () => ({ value: "token" }) }),
+}));
+
+import { PUT } from "./route";
+
+const loan = {
+  id: "loan-1",
+  memberId: "member-1",
+  status: "ACTIVE",
+  remaining: 90000,
+  cycle: null,
+  guarantor1Id: null,
+  guarantor2Id: null,
+};
+
+const update = (body: object) =>
+  PUT(
+    new NextRequest(`http://localhost/api/loans/${loan.id}`, {
+      method: "PUT",
+      body: JSON.stringify(body),
+    }),
+    { params: Promise.resolve({ id: loan.id }) }
+  );
+
+describe("PUT /api/loans/[id]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.loan.findUnique.mockResolvedValue(loan);
+    db.loan.update.mockResolvedValue(loan);
+  });
+
+  it.each(["PENDING", "ACTIVE", "COMPLETED"])(
+    "leaves %s to the disburse, repay and write-off routes",
+    async (status) => {
+      const response = await update({ status });
+
+      expect(response.status).toBe(400);
+      expect(db.loan.update).not.toHaveBeenCalled();
+    }
+  );
+
+  it("marks an active loan defaulted", async () => {
+    const response = await update({ status: "DEFAULTED" });
+
+    expect(response.status).toBe(200);
+    expect(db.loan.update.mock.calls[0][0].data).toEqual({
+      status: "DEFAULTED",
+    });
+  });
+
+  it("only marks active loans defaulted", async () => {
+    db.loan.findUnique.mockResolvedValue({ ...loan, status: "COMPLETED" });
+
+    const response = await update({ status: "DEFAULTED" });
+
+    expect(response.status).toBe(400);
+    expect(db.loan.update).not.toHaveBeenCalled();
+  });
+});
@@ -4,13 +4,63 @@ import { verifyToken } from "@/lib/auth";
 import { cookies } from "next/headers";
 import { z } from "zod";
 import { Prisma } from "@prisma/client";
+import { checkGuarantors } from "@/lib/guarantors";
+import { syncInstallments } from "@/lib/installments";
+import { guarantorRulesOf, NO_GUARANTOR_LIMITS } from "@/lib/utils";
 
+// Loans are disbursed, repaid and written off through their own routes, so
+// the only status change left here is marking an active loan defaulted
 const updateLoanSchema = z.object({
-  status: z.enum(["PENDING", "ACTIVE", "COMPLETED", "DEFAULTED"]).optional(),
+  status: z.enum(["DEFAULTED"]).optional(),
   guarantor1Id: z.string().optional(),
   guarantor2Id: z.string().optional(),
 });
 
+const chainLoanSelect = {
+  id: true,
+  principal: true,
+  remaining: true,
+  topUpAmount: true,
+  status: true,
+  disbursedAt: true,
+  completedAt: true,
+  topUpOfId: true,
+} satisfies Prisma.LoanSelect;
+
+// Every loan in a chain of top-ups, oldest first
+async function topUpChain(loanId: string) {
+  const start = await prisma.loan.findUnique({
+    where: { id: loanId },
+    select: chainLoanSelect,
+  });
+  if (!start) return [];
+
+  const chain = [start];
+  let first = start;
+  while (first.topUpOfId) {
+    const previous = await prisma.loan.findUnique({
+      where: { id: first.topUpOfId },
+      select: chainLoanSelect,
+    });
+    if (!previous) break;
+    chain.unshift(previous);
+    first = previous;
+  }
+
+  let last = start;
+  for (;;) {
+    const next = await prisma.loan.findUnique({
+      where: { topUpOfId: last.id },
+      select: chainLoanSelect,
+    });
+    if (!next) break;
+    chain.push(next);
+    last = next;
+  }
+
+  return chain;
+}
+
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -33,13 +83,25 @@ export async function GET(
       where: { id },
       include: {
         member: true,
-        cycle: true,
+        cycle: { include: { group: { include: { holidays: true } } } },
         sequence: true,
         guarantor1: true,
         guarantor2: true,
         transactions: {
           orderBy: { date: "desc" },
         },
+        restructures: {
+          orderBy: { date: "desc" },
+        },
+        recoveries: {
+          orderBy: { date: "desc" },
+        },
+        installments: {
+          orderBy: { week: "asc" },
+        },
+        moratoriums: {
+          orderBy: { startDate: "asc" },
+        },
       },
     });
 
@@ -47,7 +109,19 @@ export async function GET(
       return NextResponse.json({ error: "Loan not found" }, { status: 404 });
     }
 
-    return NextResponse.json({ loan }, { status: 200 });
+    // Loans disbursed before installments were stored get them on first view
+    const installments =
+      loan.disbursedAt && loan.installments.length === 0
+        ? await syncInstallments(prisma, loan.id)
+        : loan.installments;
+
+    // A loan that was topped up, or is a top-up, reads as one chain
+    const chain = await topUpChain(loan.id);
+
+    return NextResponse.json(
+      { loan: { ...loan, installments, topUpChain: chain } },
+      { status: 200 }
+    );
   } catch (error) {
     console.error("Error fetching loan:", error);
     return NextResponse.json(
@@ -81,17 +155,68 @@ export async function PUT(
     const body = await request.json();
     const data = updateLoanSchema.parse(body);
 
+    const existing = await prisma.loan.findUnique({
+      where: { id },
+      include: { cycle: { include: { group: true } } },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: "Loan not found" }, { status: 404 });
+    }
+
+    if (data.status && existing.status !== "ACTIVE") {
+      return NextResponse.json(
+        { error: "Only active loans can be marked as defaulted" },
+        { status: 400 }
+      );
+    }
+
+    const guarantor1Id =
+      data.guarantor1Id !== undefined
+        ? data.guarantor1Id || null
+        : existing.guarantor1Id;
+    const guarantor2Id =
+      data.guarantor2Id !== undefined
+        ? data.guarantor2Id || null
+        : existing.guarantor2Id;
+    const guarantor1Changed = guarantor1Id !== existing.guarantor1Id;
+    const guarantor2Changed = guarantor2Id !== existing.guarantor2Id;
+
+    // New guarantors must be allowed by the group's rules
+    if (guarantor1Changed || guarantor2Changed) {
+      const guarantorError = await checkGuarantors(
+        prisma,
+        {
+          borrowerId: existing.memberId,
+          guarantorIds: [guarantor1Id, guarantor2Id],
+          amount: existing.remaining,
+          loanId: existing.id,
+        },
+        existing.cycle?.group
+          ? guarantorRulesOf(existing.cycle.group)
+          : NO_GUARANTOR_LIMITS
+      );
+      if (guarantorError) {
+        return NextResponse.json({ error: guarantorError }, { status: 400 });
+      }
+    }
+
     const updateData: Prisma.LoanUpdateInput = {};
     if (data.status) updateData.status = data.status;
-    if (data.guarantor1Id !== undefined) {
-      updateData.guarantor1 = data.guarantor1Id
-        ? { connect: { id: data.guarantor1Id } }
+    // A new guarantor has to give their own consent
+    if (guarantor1Changed) {
+      updateData.guarantor1 = guarantor1Id
+        ? { connect: { id: guarantor1Id } }
         : { disconnect: true };
+      updateData.guarantor1Consent = "PENDING";
+      updateData.guarantor1RespondedAt = null;
     }
-    if (data.guarantor2Id !== undefined) {
-      updateData.guarantor2 = data.guarantor2Id
-        ? { connect: { id: data.guarantor2Id } }
+    if (guarantor2Changed) {
+      updateData.guarantor2 = guarantor2Id
+        ? { connect: { id: guarantor2Id } }
         : { disconnect: true };
+      updateData.guarantor2Consent = "PENDING";
+      updateData.guarantor2RespondedAt = null;
     }
 
     const loan = await prisma.loan.update({
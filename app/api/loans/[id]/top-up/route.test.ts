@@ -0,0 +1,186 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+
+const { db, postJournalEntry, checkFundAvailable } = vi.hoisted(() => {
+  const db = {
+    loan: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    member: { findUnique: vi.fn() },
+    groupMember: { updateMany: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  db.$transaction.mockImplementation(async (fn: (tx: unknown) => unknown) =>
+    fn(db)
+  );
+  return { db, postJournalEntry: vi.fn(), checkFundAvailable: vi.fn() };
+});
+
+vi.mock("@/lib/prisma", () => ({ default: db }));
+vi.mock("@/lib/auth", () => ({
+  verifyToken: async () => ({ id: "admin-1", role: "ADMIN" }),
+}));
+vi.mock("next/headers", () => ({
+  cookies: async () => ({ get: () => ({ value: "token" }) }),
+}));
+vi.mock("@/lib/periods", () => ({ checkPeriodsOpen: async () => null }));
+vi.mock("@/lib/installments", () => ({
+  loanCalendarInclude: {},
+  syncInstallments: vi.fn(),
+}));
+vi.mock("@/lib/ledger", () => ({ postJournalEntry, syncGroupFund: vi.fn() }));
+vi.mock("@/lib/audit", () => ({ recordAudit: vi.fn() }));
+vi.mock("@/lib/funds", () => ({
+  checkFundAvailable,
+  fundShortfallMessage: () => "Not enough in the group fund",
+  recordFundOverride: vi.fn(),
+}));
+
+import { POST } from "./route";
+
+const day = (date: number) => new Date(2025, 0, date);
+
+// 1,000 over 10 weeks disbursed on Monday 6 January, with the installment
+// due on the 13th paid
+const loan = {
+  id: "loan-1",
+  memberId: "member-1",
+  member: { name: "Asha" },
+  cycleId: "cycle-1",
+  cycle: null,
+  moratoriums: [],
+  transactions: [],
+  topUp: null,
+  status: "ACTIVE",
+  principal: 100000,
+  remaining: 90000,
+  weeks: 10,
+  interestMethod: "FLAT",
+  interestRate: 0,
+  interestRatePeriod: "WEEKLY",
+  schedule: null,
+  currentWeek: 1,
+  openingWeek: 0,
+  totalPrincipalPaid: 10000,
+  totalInterestPaid: 0,
+  totalPenaltyPaid: 0,
+  disbursedAt: day(6),
+  guarantor1Id: null,
+  guarantor2Id: null,
+  guarantor1Consent: "PENDING",
+  guarantor2Consent: "PENDING",
+};
+
+const topUp = (loanId = loan.id) =>
+  POST(
+    new NextRequest(`http://localhost/api/loans/${loanId}/top-up`, {
+      method: "POST",
+      body: JSON.stringify({
+        amount: 50000,
+        date: day(14).toISOString(),
+        reason: "School fees",
+      }),
+    }),
+    { params: Promise.resolve({ id: loanId }) }
+  );
+
+describe("POST /api/loans/[id]/top-up", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    checkFundAvailable.mockResolvedValue(null);
+    db.member.findUnique.mockResolvedValue({ name: "Guarantor", savings: [] });
+    db.loan.create.mockImplementation(async ({ data }) => ({
+      id: "top-up-1",
+      ...data,
+    }));
+    db.loan.update.mockImplementation(async ({ where, data }) => ({
+      id: where.id,
+      ...data,
+    }));
+  });
+
+  it("holds a guaranteed top-up until both guarantors accept again", async () => {
+    const guaranteed = {
+      ...loan,
+      guarantor1Id: "member-2",
+      guarantor2Id: "member-3",
+      guarantor1Consent: "ACCEPTED",
+      guarantor2Consent: "ACCEPTED",
+    };
+    db.loan.findUnique.mockResolvedValue(guaranteed);
+
+    const response = await topUp();
+
+    expect(response.status).toBe(201);
+    const { data } = db.loan.create.mock.calls[0][0];
+    expect(data).toMatchObject({
+      status: "PENDING",
+      principal: 140000,
+      topUpAmount: 50000,
+      guarantor1Id: "member-2",
+      guarantor2Id: "member-3",
+    });
+    // Consent defaults to PENDING rather than the old loan's answers
+    expect(data).not.toHaveProperty("guarantor1Consent");
+    expect(data).not.toHaveProperty("guarantor2Consent");
+    expect(db.loan.update).not.toHaveBeenCalled();
+    expect(postJournalEntry).not.toHaveBeenCalled();
+    expect(checkFundAvailable).not.toHaveBeenCalled();
+  });
+
+  it("pays out an unguaranteed top-up and closes the old loan", async () => {
+    db.loan.findUnique.mockResolvedValue(loan);
+    db.loan.findUniqueOrThrow.mockResolvedValue({
+      id: "top-up-1",
+      topUpAmount: 50000,
+      reason: "School fees",
+      weeks: 10,
+      topUpOf: loan,
+    });
+
+    const response = await topUp();
+
+    expect(response.status).toBe(201);
+    expect(checkFundAvailable).toHaveBeenCalledWith(
+      db,
+      expect.objectContaining({ amount: 50000 })
+    );
+    expect(db.loan.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: loan.id },
+        data: expect.objectContaining({ status: "COMPLETED", remaining: 0 }),
+      })
+    );
+    expect(postJournalEntry.mock.calls[0][1].lines).toEqual([
+      expect.objectContaining({ debit: 140000, loanId: "top-up-1" }),
+      expect.objectContaining({ credit: 90000, loanId: loan.id }),
+      { account: "CASH", credit: 50000 },
+    ]);
+  });
+
+  it("refuses while interest is unpaid, since closing the loan would drop it", async () => {
+    db.loan.findUnique.mockResolvedValue({ ...loan, interestRate: 1 });
+
+    const response = await topUp();
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatch(/interest and late fines/);
+    expect(db.loan.create).not.toHaveBeenCalled();
+  });
+
+  it("refuses a second top-up while one is waiting", async () => {
+    db.loan.findUnique.mockResolvedValue({
+      ...loan,
+      topUp: { id: "top-up-1", status: "PENDING" },
+    });
+
+    const response = await topUp();
+
+    expect(response.status).toBe(400);
+    expect(db.loan.create).not.toHaveBeenCalled();
+  });
+});
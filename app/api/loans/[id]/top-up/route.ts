@@ -0,0 +1,235 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { verifyToken } from "@/lib/auth";
+import { cookies } from "next/headers";
+import { z } from "zod";
+import { formatMoney, positiveMoneySchema } from "@/lib/money";
+import { checkPeriodsOpen } from "@/lib/periods";
+import { checkGuarantors } from "@/lib/guarantors";
+import { checkTopUpAllowed, payOutTopUp } from "@/lib/top-ups";
+import {
+  checkFundAvailable,
+  fundShortfallMessage,
+  recordFundOverride,
+} from "@/lib/funds";
+import { guarantorRulesOf, NO_GUARANTOR_LIMITS } from "@/lib/utils";
+
+const topUpLoanSchema = z.object({
+  amount: positiveMoneySchema, // New cash paid to the member
+  weeks: z.number().int().positive().optional(), // Term of the new loan - defaults to the group's loan weeks
+  date: z.string().optional(), // Defaults to today
+  disbursementMethod: z.enum(["CASH", "UPI", "BANK_TRANSFER"]).optional(),
+  reason: z.string().trim().min(1, "Reason is required"),
+  fundOverrideReason: z.string().trim().min(1).optional(), // Pay out although the group fund cannot cover it
+});
+
+// Top up an active loan for a member who is repaying well. The balance still
+// owed is carried into a new, larger loan with a fresh schedule, and only the
+// top-up amount is paid out of the group fund. The old loan is closed and
+// linked to the new one, so the loans read as one chain.
+// The guarantors stand behind the larger loan, so a guaranteed top-up waits
+// for both of them to accept again and is paid out through the disburse
+// route, like any other pending loan.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user || user.role !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Forbidden - Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const data = topUpLoanSchema.parse(body);
+
+    const loan = await prisma.loan.findUnique({
+      where: { id },
+      include: {
+        cycle: { include: { group: true } },
+        topUp: true,
+      },
+    });
+
+    if (!loan) {
+      return NextResponse.json({ error: "Loan not found" }, { status: 404 });
+    }
+
+    if (loan.topUp) {
+      return NextResponse.json(
+        {
+          error:
+            loan.topUp.status === "PENDING"
+              ? "This loan already has a top-up waiting for its guarantors"
+              : "This loan has already been topped up",
+          loanId: loan.topUp.id,
+        },
+        { status: 400 }
+      );
+    }
+
+    const date = data.date ? new Date(data.date) : new Date();
+
+    // Only members who are up to date with their installments, interest and
+    // fines
+    const topUpError = await checkTopUpAllowed(prisma, loan.id, date);
+    if (topUpError) {
+      return NextResponse.json({ error: topUpError }, { status: 400 });
+    }
+
+    const principal = loan.remaining + data.amount;
+
+    // The guarantors now stand behind the larger loan; the old one is closed
+    const group = loan.cycle?.group;
+    const guarantorError = await checkGuarantors(
+      prisma,
+      {
+        borrowerId: loan.memberId,
+        guarantorIds: [loan.guarantor1Id, loan.guarantor2Id],
+        amount: principal,
+        loanId: loan.id,
+      },
+      group ? guarantorRulesOf(group) : NO_GUARANTOR_LIMITS
+    );
+    if (guarantorError) {
+      return NextResponse.json({ error: guarantorError }, { status: 400 });
+    }
+
+    // Nothing can be posted into a closed month
+    const closedPeriodError = await checkPeriodsOpen(prisma, date);
+    if (closedPeriodError) {
+      return NextResponse.json({ error: closedPeriodError }, { status: 400 });
+    }
+
+    const weeks = data.weeks || group?.loanWeeks || loan.weeks;
+
+    // A guaranteed top-up waits for its guarantors' consent
+    const awaitingGuarantors = !!(loan.guarantor1Id || loan.guarantor2Id);
+
+    const result = await prisma.$transaction(
+      async (tx) => {
+        // Only the new cash leaves the group fund
+        const shortfall = awaitingGuarantors
+          ? null
+          : await checkFundAvailable(tx, {
+              cycleId: loan.cycleId,
+              amount: data.amount,
+            });
+        if (shortfall && !data.fundOverrideReason) {
+          return { shortfall, toppedUp: null };
+        }
+
+        const topUp = await tx.loan.create({
+          data: {
+            memberId: loan.memberId,
+            cycleId: loan.cycleId,
+            principal,
+            remaining: principal,
+            weeks,
+            currentWeek: 0,
+            status: "PENDING",
+            reason: data.reason,
+            disbursementMethod: data.disbursementMethod || null,
+            topUpOfId: loan.id,
+            topUpAmount: data.amount,
+            guarantor1Id: loan.guarantor1Id,
+            guarantor2Id: loan.guarantor2Id,
+            // Interest terms are fixed for the life of the loan
+            ...(group
+              ? {
+                  interestMethod: group.interestMethod,
+                  interestRate: group.interestRate,
+                  interestRatePeriod: group.interestRatePeriod,
+                }
+              : {
+                  interestMethod: loan.interestMethod,
+                  interestRate: loan.interestRate,
+                  interestRatePeriod: loan.interestRatePeriod,
+                }),
+          },
+          include: {
+            member: true,
+            cycle: true,
+            sequence: true,
+          },
+        });
+
+        if (awaitingGuarantors) {
+          return { shortfall, toppedUp: { loan: topUp, closedLoan: null } };
+        }
+
+        const toppedUp = await payOutTopUp(tx, {
+          topUpId: topUp.id,
+          date,
+          disbursementMethod: data.disbursementMethod,
+          userId: user.id,
+        });
+
+        if (shortfall && data.fundOverrideReason) {
+          await recordFundOverride(tx, {
+            loanId: topUp.id,
+            cycleId: loan.cycleId,
+            shortfall,
+            reason: data.fundOverrideReason,
+            userId: user.id,
+          });
+        }
+
+        return { shortfall, toppedUp };
+      },
+      { timeout: 15000 }
+    );
+
+    if (!result.toppedUp) {
+      return NextResponse.json(
+        { error: fundShortfallMessage(result.shortfall!), ...result.shortfall },
+        { status: 400 }
+      );
+    }
+
+    if (awaitingGuarantors) {
+      return NextResponse.json(
+        {
+          ...result.toppedUp,
+          message:
+            "Top-up created - it can be paid out once both guarantors accept",
+        },
+        { status: 201 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        ...result.toppedUp,
+        message: `Loan topped up - ${formatMoney(
+          data.amount
+        )} paid out, new balance ${formatMoney(principal)}`,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error topping up loan:", error);
+    return NextResponse.json(
+      { error: "Failed to top up loan" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { verifyToken } from "@/lib/auth";
+import { cookies } from "next/headers";
+import { z } from "zod";
+import { recordAudit } from "@/lib/audit";
+import { postJournalEntry } from "@/lib/ledger";
+import { checkPeriodsOpen } from "@/lib/periods";
+import { shareOutCycleFund } from "@/lib/funds";
+
+const writeOffSchema = z.object({
+  date: z.string().optional(), // Defaults to today
+  reason: z.string().trim().min(1, "Reason is required"),
+});
+
+// Write off the balance of a defaulted loan the group no longer expects to
+// collect (e.g. the member has left the village). The principal still owed
+// is posted as a loan loss against the cycle's group fund, the loan leaves
+// the overdue lists, and its history is kept. Anything collected later is
+// recorded as a recovery (see ../recoveries).
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user || user.role !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Forbidden - Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const data = writeOffSchema.parse(body);
+
+    const loan = await prisma.loan.findUnique({
+      where: { id },
+      include: { member: true, cycle: true },
+    });
+
+    if (!loan) {
+      return NextResponse.json({ error: "Loan not found" }, { status: 404 });
+    }
+
+    if (loan.status !== "DEFAULTED") {
+      return NextResponse.json(
+        { error: "Only defaulted loans can be written off" },
+        { status: 400 }
+      );
+    }
+
+    if (loan.remaining <= 0) {
+      return NextResponse.json(
+        { error: "This loan has no balance to write off" },
+        { status: 400 }
+      );
+    }
+
+    const writtenOffAt = data.date ? new Date(data.date) : new Date();
+
+    // Nothing can be posted into a closed month
+    const closedPeriodError = await checkPeriodsOpen(prisma, writtenOffAt);
+    if (closedPeriodError) {
+      return NextResponse.json({ error: closedPeriodError }, { status: 400 });
+    }
+
+    const updatedLoan = await prisma.$transaction(
+      async (tx) => {
+        const writtenOff = await tx.loan.update({
+          where: { id: loan.id },
+          data: {
+            status: "WRITTEN_OFF",
+            remaining: 0,
+            writtenOffAmount: loan.remaining,
+            writtenOffAt,
+            writeOffReason: data.reason,
+            writtenOffById: user.id,
+          },
+        });
+
+        // The principal will not come back: move it out of receivables
+        await postJournalEntry(tx, {
+          date: writtenOffAt,
+          description: `Loan written off - ${loan.member.name}: ${data.reason}`,
+          source: "LOAN_WRITE_OFF",
+          sourceId: loan.id,
+          groupId: loan.cycle?.groupId,
+          cycleId: loan.cycleId,
+          createdById: user.id,
+          lines: [
+            {
+              account: "LOAN_LOSS",
+              debit: loan.remaining,
+              memberId: loan.memberId,
+              loanId: loan.id,
+            },
+            {
+              account: "LOANS_RECEIVABLE",
+              credit: loan.remaining,
+              memberId: loan.memberId,
+              loanId: loan.id,
+            },
+          ],
+        });
+
+        // Writing off the last loan of a closed cycle shares its fund out to
+        // the members' savings
+        if (loan.cycleId) {
+          await shareOutCycleFund(tx, {
+            cycleId: loan.cycleId,
+            date: writtenOffAt,
+            description: `Savings distribution on write-off of ${loan.member.name}'s loan`,
+            sourceId: loan.id,
+            userId: user.id,
+          });
+        }
+
+        await recordAudit(tx, {
+          action: "LOAN_WRITTEN_OFF",
+          entityType: "Loan",
+          entityId: loan.id,
+          reason: data.reason,
+          details: {
+            status: { from: "DEFAULTED", to: "WRITTEN_OFF" },
+            amount: loan.remaining,
+            date: writtenOffAt.toISOString(),
+          },
+          userId: user.id,
+        });
+
+        return writtenOff;
+      },
+      { timeout: 15000 }
+    );
+
+    return NextResponse.json({ loan: updatedLoan }, { status: 200 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error writing off loan:", error);
+    return NextResponse.json(
+      { error: "Failed to write off loan" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,285 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { verifyToken } from "@/lib/auth";
+import { cookies } from "next/headers";
+import { z } from "zod";
+import { recordAudit } from "@/lib/audit";
+import { checkGuarantors } from "@/lib/guarantors";
+import {
+  addToWaitlist,
+  checkFundAvailable,
+  fundShortfallMessage,
+} from "@/lib/funds";
+import { guarantorRulesOf } from "@/lib/utils";
+
+const reviewApplicationSchema = z.discriminatedUnion("action", [
+  // Approve: a PENDING loan is created, ready to be disbursed
+  z.object({
+    action: z.literal("APPROVE"),
+    comment: z.string().trim().optional(),
+  }),
+  // Reject: the applicant sees the reviewer's comment
+  z.object({
+    action: z.literal("REJECT"),
+    comment: z.string().trim().min(1, "Comment is required"),
+  }),
+]);
+
+const applicationInclude = {
+  member: true,
+  group: { select: { id: true, name: true } },
+  guarantor1: true,
+  guarantor2: true,
+  loan: {
+    select: {
+      id: true,
+      status: true,
+      disbursedAt: true,
+      guarantor1Consent: true,
+      guarantor2Consent: true,
+    },
+  },
+} as const;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const application = await prisma.loanApplication.findUnique({
+      where: { id },
+      include: applicationInclude,
+    });
+
+    if (!application) {
+      return NextResponse.json(
+        { error: "Application not found" },
+        { status: 404 }
+      );
+    }
+
+    // Members can only see their own applications
+    if (user.role !== "ADMIN") {
+      const userRecord = await prisma.user.findUnique({
+        where: { id: user.id },
+        select: { userId: true },
+      });
+
+      if (
+        !userRecord?.userId ||
+        userRecord.userId !== application.member.userId
+      ) {
+        return NextResponse.json(
+          { error: "Forbidden - You can only view your own applications" },
+          { status: 403 }
+        );
+      }
+    }
+
+    return NextResponse.json({ application }, { status: 200 });
+  } catch (error) {
+    console.error("Error fetching loan application:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch loan application" },
+      { status: 500 }
+    );
+  }
+}
+
+// Review a submitted application
+// Approval creates a PENDING loan in the group's active cycle on the group's
+// interest terms; it is paid out through /api/loans/disburse. A loan the
+// cycle's fund cannot cover yet goes on the waitlist.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user || user.role !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Forbidden - Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const data = reviewApplicationSchema.parse(body);
+
+    const application = await prisma.loanApplication.findUnique({
+      where: { id },
+      include: { group: true },
+    });
+
+    if (!application) {
+      return NextResponse.json(
+        { error: "Application not found" },
+        { status: 404 }
+      );
+    }
+
+    if (application.status !== "SUBMITTED") {
+      return NextResponse.json(
+        { error: "Only submitted applications can be reviewed" },
+        { status: 400 }
+      );
+    }
+
+    const reviewedAt = new Date();
+
+    if (data.action === "REJECT") {
+      const updated = await prisma.$transaction(async (tx) => {
+        const rejected = await tx.loanApplication.update({
+          where: { id: application.id },
+          data: {
+            status: "REJECTED",
+            reviewedAt,
+            reviewedById: user.id,
+            reviewComment: data.comment,
+          },
+          include: applicationInclude,
+        });
+
+        await recordAudit(tx, {
+          action: "LOAN_APPLICATION_REJECTED",
+          entityType: "LoanApplication",
+          entityId: application.id,
+          reason: data.comment,
+          details: { status: { from: "SUBMITTED", to: "REJECTED" } },
+          userId: user.id,
+        });
+
+        return rejected;
+      });
+
+      return NextResponse.json({ application: updated }, { status: 200 });
+    }
+
+    // APPROVE
+    const cycle = await prisma.loanCycle.findFirst({
+      where: { groupId: application.groupId, isActive: true },
+      orderBy: { cycleNumber: "desc" },
+    });
+
+    if (!cycle) {
+      return NextResponse.json(
+        { error: `${application.group.name} has no active cycle to lend from` },
+        { status: 400 }
+      );
+    }
+
+    // Guarantees taken on since the application was submitted count too
+    const guarantorError = await checkGuarantors(
+      prisma,
+      {
+        borrowerId: application.memberId,
+        guarantorIds: [application.guarantor1Id, application.guarantor2Id],
+        amount: application.amount,
+      },
+      guarantorRulesOf(application.group)
+    );
+    if (guarantorError) {
+      return NextResponse.json({ error: guarantorError }, { status: 400 });
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const loan = await tx.loan.create({
+        data: {
+          memberId: application.memberId,
+          cycleId: cycle.id,
+          principal: application.amount,
+          remaining: application.amount,
+          weeks: application.weeks,
+          currentWeek: 0,
+          status: "PENDING",
+          reason: application.reason,
+          guarantor1Id: application.guarantor1Id,
+          guarantor2Id: application.guarantor2Id,
+          // Interest terms are fixed for the life of the loan
+          interestMethod: application.group.interestMethod,
+          interestRate: application.group.interestRate,
+          interestRatePeriod: application.group.interestRatePeriod,
+        },
+      });
+
+      const approved = await tx.loanApplication.update({
+        where: { id: application.id },
+        data: {
+          status: "APPROVED",
+          reviewedAt,
+          reviewedById: user.id,
+          reviewComment: data.comment || null,
+          loanId: loan.id,
+        },
+        include: applicationInclude,
+      });
+
+      await recordAudit(tx, {
+        action: "LOAN_APPLICATION_APPROVED",
+        entityType: "LoanApplication",
+        entityId: application.id,
+        reason: data.comment,
+        details: {
+          status: { from: "SUBMITTED", to: "APPROVED" },
+          loanId: loan.id,
+          cycleId: cycle.id,
+        },
+        userId: user.id,
+      });
+
+      const shortfall = await checkFundAvailable(tx, {
+        cycleId: cycle.id,
+        amount: loan.principal,
+        loanId: loan.id,
+      });
+      const waitlistEntry = shortfall
+        ? await addToWaitlist(tx, {
+            cycleId: cycle.id,
+            memberId: loan.memberId,
+            amount: loan.principal,
+            loanId: loan.id,
+            reason: fundShortfallMessage(shortfall),
+            userId: user.id,
+          })
+        : null;
+
+      return { application: approved, waitlistEntry };
+    });
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error reviewing loan application:", error);
+    return NextResponse.json(
+      { error: "Failed to review loan application" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,280 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { verifyToken } from "@/lib/auth";
+import { cookies } from "next/headers";
+import { z } from "zod";
+import { positiveMoneySchema } from "@/lib/money";
+import { recordAudit } from "@/lib/audit";
+import { checkGuarantors } from "@/lib/guarantors";
+import { getCreditScore } from "@/lib/credit";
+import { guarantorRulesOf } from "@/lib/utils";
+
+const createApplicationSchema = z.object({
+  groupId: z.string(),
+  amount: positiveMoneySchema,
+  weeks: z.number().int().positive().optional(), // Defaults to the group's loan weeks
+  reason: z.string().trim().min(1, "Reason is required"),
+  guarantor1Id: z.string().optional(),
+  guarantor2Id: z.string().optional(),
+});
+
+const applicationStatusSchema = z.enum([
+  "SUBMITTED",
+  "APPROVED",
+  "REJECTED",
+  "DISBURSED",
+]);
+
+const applicationInclude = {
+  member: true,
+  group: { select: { id: true, name: true } },
+  guarantor1: true,
+  guarantor2: true,
+  loan: {
+    select: {
+      id: true,
+      status: true,
+      disbursedAt: true,
+      guarantor1Consent: true,
+      guarantor2Consent: true,
+    },
+  },
+} as const;
+
+// List loan applications
+// Admins see every application (optionally filtered by status), with the
+// applicant's credit score on those awaiting review; members see their own
+export async function GET(request: NextRequest) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = applicationStatusSchema.safeParse(
+      searchParams.get("status")
+    );
+    const statusFilter = status.success ? { status: status.data } : {};
+
+    if (user.role === "ADMIN") {
+      const applications = await prisma.loanApplication.findMany({
+        where: statusFilter,
+        include: applicationInclude,
+        orderBy: { submittedAt: "desc" },
+      });
+
+      const applicantIds = [
+        ...new Set(
+          applications
+            .filter((a) => a.status === "SUBMITTED")
+            .map((a) => a.memberId)
+        ),
+      ];
+      const scores = new Map(
+        await Promise.all(
+          applicantIds.map(
+            async (memberId) =>
+              [memberId, await getCreditScore(prisma, memberId)] as const
+          )
+        )
+      );
+
+      return NextResponse.json(
+        {
+          applications: applications.map((application) => ({
+            ...application,
+            credit:
+              application.status === "SUBMITTED"
+                ? scores.get(application.memberId) ?? null
+                : null,
+          })),
+        },
+        { status: 200 }
+      );
+    }
+
+    const userRecord = await prisma.user.findUnique({
+      where: { id: user.id },
+      select: { userId: true },
+    });
+    const member = userRecord?.userId
+      ? await prisma.member.findUnique({
+          where: { userId: userRecord.userId },
+        })
+      : null;
+
+    if (!member) {
+      return NextResponse.json({ applications: [] }, { status: 200 });
+    }
+
+    const applications = await prisma.loanApplication.findMany({
+      where: { memberId: member.id, ...statusFilter },
+      include: applicationInclude,
+      orderBy: { submittedAt: "desc" },
+    });
+
+    return NextResponse.json({ applications }, { status: 200 });
+  } catch (error) {
+    console.error("Error fetching loan applications:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch loan applications" },
+      { status: 500 }
+    );
+  }
+}
+
+// Submit a loan application for the logged-in member
+export async function POST(request: NextRequest) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const data = createApplicationSchema.parse(body);
+
+    const userRecord = await prisma.user.findUnique({
+      where: { id: user.id },
+      select: { userId: true },
+    });
+    const member = userRecord?.userId
+      ? await prisma.member.findUnique({
+          where: { userId: userRecord.userId },
+        })
+      : null;
+
+    if (!member) {
+      return NextResponse.json(
+        { error: "Member record not found for this user" },
+        { status: 404 }
+      );
+    }
+
+    const group = await prisma.group.findUnique({
+      where: { id: data.groupId },
+      include: { members: { where: { isActive: true } } },
+    });
+
+    if (!group) {
+      return NextResponse.json({ error: "Group not found" }, { status: 404 });
+    }
+
+    const groupMemberIds = new Set(group.members.map((gm) => gm.memberId));
+    if (!groupMemberIds.has(member.id)) {
+      return NextResponse.json(
+        { error: "You are not an active member of this group" },
+        { status: 400 }
+      );
+    }
+
+    const guarantorIds = [data.guarantor1Id, data.guarantor2Id].filter(
+      (id): id is string => !!id
+    );
+    if (guarantorIds.includes(member.id)) {
+      return NextResponse.json(
+        { error: "You cannot be your own guarantor" },
+        { status: 400 }
+      );
+    }
+    if (new Set(guarantorIds).size !== guarantorIds.length) {
+      return NextResponse.json(
+        { error: "Choose two different guarantors" },
+        { status: 400 }
+      );
+    }
+    if (guarantorIds.some((id) => !groupMemberIds.has(id))) {
+      return NextResponse.json(
+        { error: "Guarantors must be active members of the group" },
+        { status: 400 }
+      );
+    }
+
+    const guarantorError = await checkGuarantors(
+      prisma,
+      { borrowerId: member.id, guarantorIds, amount: data.amount },
+      guarantorRulesOf(group)
+    );
+    if (guarantorError) {
+      return NextResponse.json({ error: guarantorError }, { status: 400 });
+    }
+
+    const openApplication = await prisma.loanApplication.findFirst({
+      where: {
+        memberId: member.id,
+        groupId: group.id,
+        status: { in: ["SUBMITTED", "APPROVED"] },
+      },
+    });
+
+    if (openApplication) {
+      return NextResponse.json(
+        {
+          error:
+            "You already have an application in progress with this group",
+        },
+        { status: 400 }
+      );
+    }
+
+    const application = await prisma.$transaction(async (tx) => {
+      const created = await tx.loanApplication.create({
+        data: {
+          memberId: member.id,
+          groupId: group.id,
+          amount: data.amount,
+          weeks: data.weeks ?? group.loanWeeks,
+          reason: data.reason,
+          guarantor1Id: data.guarantor1Id || null,
+          guarantor2Id: data.guarantor2Id || null,
+        },
+        include: applicationInclude,
+      });
+
+      await recordAudit(tx, {
+        action: "LOAN_APPLICATION_SUBMITTED",
+        entityType: "LoanApplication",
+        entityId: created.id,
+        details: {
+          memberId: member.id,
+          groupId: group.id,
+          amount: created.amount,
+          weeks: created.weeks,
+        },
+        userId: user.id,
+      });
+
+      return created;
+    });
+
+    return NextResponse.json({ application }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error submitting loan application:", error);
+    return NextResponse.json(
+      { error: "Failed to submit loan application" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { verifyToken } from "@/lib/auth";
+import { cookies } from "next/headers";
+import { flagDefaultedLoans } from "@/lib/arrears";
+
+// Overdue check: default active loans that have reached their group's
+// defaultAfterDays in arrears
+// Run by an admin from the portfolio at risk report, or on a schedule by a
+// cron job sending `Authorization: Bearer $CRON_SECRET`
+export async function POST(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    const isScheduledRun =
+      !!cronSecret &&
+      request.headers.get("authorization") === `Bearer ${cronSecret}`;
+
+    let userId: string | null = null;
+    if (!isScheduledRun) {
+      const cookieStore = await cookies();
+      const token = cookieStore.get("auth-token")?.value;
+
+      if (!token) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      const user = await verifyToken(token);
+      if (!user || user.role !== "ADMIN") {
+        return NextResponse.json(
+          { error: "Forbidden - Admin access required" },
+          { status: 403 }
+        );
+      }
+      userId = user.id;
+    }
+
+    const result = await flagDefaultedLoans(prisma, new Date(), userId);
+
+    return NextResponse.json(
+      {
+        ...result,
+        message: `Checked ${result.checked} active loans, ${result.defaulted.length} marked defaulted`,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Error running overdue check:", error);
+    return NextResponse.json(
+      { error: "Failed to run overdue check" },
+      { status: 500 }
+    );
+  }
+}
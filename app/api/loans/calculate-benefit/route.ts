@@ -3,6 +3,7 @@ import prisma from "@/lib/prisma";
 import { verifyToken } from "@/lib/auth";
 import { cookies } from "next/headers";
 import { z } from "zod";
+import { DEFAULT_WEEKLY_AMOUNT } from "@/lib/money";
 
 const calculateBenefitSchema = z.object({
   groupId: z.string(),
@@ -66,7 +67,7 @@ export async function POST(request: NextRequest) {
     const totalContributions = allGroupMembers.reduce((sum, gm) => {
       // Members contribute from their joining week to current week
       const weeksContributed = Math.max(0, data.week - gm.joiningWeek + 1);
-      const memberWeeklyAmount = gm.weeklyAmount || 100;
+      const memberWeeklyAmount = gm.weeklyAmount || DEFAULT_WEEKLY_AMOUNT;
       return sum + weeksContributed * memberWeeklyAmount;
     }, 0);
 
@@ -75,7 +76,8 @@ export async function POST(request: NextRequest) {
       0,
       data.week - groupMember.joiningWeek + 1
     );
-    const memberWeeklyAmount = groupMember.weeklyAmount || 100;
+    const memberWeeklyAmount =
+      groupMember.weeklyAmount || DEFAULT_WEEKLY_AMOUNT;
     const memberTotalContributed = memberWeeksContributed * memberWeeklyAmount;
 
     // Calculate benefit: based on member's total contribution vs total pool
@@ -87,15 +89,20 @@ export async function POST(request: NextRequest) {
     // Pool amount for this week (sum of all active members' individual weekly amounts)
     const poolAmount = allGroupMembers
       .filter((gm) => gm.joiningWeek <= data.week)
-      .reduce((sum, gm) => sum + (gm.weeklyAmount || 100), 0);
+      .reduce(
+        (sum, gm) => sum + (gm.weeklyAmount || DEFAULT_WEEKLY_AMOUNT),
+        0
+      );
 
     // Benefit: member's contribution as percentage of total pool
     // Formula: (member_contribution / total_contributions) * pool_amount
     // This ensures fair distribution - earlier joiners contribute more, get more benefit
-    const benefitAmount =
+    // Rounded to whole paise
+    const benefitAmount = Math.round(
       totalContributions > 0
         ? (memberTotalContributed / totalContributions) * poolAmount
-        : poolAmount / Math.max(activeMembersThisWeek, 1);
+        : poolAmount / Math.max(activeMembersThisWeek, 1)
+    );
 
     // Update group member's benefit amount
     await prisma.groupMember.update({
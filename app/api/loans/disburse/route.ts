@@ -3,14 +3,35 @@ import prisma from "@/lib/prisma";
 import { verifyToken } from "@/lib/auth";
 import { cookies } from "next/headers";
 import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { postJournalEntry, syncGroupFund } from "@/lib/ledger";
+import { checkPeriodsOpen } from "@/lib/periods";
+import { checkGuarantors, guarantorConsentError } from "@/lib/guarantors";
+import { syncInstallments } from "@/lib/installments";
+import { checkTopUpAllowed, payOutTopUp } from "@/lib/top-ups";
+import {
+  addToWaitlist,
+  checkFundAvailable,
+  fundShortfallMessage,
+  markWaitlistFunded,
+  recordFundOverride,
+  type FundShortfall,
+} from "@/lib/funds";
+import { guarantorRulesOf, NO_GUARANTOR_LIMITS } from "@/lib/utils";
 
-const disburseLoanSchema = z.object({
-  sequenceId: z.string(),
-  disbursedAt: z.string().optional(),
-  disbursementMethod: z.enum(["CASH", "UPI", "BANK_TRANSFER"]).optional(), // Payment method for disbursement
-  guarantor1Id: z.string().optional(),
-  guarantor2Id: z.string().optional(),
-});
+const disburseLoanSchema = z
+  .object({
+    sequenceId: z.string().optional(), // Rotation slot to pay out
+    loanId: z.string().optional(), // Or an approved (PENDING) loan from an application
+    disbursedAt: z.string().optional(),
+    disbursementMethod: z.enum(["CASH", "UPI", "BANK_TRANSFER"]).optional(), // Payment method for disbursement
+    guarantor1Id: z.string().optional(), // Guarantors for a rotation slot - approved loans keep their own
+    guarantor2Id: z.string().optional(),
+    fundOverrideReason: z.string().trim().min(1).optional(), // Pay out although the group fund cannot cover it
+  })
+  .refine((data) => !!data.sequenceId !== !!data.loanId, {
+    message: "Provide either a sequence or a loan to disburse",
+  });
 
 export async function POST(request: NextRequest) {
   try {
@@ -32,9 +53,13 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const data = disburseLoanSchema.parse(body);
 
+    if (data.loanId) {
+      return disbursePendingLoan(data.loanId, data, user.id);
+    }
+
     // Get sequence with cycle and member
     const sequence = await prisma.loanSequence.findUnique({
-      where: { id: data.sequenceId },
+      where: { id: data.sequenceId! },
       include: {
         cycle: {
           include: { groupFund: true },
@@ -57,19 +82,30 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if group fund has enough money
-    if (sequence.cycle?.groupFund) {
-      const groupFund = sequence.cycle.groupFund;
-      if (groupFund.totalFunds < sequence.loanAmount) {
-        return NextResponse.json(
-          {
-            error: "Insufficient funds in group pool",
-            available: groupFund.totalFunds,
-            required: sequence.loanAmount,
-          },
-          { status: 400 }
-        );
-      }
+    const waitingLoan = await prisma.loan.findUnique({
+      where: { sequenceId: sequence.id },
+    });
+    if (waitingLoan) {
+      return NextResponse.json(
+        {
+          error:
+            "This rotation slot's loan is waiting for its guarantors - disburse the loan once they accept",
+          loanId: waitingLoan.id,
+        },
+        { status: 400 }
+      );
+    }
+
+    // A guaranteed loan waits for its guarantors to accept; it is paid out
+    // later through the loanId path below
+    const awaitingGuarantors = !!(data.guarantor1Id || data.guarantor2Id);
+
+    const disbursedAt = new Date(data.disbursedAt || new Date());
+
+    // Nothing can be posted into a closed month
+    const closedPeriodError = await checkPeriodsOpen(prisma, disbursedAt);
+    if (closedPeriodError) {
+      return NextResponse.json({ error: closedPeriodError }, { status: 400 });
     }
 
     // Get cycle with group to determine loan weeks
@@ -78,59 +114,140 @@ export async function POST(request: NextRequest) {
       include: { group: true },
     });
 
-    // Simple flow: 10 weeks repayment, no interest
+    // Simple flow: the group's repayment weeks (default 10) and interest terms
     const loanWeeks = cycle?.group?.loanWeeks || 10;
 
-    // Create loan
-    const loan = await prisma.loan.create({
-      data: {
-        memberId: sequence.memberId,
-        cycleId: sequence.cycleId,
-        sequenceId: sequence.id,
-        principal: sequence.loanAmount,
-        remaining: sequence.loanAmount,
-        weeks: loanWeeks, // 10 weeks
-        currentWeek: 0,
-        status: "ACTIVE",
-        disbursedAt: new Date(data.disbursedAt || new Date()),
-        disbursementMethod: data.disbursementMethod || null,
-        guarantor1Id: data.guarantor1Id || null,
-        guarantor2Id: data.guarantor2Id || null,
-      },
-      include: {
-        member: true,
-        cycle: true,
-        sequence: true,
+    // Guarantors must be allowed by the group's rules
+    const guarantorError = await checkGuarantors(
+      prisma,
+      {
+        borrowerId: sequence.memberId,
+        guarantorIds: [data.guarantor1Id, data.guarantor2Id],
+        amount: sequence.loanAmount,
       },
-    });
+      cycle?.group ? guarantorRulesOf(cycle.group) : NO_GUARANTOR_LIMITS
+    );
+    if (guarantorError) {
+      return NextResponse.json({ error: guarantorError }, { status: 400 });
+    }
 
-    // Update sequence
-    await prisma.loanSequence.update({
-      where: { id: sequence.id },
-      data: {
-        status: "DISBURSED",
-        disbursedAt: new Date(data.disbursedAt || new Date()),
-      },
-    });
+    // The fund check and the payout share a transaction, so two payouts at
+    // once cannot both spend the same cash
+    const result = await prisma.$transaction(
+      async (tx) => {
+        // The group fund must cover the slot, after the waitlist ahead of it
+        const shortfall = awaitingGuarantors
+          ? null
+          : await checkFundAvailable(tx, {
+              cycleId: sequence.cycleId,
+              amount: sequence.loanAmount,
+              sequenceId: sequence.id,
+            });
+        if (shortfall && !data.fundOverrideReason) {
+          const waitlistEntry = await waitlistUnfunded(tx, shortfall, {
+            cycleId: sequence.cycleId,
+            memberId: sequence.memberId,
+            sequenceId: sequence.id,
+            userId: user.id,
+          });
+          return { loan: null, shortfall, waitlistEntry };
+        }
 
-    // Update group fund - deduct loan amount from investment pool
-    if (sequence.cycle?.groupFund) {
-      await prisma.groupFund.update({
-        where: { id: sequence.cycle.groupFund.id },
-        data: {
-          investmentPool: {
-            decrement: sequence.loanAmount,
+        const loan = await tx.loan.create({
+          data: {
+            memberId: sequence.memberId,
+            cycleId: sequence.cycleId,
+            sequenceId: sequence.id,
+            principal: sequence.loanAmount,
+            remaining: sequence.loanAmount,
+            weeks: loanWeeks, // 10 weeks
+            currentWeek: 0,
+            status: awaitingGuarantors ? "PENDING" : "ACTIVE",
+            disbursedAt: awaitingGuarantors ? null : disbursedAt,
+            disbursementMethod: data.disbursementMethod || null,
+            guarantor1Id: data.guarantor1Id || null,
+            guarantor2Id: data.guarantor2Id || null,
+            // Interest terms are fixed for the life of the loan
+            ...(cycle?.group && {
+              interestMethod: cycle.group.interestMethod,
+              interestRate: cycle.group.interestRate,
+              interestRatePeriod: cycle.group.interestRatePeriod,
+            }),
           },
-          totalFunds: {
-            decrement: sequence.loanAmount,
+          include: {
+            member: true,
+            cycle: true,
+            sequence: true,
           },
+        });
+
+        if (awaitingGuarantors) {
+          return { loan, shortfall, waitlistEntry: null };
+        }
+
+        await tx.loanSequence.update({
+          where: { id: sequence.id },
+          data: { status: "DISBURSED", disbursedAt },
+        });
+
+        // Post the disbursement: the loan is paid out of the cycle's group fund
+        await postJournalEntry(tx, {
+          date: disbursedAt,
+          description: `Loan disbursed to ${sequence.member.name} (rotation week ${sequence.week})`,
+          source: "LOAN_DISBURSEMENT",
+          sourceId: loan.id,
+          groupId: sequence.cycle.groupId,
+          cycleId: sequence.cycleId,
+          createdById: user.id,
+          lines: [
+            {
+              account: "LOANS_RECEIVABLE",
+              debit: sequence.loanAmount,
+              memberId: sequence.memberId,
+              loanId: loan.id,
+            },
+            { account: "CASH", credit: sequence.loanAmount },
+          ],
+        });
+
+        // Group fund balance is derived from the cycle's cash in the ledger
+        await syncGroupFund(tx, sequence.cycleId);
+
+        await syncInstallments(tx, loan.id);
+
+        await markWaitlistFunded(tx, { sequenceId: sequence.id }, disbursedAt);
+        if (shortfall && data.fundOverrideReason) {
+          await recordFundOverride(tx, {
+            loanId: loan.id,
+            cycleId: sequence.cycleId,
+            shortfall,
+            reason: data.fundOverrideReason,
+            userId: user.id,
+          });
+        }
+
+        return { loan, shortfall, waitlistEntry: null };
+      },
+      { timeout: 15000 }
+    );
+
+    if (!result.loan) {
+      return unfundedResponse(result.shortfall!, result.waitlistEntry);
+    }
+
+    if (awaitingGuarantors) {
+      return NextResponse.json(
+        {
+          loan: result.loan,
+          message: "Loan created - it can be disbursed once its guarantors accept",
         },
-      });
+        { status: 201 }
+      );
     }
 
     return NextResponse.json(
       {
-        loan,
+        loan: result.loan,
         message: "Loan disbursed successfully",
       },
       { status: 200 }
@@ -150,3 +267,238 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+// Pay out a loan waiting for disbursement - approved from a member's
+// application, or held back until its guarantors accepted. A top-up closes
+// the loan it tops up and pays out only the new cash.
+async function disbursePendingLoan(
+  loanId: string,
+  data: z.infer<typeof disburseLoanSchema>,
+  userId: string
+) {
+  const loan = await prisma.loan.findUnique({
+    where: { id: loanId },
+    include: {
+      member: true,
+      cycle: { include: { groupFund: true, group: true } },
+      application: true,
+      guarantor1: true,
+      guarantor2: true,
+    },
+  });
+
+  if (!loan) {
+    return NextResponse.json({ error: "Loan not found" }, { status: 404 });
+  }
+
+  if (loan.status !== "PENDING" || !loan.cycle) {
+    return NextResponse.json(
+      { error: "Only approved loans waiting for disbursement can be disbursed" },
+      { status: 400 }
+    );
+  }
+
+  // Every guarantor must have accepted, and still be within the group's rules
+  const consentError = guarantorConsentError(loan);
+  if (consentError) {
+    return NextResponse.json({ error: consentError }, { status: 400 });
+  }
+  const guarantorError = await checkGuarantors(
+    prisma,
+    {
+      borrowerId: loan.memberId,
+      guarantorIds: [loan.guarantor1Id, loan.guarantor2Id],
+      amount: loan.principal,
+      loanId: loan.id,
+      topUpOfId: loan.topUpOfId,
+    },
+    loan.cycle.group ? guarantorRulesOf(loan.cycle.group) : NO_GUARANTOR_LIMITS
+  );
+  if (guarantorError) {
+    return NextResponse.json({ error: guarantorError }, { status: 400 });
+  }
+
+  const disbursedAt = new Date(data.disbursedAt || new Date());
+
+  // The loan being topped up must still be up to date
+  if (loan.topUpOfId) {
+    const topUpError = await checkTopUpAllowed(
+      prisma,
+      loan.topUpOfId,
+      disbursedAt
+    );
+    if (topUpError) {
+      return NextResponse.json({ error: topUpError }, { status: 400 });
+    }
+  }
+
+  // Nothing can be posted into a closed month
+  const closedPeriodError = await checkPeriodsOpen(prisma, disbursedAt);
+  if (closedPeriodError) {
+    return NextResponse.json({ error: closedPeriodError }, { status: 400 });
+  }
+
+  const cycle = loan.cycle;
+  const result = await prisma.$transaction(
+    async (tx) => {
+      // The group fund must cover the loan, after the waitlist ahead of it
+      const shortfall = await checkFundAvailable(tx, {
+        cycleId: cycle.id,
+        amount: loan.topUpOfId ? loan.topUpAmount : loan.principal,
+        loanId: loan.id,
+      });
+      if (shortfall && !data.fundOverrideReason) {
+        const waitlistEntry = await waitlistUnfunded(tx, shortfall, {
+          cycleId: cycle.id,
+          memberId: loan.memberId,
+          loanId: loan.id,
+          userId,
+        });
+        return { loan: null, shortfall, waitlistEntry };
+      }
+
+      if (loan.topUpOfId) {
+        const { loan: toppedUp } = await payOutTopUp(tx, {
+          topUpId: loan.id,
+          date: disbursedAt,
+          disbursementMethod:
+            data.disbursementMethod || loan.disbursementMethod,
+          userId,
+        });
+        await markWaitlistFunded(tx, { loanId: loan.id }, disbursedAt);
+        if (shortfall && data.fundOverrideReason) {
+          await recordFundOverride(tx, {
+            loanId: loan.id,
+            cycleId: cycle.id,
+            shortfall,
+            reason: data.fundOverrideReason,
+            userId,
+          });
+        }
+        return { loan: toppedUp, shortfall, waitlistEntry: null };
+      }
+
+      const disbursed = await tx.loan.update({
+        where: { id: loan.id },
+        data: {
+          status: "ACTIVE",
+          disbursedAt,
+          disbursementMethod: data.disbursementMethod || null,
+        },
+        include: {
+          member: true,
+          cycle: true,
+          sequence: true,
+        },
+      });
+
+      if (loan.sequenceId) {
+        await tx.loanSequence.update({
+          where: { id: loan.sequenceId },
+          data: { status: "DISBURSED", disbursedAt },
+        });
+      } else if (cycle.groupId) {
+        // Loans outside the rotation count towards what the member has
+        // received, as when a cycle is created with its loan
+        await tx.groupMember.updateMany({
+          where: { groupId: cycle.groupId, memberId: loan.memberId },
+          data: { totalReceived: { increment: loan.principal } },
+        });
+      }
+
+      if (loan.application) {
+        await tx.loanApplication.update({
+          where: { id: loan.application.id },
+          data: { status: "DISBURSED", disbursedAt },
+        });
+      }
+
+      // Post the disbursement: the loan is paid out of the cycle's group fund
+      await postJournalEntry(tx, {
+        date: disbursedAt,
+        description: `Loan disbursed to ${loan.member.name}`,
+        source: "LOAN_DISBURSEMENT",
+        sourceId: loan.id,
+        groupId: cycle.groupId,
+        cycleId: cycle.id,
+        createdById: userId,
+        lines: [
+          {
+            account: "LOANS_RECEIVABLE",
+            debit: loan.principal,
+            memberId: loan.memberId,
+            loanId: loan.id,
+          },
+          { account: "CASH", credit: loan.principal },
+        ],
+      });
+
+      // Group fund balance is derived from the cycle's cash in the ledger
+      await syncGroupFund(tx, cycle.id);
+
+      await syncInstallments(tx, loan.id);
+
+      await markWaitlistFunded(
+        tx,
+        { loanId: loan.id, sequenceId: loan.sequenceId },
+        disbursedAt
+      );
+      if (shortfall && data.fundOverrideReason) {
+        await recordFundOverride(tx, {
+          loanId: loan.id,
+          cycleId: cycle.id,
+          shortfall,
+          reason: data.fundOverrideReason,
+          userId,
+        });
+      }
+
+      return { loan: disbursed, shortfall, waitlistEntry: null };
+    },
+    { timeout: 15000 }
+  );
+
+  if (!result.loan) {
+    return unfundedResponse(result.shortfall!, result.waitlistEntry);
+  }
+
+  return NextResponse.json(
+    {
+      loan: result.loan,
+      message: "Loan disbursed successfully",
+    },
+    { status: 200 }
+  );
+}
+
+// Put a payout the group fund cannot cover on the cycle's waitlist, to be
+// paid in its turn
+function waitlistUnfunded(
+  tx: Prisma.TransactionClient,
+  shortfall: FundShortfall,
+  request: {
+    cycleId: string;
+    memberId: string;
+    loanId?: string;
+    sequenceId?: string;
+    userId: string;
+  }
+) {
+  return addToWaitlist(tx, {
+    ...request,
+    amount: shortfall.required,
+    reason: fundShortfallMessage(shortfall),
+  });
+}
+
+// Turn down a payout that went on the waitlist
+function unfundedResponse(shortfall: FundShortfall, waitlistEntry: unknown) {
+  return NextResponse.json(
+    {
+      error: `${fundShortfallMessage(shortfall)} - added to the waitlist`,
+      ...shortfall,
+      waitlistEntry,
+    },
+    { status: 400 }
+  );
+}
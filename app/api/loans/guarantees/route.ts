@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { verifyToken } from "@/lib/auth";
+import { cookies } from "next/headers";
+import { z } from "zod";
+import { recordAudit } from "@/lib/audit";
+
+const respondSchema = z.object({
+  loanId: z.string(),
+  response: z.enum(["ACCEPTED", "DECLINED"]),
+});
+
+const guaranteeInclude = {
+  member: true,
+  cycle: { include: { group: { select: { id: true, name: true } } } },
+  guarantor1: true,
+  guarantor2: true,
+} as const;
+
+// Find the member record of the logged-in user
+async function currentMember(userId: string) {
+  const userRecord = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { userId: true },
+  });
+  return userRecord?.userId
+    ? prisma.member.findUnique({ where: { userId: userRecord.userId } })
+    : null;
+}
+
+// List the loans the logged-in member has been asked to guarantee
+export async function GET() {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const member = await currentMember(user.id);
+    if (!member) {
+      return NextResponse.json({ loans: [] }, { status: 200 });
+    }
+
+    const loans = await prisma.loan.findMany({
+      where: {
+        OR: [{ guarantor1Id: member.id }, { guarantor2Id: member.id }],
+      },
+      include: guaranteeInclude,
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({ memberId: member.id, loans }, { status: 200 });
+  } catch (error) {
+    console.error("Error fetching guarantees:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch guarantees" },
+      { status: 500 }
+    );
+  }
+}
+
+// Accept or decline a guarantee
+// Guarantors answer for themselves, before the loan is disbursed
+export async function POST(request: NextRequest) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const data = respondSchema.parse(body);
+
+    const member = await currentMember(user.id);
+    if (!member) {
+      return NextResponse.json(
+        { error: "Member record not found for this user" },
+        { status: 404 }
+      );
+    }
+
+    const loan = await prisma.loan.findUnique({ where: { id: data.loanId } });
+
+    if (!loan) {
+      return NextResponse.json({ error: "Loan not found" }, { status: 404 });
+    }
+
+    const slot =
+      loan.guarantor1Id === member.id
+        ? 1
+        : loan.guarantor2Id === member.id
+          ? 2
+          : null;
+    if (!slot) {
+      return NextResponse.json(
+        { error: "You are not a guarantor on this loan" },
+        { status: 403 }
+      );
+    }
+
+    if (loan.status !== "PENDING") {
+      return NextResponse.json(
+        { error: "This loan has already been disbursed" },
+        { status: 400 }
+      );
+    }
+
+    const previous =
+      slot === 1 ? loan.guarantor1Consent : loan.guarantor2Consent;
+    const respondedAt = new Date();
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const answered = await tx.loan.update({
+        where: { id: loan.id },
+        data:
+          slot === 1
+            ? {
+                guarantor1Consent: data.response,
+                guarantor1RespondedAt: respondedAt,
+              }
+            : {
+                guarantor2Consent: data.response,
+                guarantor2RespondedAt: respondedAt,
+              },
+        include: guaranteeInclude,
+      });
+
+      await recordAudit(tx, {
+        action:
+          data.response === "ACCEPTED"
+            ? "LOAN_GUARANTEE_ACCEPTED"
+            : "LOAN_GUARANTEE_DECLINED",
+        entityType: "Loan",
+        entityId: loan.id,
+        details: {
+          guarantorId: member.id,
+          consent: { from: previous, to: data.response },
+        },
+        userId: user.id,
+      });
+
+      return answered;
+    });
+
+    return NextResponse.json({ loan: updated }, { status: 200 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error responding to guarantee:", error);
+    return NextResponse.json(
+      { error: "Failed to record guarantee response" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+
+const { db, postJournalEntry, recordAudit } = vi.hoisted(() => {
+  const db = {
+    loan: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    loanTransaction: { findMany: vi.fn(), create: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  db.$transaction.mockImplementation(async (fn: (tx: unknown) => unknown) =>
+    fn(db)
+  );
+  return { db, postJournalEntry: vi.fn(), recordAudit: vi.fn() };
+});
+
+vi.mock("@/lib/prisma", () => ({ default: db }));
+vi.mock("@/lib/auth", () => ({
+  verifyToken: async () => ({ id: "admin-1", role: "ADMIN" }),
+}));
+vi.mock("next/headers", () => ({
+  cookies: async () => ({ get: () => ({ value: "token" }) }),
+}));
+vi.mock("@/lib/periods", () => ({ checkPeriodsOpen: async () => null }));
+vi.mock("@/lib/installments", () => ({ syncInstallments: vi.fn() }));
+vi.mock("@/lib/ledger", () => ({ postJournalEntry, syncGroupFund: vi.fn() }));
+vi.mock("@/lib/funds", () => ({ shareOutCycleFund: vi.fn() }));
+vi.mock("@/lib/audit", () => ({ recordAudit }));
+
+import { POST } from "./route";
+
+const day = (date: number) => new Date(2025, 0, date);
+
+// 1,000 over 10 weeks disbursed on Monday 6 January; by the 28th installments
+// 1 to 3 have fallen due and none is paid
+const loan = {
+  id: "loan-1",
+  memberId: "member-1",
+  member: { name: "Asha", userId: "M001" },
+  cycleId: null,
+  cycle: null,
+  moratoriums: [],
+  status: "ACTIVE",
+  principal: 100000,
+  remaining: 100000,
+  weeks: 10,
+  interestMethod: "FLAT",
+  interestRate: 0,
+  interestRatePeriod: "WEEKLY",
+  schedule: null,
+  currentWeek: 0,
+  openingWeek: 0,
+  totalPrincipalPaid: 0,
+  totalInterestPaid: 0,
+  totalPenaltyPaid: 0,
+  disbursedAt: day(6),
+};
+
+const repay = (amount: number) =>
+  POST(
+    new NextRequest("http://localhost/api/loans/repay", {
+      method: "POST",
+      body: JSON.stringify({
+        loanId: loan.id,
+        amount,
+        paymentDate: day(28).toISOString(),
+      }),
+    })
+  );
+
+const statusWritten = () => db.loan.updateMany.mock.calls[0][0].data.status;
+
+describe("POST /api/loans/repay", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.loanTransaction.findMany.mockResolvedValue([]);
+    db.loanTransaction.create.mockResolvedValue({ id: "txn-1" });
+    db.loan.updateMany.mockResolvedValue({ count: 1 });
+    db.loan.findUniqueOrThrow.mockResolvedValue(loan);
+  });
+
+  it("posts nothing when the loan was paid on since it was read", async () => {
+    db.loan.findUnique.mockResolvedValue(loan);
+    db.loan.updateMany.mockResolvedValue({ count: 0 });
+
+    const response = await repay(30000);
+
+    expect(response.status).toBe(409);
+    expect(db.loan.updateMany.mock.calls[0][0].where).toMatchObject({
+      id: loan.id,
+      remaining: 100000,
+    });
+    expect(db.loanTransaction.create).not.toHaveBeenCalled();
+    expect(postJournalEntry).not.toHaveBeenCalled();
+  });
+
+  it("keeps a defaulted loan defaulted while arrears remain", async () => {
+    db.loan.findUnique.mockResolvedValue({ ...loan, status: "DEFAULTED" });
+
+    const response = await repay(10000);
+
+    expect(response.status).toBe(200);
+    expect(statusWritten()).toBe("DEFAULTED");
+    expect(recordAudit).not.toHaveBeenCalled();
+  });
+
+  it("reactivates a defaulted loan once its arrears are cleared", async () => {
+    db.loan.findUnique.mockResolvedValue({ ...loan, status: "DEFAULTED" });
+
+    const response = await repay(30000);
+
+    expect(response.status).toBe(200);
+    expect(statusWritten()).toBe("ACTIVE");
+    expect(recordAudit).toHaveBeenCalledWith(
+      db,
+      expect.objectContaining({ action: "LOAN_DEFAULT_CLEARED" })
+    );
+  });
+
+  it("completes the loan when the balance is paid off", async () => {
+    db.loan.findUnique.mockResolvedValue(loan);
+
+    const response = await repay(100000);
+
+    expect(response.status).toBe(200);
+    expect(statusWritten()).toBe("COMPLETED");
+  });
+});
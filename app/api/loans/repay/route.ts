@@ -3,10 +3,26 @@ import prisma from "@/lib/prisma";
 import { verifyToken } from "@/lib/auth";
 import { cookies } from "next/headers";
 import { z } from "zod";
-// Removed interest and penalty calculation imports
+import { postJournalEntry, syncGroupFund } from "@/lib/ledger";
+import { checkPeriodsOpen } from "@/lib/periods";
+import { syncInstallments } from "@/lib/installments";
+import { formatMoney, positiveMoneySchema } from "@/lib/money";
+import { shareOutCycleFund } from "@/lib/funds";
+import { recordAudit } from "@/lib/audit";
+import {
+  allocateRepayment,
+  calculateArrears,
+  calculateRepaymentDues,
+  installmentsCovered,
+  loanSchedule,
+  meetingPausesOf,
+  NO_PENALTY,
+  penaltyRulesOf,
+} from "@/lib/utils";
 
 const repayLoanSchema = z.object({
   loanId: z.string(),
+  amount: positiveMoneySchema.optional(), // Optional, defaults to what is due now
   paymentDate: z.string().optional(), // Optional, defaults to now
   paymentMethod: z.enum(["CASH", "UPI", "BANK_TRANSFER"]).optional(), // Payment method for repayment
 });
@@ -33,17 +49,10 @@ export async function POST(request: NextRequest) {
       where: { id: data.loanId },
       include: {
         member: true,
+        moratoriums: true,
         cycle: {
           include: {
-            groupFund: true,
-            group: {
-              include: {
-                members: {
-                  where: { isActive: true },
-                  include: { member: true },
-                },
-              },
-            },
+            group: { include: { holidays: true } },
           },
         },
       },
@@ -76,187 +85,231 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Calculate expected week based on disbursal date
-    const disbursedDate = loan.disbursedAt
-      ? new Date(loan.disbursedAt)
-      : new Date();
+    if (loan.status === "PENDING") {
+      return NextResponse.json(
+        { error: "Loan has not been disbursed yet" },
+        { status: 400 }
+      );
+    }
+
+    if (loan.status === "WRITTEN_OFF") {
+      return NextResponse.json(
+        { error: "Loan has been written off - record a recovery instead" },
+        { status: 400 }
+      );
+    }
+
     const paymentDate = data.paymentDate
       ? new Date(data.paymentDate)
       : new Date();
 
-    // Calculate weekly payment amount based on loan
-    // Weekly principal = total principal / total weeks (no interest, no penalty)
-    const weeklyPrincipal = loan.principal / loan.weeks;
+    // Nothing can be posted into a closed month
+    const closedPeriodError = await checkPeriodsOpen(prisma, paymentDate);
+    if (closedPeriodError) {
+      return NextResponse.json({ error: closedPeriodError }, { status: 400 });
+    }
 
-    // No interest or penalty - only principal payments
-    const weeklyInterest = 0;
-    const accumulatedInterest = 0;
-    const accumulatedPenalty = 0;
-    const latePenalty = 0;
+    // What the loan owes on the payment date: late fines on the group's
+    // rules, interest on the loan's own terms (copied from the group at
+    // disbursement), overdue installments and the current installment
+    const schedule = loanSchedule(loan);
+    const repayments = await prisma.loanTransaction.findMany({
+      where: { loanId: loan.id, type: "REPAYMENT", reversedAt: null },
+      select: { week: true, date: true },
+    });
+    const dues = calculateRepaymentDues(
+      {
+        ...loan,
+        meetingDay: loan.cycle?.group?.meetingDay,
+        pauses: meetingPausesOf(loan),
+      },
+      schedule,
+      repayments,
+      loan.cycle?.group ? penaltyRulesOf(loan.cycle.group) : NO_PENALTY,
+      paymentDate
+    );
 
-    // Total weekly payment (only principal)
-    const weeklyPayment = weeklyPrincipal;
-    const totalPaymentThisWeek = weeklyPayment;
+    // Without an amount, pay whatever is due now
+    const amount = data.amount ?? dues.dueNow;
+    if (amount <= 0) {
+      return NextResponse.json(
+        { error: "Nothing is due on this loan yet - enter an amount to prepay" },
+        { status: 400 }
+      );
+    }
 
-    // Calculate new remaining balance
-    const newRemaining = Math.max(0, loan.remaining - weeklyPrincipal);
-    const newWeek = loan.currentWeek + 1; // Advance by 1 week
+    const allocation = allocateRepayment(amount, dues);
+    if (allocation.excess > 0) {
+      return NextResponse.json(
+        {
+          error: `Amount is more than the ${formatMoney(
+            dues.payoff
+          )} needed to close the loan`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Installments whose principal is now fully repaid
+    const newRemaining = loan.remaining - allocation.principal;
+    const newWeek = Math.max(
+      loan.openingWeek,
+      installmentsCovered(schedule, loan.principal - newRemaining)
+    );
 
     // Calculate payment breakdown
     const payment = {
-      principal: weeklyPrincipal,
-      interest: 0, // No interest
-      total: weeklyPayment, // Only principal
+      ...allocation,
+      total: amount,
       newBalance: newRemaining,
     };
 
-    // Total payment is only principal (no interest, no penalty)
     const totalPayment = payment.total;
 
-    // Update loan
-    const updatedLoan = await prisma.loan.update({
-      where: { id: loan.id },
-      data: {
-        remaining: payment.newBalance,
-        currentWeek: newWeek,
-        totalPrincipalPaid: loan.totalPrincipalPaid + payment.principal,
-        status: payment.newBalance <= 0 ? "COMPLETED" : "ACTIVE",
-        completedAt: payment.newBalance <= 0 ? paymentDate : null,
-      },
-    });
-
-    // Create transaction
-    const transaction = await prisma.loanTransaction.create({
-      data: {
-        loanId: loan.id,
-        date: paymentDate,
-        amount: payment.principal,
-        remaining: payment.newBalance,
-        week: newWeek,
-        paymentMethod: data.paymentMethod || null,
+    // A defaulted loan stays defaulted until its arrears are cleared
+    const arrearsAfter = calculateArrears(
+      schedule,
+      {
+        ...loan,
+        remaining: newRemaining,
+        meetingDay: loan.cycle?.group?.meetingDay,
+        pauses: meetingPausesOf(loan),
       },
-    });
-
-    // Simple flow: When loan is completed, distribute collected amount as savings to all members
-    if (updatedLoan.status === "COMPLETED") {
-      const totalPrincipalCollected = updatedLoan.totalPrincipalPaid;
-      
-      // Get all active members (no groups - all members in one pool)
-      const allMembers = await prisma.member.findMany({
-        where: {
-          // Get members who have contributed (have savings or collection payments)
-          OR: [
-            { savings: { some: {} } },
-            { collectionPayments: { some: {} } },
-          ],
-        },
-      });
-
-      // If we have group context, use group members; otherwise use all members
-      let membersToDistribute = allMembers;
-      if (loan.cycle?.group?.members && loan.cycle.group.members.length > 0) {
-        membersToDistribute = loan.cycle.group.members.map(gm => gm.member);
-      }
-
-      // Calculate total contributions from all members
-      const totalContributions = await prisma.collectionPayment.aggregate({
-        _sum: { amount: true },
-        where: {
-          memberId: { in: membersToDistribute.map(m => m.id) },
-          status: "PAID",
-        },
-      });
+      paymentDate
+    );
+    const status =
+      payment.newBalance <= 0
+        ? "COMPLETED"
+        : loan.status === "DEFAULTED" && arrearsAfter.arrears > 0
+          ? "DEFAULTED"
+          : "ACTIVE";
+
+    const { updatedLoan, transaction } = await prisma.$transaction(
+      async (tx) => {
+        // Update loan, only if nothing was paid on it since the dues were
+        // worked out - otherwise two quick repayments would both be posted
+        // against the same balance
+        const { count } = await tx.loan.updateMany({
+          where: {
+            id: loan.id,
+            status: loan.status,
+            remaining: loan.remaining,
+            totalInterestPaid: loan.totalInterestPaid,
+            totalPenaltyPaid: loan.totalPenaltyPaid,
+          },
+          data: {
+            remaining: payment.newBalance,
+            currentWeek: newWeek,
+            totalPrincipalPaid: loan.totalPrincipalPaid + payment.principal,
+            totalInterestPaid: loan.totalInterestPaid + payment.interest,
+            totalPenaltyPaid: loan.totalPenaltyPaid + payment.penalty,
+            status,
+            completedAt: payment.newBalance <= 0 ? paymentDate : null,
+          },
+        });
+        if (count === 0) {
+          return { updatedLoan: null, transaction: null };
+        }
+        const updatedLoan = await tx.loan.findUniqueOrThrow({
+          where: { id: loan.id },
+        });
 
-      const totalContributed = totalContributions._sum.amount || 0;
-
-      // Distribute principal proportionally based on contributions
-      if (totalContributed > 0 && totalPrincipalCollected > 0) {
-        // Create savings distributions for each member
-        const distributionPromises = membersToDistribute.map(async (member) => {
-          // Get member's total contributions
-          const memberContributions = await prisma.collectionPayment.aggregate({
-            _sum: { amount: true },
-            where: {
-              memberId: member.id,
-              status: "PAID",
+        if (loan.status === "DEFAULTED" && status === "ACTIVE") {
+          await recordAudit(tx, {
+            action: "LOAN_DEFAULT_CLEARED",
+            entityType: "Loan",
+            entityId: loan.id,
+            reason: "Arrears cleared by repayment",
+            details: {
+              status: { from: "DEFAULTED", to: "ACTIVE" },
+              paymentDate: paymentDate.toISOString(),
+              amount: totalPayment,
+              remaining: payment.newBalance,
             },
+            userId: user.id,
           });
+        }
 
-          const memberContributed = memberContributions._sum.amount || 0;
-          const contributionPercentage = memberContributed / totalContributed;
-          const savingsAmount = totalPrincipalCollected * contributionPercentage;
-
-          if (savingsAmount > 0) {
-            // Find or create savings record for member
-            let savings = await prisma.savings.findFirst({
-              where: { memberId: member.id },
-            });
-
-            if (!savings) {
-              savings = await prisma.savings.create({
-                data: {
-                  memberId: member.id,
-                  totalAmount: 0,
-                },
-              });
-            }
-
-            // Create savings transaction
-            const newTotal = savings.totalAmount + savingsAmount;
-            await prisma.savingsTransaction.create({
-              data: {
-                savingsId: savings.id,
-                date: paymentDate,
-                amount: savingsAmount,
-                total: newTotal,
-              },
-            });
-
-            // Update savings total
-            await prisma.savings.update({
-              where: { id: savings.id },
-              data: {
-                totalAmount: newTotal,
-              },
-            });
-          }
-
-          return {
-            memberId: member.id,
-            memberName: member.name,
-            contributionPercentage: contributionPercentage * 100,
-            savingsAmount,
-          };
-        });
-
-        await Promise.all(distributionPromises);
-      }
-
-      // Update group fund if exists
-      if (loan.cycle?.groupFund) {
-        await prisma.groupFund.update({
-          where: { id: loan.cycle.groupFund.id },
+        // Create transaction
+        const transaction = await tx.loanTransaction.create({
           data: {
-            investmentPool: 0, // All distributed as savings
-            totalFunds: 0, // All distributed
+            loanId: loan.id,
+            date: paymentDate,
+            amount: payment.principal,
+            interest: payment.interest,
+            penalty: payment.penalty,
+            remaining: payment.newBalance,
+            week: newWeek,
+            paymentMethod: data.paymentMethod || null,
           },
         });
-      }
-    } else {
-      // Loan not completed yet - add repayment to investment pool
-      if (loan.cycle?.groupFund) {
-        await prisma.groupFund.update({
-          where: { id: loan.cycle.groupFund.id },
-          data: {
-            investmentPool: {
-              increment: payment.principal,
+
+        // Allocate the payment into the loan's installments
+        await syncInstallments(tx, loan.id);
+
+        // Post the repayment: cash back into the cycle's fund, loan receivable
+        // reduced by the principal, and interest and late fines booked as income
+        await postJournalEntry(tx, {
+          date: paymentDate,
+          description: `Loan repayment week ${newWeek} - ${loan.member.name}`,
+          source: "LOAN_REPAYMENT",
+          sourceId: transaction.id,
+          groupId: loan.cycle?.groupId,
+          cycleId: loan.cycleId,
+          createdById: user.id,
+          lines: [
+            { account: "CASH", debit: totalPayment },
+            {
+              account: "LOANS_RECEIVABLE",
+              credit: payment.principal,
+              memberId: loan.memberId,
+              loanId: loan.id,
             },
-            totalFunds: {
-              increment: payment.principal,
+            {
+              account: "INTEREST_INCOME",
+              credit: payment.interest,
+              memberId: loan.memberId,
+              loanId: loan.id,
             },
-          },
+            {
+              account: "PENALTY_INCOME",
+              credit: payment.penalty,
+              memberId: loan.memberId,
+              loanId: loan.id,
+            },
+          ],
         });
-      }
+
+        // Repaying the last loan of a closed cycle shares its fund out to the
+        // members' savings
+        if (updatedLoan.status === "COMPLETED" && loan.cycleId) {
+          await shareOutCycleFund(tx, {
+            cycleId: loan.cycleId,
+            date: paymentDate,
+            description: `Savings distribution on completion of ${loan.member.name}'s loan`,
+            sourceId: loan.id,
+            userId: user.id,
+          });
+        }
+
+        // Group fund balance is derived from the cycle's cash in the ledger
+        if (loan.cycleId) {
+          await syncGroupFund(tx, loan.cycleId);
+        }
+
+        return { updatedLoan, transaction };
+      },
+      { timeout: 15000 }
+    );
+
+    if (!updatedLoan) {
+      return NextResponse.json(
+        {
+          error:
+            "Loan was updated while this repayment was being recorded - refresh and try again",
+        },
+        { status: 409 }
+      );
     }
 
     return NextResponse.json(
@@ -265,9 +318,14 @@ export async function POST(request: NextRequest) {
         transaction,
         payment: {
           principal: payment.principal,
+          interest: payment.interest,
+          penalty: payment.penalty,
+          overdue: payment.overdue,
+          current: payment.current,
+          prepaid: payment.prepaid,
           total: totalPayment,
           newBalance: payment.newBalance,
-          weeklyAmount: weeklyPayment, // Total amount to pay per week (only principal)
+          dueNow: dues.dueNow, // What was due before this payment
           paymentMethod: data.paymentMethod || null,
         },
       },
@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+
+const { db, reverseJournalEntry } = vi.hoisted(() => {
+  const db = {
+    loan: { update: vi.fn() },
+    loanTransaction: {
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      update: vi.fn(),
+      create: vi.fn(),
+    },
+    journalEntry: { findMany: vi.fn(), findFirst: vi.fn() },
+    savings: { findFirst: vi.fn() },
+    savingsTransaction: { create: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  db.$transaction.mockImplementation(async (fn: (tx: unknown) => unknown) =>
+    fn(db)
+  );
+  return { db, reverseJournalEntry: vi.fn() };
+});
+
+vi.mock("@/lib/prisma", () => ({ default: db }));
+vi.mock("@/lib/auth", () => ({
+  verifyToken: async () => ({ id: "admin-1", role: "ADMIN" }),
+}));
+vi.mock("next/headers", () => ({
+  cookies: async () => ({ get: () => ({ value: "token" }) }),
+}));
+vi.mock("@/lib/periods", () => ({ checkPeriodsOpen: async () => null }));
+vi.mock("@/lib/installments", () => ({ syncInstallments: vi.fn() }));
+vi.mock("@/lib/ledger", () => ({
+  postJournalEntry: vi.fn(),
+  reverseJournalEntry,
+  syncGroupFund: vi.fn(),
+  syncSavings: async () => 0,
+}));
+
+import { POST } from "./route";
+
+// The last repayment completed the loan, the last one open in its closed
+// cycle
+const loan = {
+  id: "loan-1",
+  memberId: "member-1",
+  member: { name: "Asha" },
+  cycleId: "cycle-1",
+  cycle: { groupId: "group-1" },
+  topUp: null,
+  status: "COMPLETED",
+  principal: 100000,
+  remaining: 0,
+  weeks: 10,
+  interestMethod: "FLAT",
+  interestRate: 0,
+  interestRatePeriod: "WEEKLY",
+  schedule: null,
+  openingWeek: 0,
+  totalPrincipalPaid: 100000,
+  totalInterestPaid: 0,
+  totalPenaltyPaid: 0,
+};
+const repayment = {
+  id: "txn-1",
+  loanId: loan.id,
+  loan,
+  type: "REPAYMENT",
+  reversedAt: null,
+  amount: 10000,
+  interest: 0,
+  penalty: 0,
+  week: 10,
+  paymentMethod: null,
+};
+
+const shareOut = (id: string, sourceId: string) => ({
+  id,
+  sourceId,
+  cycleId: loan.cycleId,
+  lines: [{ account: "MEMBER_SAVINGS", memberId: "member-2", credit: 50000 }],
+});
+
+const reverse = () =>
+  POST(
+    new NextRequest("http://localhost/api/loans/reverse", {
+      method: "POST",
+      body: JSON.stringify({ transactionId: repayment.id, reason: "Typo" }),
+    })
+  );
+
+describe("POST /api/loans/reverse", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.loanTransaction.findUnique.mockResolvedValue(repayment);
+    db.loanTransaction.findFirst.mockResolvedValue(repayment);
+    db.journalEntry.findFirst.mockResolvedValue({ id: "repayment-entry" });
+    db.savings.findFirst.mockResolvedValue({ id: "savings-2" });
+  });
+
+  it("takes back the cycle's share-out whichever loan triggered it", async () => {
+    db.journalEntry.findMany.mockImplementation(async ({ where }) =>
+      where.source === "SAVINGS_DISTRIBUTION"
+        ? [
+            // Closing another loan shared out the fund first; that was
+            // reversed, and the cycle was shared out again on closing
+            shareOut("share-out-2", loan.cycleId),
+            shareOut("share-out-1", "loan-2"),
+          ]
+        : [{ reversesEntryId: "share-out-1" }]
+    );
+
+    const response = await reverse();
+
+    expect(response.status).toBe(200);
+    expect(db.journalEntry.findMany.mock.calls[0][0].where).toEqual({
+      source: "SAVINGS_DISTRIBUTION",
+      cycleId: loan.cycleId,
+    });
+    const reversedEntries = reverseJournalEntry.mock.calls.map(
+      ([, entryId]) => entryId
+    );
+    expect(reversedEntries).toEqual(["share-out-2", "repayment-entry"]);
+    expect(db.savingsTransaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ savingsId: "savings-2", amount: -50000 }),
+    });
+    expect(db.loan.update.mock.calls[0][0].data).toMatchObject({
+      status: "ACTIVE",
+      remaining: 10000,
+    });
+  });
+
+  it("only reverses the most recent repayment", async () => {
+    db.loanTransaction.findFirst.mockResolvedValue({ id: "txn-2" });
+
+    const response = await reverse();
+
+    expect(response.status).toBe(400);
+    expect(reverseJournalEntry).not.toHaveBeenCalled();
+  });
+});
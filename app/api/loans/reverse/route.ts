@@ -0,0 +1,306 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { verifyToken } from "@/lib/auth";
+import { cookies } from "next/headers";
+import { z } from "zod";
+import {
+  postJournalEntry,
+  reverseJournalEntry,
+  syncGroupFund,
+  syncSavings,
+} from "@/lib/ledger";
+import { checkPeriodsOpen } from "@/lib/periods";
+import { syncInstallments } from "@/lib/installments";
+import { installmentsCovered, loanSchedule } from "@/lib/utils";
+
+const reverseRepaymentSchema = z.object({
+  transactionId: z.string(),
+  reason: z.string().trim().min(1, "Reason is required"),
+});
+
+// Reverse a loan repayment recorded by mistake
+// Restores the loan, reopens it if the repayment completed it (clawing back
+// the savings distributed on completion), and keeps both the original and a
+// compensating transaction for the audit trail
+export async function POST(request: NextRequest) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user || user.role !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Forbidden - Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const data = reverseRepaymentSchema.parse(body);
+
+    const transaction = await prisma.loanTransaction.findUnique({
+      where: { id: data.transactionId },
+      include: {
+        loan: {
+          include: { member: true, cycle: true, topUp: true },
+        },
+      },
+    });
+
+    if (!transaction) {
+      return NextResponse.json(
+        { error: "Transaction not found" },
+        { status: 404 }
+      );
+    }
+
+    if (transaction.type !== "REPAYMENT") {
+      return NextResponse.json(
+        { error: "Only repayments can be reversed" },
+        { status: 400 }
+      );
+    }
+
+    // The written-off balance was worked out from this repayment
+    if (transaction.loan.status === "WRITTEN_OFF") {
+      return NextResponse.json(
+        { error: "Repayments on a written-off loan cannot be reversed" },
+        { status: 400 }
+      );
+    }
+
+    // The balance left after this repayment now lives on the top-up loan
+    if (transaction.loan.topUp) {
+      return NextResponse.json(
+        { error: "Repayments on a loan closed by a top-up cannot be reversed" },
+        { status: 400 }
+      );
+    }
+
+    if (transaction.reversedAt) {
+      return NextResponse.json(
+        { error: "Repayment already reversed" },
+        { status: 400 }
+      );
+    }
+
+    // Later repayments were calculated from this one's balance and week,
+    // so repayments are undone newest first
+    const latestRepayment = await prisma.loanTransaction.findFirst({
+      where: {
+        loanId: transaction.loanId,
+        type: "REPAYMENT",
+        reversedAt: null,
+      },
+      orderBy: [{ week: "desc" }, { createdAt: "desc" }],
+    });
+
+    if (latestRepayment?.id !== transaction.id) {
+      return NextResponse.json(
+        {
+          error:
+            "Only the most recent repayment can be reversed - reverse later repayments first",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Nothing can be posted into a closed month
+    const closedPeriodError = await checkPeriodsOpen(prisma, new Date());
+    if (closedPeriodError) {
+      return NextResponse.json({ error: closedPeriodError }, { status: 400 });
+    }
+
+    const loan = transaction.loan;
+    const reversedAt = new Date();
+
+    const result = await prisma.$transaction(
+      async (tx) => {
+        // Completing the loan may have finished its cycle and shared the
+        // cycle's fund out to member savings - on this loan's repayment or
+        // another's, or when the cycle was closed - so every share-out of the
+        // cycle still in effect is taken back
+        if (loan.status === "COMPLETED") {
+          const distributions = await tx.journalEntry.findMany({
+            where: {
+              source: "SAVINGS_DISTRIBUTION",
+              ...(loan.cycleId
+                ? { cycleId: loan.cycleId }
+                : { sourceId: loan.id }),
+            },
+            orderBy: { createdAt: "desc" },
+            include: { lines: true },
+          });
+          const reversals = await tx.journalEntry.findMany({
+            where: {
+              reversesEntryId: { in: distributions.map((entry) => entry.id) },
+            },
+            select: { reversesEntryId: true },
+          });
+          const reversed = new Set(
+            reversals.map((entry) => entry.reversesEntryId)
+          );
+
+          for (const distribution of distributions) {
+            if (reversed.has(distribution.id)) continue;
+
+            await reverseJournalEntry(tx, distribution.id, {
+              date: reversedAt,
+              description: `Reversal of savings distribution for ${loan.member.name}'s loan: ${data.reason}`,
+              createdById: user.id,
+            });
+
+            for (const line of distribution.lines) {
+              if (line.account !== "MEMBER_SAVINGS" || !line.memberId) continue;
+
+              const savings = await tx.savings.findFirst({
+                where: { memberId: line.memberId },
+              });
+              if (!savings) continue;
+
+              // Savings total is derived from the member's savings in the ledger
+              const newTotal = await syncSavings(tx, savings.id, line.memberId);
+              await tx.savingsTransaction.create({
+                data: {
+                  savingsId: savings.id,
+                  date: reversedAt,
+                  amount: -line.credit,
+                  total: newTotal,
+                },
+              });
+            }
+          }
+        }
+
+        // Cancel the repayment in the ledger: cash back out, receivable restored
+        const repaymentEntry = await tx.journalEntry.findFirst({
+          where: { source: "LOAN_REPAYMENT", sourceId: transaction.id },
+        });
+        const description = `Reversal of loan repayment week ${transaction.week} - ${loan.member.name}: ${data.reason}`;
+        if (repaymentEntry) {
+          await reverseJournalEntry(tx, repaymentEntry.id, {
+            date: reversedAt,
+            description,
+            createdById: user.id,
+          });
+        } else {
+          // Repayment predates the ledger and is only in its opening balance
+          await postJournalEntry(tx, {
+            date: reversedAt,
+            description,
+            source: "REVERSAL",
+            sourceId: transaction.id,
+            groupId: loan.cycle?.groupId,
+            cycleId: loan.cycleId,
+            createdById: user.id,
+            lines: [
+              {
+                account: "LOANS_RECEIVABLE",
+                debit: transaction.amount,
+                memberId: loan.memberId,
+                loanId: loan.id,
+              },
+              {
+                account: "INTEREST_INCOME",
+                debit: transaction.interest,
+                memberId: loan.memberId,
+                loanId: loan.id,
+              },
+              {
+                account: "PENALTY_INCOME",
+                debit: transaction.penalty,
+                memberId: loan.memberId,
+                loanId: loan.id,
+              },
+              {
+                account: "CASH",
+                credit:
+                  transaction.amount + transaction.interest + transaction.penalty,
+              },
+            ],
+          });
+        }
+
+        const restoredRemaining = loan.remaining + transaction.amount;
+        const updatedLoan = await tx.loan.update({
+          where: { id: loan.id },
+          data: {
+            remaining: restoredRemaining,
+            currentWeek: Math.max(
+              loan.openingWeek,
+              installmentsCovered(
+                loanSchedule(loan),
+                loan.principal - restoredRemaining
+              )
+            ),
+            totalPrincipalPaid: loan.totalPrincipalPaid - transaction.amount,
+            totalInterestPaid: loan.totalInterestPaid - transaction.interest,
+            totalPenaltyPaid: loan.totalPenaltyPaid - transaction.penalty,
+            status: loan.status === "COMPLETED" ? "ACTIVE" : loan.status,
+            completedAt: null,
+          },
+        });
+
+        const reversedTransaction = await tx.loanTransaction.update({
+          where: { id: transaction.id },
+          data: {
+            reversedAt,
+            reversedById: user.id,
+            reversalReason: data.reason,
+          },
+        });
+
+        // Compensating entry so the history adds up to the loan balance
+        const reversal = await tx.loanTransaction.create({
+          data: {
+            loanId: loan.id,
+            date: reversedAt,
+            amount: -transaction.amount,
+            interest: -transaction.interest,
+            penalty: -transaction.penalty,
+            remaining: restoredRemaining,
+            week: transaction.week,
+            paymentMethod: transaction.paymentMethod,
+            type: "REVERSAL",
+            reversesId: transaction.id,
+            reversalReason: data.reason,
+            reversedById: user.id,
+          },
+        });
+
+        // Group fund balance is derived from the cycle's cash in the ledger
+        if (loan.cycleId) {
+          await syncGroupFund(tx, loan.cycleId);
+        }
+
+        await syncInstallments(tx, loan.id);
+
+        return {
+          loan: updatedLoan,
+          transaction: reversedTransaction,
+          reversal,
+        };
+      },
+      { timeout: 15000 }
+    );
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error reversing loan repayment:", error);
+    return NextResponse.json(
+      { error: "Failed to reverse repayment" },
+      { status: 500 }
+    );
+  }
+}
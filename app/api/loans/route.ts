@@ -3,10 +3,18 @@ import prisma from '@/lib/prisma'
 import { verifyToken } from '@/lib/auth'
 import { cookies } from 'next/headers'
 import { z } from 'zod'
+import { positiveMoneySchema } from '@/lib/money'
+import { checkGuarantors } from '@/lib/guarantors'
+import {
+  addToWaitlist,
+  checkFundAvailable,
+  fundShortfallMessage,
+} from '@/lib/funds'
+import { guarantorRulesOf, NO_GUARANTOR_LIMITS } from '@/lib/utils'
 
 const createLoanSchema = z.object({
   memberId: z.string(),
-  principal: z.number().positive(),
+  principal: positiveMoneySchema,
   weeks: z.number().int().positive().default(10),
   cycleId: z.string().optional(),
   sequenceId: z.string().optional(),
@@ -73,30 +81,95 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const data = createLoanSchema.parse(body)
 
-    const loan = await prisma.loan.create({
-      data: {
-        memberId: data.memberId,
-        principal: data.principal,
-        remaining: data.principal,
-        weeks: data.weeks,
-        currentWeek: 0,
-        status: 'PENDING',
-        cycleId: data.cycleId,
-        sequenceId: data.sequenceId,
-        disbursementMethod: data.disbursementMethod,
-        guarantor1Id: data.guarantor1Id,
-        guarantor2Id: data.guarantor2Id,
+    // Loans in a group cycle take the group's interest terms
+    const cycle = data.cycleId
+      ? await prisma.loanCycle.findUnique({
+          where: { id: data.cycleId },
+          include: { group: true },
+        })
+      : null
+
+    if (data.cycleId && !cycle) {
+      return NextResponse.json({ error: 'Cycle not found' }, { status: 404 })
+    }
+
+    // A cycle lends from its fund only while it runs
+    if (cycle && !cycle.isActive) {
+      return NextResponse.json(
+        { error: 'Loans can only be added to an active cycle' },
+        { status: 400 }
+      )
+    }
+
+    // Guarantors must be allowed by the group's rules
+    const guarantorError = await checkGuarantors(
+      prisma,
+      {
+        borrowerId: data.memberId,
+        guarantorIds: [data.guarantor1Id, data.guarantor2Id],
+        amount: data.principal,
       },
-      include: {
-        member: true,
-        cycle: true,
-        sequence: true,
-        guarantor1: true,
-        guarantor2: true,
+      cycle?.group ? guarantorRulesOf(cycle.group) : NO_GUARANTOR_LIMITS
+    )
+    if (guarantorError) {
+      return NextResponse.json({ error: guarantorError }, { status: 400 })
+    }
+
+    // The loan and its place on the waitlist are saved together
+    const { loan, waitlistEntry } = await prisma.$transaction(
+      async (tx) => {
+        const loan = await tx.loan.create({
+          data: {
+            memberId: data.memberId,
+            principal: data.principal,
+            remaining: data.principal,
+            weeks: data.weeks,
+            currentWeek: 0,
+            status: 'PENDING',
+            cycleId: data.cycleId,
+            sequenceId: data.sequenceId,
+            disbursementMethod: data.disbursementMethod,
+            guarantor1Id: data.guarantor1Id,
+            guarantor2Id: data.guarantor2Id,
+            ...(cycle?.group && {
+              interestMethod: cycle.group.interestMethod,
+              interestRate: cycle.group.interestRate,
+              interestRatePeriod: cycle.group.interestRatePeriod,
+            }),
+          },
+          include: {
+            member: true,
+            cycle: true,
+            sequence: true,
+            guarantor1: true,
+            guarantor2: true,
+          },
+        })
+
+        // A loan the cycle's fund cannot cover yet waits its turn
+        const shortfall = await checkFundAvailable(tx, {
+          cycleId: loan.cycleId,
+          amount: loan.principal,
+          loanId: loan.id,
+        })
+        const waitlistEntry =
+          shortfall && loan.cycleId
+            ? await addToWaitlist(tx, {
+                cycleId: loan.cycleId,
+                memberId: loan.memberId,
+                amount: loan.principal,
+                loanId: loan.id,
+                reason: fundShortfallMessage(shortfall),
+                userId: user.id,
+              })
+            : null
+
+        return { loan, waitlistEntry }
       },
-    })
+      { timeout: 15000 }
+    )
 
-    return NextResponse.json({ loan }, { status: 201 })
+    return NextResponse.json({ loan, waitlistEntry }, { status: 201 })
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json(
@@ -0,0 +1,197 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { verifyToken } from "@/lib/auth";
+import { cookies } from "next/headers";
+import { z } from "zod";
+import { recordAudit } from "@/lib/audit";
+import { getWaitlist } from "@/lib/funds";
+
+const updateWaitlistSchema = z.discriminatedUnion("action", [
+  // Swap places with the entry ahead of or behind it in the same cycle
+  z.object({
+    action: z.enum(["MOVE_UP", "MOVE_DOWN"]),
+    entryId: z.string(),
+  }),
+  // Take it off the waitlist; a pending loan stays pending
+  z.object({
+    action: z.literal("CANCEL"),
+    entryId: z.string(),
+    reason: z.string().trim().min(1, "Reason is required"),
+  }),
+]);
+
+// Loans and rotation slots waiting for their cycle's fund, in the order they
+// will be paid, with when the fund is projected to cover each
+// Filters: groupId, cycleId
+export async function GET(request: NextRequest) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user || user.role !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Forbidden - Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const groupId = searchParams.get("groupId") || undefined;
+    const cycleId = searchParams.get("cycleId") || undefined;
+
+    const waitlist = await getWaitlist(prisma, {
+      groupId,
+      cycleId,
+      asOf: new Date(),
+    });
+
+    return NextResponse.json({ waitlist }, { status: 200 });
+  } catch (error) {
+    console.error("Error fetching loan waitlist:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch loan waitlist" },
+      { status: 500 }
+    );
+  }
+}
+
+// Reorder or cancel a waitlist entry
+export async function PUT(request: NextRequest) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user || user.role !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Forbidden - Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const data = updateWaitlistSchema.parse(body);
+
+    const entry = await prisma.loanWaitlistEntry.findUnique({
+      where: { id: data.entryId },
+    });
+
+    if (!entry) {
+      return NextResponse.json(
+        { error: "Waitlist entry not found" },
+        { status: 404 }
+      );
+    }
+
+    if (entry.status !== "WAITING") {
+      return NextResponse.json(
+        { error: "This entry is no longer waiting" },
+        { status: 400 }
+      );
+    }
+
+    if (data.action === "CANCEL") {
+      const cancelled = await prisma.$transaction(async (tx) => {
+        const updated = await tx.loanWaitlistEntry.update({
+          where: { id: entry.id },
+          data: {
+            status: "CANCELLED",
+            cancelledAt: new Date(),
+            cancelReason: data.reason,
+          },
+        });
+
+        await recordAudit(tx, {
+          action: "LOAN_WAITLIST_CANCELLED",
+          entityType: "LoanWaitlistEntry",
+          entityId: entry.id,
+          reason: data.reason,
+          details: {
+            status: { from: "WAITING", to: "CANCELLED" },
+            loanId: entry.loanId,
+            sequenceId: entry.sequenceId,
+            amount: entry.amount,
+          },
+          userId: user.id,
+        });
+
+        return updated;
+      });
+
+      return NextResponse.json({ entry: cancelled }, { status: 200 });
+    }
+
+    // MOVE_UP / MOVE_DOWN
+    const neighbour = await prisma.loanWaitlistEntry.findFirst({
+      where: {
+        cycleId: entry.cycleId,
+        status: "WAITING",
+        priority:
+          data.action === "MOVE_UP"
+            ? { lt: entry.priority }
+            : { gt: entry.priority },
+      },
+      orderBy: { priority: data.action === "MOVE_UP" ? "desc" : "asc" },
+    });
+
+    if (!neighbour) {
+      return NextResponse.json(
+        {
+          error:
+            data.action === "MOVE_UP"
+              ? "This entry is already first"
+              : "This entry is already last",
+        },
+        { status: 400 }
+      );
+    }
+
+    const moved = await prisma.$transaction(async (tx) => {
+      await tx.loanWaitlistEntry.update({
+        where: { id: neighbour.id },
+        data: { priority: entry.priority },
+      });
+      const updated = await tx.loanWaitlistEntry.update({
+        where: { id: entry.id },
+        data: { priority: neighbour.priority },
+      });
+
+      await recordAudit(tx, {
+        action: "LOAN_WAITLIST_REORDERED",
+        entityType: "LoanWaitlistEntry",
+        entityId: entry.id,
+        details: {
+          priority: { from: entry.priority, to: neighbour.priority },
+          swappedWith: neighbour.id,
+        },
+        userId: user.id,
+      });
+
+      return updated;
+    });
+
+    return NextResponse.json({ entry: moved }, { status: 200 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error updating loan waitlist:", error);
+    return NextResponse.json(
+      { error: "Failed to update loan waitlist" },
+      { status: 500 }
+    );
+  }
+}
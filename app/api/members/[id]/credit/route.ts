@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { verifyToken } from "@/lib/auth";
+import { cookies } from "next/headers";
+import { getCreditScore } from "@/lib/credit";
+
+// A member's credit score with its factor breakdown
+// Filters: asOf (yyyy-MM-dd, defaults to now)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const asOfParam = searchParams.get("asOf");
+
+    const asOf = new Date();
+    if (asOfParam) {
+      const date = new Date(asOfParam);
+      if (isNaN(date.getTime())) {
+        return NextResponse.json(
+          { error: "Invalid asOf date" },
+          { status: 400 }
+        );
+      }
+      asOf.setTime(date.getTime());
+      asOf.setHours(23, 59, 59, 999);
+    }
+
+    const credit = await getCreditScore(prisma, id, asOf);
+    if (!credit) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ credit }, { status: 200 });
+  } catch (error) {
+    console.error("Error calculating credit score:", error);
+    return NextResponse.json(
+      { error: "Failed to calculate credit score" },
+      { status: 500 }
+    );
+  }
+}
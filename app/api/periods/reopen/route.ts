@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { verifyToken } from "@/lib/auth";
+import { cookies } from "next/headers";
+import { z } from "zod";
+import { recordAudit } from "@/lib/audit";
+import { periodLabel } from "@/lib/periods";
+
+const reopenPeriodSchema = z.object({
+  month: z.number().int().min(1).max(12),
+  year: z.number().int(),
+  reason: z.string().trim().min(1, "Reason is required"),
+});
+
+// Reopen a closed month so corrections can be posted into it
+// Statements already published for the month may no longer match
+export async function POST(request: NextRequest) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user || user.role !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Forbidden - Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const data = reopenPeriodSchema.parse(body);
+
+    const existing = await prisma.accountingPeriod.findUnique({
+      where: { year_month: { year: data.year, month: data.month } },
+    });
+
+    if (!existing || existing.status !== "CLOSED") {
+      return NextResponse.json(
+        { error: `${periodLabel(data.year, data.month)} is not closed` },
+        { status: 400 }
+      );
+    }
+
+    const period = await prisma.$transaction(async (tx) => {
+      const reopened = await tx.accountingPeriod.update({
+        where: { id: existing.id },
+        data: {
+          status: "OPEN",
+          reopenedAt: new Date(),
+          reopenedById: user.id,
+          reopenReason: data.reason,
+        },
+      });
+
+      await recordAudit(tx, {
+        action: "PERIOD_REOPENED",
+        entityType: "AccountingPeriod",
+        entityId: existing.id,
+        reason: data.reason,
+        details: {
+          year: data.year,
+          month: data.month,
+          closedAt: existing.closedAt?.toISOString() ?? null,
+          closedById: existing.closedById,
+        },
+        userId: user.id,
+      });
+
+      return reopened;
+    });
+
+    return NextResponse.json({ period }, { status: 200 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error reopening period:", error);
+    return NextResponse.json(
+      { error: "Failed to reopen period" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { verifyToken } from "@/lib/auth";
+import { cookies } from "next/headers";
+import { z } from "zod";
+import { recordAudit } from "@/lib/audit";
+import { periodLabel, periodOf } from "@/lib/periods";
+
+const closePeriodSchema = z.object({
+  month: z.number().int().min(1).max(12),
+  year: z.number().int(),
+});
+
+export async function GET() {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const periods = await prisma.accountingPeriod.findMany({
+      orderBy: [{ year: "desc" }, { month: "desc" }],
+    });
+
+    return NextResponse.json({ periods }, { status: 200 });
+  } catch (error) {
+    console.error("Error fetching periods:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch periods" },
+      { status: 500 }
+    );
+  }
+}
+
+// Close a month: from now on nothing can be posted with a date inside it
+export async function POST(request: NextRequest) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user || user.role !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Forbidden - Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const data = closePeriodSchema.parse(body);
+
+    // Only months that have ended can be closed
+    const current = periodOf(new Date());
+    if (
+      data.year > current.year ||
+      (data.year === current.year && data.month >= current.month)
+    ) {
+      return NextResponse.json(
+        { error: "Only months that have ended can be closed" },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.accountingPeriod.findUnique({
+      where: { year_month: { year: data.year, month: data.month } },
+    });
+
+    if (existing?.status === "CLOSED") {
+      return NextResponse.json(
+        { error: `${periodLabel(data.year, data.month)} is already closed` },
+        { status: 400 }
+      );
+    }
+
+    const period = await prisma.$transaction(async (tx) => {
+      const closed = await tx.accountingPeriod.upsert({
+        where: { year_month: { year: data.year, month: data.month } },
+        create: {
+          year: data.year,
+          month: data.month,
+          status: "CLOSED",
+          closedAt: new Date(),
+          closedById: user.id,
+        },
+        update: {
+          status: "CLOSED",
+          closedAt: new Date(),
+          closedById: user.id,
+        },
+      });
+
+      await recordAudit(tx, {
+        action: "PERIOD_CLOSED",
+        entityType: "AccountingPeriod",
+        entityId: closed.id,
+        details: { year: data.year, month: data.month },
+        userId: user.id,
+      });
+
+      return closed;
+    });
+
+    return NextResponse.json({ period }, { status: 200 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error closing period:", error);
+    return NextResponse.json(
+      { error: "Failed to close period" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { verifyToken } from "@/lib/auth";
+import { cookies } from "next/headers";
+import { getDayBook, parseReportFilters } from "@/lib/reports";
+
+// Filters: groupId, cycleId, from, to (yyyy-MM-dd)
+export async function GET(request: NextRequest) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const parsed = parseReportFilters(searchParams);
+
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const dayBook = await getDayBook(prisma, parsed.filters);
+
+    return NextResponse.json(
+      { dayBook, filters: parsed.filters },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Error generating day book:", error);
+    return NextResponse.json(
+      { error: "Failed to generate day book" },
+      { status: 500 }
+    );
+  }
+}
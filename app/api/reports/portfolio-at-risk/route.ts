@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { verifyToken } from "@/lib/auth";
+import { cookies } from "next/headers";
+import { getPortfolioAtRisk } from "@/lib/arrears";
+
+// Filters: groupId, asOf (yyyy-MM-dd, defaults to now)
+export async function GET(request: NextRequest) {
+  try {
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await verifyToken(token);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const groupId = searchParams.get("groupId") || undefined;
+    const asOfParam = searchParams.get("asOf");
+
+    const asOf = new Date();
+    if (asOfParam) {
+      const date = new Date(asOfParam);
+      if (isNaN(date.getTime())) {
+        return NextResponse.json(
+          { error: "Invalid asOf date" },
+          { status: 400 }
+        );
+      }
+      asOf.setTime(date.getTime());
+      asOf.setHours(23, 59, 59, 999);
+    }
+
+    const report = await getPortfolioAtRisk(prisma, { groupId, asOf });
+
+    return NextResponse.json({ report }, { status: 200 });
+  } catch (error) {
+    console.error("Error generating portfolio at risk report:", error);
+    return NextResponse.json(
+      { error: "Failed to generate portfolio at risk report" },
+      { status: 500 }
+    );
+  }
+}
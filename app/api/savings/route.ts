@@ -3,10 +3,13 @@ import prisma from '@/lib/prisma'
 import { verifyToken } from '@/lib/auth'
 import { cookies } from 'next/headers'
 import { z } from 'zod'
+import { DEFAULT_WEEKLY_AMOUNT, positiveMoneySchema } from '@/lib/money'
+import { postJournalEntry, syncGroupFund, syncSavings } from '@/lib/ledger'
+import { checkPeriodsOpen } from '@/lib/periods'
 
 const createSavingsSchema = z.object({
   memberId: z.string(),
-  amount: z.number().positive(),
+  amount: positiveMoneySchema,
   date: z.string(),
 })
 
@@ -63,6 +66,12 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const data = createSavingsSchema.parse(body)
 
+    // Nothing can be posted into a closed month
+    const closedPeriodError = await checkPeriodsOpen(prisma, new Date(data.date))
+    if (closedPeriodError) {
+      return NextResponse.json({ error: closedPeriodError }, { status: 400 })
+    }
+
     // Find or create savings record
     let savings = await prisma.savings.findFirst({
       where: { memberId: data.memberId },
@@ -77,8 +86,43 @@ export async function POST(request: NextRequest) {
       })
     }
 
-    // Create transaction
-    const newTotal = savings.totalAmount + data.amount
+    // If this is a weekly contribution (₹100), it also goes into the active cycle's investment pool
+    // This assumes weekly contributions go to the current active cycle
+    const activeCycle =
+      data.amount === DEFAULT_WEEKLY_AMOUNT
+        ? await prisma.loanCycle.findFirst({
+            where: { isActive: true },
+            include: { groupFund: true },
+          })
+        : null
+    const fundCycle = activeCycle?.groupFund ? activeCycle : null
+
+    // Post the deposit: cash received, owed back to the member as savings
+    await postJournalEntry(prisma, {
+      date: new Date(data.date),
+      description: 'Savings deposit',
+      source: 'SAVINGS_DEPOSIT',
+      sourceId: savings.id,
+      groupId: fundCycle?.groupId,
+      cycleId: fundCycle?.id,
+      createdById: user.id,
+      lines: [
+        { account: 'CASH', debit: data.amount },
+        {
+          account: 'MEMBER_SAVINGS',
+          cycleId: null,
+          memberId: data.memberId,
+          credit: data.amount,
+        },
+      ],
+    })
+
+    // Savings total and group fund are derived from the ledger
+    const newTotal = await syncSavings(prisma, savings.id, data.memberId)
+    if (fundCycle) {
+      await syncGroupFund(prisma, fundCycle.id)
+    }
+
     const transaction = await prisma.savingsTransaction.create({
       data: {
         savingsId: savings.id,
@@ -88,35 +132,10 @@ export async function POST(request: NextRequest) {
       },
     })
 
-    // Update total
-    const updatedSavings = await prisma.savings.update({
+    const updatedSavings = await prisma.savings.findUniqueOrThrow({
       where: { id: savings.id },
-      data: { totalAmount: newTotal },
     })
 
-    // If this is a weekly contribution (₹100), add to active cycle's investment pool
-    // This assumes weekly contributions go to the current active cycle
-    if (data.amount === 100) {
-      const activeCycle = await prisma.loanCycle.findFirst({
-        where: { isActive: true },
-        include: { groupFund: true },
-      })
-
-      if (activeCycle?.groupFund) {
-        await prisma.groupFund.update({
-          where: { id: activeCycle.groupFund.id },
-          data: {
-            investmentPool: {
-              increment: data.amount,
-            },
-            totalFunds: {
-              increment: data.amount,
-            },
-          },
-        })
-      }
-    }
-
     return NextResponse.json(
       { transaction, savings: updatedSavings },
       { status: 201 }
@@ -3,14 +3,16 @@ import prisma from "@/lib/prisma";
 import { verifyToken } from "@/lib/auth";
 import { cookies } from "next/headers";
 import { z } from "zod";
+import { positiveMoneySchema } from "@/lib/money";
 import { TransactionType } from "@prisma/client";
+import { checkPeriodsOpen } from "@/lib/periods";
 
 const createTransactionSchema = z.object({
   memberId: z.string(),
   type: z.enum(["SAVINGS", "LOAN", "MISCELLANEOUS", "COLLECTION"]),
   date: z.string(),
   purpose: z.string().optional(),
-  amount: z.number().positive(),
+  amount: positiveMoneySchema,
   photo: z.string().optional(),
 });
 
@@ -74,6 +76,12 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const data = createTransactionSchema.parse(body);
 
+    // Nothing can be posted into a closed month
+    const closedPeriodError = await checkPeriodsOpen(prisma, new Date(data.date));
+    if (closedPeriodError) {
+      return NextResponse.json({ error: closedPeriodError }, { status: 400 });
+    }
+
     const transaction = await prisma.transaction.create({
       data: {
         memberId: data.memberId,
@@ -0,0 +1,535 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Field,
+  FieldDescription,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ArrowLeft, Gavel } from "lucide-react";
+import { format } from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import { formatMoney, fromPaise, sumMoney, toPaise } from "@/lib/money";
+
+interface MemberSummary {
+  id: string;
+  name: string;
+  userId: string;
+}
+
+interface AuctionBid {
+  id: string;
+  amount: number;
+  createdAt: string;
+  member: MemberSummary;
+}
+
+interface CycleAuction {
+  id: string;
+  week: number;
+  potAmount: number;
+  status: "OPEN" | "SETTLED";
+  winner?: MemberSummary | null;
+  winningBid?: number | null;
+  discount: number;
+  loanId?: string | null;
+  settledAt?: string | null;
+  bids: AuctionBid[];
+}
+
+interface AuctionCycle {
+  id: string;
+  cycleNumber: number;
+  allocationMode: "FIXED" | "AUCTION";
+  isActive: boolean;
+  group?: {
+    name: string;
+    members: Array<{
+      weeklyAmount: number;
+      member: MemberSummary;
+    }>;
+  } | null;
+  groupFund?: { totalFunds: number } | null;
+  auctions: CycleAuction[];
+}
+
+// Lowest bid so far; the earliest wins a tie, as when the auction is settled
+const leadingBid = (bids: AuctionBid[]) =>
+  bids.reduce<AuctionBid | null>(
+    (lowest, bid) => (!lowest || bid.amount < lowest.amount ? bid : lowest),
+    null
+  );
+
+export default function CycleAuctionsPage() {
+  const params = useParams();
+  const { user } = useAuth();
+  const [cycle, setCycle] = useState<AuctionCycle | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+  const [potAmount, setPotAmount] = useState(""); // Rupees; blank uses the members' contributions
+  const [bidForm, setBidForm] = useState({ memberId: "", amount: "" });
+  const [disbursementMethod, setDisbursementMethod] = useState<
+    "CASH" | "UPI" | "BANK_TRANSFER" | ""
+  >("");
+
+  useEffect(() => {
+    if (params.id) {
+      fetchAuctions(params.id as string);
+    }
+  }, [params.id]);
+
+  const fetchAuctions = async (id: string) => {
+    try {
+      const response = await fetch(`/api/cycles/${id}/auctions`);
+      if (response.ok) {
+        const data = await response.json();
+        setCycle(data.cycle);
+      }
+    } catch (error) {
+      console.error("Error fetching auctions:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // POST to an auction endpoint, then refresh the cycle
+  const submit = async (
+    url: string,
+    body: Record<string, unknown>,
+    fallbackError: string,
+    onSuccess: (data: { message?: string }) => string
+  ) => {
+    if (!cycle) return;
+
+    setError("");
+    setSuccess("");
+    setSaving(true);
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setSuccess(onSuccess(data));
+        await fetchAuctions(cycle.id);
+        setTimeout(() => setSuccess(""), 5000);
+      } else if (data.required !== undefined && !body.fundOverrideReason) {
+        // The fund cannot cover the payout; the admin may pay it anyway
+        const reason = prompt(
+          `${data.error}.\n\nTo pay it out anyway, enter the reason for overriding the fund check:`
+        );
+        if (reason?.trim()) {
+          await submit(
+            url,
+            { ...body, fundOverrideReason: reason.trim() },
+            fallbackError,
+            onSuccess
+          );
+          return;
+        }
+        setError(data.error || fallbackError);
+      } else {
+        setError(data.error || fallbackError);
+      }
+    } catch (error) {
+      console.error(fallbackError, error);
+      setError(fallbackError);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div>Loading...</div>;
+  }
+
+  if (!cycle) {
+    return <div>Cycle not found</div>;
+  }
+
+  const isAdmin = user?.role === "ADMIN";
+  const openAuction = cycle.auctions.find((a) => a.status === "OPEN");
+  const settled = cycle.auctions.filter((a) => a.status === "SETTLED");
+  const winnerIds = new Set(settled.map((a) => a.winner?.id));
+  const bidders = (cycle.group?.members ?? []).filter(
+    (gm) => !winnerIds.has(gm.member.id)
+  );
+  const defaultPot = sumMoney(
+    (cycle.group?.members ?? []).map((gm) => gm.weeklyAmount)
+  );
+  const leader = openAuction ? leadingBid(openAuction.bids) : null;
+
+  return (
+    <div className="space-y-4 sm:space-y-6 p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3 sm:gap-4">
+        <Button variant="outline" asChild className="w-full sm:w-auto">
+          <Link href="/dashbaord/cycles">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Link>
+        </Button>
+        <div className="flex-1">
+          <h1 className="text-2xl sm:text-3xl font-bold">
+            Cycle #{cycle.cycleNumber} Auctions
+          </h1>
+          <p className="text-sm sm:text-base text-muted-foreground mt-1">
+            {cycle.group?.name} - the lowest bid wins the week&apos;s pot, and
+            the discount is shared with the other members
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      {success && (
+        <Alert className="border-green-200 bg-green-50 dark:bg-green-900/20">
+          <AlertDescription className="text-green-800 dark:text-green-200">
+            {success}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {cycle.allocationMode !== "AUCTION" ? (
+        <Card>
+          <CardContent className="py-10 text-center text-muted-foreground">
+            This cycle does not allocate its pot by auction.
+          </CardContent>
+        </Card>
+      ) : openAuction ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Week {openAuction.week} Auction</CardTitle>
+            <CardDescription>
+              Pot {formatMoney(openAuction.potAmount)}
+              {cycle.groupFund &&
+                ` - group fund holds ${formatMoney(
+                  cycle.groupFund.totalFunds
+                )}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {leader ? (
+              <div className="p-3 sm:p-4 bg-muted rounded-lg text-sm">
+                <span className="text-muted-foreground">Leading bid:</span>
+                <span className="ml-2 font-medium">
+                  {leader.member.name} - {formatMoney(leader.amount)}
+                </span>
+                <span className="ml-2 text-muted-foreground">
+                  (discount{" "}
+                  {formatMoney(openAuction.potAmount - leader.amount)})
+                </span>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No bids yet.</p>
+            )}
+
+            {isAdmin && (
+              <FieldGroup>
+                <div className="grid gap-4 grid-cols-1 sm:grid-cols-2">
+                  <Field>
+                    <FieldLabel htmlFor="bidMember">Member</FieldLabel>
+                    <select
+                      id="bidMember"
+                      className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                      value={bidForm.memberId}
+                      onChange={(e) =>
+                        setBidForm({ ...bidForm, memberId: e.target.value })
+                      }>
+                      <option value="">Select a member</option>
+                      {bidders.map((gm) => (
+                        <option key={gm.member.id} value={gm.member.id}>
+                          {gm.member.name} ({gm.member.userId})
+                        </option>
+                      ))}
+                    </select>
+                    <FieldDescription>
+                      Members who already won this cycle cannot bid
+                    </FieldDescription>
+                  </Field>
+                  <Field>
+                    <FieldLabel htmlFor="bidAmount">Bid (₹)</FieldLabel>
+                    <Input
+                      id="bidAmount"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      max={fromPaise(openAuction.potAmount)}
+                      value={bidForm.amount}
+                      onChange={(e) =>
+                        setBidForm({ ...bidForm, amount: e.target.value })
+                      }
+                    />
+                    <FieldDescription>
+                      Amount the member will take from the pot
+                    </FieldDescription>
+                  </Field>
+                </div>
+                <Button
+                  className="w-full sm:w-auto"
+                  disabled={
+                    saving ||
+                    !bidForm.memberId ||
+                    !(parseFloat(bidForm.amount) > 0)
+                  }
+                  onClick={() =>
+                    submit(
+                      `/api/cycles/${cycle.id}/auctions/${openAuction.week}/bids`,
+                      {
+                        memberId: bidForm.memberId,
+                        amount: toPaise(parseFloat(bidForm.amount)),
+                      },
+                      "Failed to record bid",
+                      () => {
+                        setBidForm({ memberId: "", amount: "" });
+                        return "Bid recorded";
+                      }
+                    )
+                  }>
+                  Record Bid
+                </Button>
+
+                <div className="pt-4 border-t grid gap-4 grid-cols-1 sm:grid-cols-2 items-end">
+                  <Field>
+                    <FieldLabel htmlFor="settleMethod">
+                      Disbursement Method
+                    </FieldLabel>
+                    <select
+                      id="settleMethod"
+                      className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                      value={disbursementMethod}
+                      onChange={(e) =>
+                        setDisbursementMethod(
+                          e.target.value as "CASH" | "UPI" | "BANK_TRANSFER" | ""
+                        )
+                      }>
+                      <option value="">Select method</option>
+                      <option value="CASH">Cash</option>
+                      <option value="UPI">UPI</option>
+                      <option value="BANK_TRANSFER">Bank Transfer</option>
+                    </select>
+                  </Field>
+                  <Button
+                    disabled={saving || !leader}
+                    onClick={() => {
+                      if (
+                        !leader ||
+                        !confirm(
+                          `Close week ${openAuction.week}'s auction? ${
+                            leader.member.name
+                          } receives a loan of ${formatMoney(
+                            leader.amount
+                          )} and ${formatMoney(
+                            openAuction.potAmount - leader.amount
+                          )} is shared as dividend.`
+                        )
+                      ) {
+                        return;
+                      }
+                      submit(
+                        `/api/cycles/${cycle.id}/auctions/${openAuction.week}/settle`,
+                        { disbursementMethod: disbursementMethod || undefined },
+                        "Failed to settle auction",
+                        (data) => data.message || "Auction settled"
+                      );
+                    }}>
+                    <Gavel className="mr-2 h-4 w-4" />
+                    Settle Auction
+                  </Button>
+                </div>
+              </FieldGroup>
+            )}
+
+            {openAuction.bids.length > 0 && (
+              <BidHistory bids={openAuction.bids} winningBidId={null} />
+            )}
+          </CardContent>
+        </Card>
+      ) : (
+        isAdmin &&
+        cycle.isActive && (
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                Open Week {(settled[settled.length - 1]?.week ?? 0) + 1}{" "}
+                Auction
+              </CardTitle>
+              <CardDescription>
+                {bidders.length} member{bidders.length === 1 ? "" : "s"} can
+                still bid this cycle
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <FieldGroup>
+                <Field>
+                  <FieldLabel htmlFor="potAmount">Pot (₹)</FieldLabel>
+                  <Input
+                    id="potAmount"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder={fromPaise(defaultPot).toString()}
+                    value={potAmount}
+                    onChange={(e) => setPotAmount(e.target.value)}
+                  />
+                  <FieldDescription>
+                    Leave blank for the active members&apos; weekly
+                    contributions ({formatMoney(defaultPot)})
+                  </FieldDescription>
+                </Field>
+                <Button
+                  className="w-full sm:w-auto"
+                  disabled={saving}
+                  onClick={() =>
+                    submit(
+                      `/api/cycles/${cycle.id}/auctions`,
+                      {
+                        potAmount: potAmount
+                          ? toPaise(parseFloat(potAmount))
+                          : undefined,
+                      },
+                      "Failed to open auction",
+                      () => {
+                        setPotAmount("");
+                        return "Auction opened";
+                      }
+                    )
+                  }>
+                  Open Auction
+                </Button>
+              </FieldGroup>
+            </CardContent>
+          </Card>
+        )
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Auction History</CardTitle>
+          <CardDescription>
+            Settled weeks with every bid that was placed
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {settled.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No auctions settled yet.
+            </p>
+          ) : (
+            [...settled].reverse().map((auction) => {
+              const winning = leadingBid(auction.bids);
+              return (
+                <div key={auction.id} className="space-y-2">
+                  <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1">
+                    <h3 className="font-semibold">
+                      Week {auction.week}
+                      {auction.settledAt &&
+                        ` - ${format(
+                          new Date(auction.settledAt),
+                          "dd/MM/yyyy"
+                        )}`}
+                    </h3>
+                    <div className="text-sm text-muted-foreground">
+                      Pot {formatMoney(auction.potAmount)} - won by{" "}
+                      <span className="font-medium text-foreground">
+                        {auction.winner?.name}
+                      </span>{" "}
+                      for {formatMoney(auction.winningBid ?? 0)}, dividend{" "}
+                      {formatMoney(auction.discount)}
+                      {auction.loanId && (
+                        <>
+                          {" - "}
+                          <Link
+                            href={`/dashbaord/loans/${auction.loanId}`}
+                            className="text-primary hover:underline">
+                            View Loan
+                          </Link>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                  <BidHistory
+                    bids={auction.bids}
+                    winningBidId={winning?.id ?? null}
+                  />
+                </div>
+              );
+            })
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function BidHistory({
+  bids,
+  winningBidId,
+}: {
+  bids: AuctionBid[];
+  winningBidId: string | null;
+}) {
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Placed</TableHead>
+            <TableHead>Member</TableHead>
+            <TableHead>Bid</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {bids.map((bid) => (
+            <TableRow
+              key={bid.id}
+              className={
+                bid.id === winningBidId ? "bg-green-50 dark:bg-green-900/20" : ""
+              }>
+              <TableCell>
+                {format(new Date(bid.createdAt), "dd/MM/yyyy HH:mm")}
+              </TableCell>
+              <TableCell>
+                {bid.member.name}
+                <span className="ml-1 text-xs text-muted-foreground">
+                  ({bid.member.userId})
+                </span>
+              </TableCell>
+              <TableCell className="font-medium">
+                {formatMoney(bid.amount)}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
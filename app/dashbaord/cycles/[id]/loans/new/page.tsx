@@ -0,0 +1,552 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useParams, useRouter } from "next/navigation";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Field,
+  FieldDescription,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  ArrowLeft,
+  Calendar,
+  DollarSign,
+  Clock,
+  FileText,
+  User,
+  Users,
+} from "lucide-react";
+import Link from "next/link";
+import { useAuth } from "@/hooks/use-auth";
+import { formatMoney, sumMoney, toPaise } from "@/lib/money";
+import {
+  describeInterestTerms,
+  generatePaymentSchedule,
+  interestTermsOf,
+  NO_INTEREST,
+  type InterestMethod,
+  type RatePeriod,
+} from "@/lib/utils";
+
+interface Member {
+  id: string;
+  name: string;
+  userId: string;
+}
+
+interface Cycle {
+  id: string;
+  cycleNumber: number;
+  isActive: boolean;
+  allocationMode: "FIXED" | "AUCTION";
+  groupFund?: { totalFunds: number } | null;
+  group?: {
+    id: string;
+    name: string;
+    interestMethod: InterestMethod;
+    interestRate: number;
+    interestRatePeriod: RatePeriod;
+    members: Array<{ member: Member }>;
+  } | null;
+}
+
+const selectClassName =
+  "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50";
+
+export default function NewCycleLoanPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { user } = useAuth();
+  const [cycle, setCycle] = useState<Cycle | null>(null);
+  const [allMembers, setAllMembers] = useState<Member[]>([]);
+  const [formData, setFormData] = useState({
+    memberId: "",
+    loanAmount: "",
+    loanWeeks: "10",
+    reason: "",
+    disbursedAt: new Date().toISOString().split("T")[0],
+    disbursementMethod: "" as "CASH" | "UPI" | "BANK_TRANSFER" | "",
+    guarantor1Id: "",
+    guarantor2Id: "",
+    fundOverrideReason: "",
+  });
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const fetchAllMembers = useCallback(async () => {
+    try {
+      const response = await fetch("/api/members");
+      if (response.ok) {
+        const data = await response.json();
+        setAllMembers(data.members);
+      }
+    } catch (error) {
+      console.error("Error fetching members:", error);
+    }
+  }, []);
+
+  const fetchCycle = useCallback(
+    async (id: string) => {
+      try {
+        const response = await fetch(`/api/cycles/${id}`);
+        if (response.ok) {
+          const data = await response.json();
+          setCycle(data.cycle);
+          // A cycle without a group lends to any member
+          if (!data.cycle.group) {
+            fetchAllMembers();
+          }
+        }
+      } catch (error) {
+        console.error("Error fetching cycle:", error);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [fetchAllMembers]
+  );
+
+  useEffect(() => {
+    if (params.id) {
+      fetchCycle(params.id as string);
+    }
+  }, [params.id, fetchCycle]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!cycle) return;
+
+    setError("");
+    setSuccess("");
+
+    if (!formData.memberId) {
+      setError("Please select a member");
+      return;
+    }
+
+    if (!formData.loanAmount || parseFloat(formData.loanAmount) <= 0) {
+      setError("Please enter a valid loan amount");
+      return;
+    }
+
+    if (!formData.loanWeeks || parseInt(formData.loanWeeks) <= 0) {
+      setError("Please enter a valid loan duration");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const disbursedAt = new Date(formData.disbursedAt);
+      disbursedAt.setHours(0, 0, 0, 0);
+
+      const response = await fetch(`/api/cycles/${cycle.id}/loans`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          memberId: formData.memberId,
+          loanAmount: toPaise(parseFloat(formData.loanAmount)),
+          loanWeeks: parseInt(formData.loanWeeks),
+          reason: formData.reason || undefined,
+          disbursedAt: disbursedAt.toISOString(),
+          disbursementMethod: formData.disbursementMethod || undefined,
+          guarantor1Id: formData.guarantor1Id || undefined,
+          guarantor2Id: formData.guarantor2Id || undefined,
+          fundOverrideReason: formData.fundOverrideReason.trim() || undefined,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to add loan");
+      }
+
+      setSuccess(data.message || "Loan added!");
+      setTimeout(() => {
+        router.push("/dashbaord/cycles");
+      }, 1500);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add loan");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (user?.role !== "ADMIN") {
+    return (
+      <div className="space-y-4">
+        <Alert variant="destructive">
+          <AlertDescription>
+            Access denied. Admin privileges required.
+          </AlertDescription>
+        </Alert>
+        <Button variant="outline" asChild>
+          <Link href="/dashbaord/cycles">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Cycles
+          </Link>
+        </Button>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return <div>Loading...</div>;
+  }
+
+  if (!cycle) {
+    return <div>Cycle not found</div>;
+  }
+
+  const members = cycle.group
+    ? cycle.group.members.map((gm) => gm.member)
+    : allMembers;
+
+  // Calculate total repayment on the group's interest terms
+  const loanAmount = toPaise(parseFloat(formData.loanAmount) || 0);
+  const loanWeeks = parseInt(formData.loanWeeks) || 0;
+  const interestTerms = cycle.group ? interestTermsOf(cycle.group) : NO_INTEREST;
+  const totalInterest = sumMoney(
+    generatePaymentSchedule(loanAmount, loanWeeks, interestTerms).map(
+      (row) => row.interest
+    )
+  );
+  const totalRepayment = loanAmount + totalInterest;
+  const fundBalance = cycle.groupFund?.totalFunds ?? 0;
+
+  return (
+    <div className="space-y-4 sm:space-y-6 p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3 sm:gap-4">
+        <Button variant="outline" asChild className="w-full sm:w-auto">
+          <Link href="/dashbaord/cycles">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Link>
+        </Button>
+        <div className="flex-1">
+          <h1 className="text-2xl sm:text-3xl font-bold">Add Loan</h1>
+          <p className="text-sm sm:text-base text-muted-foreground mt-1">
+            {cycle.group?.name || "No group"} - Cycle #{cycle.cycleNumber}
+            {" - "}
+            {formatMoney(fundBalance)} in the group fund
+          </p>
+        </div>
+      </div>
+
+      {(error || success) && (
+        <Alert
+          variant={error ? "destructive" : "default"}
+          className={
+            success ? "border-green-200 bg-green-50 dark:bg-green-900/20" : ""
+          }>
+          <AlertDescription
+            className={success ? "text-green-800 dark:text-green-200" : ""}>
+            {error || success}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {!cycle.isActive || cycle.allocationMode === "AUCTION" ? (
+        <Alert variant="destructive">
+          <AlertDescription>
+            {!cycle.isActive
+              ? "Loans can only be added to an active cycle"
+              : "An auction cycle pays out through its weekly auctions"}
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>Loan Details</CardTitle>
+            <CardDescription>
+              The loan is paid out of the cycle&apos;s group fund as soon as
+              it is added, unless it waits for its guarantors or for the fund
+              to cover it.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-4 sm:p-6">
+            <form onSubmit={handleSubmit} className="space-y-4 sm:space-y-6">
+              <FieldGroup>
+                <Field>
+                  <FieldLabel htmlFor="memberId">
+                    <User className="mr-2 h-4 w-4 inline" />
+                    Member (Receiving Loan){" "}
+                    <span className="text-destructive">*</span>
+                  </FieldLabel>
+                  <select
+                    id="memberId"
+                    value={formData.memberId}
+                    onChange={(e) =>
+                      setFormData({ ...formData, memberId: e.target.value })
+                    }
+                    required
+                    className={selectClassName}>
+                    <option value="">
+                      {members.length === 0
+                        ? "No active members. Add members to the group first."
+                        : "Select a member"}
+                    </option>
+                    {members.map((member) => (
+                      <option key={member.id} value={member.id}>
+                        {member.name} ({member.userId || member.id})
+                      </option>
+                    ))}
+                  </select>
+                  <FieldDescription>
+                    Select the member who will receive this loan.{" "}
+                    {members.length} member(s) available.
+                  </FieldDescription>
+                </Field>
+
+                <Field>
+                  <FieldLabel htmlFor="loanAmount">
+                    <DollarSign className="mr-2 h-4 w-4 inline" />
+                    Loan Amount (₹) <span className="text-destructive">*</span>
+                  </FieldLabel>
+                  <Input
+                    id="loanAmount"
+                    type="number"
+                    min="1"
+                    step="0.01"
+                    value={formData.loanAmount}
+                    onChange={(e) =>
+                      setFormData({ ...formData, loanAmount: e.target.value })
+                    }
+                    required
+                    placeholder="1000"
+                  />
+                  <FieldDescription>
+                    Total loan amount to be disbursed to the member
+                  </FieldDescription>
+                </Field>
+
+                <Field>
+                  <FieldLabel htmlFor="loanWeeks">
+                    <Clock className="mr-2 h-4 w-4 inline" />
+                    Loan Duration (Weeks){" "}
+                    <span className="text-destructive">*</span>
+                  </FieldLabel>
+                  <Input
+                    id="loanWeeks"
+                    type="number"
+                    min="1"
+                    value={formData.loanWeeks}
+                    onChange={(e) =>
+                      setFormData({ ...formData, loanWeeks: e.target.value })
+                    }
+                    required
+                    placeholder="10"
+                  />
+                  <FieldDescription>
+                    Number of weeks for loan repayment (default: 10 weeks)
+                  </FieldDescription>
+                </Field>
+
+                <Field>
+                  <FieldLabel htmlFor="reason">
+                    <FileText className="mr-2 h-4 w-4 inline" />
+                    Reason for Loan (Optional)
+                  </FieldLabel>
+                  <Input
+                    id="reason"
+                    type="text"
+                    value={formData.reason}
+                    onChange={(e) =>
+                      setFormData({ ...formData, reason: e.target.value })
+                    }
+                    placeholder="e.g., Business expansion, Medical emergency, etc."
+                  />
+                  <FieldDescription>
+                    Optional: Purpose or reason for this loan
+                  </FieldDescription>
+                </Field>
+
+                <Field>
+                  <FieldLabel htmlFor="fundOverrideReason">
+                    Fund Override Reason (Optional)
+                  </FieldLabel>
+                  <Input
+                    id="fundOverrideReason"
+                    type="text"
+                    value={formData.fundOverrideReason}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        fundOverrideReason: e.target.value,
+                      })
+                    }
+                    placeholder="e.g., Cash held outside the fund"
+                  />
+                  <FieldDescription>
+                    A loan the fund cannot cover waits on the waitlist until
+                    contributions cover it. Give a reason to disburse it now
+                    anyway
+                  </FieldDescription>
+                </Field>
+
+                <Field>
+                  <FieldLabel htmlFor="disbursedAt">
+                    <Calendar className="mr-2 h-4 w-4 inline" />
+                    Disbursal Date <span className="text-destructive">*</span>
+                  </FieldLabel>
+                  <Input
+                    id="disbursedAt"
+                    type="date"
+                    value={formData.disbursedAt}
+                    onChange={(e) =>
+                      setFormData({ ...formData, disbursedAt: e.target.value })
+                    }
+                    required
+                  />
+                  <FieldDescription>
+                    Date when the loan will be disbursed
+                  </FieldDescription>
+                </Field>
+
+                <Field>
+                  <FieldLabel htmlFor="disbursementMethod">
+                    Disbursement Method
+                  </FieldLabel>
+                  <select
+                    id="disbursementMethod"
+                    value={formData.disbursementMethod}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        disbursementMethod: e.target.value as
+                          | "CASH"
+                          | "UPI"
+                          | "BANK_TRANSFER"
+                          | "",
+                      })
+                    }
+                    className={selectClassName}>
+                    <option value="">Select method</option>
+                    <option value="CASH">Cash</option>
+                    <option value="UPI">UPI</option>
+                    <option value="BANK_TRANSFER">Bank Transfer</option>
+                  </select>
+                  <FieldDescription>
+                    Method used to disburse the loan amount
+                  </FieldDescription>
+                </Field>
+
+                <Field>
+                  <FieldLabel htmlFor="guarantor1Id">
+                    <Users className="mr-2 h-4 w-4 inline" />
+                    Guarantor 1 (Optional)
+                  </FieldLabel>
+                  <select
+                    id="guarantor1Id"
+                    value={formData.guarantor1Id}
+                    onChange={(e) =>
+                      setFormData({ ...formData, guarantor1Id: e.target.value })
+                    }
+                    className={selectClassName}>
+                    <option value="">None</option>
+                    {members
+                      .filter((m) => m.id !== formData.memberId)
+                      .map((member) => (
+                        <option key={member.id} value={member.id}>
+                          {member.name} ({member.userId})
+                        </option>
+                      ))}
+                  </select>
+                  <FieldDescription>
+                    Optional: First guarantor for this loan
+                  </FieldDescription>
+                </Field>
+
+                <Field>
+                  <FieldLabel htmlFor="guarantor2Id">
+                    <Users className="mr-2 h-4 w-4 inline" />
+                    Guarantor 2 (Optional)
+                  </FieldLabel>
+                  <select
+                    id="guarantor2Id"
+                    value={formData.guarantor2Id}
+                    onChange={(e) =>
+                      setFormData({ ...formData, guarantor2Id: e.target.value })
+                    }
+                    className={selectClassName}>
+                    <option value="">None</option>
+                    {members
+                      .filter(
+                        (m) =>
+                          m.id !== formData.memberId &&
+                          m.id !== formData.guarantor1Id
+                      )
+                      .map((member) => (
+                        <option key={member.id} value={member.id}>
+                          {member.name} ({member.userId})
+                        </option>
+                      ))}
+                  </select>
+                  <FieldDescription>
+                    Optional: Second guarantor for this loan
+                  </FieldDescription>
+                </Field>
+
+                {loanAmount > 0 && (
+                  <div className="p-4 bg-muted rounded-lg space-y-2">
+                    <p className="text-sm font-medium">Loan Summary:</p>
+                    <div className="text-xs text-muted-foreground space-y-1">
+                      <p>Principal: {formatMoney(loanAmount)}</p>
+                      <p>
+                        Interest: {formatMoney(totalInterest)} (
+                        {describeInterestTerms(interestTerms)})
+                      </p>
+                      <p className="font-semibold text-foreground">
+                        Total Repayment: {formatMoney(totalRepayment)}
+                      </p>
+                    </div>
+                  </div>
+                )}
+
+                <Field>
+                  <div className="flex gap-4">
+                    <Button
+                      type="submit"
+                      className="flex-1"
+                      disabled={submitting}>
+                      {submitting ? (
+                        <>
+                          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                          Adding Loan...
+                        </>
+                      ) : (
+                        <>
+                          <DollarSign className="mr-2 h-4 w-4" />
+                          Add Loan
+                        </>
+                      )}
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => router.push("/dashbaord/cycles")}>
+                      Cancel
+                    </Button>
+                  </div>
+                </Field>
+              </FieldGroup>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
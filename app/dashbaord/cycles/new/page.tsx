@@ -18,17 +18,7 @@ import {
   FieldLabel,
 } from "@/components/ui/field";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import {
-  ArrowLeft,
-  Calendar,
-  DollarSign,
-  Percent,
-  Clock,
-  FileText,
-  Building2,
-  User,
-  Users,
-} from "lucide-react";
+import { ArrowLeft, Calendar, Building2, Plus } from "lucide-react";
 import Link from "next/link";
 import { useAuth } from "@/hooks/use-auth";
 
@@ -37,49 +27,24 @@ interface Group {
   name: string;
 }
 
-interface Member {
-  id: string;
-  name: string;
-  userId: string;
-}
-
 export default function NewCyclePage() {
   const router = useRouter();
   const { user } = useAuth();
   const [groups, setGroups] = useState<Group[]>([]);
-  const [groupMembers, setGroupMembers] = useState<Member[]>([]);
-  const [allMembers, setAllMembers] = useState<Member[]>([]);
   const [formData, setFormData] = useState({
+    allocationMode: "FIXED" as "FIXED" | "AUCTION",
     groupId: "",
-    memberId: "",
-    loanAmount: "",
-    loanWeeks: "10",
-    reason: "",
-    disbursedAt: new Date().toISOString().split("T")[0],
-    disbursementMethod: "" as "CASH" | "UPI" | "BANK_TRANSFER" | "",
-    guarantor1Id: "",
-    guarantor2Id: "",
+    startDate: new Date().toISOString().split("T")[0],
   });
   const [error, setError] = useState("");
   const [success, setSuccess] = useState("");
   const [submitting, setSubmitting] = useState(false);
   const [loading, setLoading] = useState(true);
-  const [loadingMembers, setLoadingMembers] = useState(false);
 
   useEffect(() => {
     fetchGroups();
-    fetchAllMembers();
   }, []);
 
-  useEffect(() => {
-    if (formData.groupId) {
-      fetchGroupMembers(formData.groupId);
-    } else {
-      // If no group selected, use all members
-      setGroupMembers(allMembers);
-    }
-  }, [formData.groupId, allMembers]);
-
   const fetchGroups = async () => {
     try {
       const response = await fetch("/api/groups");
@@ -94,143 +59,44 @@ export default function NewCyclePage() {
     }
   };
 
-  const fetchAllMembers = async () => {
-    try {
-      const response = await fetch("/api/members");
-      if (response.ok) {
-        const data = await response.json();
-        setAllMembers(data.members);
-      }
-    } catch (error) {
-      console.error("Error fetching members:", error);
-    }
-  };
-
-  const fetchGroupMembers = async (groupId: string) => {
-    setLoadingMembers(true);
-    try {
-      const response = await fetch(`/api/groups/${groupId}/members`);
-      if (response.ok) {
-        const data = await response.json();
-
-        // Handle both response structures
-        const membersList = data.members || [];
-
-        // Filter active members and extract member data
-        const activeMembers = membersList
-          .filter((gm: { isActive?: boolean; member?: { id: string } }) => {
-            const isActive = gm.isActive !== false; // Default to true if not specified
-            const hasMember = gm.member && gm.member.id;
-            return isActive && hasMember;
-          })
-          .map(
-            (gm: {
-              member: { id: string; name?: string; userId?: string };
-            }) => {
-              const member = gm.member;
-              return {
-                id: member.id,
-                name: member.name || "Unknown",
-                userId: member.userId || member.id,
-              };
-            }
-          );
-
-        setGroupMembers(activeMembers);
-
-        // Reset member selection if current selection is not in the list
-        if (
-          formData.memberId &&
-          !activeMembers.some((m: Member) => m.id === formData.memberId)
-        ) {
-          setFormData((prev) => ({ ...prev, memberId: "" }));
-        }
-
-        if (activeMembers.length === 0) {
-          setError(
-            "No active members found in this group. Please add members to the group first."
-          );
-        } else {
-          setError(""); // Clear error if members are found
-        }
-      } else {
-        const errorData = await response.json().catch(() => ({}));
-        console.error(
-          "Failed to fetch group members:",
-          response.status,
-          errorData
-        );
-        setGroupMembers([]);
-        setError(errorData.error || "Failed to load group members");
-      }
-    } catch (error) {
-      console.error("Error fetching group members:", error);
-      setGroupMembers([]);
-      setError("Error loading group members. Please try again.");
-    } finally {
-      setLoadingMembers(false);
-    }
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
     setSuccess("");
-    setSubmitting(true);
-
-    // Validation
-    if (!formData.memberId) {
-      setError("Please select a member");
-      setSubmitting(false);
-      return;
-    }
-
-    if (!formData.loanAmount || parseFloat(formData.loanAmount) <= 0) {
-      setError("Please enter a valid loan amount");
-      setSubmitting(false);
-      return;
-    }
-
-    // No interest rate validation needed
 
-    if (!formData.loanWeeks || parseInt(formData.loanWeeks) <= 0) {
-      setError("Please enter a valid loan duration");
-      setSubmitting(false);
+    if (!formData.groupId) {
+      setError("Please select a group");
       return;
     }
 
+    setSubmitting(true);
     try {
-      const disbursedAt = new Date(formData.disbursedAt);
-      disbursedAt.setHours(0, 0, 0, 0);
-
       const response = await fetch("/api/cycles", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          groupId: formData.groupId || undefined,
-          memberId: formData.memberId,
-          loanAmount: parseFloat(formData.loanAmount),
-          loanWeeks: parseInt(formData.loanWeeks),
-          reason: formData.reason || undefined,
-          disbursedAt: disbursedAt.toISOString(),
-          disbursementMethod: formData.disbursementMethod || undefined,
-          guarantor1Id: formData.guarantor1Id || undefined,
-          guarantor2Id: formData.guarantor2Id || undefined,
+          allocationMode: formData.allocationMode,
+          groupId: formData.groupId,
+          startDate: formData.startDate,
         }),
       });
 
       const data = await response.json();
 
       if (!response.ok) {
-        throw new Error(data.error || "Failed to create loan cycle");
+        throw new Error(data.error || "Failed to create cycle");
       }
 
-      setSuccess("Loan cycle created and loan disbursed successfully!");
+      setSuccess(data.message || "Cycle created!");
       setTimeout(() => {
-        router.push("/dashbaord/cycles");
+        router.push(
+          formData.allocationMode === "AUCTION"
+            ? `/dashbaord/cycles/${data.cycle.id}/auctions`
+            : "/dashbaord/cycles"
+        );
       }, 1500);
-    } catch (err: any) {
-      setError(err.message || "Failed to create loan cycle");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create cycle");
     } finally {
       setSubmitting(false);
     }
@@ -258,12 +124,6 @@ export default function NewCyclePage() {
     return <div>Loading...</div>;
   }
 
-  // Calculate total repayment (no interest)
-  const loanAmount = parseFloat(formData.loanAmount) || 0;
-  const loanWeeks = parseInt(formData.loanWeeks) || 0;
-  const totalInterest = 0; // No interest
-  const totalRepayment = loanAmount; // Only principal
-
   return (
     <div className="space-y-4 sm:space-y-6 p-4 sm:p-6">
       <div className="flex flex-col sm:flex-row sm:items-center gap-3 sm:gap-4">
@@ -274,11 +134,9 @@ export default function NewCyclePage() {
           </Link>
         </Button>
         <div className="flex-1">
-          <h1 className="text-2xl sm:text-3xl font-bold">
-            Create Loan Cycle & Disburse Loan
-          </h1>
+          <h1 className="text-2xl sm:text-3xl font-bold">Start Loan Cycle</h1>
           <p className="text-sm sm:text-base text-muted-foreground mt-1">
-            Create a new loan cycle and disburse loan to a member
+            Start a group&apos;s next cycle of savings and lending
           </p>
         </div>
       </div>
@@ -298,9 +156,11 @@ export default function NewCyclePage() {
 
       <Card>
         <CardHeader>
-          <CardTitle>Loan Details</CardTitle>
+          <CardTitle>Cycle Details</CardTitle>
           <CardDescription>
-            Select a member and enter loan details. Optionally select a group if this loan is part of a group cycle. The loan will be disbursed immediately upon submission.
+            A group runs one cycle at a time. Its weekly contributions build
+            one group fund, and loans are added to the cycle from the cycles
+            page as the fund allows.
           </CardDescription>
         </CardHeader>
         <CardContent className="p-4 sm:p-6">
@@ -309,7 +169,7 @@ export default function NewCyclePage() {
               <Field>
                 <FieldLabel htmlFor="groupId">
                   <Building2 className="mr-2 h-4 w-4 inline" />
-                  Group (Optional)
+                  Group <span className="text-destructive">*</span>
                 </FieldLabel>
                 <select
                   id="groupId"
@@ -317,8 +177,9 @@ export default function NewCyclePage() {
                   onChange={(e) =>
                     setFormData({ ...formData, groupId: e.target.value })
                   }
+                  required
                   className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50">
-                  <option value="">No group (Simple loan)</option>
+                  <option value="">Select a group</option>
                   {groups.map((group) => (
                     <option key={group.id} value={group.id}>
                       {group.name}
@@ -326,225 +187,51 @@ export default function NewCyclePage() {
                   ))}
                 </select>
                 <FieldDescription>
-                  Optional: Select a group if this loan is part of a group cycle. Leave empty for simple loans without groups.
+                  The group must have closed its previous cycle
                 </FieldDescription>
               </Field>
 
               <Field>
-                <FieldLabel htmlFor="memberId">
-                  <User className="mr-2 h-4 w-4 inline" />
-                  Member (Receiving Loan){" "}
-                  <span className="text-destructive">*</span>
-                </FieldLabel>
+                <FieldLabel htmlFor="allocationMode">Allocation</FieldLabel>
                 <select
-                  id="memberId"
-                  value={formData.memberId}
+                  id="allocationMode"
+                  value={formData.allocationMode}
                   onChange={(e) =>
-                    setFormData({ ...formData, memberId: e.target.value })
+                    setFormData({
+                      ...formData,
+                      allocationMode: e.target.value as "FIXED" | "AUCTION",
+                    })
                   }
-                  required
-                  disabled={loadingMembers}
                   className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50">
-                  <option value="">
-                    {loadingMembers
-                      ? "Loading members..."
-                      : formData.groupId && groupMembers.length === 0
-                      ? "No active members in this group. Add members to the group first."
-                      : "Select a member"}
-                  </option>
-                  {groupMembers.length > 0 &&
-                    groupMembers.map((member) => (
-                      <option key={member.id} value={member.id}>
-                        {member.name} ({member.userId || member.id})
-                      </option>
-                    ))}
+                  <option value="FIXED">Loans from the group fund</option>
+                  <option value="AUCTION">Weekly auction</option>
                 </select>
                 <FieldDescription>
-                  {loadingMembers
-                    ? "Loading members..."
-                    : formData.groupId
-                    ? groupMembers.length === 0
-                      ? "No members in this group. Go to the group page to add members first."
-                      : `Select the member who will receive this loan. ${groupMembers.length} member(s) available in this group.`
-                    : `Select the member who will receive this loan. ${allMembers.length} member(s) available.`}
+                  {formData.allocationMode === "AUCTION"
+                    ? "Members bid each week for the pot - the lowest bid wins it as a loan and the discount is shared with the other members as dividend"
+                    : "Admins add loans to members, or draw a rotation order, as the fund builds up"}
                 </FieldDescription>
               </Field>
 
               <Field>
-                <FieldLabel htmlFor="loanAmount">
-                  <DollarSign className="mr-2 h-4 w-4 inline" />
-                  Loan Amount (₹) <span className="text-destructive">*</span>
-                </FieldLabel>
-                <Input
-                  id="loanAmount"
-                  type="number"
-                  min="1"
-                  step="0.01"
-                  value={formData.loanAmount}
-                  onChange={(e) =>
-                    setFormData({ ...formData, loanAmount: e.target.value })
-                  }
-                  required
-                  placeholder="1000"
-                />
-                <FieldDescription>
-                  Total loan amount to be disbursed to the member
-                </FieldDescription>
-              </Field>
-
-
-              <Field>
-                <FieldLabel htmlFor="loanWeeks">
-                  <Clock className="mr-2 h-4 w-4 inline" />
-                  Loan Duration (Weeks){" "}
-                  <span className="text-destructive">*</span>
-                </FieldLabel>
-                <Input
-                  id="loanWeeks"
-                  type="number"
-                  min="1"
-                  value={formData.loanWeeks}
-                  onChange={(e) =>
-                    setFormData({ ...formData, loanWeeks: e.target.value })
-                  }
-                  required
-                  placeholder="10"
-                />
-                <FieldDescription>
-                  Number of weeks for loan repayment (default: 10 weeks)
-                </FieldDescription>
-              </Field>
-
-              <Field>
-                <FieldLabel htmlFor="reason">
-                  <FileText className="mr-2 h-4 w-4 inline" />
-                  Reason for Loan (Optional)
-                </FieldLabel>
-                <Input
-                  id="reason"
-                  type="text"
-                  value={formData.reason}
-                  onChange={(e) =>
-                    setFormData({ ...formData, reason: e.target.value })
-                  }
-                  placeholder="e.g., Business expansion, Medical emergency, etc."
-                />
-                <FieldDescription>
-                  Optional: Purpose or reason for this loan
-                </FieldDescription>
-              </Field>
-
-              <Field>
-                <FieldLabel htmlFor="disbursedAt">
+                <FieldLabel htmlFor="startDate">
                   <Calendar className="mr-2 h-4 w-4 inline" />
-                  Disbursal Date <span className="text-destructive">*</span>
+                  Start Date <span className="text-destructive">*</span>
                 </FieldLabel>
                 <Input
-                  id="disbursedAt"
+                  id="startDate"
                   type="date"
-                  value={formData.disbursedAt}
+                  value={formData.startDate}
                   onChange={(e) =>
-                    setFormData({ ...formData, disbursedAt: e.target.value })
+                    setFormData({ ...formData, startDate: e.target.value })
                   }
                   required
                 />
                 <FieldDescription>
-                  Date when the loan will be disbursed
+                  Collection weeks are counted in meetings from this date
                 </FieldDescription>
               </Field>
 
-              <Field>
-                <FieldLabel htmlFor="disbursementMethod">
-                  Disbursement Method
-                </FieldLabel>
-                <select
-                  id="disbursementMethod"
-                  value={formData.disbursementMethod}
-                  onChange={(e) =>
-                    setFormData({
-                      ...formData,
-                      disbursementMethod: e.target.value as "CASH" | "UPI" | "BANK_TRANSFER" | "",
-                    })
-                  }
-                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50">
-                  <option value="">Select method</option>
-                  <option value="CASH">Cash</option>
-                  <option value="UPI">UPI</option>
-                  <option value="BANK_TRANSFER">Bank Transfer</option>
-                </select>
-                <FieldDescription>
-                  Method used to disburse the loan amount
-                </FieldDescription>
-              </Field>
-
-              <Field>
-                <FieldLabel htmlFor="guarantor1Id">
-                  <Users className="mr-2 h-4 w-4 inline" />
-                  Guarantor 1 (Optional)
-                </FieldLabel>
-                <select
-                  id="guarantor1Id"
-                  value={formData.guarantor1Id}
-                  onChange={(e) =>
-                    setFormData({ ...formData, guarantor1Id: e.target.value })
-                  }
-                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50">
-                  <option value="">None</option>
-                  {allMembers
-                    .filter((m) => m.id !== formData.memberId)
-                    .map((member) => (
-                      <option key={member.id} value={member.id}>
-                        {member.name} ({member.userId})
-                      </option>
-                    ))}
-                </select>
-                <FieldDescription>
-                  Optional: First guarantor for this loan
-                </FieldDescription>
-              </Field>
-
-              <Field>
-                <FieldLabel htmlFor="guarantor2Id">
-                  <Users className="mr-2 h-4 w-4 inline" />
-                  Guarantor 2 (Optional)
-                </FieldLabel>
-                <select
-                  id="guarantor2Id"
-                  value={formData.guarantor2Id}
-                  onChange={(e) =>
-                    setFormData({ ...formData, guarantor2Id: e.target.value })
-                  }
-                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50">
-                  <option value="">None</option>
-                  {allMembers
-                    .filter(
-                      (m) =>
-                        m.id !== formData.memberId &&
-                        m.id !== formData.guarantor1Id
-                    )
-                    .map((member) => (
-                      <option key={member.id} value={member.id}>
-                        {member.name} ({member.userId})
-                      </option>
-                    ))}
-                </select>
-                <FieldDescription>
-                  Optional: Second guarantor for this loan
-                </FieldDescription>
-              </Field>
-
-              {loanAmount > 0 && (
-                <div className="p-4 bg-muted rounded-lg space-y-2">
-                  <p className="text-sm font-medium">Loan Summary:</p>
-                  <div className="text-xs text-muted-foreground space-y-1">
-                    <p>Principal: ₹{loanAmount.toFixed(2)}</p>
-                    <p className="font-semibold text-foreground">
-                      Total Repayment: ₹{totalRepayment.toFixed(2)} (Principal only, no interest)
-                    </p>
-                  </div>
-                </div>
-              )}
-
               <Field>
                 <div className="flex gap-4">
                   <Button
@@ -554,12 +241,12 @@ export default function NewCyclePage() {
                     {submitting ? (
                       <>
                         <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                        Creating & Disbursing...
+                        Creating...
                       </>
                     ) : (
                       <>
-                        <DollarSign className="mr-2 h-4 w-4" />
-                        Create Cycle & Disburse Loan
+                        <Plus className="mr-2 h-4 w-4" />
+                        Start Cycle
                       </>
                     )}
                   </Button>
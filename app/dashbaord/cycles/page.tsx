@@ -21,6 +21,9 @@ import {
   X,
   Edit,
   Trash2,
+  Gavel,
+  Shuffle,
+  ShieldCheck,
 } from "lucide-react";
 import Link from "next/link";
 import { format } from "date-fns";
@@ -42,6 +45,7 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { Input } from "@/components/ui/input";
+import { formatMoney, fromPaise, toPaise } from "@/lib/money";
 
 interface LoanSequence {
   id: string;
@@ -60,15 +64,45 @@ interface LoanSequence {
   } | null;
 }
 
+interface RotationDraw {
+  id: string;
+  seed: string;
+  officer: string;
+  firstWeek: number;
+  createdAt: string;
+  excluded?: Array<{
+    memberId: string;
+    name: string;
+    reasons: Array<"RECEIVED" | "OVERDUE">;
+  }> | null;
+}
+
+interface CycleLoan {
+  id: string;
+  sequenceId?: string | null;
+  principal: number;
+  remaining: number;
+  status: string;
+  disbursedAt?: string | null;
+  member: {
+    name: string;
+    userId: string;
+  };
+}
+
 interface LoanCycle {
   id: string;
   cycleNumber: number;
+  group?: { id: string; name: string } | null;
   startDate: string;
   endDate?: string | null;
   totalMembers: number;
   weeklyAmount: number;
+  allocationMode: "FIXED" | "AUCTION";
   isActive: boolean;
+  loans: CycleLoan[];
   sequences: LoanSequence[];
+  draws: RotationDraw[];
   groupFund?: {
     investmentPool: number;
     totalFunds: number;
@@ -101,6 +135,12 @@ export default function CyclesPage() {
     weeklyAmount: 0,
   });
   const [success, setSuccess] = useState("");
+  const [drawingCycle, setDrawingCycle] = useState<string | null>(null);
+  const [drawForm, setDrawForm] = useState({
+    officer: "",
+    excludeReceived: true,
+    excludeOverdue: false,
+  });
 
   useEffect(() => {
     fetchCycles();
@@ -144,7 +184,7 @@ export default function CyclesPage() {
         ? format(new Date(cycle.endDate), "yyyy-MM-dd")
         : "",
       isActive: cycle.isActive,
-      weeklyAmount: cycle.weeklyAmount,
+      weeklyAmount: fromPaise(cycle.weeklyAmount),
     });
   };
 
@@ -160,7 +200,7 @@ export default function CyclesPage() {
           startDate: editForm.startDate,
           endDate: editForm.endDate || null,
           isActive: editForm.isActive,
-          weeklyAmount: editForm.weeklyAmount,
+          weeklyAmount: toPaise(editForm.weeklyAmount),
         }),
       });
 
@@ -205,6 +245,68 @@ export default function CyclesPage() {
     }
   };
 
+  const handleDraw = async () => {
+    if (!drawingCycle) return;
+
+    setError("");
+    try {
+      const response = await fetch(`/api/cycles/${drawingCycle}/draw`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          officer: drawForm.officer.trim() || undefined,
+          excludeReceived: drawForm.excludeReceived,
+          excludeOverdue: drawForm.excludeOverdue,
+        }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setSuccess(data.message || "Rotation order drawn");
+        setDrawingCycle(null);
+        await fetchCycles();
+        setTimeout(() => setSuccess(""), 10000);
+      } else {
+        setError(data.error || "Failed to draw rotation order");
+      }
+    } catch (error) {
+      console.error("Error drawing rotation order:", error);
+      setError("Failed to draw rotation order");
+    }
+  };
+
+  // Re-run every draw of the cycle from its seed
+  const handleVerifyDraws = async (cycleId: string) => {
+    setError("");
+    setSuccess("");
+    try {
+      const response = await fetch(`/api/cycles/${cycleId}/draw`);
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || "Failed to verify draws");
+        return;
+      }
+
+      const draws: Array<RotationDraw & { verified: boolean }> = data.draws;
+      const failed = draws.filter((draw) => !draw.verified);
+      if (failed.length > 0) {
+        setError(
+          `The saved order does not match the seed for ${failed
+            .map((draw) => `the draw of ${format(new Date(draw.createdAt), "dd/MM/yyyy")}`)
+            .join(", ")}`
+        );
+      } else {
+        setSuccess(
+          `${draws.length} draw${draws.length === 1 ? "" : "s"} re-run from the recorded seed - the order matches`
+        );
+        setTimeout(() => setSuccess(""), 5000);
+      }
+    } catch (error) {
+      console.error("Error verifying draws:", error);
+      setError("Failed to verify draws");
+    }
+  };
+
   if (loading) {
     return <div>Loading...</div>;
   }
@@ -245,15 +347,36 @@ export default function CyclesPage() {
       {cycles.length === 0 ? (
         <Card>
           <CardContent className="py-10 text-center text-muted-foreground">
-            No cycles found. Create a new cycle to start giving loans.
+            No cycles found. Start a cycle for a group to start giving loans.
           </CardContent>
         </Card>
       ) : (
         cycles.map((cycle) => (
           <Card key={cycle.id}>
             <CardHeader>
-              <div className="flex items-center justify-between">
-                <CardTitle>Cycle #{cycle.cycleNumber}</CardTitle>
+              <div className="flex items-center justify-between gap-2">
+                <CardTitle>
+                  {cycle.group ? `${cycle.group.name} - ` : ""}Cycle #
+                  {cycle.cycleNumber}
+                </CardTitle>
+                {user?.role === "ADMIN" &&
+                  cycle.allocationMode === "FIXED" &&
+                  cycle.isActive && (
+                    <Button size="sm" asChild className="ml-auto">
+                      <Link href={`/dashbaord/cycles/${cycle.id}/loans/new`}>
+                        <Plus className="mr-2 h-4 w-4" />
+                        Add Loan
+                      </Link>
+                    </Button>
+                  )}
+                {cycle.allocationMode === "AUCTION" && (
+                  <Button variant="outline" size="sm" asChild className="ml-auto">
+                    <Link href={`/dashbaord/cycles/${cycle.id}/auctions`}>
+                      <Gavel className="mr-2 h-4 w-4" />
+                      Auctions
+                    </Link>
+                  </Button>
+                )}
                 <span
                   className={`px-2 py-1 text-xs rounded ${
                     cycle.isActive
@@ -288,14 +411,14 @@ export default function CyclesPage() {
                     <p className="text-sm text-muted-foreground">
                       Weekly Amount
                     </p>
-                    <p className="font-medium">₹{cycle.weeklyAmount}</p>
+                    <p className="font-medium">{formatMoney(cycle.weeklyAmount)}</p>
                   </div>
                 </div>
                 {cycle.groupFund && (
                   <div>
                     <p className="text-sm text-muted-foreground">Total Funds</p>
                     <p className="font-medium">
-                      ₹{cycle.groupFund.totalFunds.toFixed(2)}
+                      {formatMoney(cycle.groupFund.totalFunds)}
                     </p>
                   </div>
                 )}
@@ -308,16 +431,139 @@ export default function CyclesPage() {
                       Investment Pool
                     </p>
                     <p className="font-medium">
-                      ₹{cycle.groupFund.investmentPool.toFixed(2)}
+                      {formatMoney(cycle.groupFund.investmentPool)}
                     </p>
                   </div>
                 </div>
               )}
 
+              {cycle.allocationMode === "FIXED" && (
+                <div>
+                  <h3 className="text-base sm:text-lg font-semibold mb-2">
+                    Loans
+                  </h3>
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Member</TableHead>
+                          <TableHead>Principal</TableHead>
+                          <TableHead>Disbursed</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead>Remaining</TableHead>
+                          <TableHead>Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {cycle.loans.filter((loan) => !loan.sequenceId)
+                          .length === 0 ? (
+                          <TableRow>
+                            <TableCell
+                              colSpan={6}
+                              className="text-center text-muted-foreground">
+                              No loans in this cycle yet
+                            </TableCell>
+                          </TableRow>
+                        ) : (
+                          // Rotation payouts are listed in the schedule below
+                          cycle.loans
+                            .filter((loan) => !loan.sequenceId)
+                            .map((loan) => (
+                              <TableRow key={loan.id}>
+                                <TableCell>
+                                  <p className="font-medium">
+                                    {loan.member.name}
+                                  </p>
+                                  <p className="text-xs text-muted-foreground">
+                                    {loan.member.userId}
+                                  </p>
+                                </TableCell>
+                                <TableCell>
+                                  {formatMoney(loan.principal)}
+                                </TableCell>
+                                <TableCell>
+                                  {loan.disbursedAt
+                                    ? format(
+                                        new Date(loan.disbursedAt),
+                                        "dd/MM/yyyy"
+                                      )
+                                    : "-"}
+                                </TableCell>
+                                <TableCell>{loan.status}</TableCell>
+                                <TableCell>
+                                  {formatMoney(loan.remaining)}
+                                </TableCell>
+                                <TableCell>
+                                  <Button variant="outline" size="sm" asChild>
+                                    <Link href={`/dashbaord/loans/${loan.id}`}>
+                                      View Loan
+                                    </Link>
+                                  </Button>
+                                </TableCell>
+                              </TableRow>
+                            ))
+                        )}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              )}
+
               <div>
-                <h3 className="text-base sm:text-lg font-semibold mb-2">
-                  Loan Rotation Schedule
-                </h3>
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-2">
+                  <h3 className="text-base sm:text-lg font-semibold">
+                    Loan Rotation Schedule
+                  </h3>
+                  <div className="flex gap-2">
+                    {cycle.draws.length > 0 && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleVerifyDraws(cycle.id)}>
+                        <ShieldCheck className="mr-2 h-4 w-4" />
+                        Verify Draw
+                      </Button>
+                    )}
+                    {user?.role === "ADMIN" &&
+                      cycle.allocationMode === "FIXED" &&
+                      cycle.isActive &&
+                      !cycle.sequences.some((s) => s.status === "PENDING") && (
+                        <Button
+                          size="sm"
+                          onClick={() => {
+                            setDrawingCycle(cycle.id);
+                            setDrawForm({
+                              officer: "",
+                              excludeReceived: true,
+                              excludeOverdue: false,
+                            });
+                          }}>
+                          <Shuffle className="mr-2 h-4 w-4" />
+                          Draw Order
+                        </Button>
+                      )}
+                  </div>
+                </div>
+                {cycle.draws[0] && (
+                  <p className="text-xs text-muted-foreground mb-2 break-all">
+                    Weeks from {cycle.draws[0].firstWeek} drawn on{" "}
+                    {format(new Date(cycle.draws[0].createdAt), "dd/MM/yyyy")}{" "}
+                    by {cycle.draws[0].officer} - seed{" "}
+                    <span className="font-mono">{cycle.draws[0].seed}</span>
+                    {cycle.draws[0].excluded &&
+                      cycle.draws[0].excluded.length > 0 &&
+                      ` - left out: ${cycle.draws[0].excluded
+                        .map(
+                          (e) =>
+                            `${e.name} (${e.reasons
+                              .map((r) =>
+                                r === "RECEIVED" ? "already received" : "overdue"
+                              )
+                              .join(", ")})`
+                        )
+                        .join(", ")}`}
+                  </p>
+                )}
                 <div className="overflow-x-auto">
                   <Table>
                     <TableHeader>
@@ -347,7 +593,7 @@ export default function CyclesPage() {
                             </div>
                           </TableCell>
                           <TableCell>
-                            ₹{sequence.loanAmount.toFixed(2)}
+                            {formatMoney(sequence.loanAmount)}
                           </TableCell>
                           <TableCell>
                             <span
@@ -363,7 +609,7 @@ export default function CyclesPage() {
                           </TableCell>
                           <TableCell>
                             {sequence.loan
-                              ? `₹${sequence.loan.remaining.toFixed(2)}`
+                              ? formatMoney(sequence.loan.remaining)
                               : "-"}
                           </TableCell>
                           <TableCell>
@@ -501,8 +747,8 @@ export default function CyclesPage() {
                   <Button
                     className="flex-1"
                     onClick={async () => {
-                      try {
-                        const response = await fetch("/api/loans/disburse", {
+                      const disburse = (fundOverrideReason?: string) =>
+                        fetch("/api/loans/disburse", {
                           method: "POST",
                           headers: { "Content-Type": "application/json" },
                           body: JSON.stringify({
@@ -512,16 +758,30 @@ export default function CyclesPage() {
                               disburseForm.guarantor1Id || undefined,
                             guarantor2Id:
                               disburseForm.guarantor2Id || undefined,
+                            fundOverrideReason,
                           }),
                         });
+                      try {
+                        let response = await disburse();
+                        let error = response.ok ? null : await response.json();
+                        // The fund cannot cover the slot: it waits on the
+                        // waitlist unless the admin pays it out anyway
+                        if (error?.required !== undefined) {
+                          const reason = prompt(
+                            `${error.error}.\n\nTo disburse it anyway, enter the reason for overriding the fund check:`
+                          );
+                          if (reason?.trim()) {
+                            response = await disburse(reason.trim());
+                            error = response.ok ? null : await response.json();
+                          }
+                        }
                         if (response.ok) {
                           alert("Loan disbursed successfully!");
                           setShowDisburseForm(false);
                           setDisbursingSequence(null);
                           fetchCycles();
                         } else {
-                          const error = await response.json();
-                          alert(error.error || "Failed to disburse loan");
+                          alert(error?.error || "Failed to disburse loan");
                         }
                       } catch (error) {
                         alert("Failed to disburse loan");
@@ -544,6 +804,84 @@ export default function CyclesPage() {
         </div>
       )}
 
+      {/* Rotation Draw Dialog */}
+      {drawingCycle && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+          <Card className="w-full max-w-md max-h-[90vh] overflow-y-auto m-4">
+            <CardHeader>
+              <CardTitle>Draw Rotation Order</CardTitle>
+              <CardDescription>
+                Shuffles the eligible active members into the remaining weeks.
+                A random seed is picked for it and recorded, so anyone can
+                re-run the draw later.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Field>
+                <FieldLabel htmlFor="drawOfficer">
+                  Drawing Officer (Optional)
+                </FieldLabel>
+                <Input
+                  id="drawOfficer"
+                  value={drawForm.officer}
+                  onChange={(e) =>
+                    setDrawForm({ ...drawForm, officer: e.target.value })
+                  }
+                />
+                <FieldDescription>
+                  Who drew the lots - defaults to you
+                </FieldDescription>
+              </Field>
+              <Field>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={drawForm.excludeReceived}
+                    onChange={(e) =>
+                      setDrawForm({
+                        ...drawForm,
+                        excludeReceived: e.target.checked,
+                      })
+                    }
+                    className="rounded"
+                  />
+                  <span className="text-sm">
+                    Leave out members who already received this cycle
+                  </span>
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={drawForm.excludeOverdue}
+                    onChange={(e) =>
+                      setDrawForm({
+                        ...drawForm,
+                        excludeOverdue: e.target.checked,
+                      })
+                    }
+                    className="rounded"
+                  />
+                  <span className="text-sm">
+                    Leave out members with overdue loans or contributions
+                  </span>
+                </label>
+              </Field>
+              <div className="flex gap-2">
+                <Button onClick={handleDraw} className="flex-1">
+                  Draw
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setDrawingCycle(null)}
+                  className="flex-1">
+                  Cancel
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
       {/* Edit Cycle Dialog */}
       {editingCycle && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
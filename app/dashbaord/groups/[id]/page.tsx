@@ -36,6 +36,18 @@ import {
   DollarSign,
 } from "lucide-react";
 import Link from "next/link";
+import { formatMoney, fromPaise, toPaise } from "@/lib/money";
+import {
+  describeGuarantorRules,
+  describeInterestTerms,
+  describePenaltyRules,
+  guarantorRulesOf,
+  interestTermsOf,
+  penaltyRulesOf,
+  type InterestMethod,
+  type PenaltyType,
+  type RatePeriod,
+} from "@/lib/utils";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -69,9 +81,28 @@ interface Group {
   name: string;
   weeklyAmount: number;
   interestRate: number;
+  interestMethod: InterestMethod;
+  interestRatePeriod: RatePeriod;
+  penaltyType: PenaltyType;
+  penaltyAmount: number;
+  penaltyRate: number;
+  penaltyGraceDays: number;
+  maxActiveGuarantees: number;
+  guaranteeSavingsMultiple: number;
+  meetingDay: number | null;
+  defaultAfterDays: number;
   loanWeeks: number;
   isActive: boolean;
   members: GroupMember[];
+  holidays: GroupHoliday[];
+}
+
+// Weeks the group does not meet
+interface GroupHoliday {
+  id: string;
+  startDate: string;
+  endDate: string;
+  reason: string;
 }
 
 interface Member {
@@ -81,6 +112,17 @@ interface Member {
   phone?: string;
 }
 
+// Indexed by Group.meetingDay (0 = Sunday)
+const weekdays = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
 export default function GroupDetailPage() {
   const params = useParams();
   const router = useRouter();
@@ -99,6 +141,28 @@ export default function GroupDetailPage() {
   const [success, setSuccess] = useState("");
   const [submitting, setSubmitting] = useState(false);
   const [removingId, setRemovingId] = useState<string | null>(null);
+  const [savingHoliday, setSavingHoliday] = useState(false);
+  const [holidayForm, setHolidayForm] = useState({
+    startDate: "",
+    endDate: "",
+    reason: "",
+  });
+  const [editingTerms, setEditingTerms] = useState(false);
+  const [savingTerms, setSavingTerms] = useState(false);
+  const [termsForm, setTermsForm] = useState({
+    loanWeeks: 10,
+    interestRate: 0,
+    interestMethod: "FLAT" as InterestMethod,
+    interestRatePeriod: "WEEKLY" as RatePeriod,
+    penaltyType: "NONE" as PenaltyType,
+    penaltyAmount: 0, // Rupees in the form
+    penaltyRate: 0,
+    penaltyGraceDays: 0,
+    maxActiveGuarantees: 0,
+    guaranteeSavingsMultiple: 0,
+    meetingDay: "", // Weekday number, or "" for none
+    defaultAfterDays: 0,
+  });
 
   useEffect(() => {
     if (params.id) {
@@ -117,7 +181,7 @@ export default function GroupDetailPage() {
         if (data.group.weeklyAmount) {
           setFormData((prev) => ({
             ...prev,
-            weeklyAmount: data.group.weeklyAmount || 100,
+            weeklyAmount: fromPaise(data.group.weeklyAmount),
           }));
         }
       }
@@ -178,7 +242,7 @@ export default function GroupDetailPage() {
           memberId: formData.memberId,
           joiningDate: joiningDate.toISOString(),
           joiningWeek: formData.joiningWeek,
-          weeklyAmount: formData.weeklyAmount,
+          weeklyAmount: toPaise(formData.weeklyAmount),
         }),
       });
 
@@ -193,7 +257,7 @@ export default function GroupDetailPage() {
         memberId: "",
         joiningDate: new Date().toISOString().split("T")[0],
         joiningWeek: 1,
-        weeklyAmount: group?.weeklyAmount || 100,
+        weeklyAmount: group?.weeklyAmount ? fromPaise(group.weeklyAmount) : 100,
       });
       setShowAddMember(false);
       fetchGroup();
@@ -205,6 +269,62 @@ export default function GroupDetailPage() {
     }
   };
 
+  const startEditingTerms = () => {
+    if (!group) return;
+    setTermsForm({
+      loanWeeks: group.loanWeeks,
+      interestRate: group.interestRate,
+      interestMethod: group.interestMethod,
+      interestRatePeriod: group.interestRatePeriod,
+      penaltyType: group.penaltyType,
+      penaltyAmount: fromPaise(group.penaltyAmount),
+      penaltyRate: group.penaltyRate,
+      penaltyGraceDays: group.penaltyGraceDays,
+      maxActiveGuarantees: group.maxActiveGuarantees,
+      guaranteeSavingsMultiple: group.guaranteeSavingsMultiple,
+      meetingDay: group.meetingDay === null ? "" : String(group.meetingDay),
+      defaultAfterDays: group.defaultAfterDays,
+    });
+    setEditingTerms(true);
+  };
+
+  const handleSaveTerms = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setSuccess("");
+    setSavingTerms(true);
+
+    try {
+      const response = await fetch(`/api/groups/${params.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...termsForm,
+          penaltyAmount: toPaise(termsForm.penaltyAmount),
+          meetingDay:
+            termsForm.meetingDay === "" ? null : parseInt(termsForm.meetingDay),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update loan terms");
+      }
+
+      setSuccess("Loan terms updated. New loans will use these terms.");
+      setEditingTerms(false);
+      fetchGroup();
+      setTimeout(() => setSuccess(""), 3000);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to update loan terms"
+      );
+    } finally {
+      setSavingTerms(false);
+    }
+  };
+
   const handleRemoveMember = async (memberId: string) => {
     setError("");
     setRemovingId(memberId);
@@ -232,6 +352,61 @@ export default function GroupDetailPage() {
     }
   };
 
+  const handleAddHoliday = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setSuccess("");
+    setSavingHoliday(true);
+
+    try {
+      const response = await fetch(`/api/groups/${params.id}/holidays`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(holidayForm),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to add holiday");
+      }
+
+      setSuccess("Holiday added. Loan due dates have moved on.");
+      setHolidayForm({ startDate: "", endDate: "", reason: "" });
+      fetchGroup();
+      setTimeout(() => setSuccess(""), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add holiday");
+    } finally {
+      setSavingHoliday(false);
+    }
+  };
+
+  const handleRemoveHoliday = async (holidayId: string) => {
+    setError("");
+    setSuccess("");
+
+    try {
+      const response = await fetch(
+        `/api/groups/${params.id}/holidays?holidayId=${holidayId}`,
+        { method: "DELETE" }
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to remove holiday");
+      }
+
+      setSuccess("Holiday removed");
+      fetchGroup();
+      setTimeout(() => setSuccess(""), 3000);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to remove holiday"
+      );
+    }
+  };
+
   if (loading) {
     return <div>Loading...</div>;
   }
@@ -422,6 +597,418 @@ export default function GroupDetailPage() {
         </Card>
       )}
 
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+            <div>
+              <CardTitle>Loan Terms</CardTitle>
+              <CardDescription className="mt-1">
+                Interest applies to new loans in this group - existing loans
+                keep the terms they were disbursed on. Late fines apply to all
+                of the group&apos;s loans.
+              </CardDescription>
+            </div>
+            {user?.role === "ADMIN" && !editingTerms && (
+              <Button variant="outline" size="sm" onClick={startEditingTerms}>
+                Edit
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {editingTerms ? (
+            <form onSubmit={handleSaveTerms} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+                <Field>
+                  <FieldLabel htmlFor="termsLoanWeeks">Loan Weeks</FieldLabel>
+                  <Input
+                    id="termsLoanWeeks"
+                    type="number"
+                    min="1"
+                    value={termsForm.loanWeeks}
+                    onChange={(e) =>
+                      setTermsForm({
+                        ...termsForm,
+                        loanWeeks: parseInt(e.target.value) || 10,
+                      })
+                    }
+                  />
+                </Field>
+                <Field>
+                  <FieldLabel htmlFor="termsInterestRate">
+                    Interest Rate (%)
+                  </FieldLabel>
+                  <Input
+                    id="termsInterestRate"
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    value={termsForm.interestRate}
+                    onChange={(e) =>
+                      setTermsForm({
+                        ...termsForm,
+                        interestRate: parseFloat(e.target.value) || 0,
+                      })
+                    }
+                  />
+                </Field>
+                <Field>
+                  <FieldLabel htmlFor="termsRatePeriod">Rate Period</FieldLabel>
+                  <select
+                    id="termsRatePeriod"
+                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                    value={termsForm.interestRatePeriod}
+                    onChange={(e) =>
+                      setTermsForm({
+                        ...termsForm,
+                        interestRatePeriod: e.target.value as RatePeriod,
+                      })
+                    }>
+                    <option value="WEEKLY">per week</option>
+                    <option value="MONTHLY">per month</option>
+                    <option value="ANNUAL">per year</option>
+                  </select>
+                </Field>
+                <Field>
+                  <FieldLabel htmlFor="termsMethod">Method</FieldLabel>
+                  <select
+                    id="termsMethod"
+                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                    value={termsForm.interestMethod}
+                    onChange={(e) =>
+                      setTermsForm({
+                        ...termsForm,
+                        interestMethod: e.target.value as InterestMethod,
+                      })
+                    }>
+                    <option value="FLAT">Flat (on original amount)</option>
+                    <option value="DECLINING">Declining balance</option>
+                  </select>
+                </Field>
+                <Field>
+                  <FieldLabel htmlFor="termsPenaltyType">Late Fine</FieldLabel>
+                  <select
+                    id="termsPenaltyType"
+                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                    value={termsForm.penaltyType}
+                    onChange={(e) =>
+                      setTermsForm({
+                        ...termsForm,
+                        penaltyType: e.target.value as PenaltyType,
+                      })
+                    }>
+                    <option value="NONE">No late fine</option>
+                    <option value="FIXED">Fixed amount</option>
+                    <option value="PERCENT">Percent of installment</option>
+                  </select>
+                </Field>
+                {termsForm.penaltyType === "FIXED" && (
+                  <Field>
+                    <FieldLabel htmlFor="termsPenaltyAmount">
+                      Fine per Late Installment (₹)
+                    </FieldLabel>
+                    <Input
+                      id="termsPenaltyAmount"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={termsForm.penaltyAmount}
+                      onChange={(e) =>
+                        setTermsForm({
+                          ...termsForm,
+                          penaltyAmount: parseFloat(e.target.value) || 0,
+                        })
+                      }
+                    />
+                  </Field>
+                )}
+                {termsForm.penaltyType === "PERCENT" && (
+                  <Field>
+                    <FieldLabel htmlFor="termsPenaltyRate">
+                      Fine (% of Installment)
+                    </FieldLabel>
+                    <Input
+                      id="termsPenaltyRate"
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      value={termsForm.penaltyRate}
+                      onChange={(e) =>
+                        setTermsForm({
+                          ...termsForm,
+                          penaltyRate: parseFloat(e.target.value) || 0,
+                        })
+                      }
+                    />
+                  </Field>
+                )}
+                {termsForm.penaltyType !== "NONE" && (
+                  <Field>
+                    <FieldLabel htmlFor="termsGraceDays">Grace Days</FieldLabel>
+                    <Input
+                      id="termsGraceDays"
+                      type="number"
+                      min="0"
+                      value={termsForm.penaltyGraceDays}
+                      onChange={(e) =>
+                        setTermsForm({
+                          ...termsForm,
+                          penaltyGraceDays: parseInt(e.target.value) || 0,
+                        })
+                      }
+                    />
+                  </Field>
+                )}
+                <Field>
+                  <FieldLabel htmlFor="termsMaxGuarantees">
+                    Max Guarantees per Member (0 = no limit)
+                  </FieldLabel>
+                  <Input
+                    id="termsMaxGuarantees"
+                    type="number"
+                    min="0"
+                    value={termsForm.maxActiveGuarantees}
+                    onChange={(e) =>
+                      setTermsForm({
+                        ...termsForm,
+                        maxActiveGuarantees: parseInt(e.target.value) || 0,
+                      })
+                    }
+                  />
+                </Field>
+                <Field>
+                  <FieldLabel htmlFor="termsSavingsMultiple">
+                    Guarantee Limit × Savings (0 = no limit)
+                  </FieldLabel>
+                  <Input
+                    id="termsSavingsMultiple"
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={termsForm.guaranteeSavingsMultiple}
+                    onChange={(e) =>
+                      setTermsForm({
+                        ...termsForm,
+                        guaranteeSavingsMultiple: parseFloat(e.target.value) || 0,
+                      })
+                    }
+                  />
+                </Field>
+                <Field>
+                  <FieldLabel htmlFor="termsMeetingDay">Meeting Day</FieldLabel>
+                  <select
+                    id="termsMeetingDay"
+                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                    value={termsForm.meetingDay}
+                    onChange={(e) =>
+                      setTermsForm({
+                        ...termsForm,
+                        meetingDay: e.target.value,
+                      })
+                    }>
+                    <option value="">Same weekday as disbursal</option>
+                    {weekdays.map((day, index) => (
+                      <option key={day} value={index}>
+                        {day}
+                      </option>
+                    ))}
+                  </select>
+                </Field>
+                <Field>
+                  <FieldLabel htmlFor="termsDefaultAfterDays">
+                    Default After Days in Arrears (0 = never)
+                  </FieldLabel>
+                  <Input
+                    id="termsDefaultAfterDays"
+                    type="number"
+                    min="0"
+                    value={termsForm.defaultAfterDays}
+                    onChange={(e) =>
+                      setTermsForm({
+                        ...termsForm,
+                        defaultAfterDays: parseInt(e.target.value) || 0,
+                      })
+                    }
+                  />
+                </Field>
+              </div>
+              <div className="flex gap-2">
+                <Button type="submit" disabled={savingTerms}>
+                  {savingTerms ? "Saving..." : "Save"}
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setEditingTerms(false)}
+                  disabled={savingTerms}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm">
+              <div className="flex justify-between sm:justify-start sm:gap-2">
+                <span className="text-muted-foreground">Loan Weeks:</span>
+                <span className="font-medium">{group.loanWeeks} weeks</span>
+              </div>
+              <div className="flex justify-between sm:justify-start sm:gap-2">
+                <span className="text-muted-foreground">Interest:</span>
+                <span className="font-medium">
+                  {describeInterestTerms(interestTermsOf(group))}
+                </span>
+              </div>
+              <div className="flex justify-between sm:justify-start sm:gap-2">
+                <span className="text-muted-foreground">Late Fine:</span>
+                <span className="font-medium">
+                  {describePenaltyRules(penaltyRulesOf(group))}
+                </span>
+              </div>
+              <div className="flex justify-between sm:justify-start sm:gap-2">
+                <span className="text-muted-foreground">Guarantors:</span>
+                <span className="font-medium">
+                  {describeGuarantorRules(guarantorRulesOf(group))}
+                </span>
+              </div>
+              <div className="flex justify-between sm:justify-start sm:gap-2">
+                <span className="text-muted-foreground">Meeting Day:</span>
+                <span className="font-medium">
+                  {group.meetingDay === null
+                    ? "Same weekday as disbursal"
+                    : weekdays[group.meetingDay]}
+                </span>
+              </div>
+              <div className="flex justify-between sm:justify-start sm:gap-2">
+                <span className="text-muted-foreground">Auto Default:</span>
+                <span className="font-medium">
+                  {group.defaultAfterDays > 0
+                    ? `After ${group.defaultAfterDays} days in arrears`
+                    : "Never"}
+                </span>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Holidays</CardTitle>
+          <CardDescription>
+            Weeks the group does not meet, e.g. harvest or festivals. Meetings
+            in them are skipped: collection weeks and loan installments move
+            on to the next meeting, so nothing falls overdue.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {group.holidays.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No holidays set.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>From</TableHead>
+                    <TableHead>To</TableHead>
+                    <TableHead>Reason</TableHead>
+                    {user?.role === "ADMIN" && <TableHead>Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {group.holidays.map((holiday) => (
+                    <TableRow key={holiday.id}>
+                      <TableCell>
+                        {new Date(holiday.startDate).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell>
+                        {new Date(holiday.endDate).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell>{holiday.reason}</TableCell>
+                      {user?.role === "ADMIN" && (
+                        <TableCell>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleRemoveHoliday(holiday.id)}>
+                            <Trash2 className="mr-1 h-3 w-3" />
+                            Remove
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {user?.role === "ADMIN" && (
+            <form onSubmit={handleAddHoliday}>
+              <FieldGroup className="border-t pt-4">
+                <div className="grid gap-4 grid-cols-1 sm:grid-cols-3">
+                  <Field>
+                    <FieldLabel htmlFor="holidayStart">From</FieldLabel>
+                    <Input
+                      id="holidayStart"
+                      type="date"
+                      value={holidayForm.startDate}
+                      onChange={(e) =>
+                        setHolidayForm({
+                          ...holidayForm,
+                          startDate: e.target.value,
+                        })
+                      }
+                      required
+                    />
+                  </Field>
+                  <Field>
+                    <FieldLabel htmlFor="holidayEnd">To</FieldLabel>
+                    <Input
+                      id="holidayEnd"
+                      type="date"
+                      value={holidayForm.endDate}
+                      onChange={(e) =>
+                        setHolidayForm({
+                          ...holidayForm,
+                          endDate: e.target.value,
+                        })
+                      }
+                      required
+                    />
+                  </Field>
+                  <Field>
+                    <FieldLabel htmlFor="holidayReason">Reason</FieldLabel>
+                    <Input
+                      id="holidayReason"
+                      value={holidayForm.reason}
+                      onChange={(e) =>
+                        setHolidayForm({
+                          ...holidayForm,
+                          reason: e.target.value,
+                        })
+                      }
+                      placeholder="e.g. Harvest"
+                      required
+                    />
+                    <FieldDescription>
+                      Outstanding loans are rescheduled when holidays change
+                    </FieldDescription>
+                  </Field>
+                </div>
+                <Button
+                  type="submit"
+                  className="w-full sm:w-auto"
+                  disabled={savingHoliday}>
+                  <Calendar className="mr-2 h-4 w-4" />
+                  {savingHoliday ? "Saving..." : "Add Holiday"}
+                </Button>
+              </FieldGroup>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle>Group Members</CardTitle>
@@ -469,20 +1056,17 @@ export default function GroupDetailPage() {
                         {gm.member.userId}
                       </TableCell>
                       <TableCell>
-                        <DollarSign className="h-3 w-3 inline mr-1" />
-                        {gm.weeklyAmount.toFixed(2)}
+                        {formatMoney(gm.weeklyAmount)}
                       </TableCell>
                       <TableCell>Week {gm.joiningWeek}</TableCell>
                       <TableCell>
                         {new Date(gm.joiningDate).toLocaleDateString()}
                       </TableCell>
                       <TableCell>
-                        <DollarSign className="h-3 w-3 inline mr-1" />
-                        {gm.totalContributed.toFixed(2)}
+                        {formatMoney(gm.totalContributed)}
                       </TableCell>
                       <TableCell>
-                        <DollarSign className="h-3 w-3 inline mr-1" />
-                        {gm.benefitAmount.toFixed(2)}
+                        {formatMoney(gm.benefitAmount)}
                       </TableCell>
                       <TableCell>
                         <span
@@ -0,0 +1,658 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Field,
+  FieldDescription,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ArrowLeft, Plus, Trash2 } from "lucide-react";
+import Link from "next/link";
+import { useAuth } from "@/hooks/use-auth";
+import { formatMoney, sumMoney, toPaise } from "@/lib/money";
+import type { InterestMethod, RatePeriod } from "@/lib/utils";
+
+interface Member {
+  id: string;
+  userId: string;
+  name: string;
+}
+
+// One row of the paper register - amounts are in rupees as written there
+interface MemberRow {
+  memberId: string;
+  joiningWeek: number;
+  joiningDate: string;
+  weeklyAmount: string;
+  totalContributed: string;
+  savings: string;
+  hasLoan: boolean;
+  loanPrincipal: string;
+  loanRemaining: string;
+  loanCurrentWeek: number;
+  loanDisbursedAt: string;
+}
+
+const selectClassName =
+  "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50";
+
+const emptyRow = (date: string): MemberRow => ({
+  memberId: "",
+  joiningWeek: 1,
+  joiningDate: date,
+  weeklyAmount: "",
+  totalContributed: "",
+  savings: "",
+  hasLoan: false,
+  loanPrincipal: "",
+  loanRemaining: "",
+  loanCurrentWeek: 0,
+  loanDisbursedAt: date,
+});
+
+const rupeesToPaise = (value: string) =>
+  value && value !== "" ? toPaise(parseFloat(value)) : 0;
+
+export default function ImportGroupPage() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const today = new Date().toISOString().split("T")[0];
+  const [members, setMembers] = useState<Member[]>([]);
+  const [formData, setFormData] = useState({
+    name: "",
+    weeklyAmount: "",
+    loanWeeks: 10,
+    interestRate: 0,
+    interestMethod: "FLAT" as InterestMethod,
+    interestRatePeriod: "WEEKLY" as RatePeriod,
+    cutoverDate: today,
+    cycleNumber: 1,
+    cycleStartDate: today,
+    currentWeek: 0,
+    fundBalance: "",
+  });
+  const [rows, setRows] = useState<MemberRow[]>([emptyRow(today)]);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (user?.role === "ADMIN") {
+      fetchMembers();
+    }
+  }, [user]);
+
+  const fetchMembers = async () => {
+    try {
+      const response = await fetch("/api/members");
+      if (response.ok) {
+        const data = await response.json();
+        setMembers(data.members);
+      }
+    } catch (error) {
+      console.error("Error fetching members:", error);
+    }
+  };
+
+  const updateRow = (index: number, changes: Partial<MemberRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const totalSavings = sumMoney(rows.map((row) => rupeesToPaise(row.savings)));
+  const totalOutstanding = sumMoney(
+    rows.map((row) => (row.hasLoan ? rupeesToPaise(row.loanRemaining) : 0))
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setSuccess("");
+    setSubmitting(true);
+
+    try {
+      const response = await fetch("/api/groups/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: formData.name,
+          weeklyAmount:
+            formData.weeklyAmount && formData.weeklyAmount !== ""
+              ? toPaise(parseFloat(formData.weeklyAmount))
+              : undefined,
+          loanWeeks: formData.loanWeeks,
+          interestRate: formData.interestRate,
+          interestMethod: formData.interestMethod,
+          interestRatePeriod: formData.interestRatePeriod,
+          cutoverDate: new Date(formData.cutoverDate).toISOString(),
+          cycleNumber: formData.cycleNumber,
+          cycleStartDate: new Date(formData.cycleStartDate).toISOString(),
+          currentWeek: formData.currentWeek,
+          fundBalance: rupeesToPaise(formData.fundBalance),
+          members: rows.map((row) => ({
+            memberId: row.memberId,
+            joiningWeek: row.joiningWeek,
+            joiningDate: new Date(row.joiningDate).toISOString(),
+            weeklyAmount:
+              row.weeklyAmount && row.weeklyAmount !== ""
+                ? toPaise(parseFloat(row.weeklyAmount))
+                : undefined,
+            totalContributed: rupeesToPaise(row.totalContributed),
+            savings: rupeesToPaise(row.savings),
+            loan: row.hasLoan
+              ? {
+                  principal: rupeesToPaise(row.loanPrincipal),
+                  remaining: rupeesToPaise(row.loanRemaining),
+                  currentWeek: row.loanCurrentWeek,
+                  disbursedAt: new Date(row.loanDisbursedAt).toISOString(),
+                }
+              : undefined,
+          })),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to import group");
+      }
+
+      setSuccess("Group imported successfully!");
+      setTimeout(() => {
+        router.push(`/dashbaord/groups/${data.group.id}`);
+      }, 1500);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import group");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (user?.role !== "ADMIN") {
+    return (
+      <div className="space-y-4">
+        <Alert variant="destructive">
+          <AlertDescription>
+            Access denied. Admin privileges required.
+          </AlertDescription>
+        </Alert>
+        <Button variant="outline" asChild>
+          <Link href="/dashbaord/groups">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Groups
+          </Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 sm:space-y-6 p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3 sm:gap-4">
+        <Button variant="outline" asChild className="w-full sm:w-auto">
+          <Link href="/dashbaord/groups">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Link>
+        </Button>
+        <div className="flex-1">
+          <h1 className="text-2xl sm:text-3xl font-bold">Import Group</h1>
+          <p className="text-sm sm:text-base text-muted-foreground mt-1">
+            Bring a group running on a paper register into the system
+          </p>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4 sm:space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {success && (
+          <Alert className="border-green-200 bg-green-50 dark:bg-green-900/20">
+            <AlertDescription className="text-green-800 dark:text-green-200">
+              {success}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>1. Group and Cut-over</CardTitle>
+            <CardDescription>
+              Balances are taken from the register as of the cut-over date.
+              Everything after that date is recorded in the system as usual.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-4 sm:p-6">
+            <FieldGroup>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <Field>
+                  <FieldLabel htmlFor="name">
+                    Group Name <span className="text-destructive">*</span>
+                  </FieldLabel>
+                  <Input
+                    id="name"
+                    value={formData.name}
+                    onChange={(e) =>
+                      setFormData({ ...formData, name: e.target.value })
+                    }
+                    required
+                  />
+                </Field>
+                <Field>
+                  <FieldLabel htmlFor="cutoverDate">
+                    Cut-over Date <span className="text-destructive">*</span>
+                  </FieldLabel>
+                  <Input
+                    id="cutoverDate"
+                    type="date"
+                    value={formData.cutoverDate}
+                    onChange={(e) =>
+                      setFormData({ ...formData, cutoverDate: e.target.value })
+                    }
+                    required
+                  />
+                </Field>
+                <Field>
+                  <FieldLabel htmlFor="weeklyAmount">
+                    Suggested Weekly Amount (Optional)
+                  </FieldLabel>
+                  <Input
+                    id="weeklyAmount"
+                    type="number"
+                    min="1"
+                    step="0.01"
+                    value={formData.weeklyAmount}
+                    onChange={(e) =>
+                      setFormData({ ...formData, weeklyAmount: e.target.value })
+                    }
+                    placeholder="100"
+                  />
+                </Field>
+                <Field>
+                  <FieldLabel htmlFor="loanWeeks">Loan Repayment Weeks</FieldLabel>
+                  <Input
+                    id="loanWeeks"
+                    type="number"
+                    min="1"
+                    value={formData.loanWeeks}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        loanWeeks: parseInt(e.target.value) || 10,
+                      })
+                    }
+                  />
+                </Field>
+                <Field>
+                  <FieldLabel htmlFor="interestRate">Interest Rate (%)</FieldLabel>
+                  <div className="grid grid-cols-3 gap-2">
+                    <Input
+                      id="interestRate"
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      value={formData.interestRate}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          interestRate: parseFloat(e.target.value) || 0,
+                        })
+                      }
+                    />
+                    <select
+                      className={selectClassName}
+                      value={formData.interestRatePeriod}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          interestRatePeriod: e.target.value as RatePeriod,
+                        })
+                      }>
+                      <option value="WEEKLY">per week</option>
+                      <option value="MONTHLY">per month</option>
+                      <option value="ANNUAL">per year</option>
+                    </select>
+                    <select
+                      className={selectClassName}
+                      value={formData.interestMethod}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          interestMethod: e.target.value as InterestMethod,
+                        })
+                      }>
+                      <option value="FLAT">Flat</option>
+                      <option value="DECLINING">Declining</option>
+                    </select>
+                  </div>
+                  <FieldDescription>
+                    Charged on the remaining installments of imported loans and
+                    on new loans
+                  </FieldDescription>
+                </Field>
+                <Field>
+                  <FieldLabel htmlFor="cycleNumber">Current Cycle Number</FieldLabel>
+                  <Input
+                    id="cycleNumber"
+                    type="number"
+                    min="1"
+                    value={formData.cycleNumber}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        cycleNumber: parseInt(e.target.value) || 1,
+                      })
+                    }
+                  />
+                </Field>
+                <Field>
+                  <FieldLabel htmlFor="cycleStartDate">Cycle Start Date</FieldLabel>
+                  <Input
+                    id="cycleStartDate"
+                    type="date"
+                    value={formData.cycleStartDate}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        cycleStartDate: e.target.value,
+                      })
+                    }
+                    required
+                  />
+                </Field>
+                <Field>
+                  <FieldLabel htmlFor="currentWeek">Weeks Completed</FieldLabel>
+                  <Input
+                    id="currentWeek"
+                    type="number"
+                    min="0"
+                    value={formData.currentWeek}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        currentWeek: parseInt(e.target.value) || 0,
+                      })
+                    }
+                  />
+                  <FieldDescription>
+                    Weekly collections already held in this cycle
+                  </FieldDescription>
+                </Field>
+                <Field>
+                  <FieldLabel htmlFor="fundBalance">
+                    Group Fund Balance (₹)
+                  </FieldLabel>
+                  <Input
+                    id="fundBalance"
+                    type="number"
+                    step="0.01"
+                    value={formData.fundBalance}
+                    onChange={(e) =>
+                      setFormData({ ...formData, fundBalance: e.target.value })
+                    }
+                    placeholder="0"
+                  />
+                  <FieldDescription>
+                    Cash in the group fund on the cut-over date, excluding
+                    member savings
+                  </FieldDescription>
+                </Field>
+              </div>
+            </FieldGroup>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>2. Members, Savings and Loans</CardTitle>
+            <CardDescription>
+              One entry per member in the register. Members must already be
+              registered in the system.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-4 sm:p-6 space-y-4">
+            {rows.map((row, index) => (
+              <div key={index} className="p-4 border rounded-lg space-y-4">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium">Member {index + 1}</p>
+                  {rows.length > 1 && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() =>
+                        setRows(rows.filter((_, i) => i !== index))
+                      }>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <Field>
+                    <FieldLabel>Member</FieldLabel>
+                    <select
+                      className={selectClassName}
+                      value={row.memberId}
+                      onChange={(e) =>
+                        updateRow(index, { memberId: e.target.value })
+                      }
+                      required>
+                      <option value="">Select a member</option>
+                      {members.map((member) => (
+                        <option key={member.id} value={member.id}>
+                          {member.name} ({member.userId})
+                        </option>
+                      ))}
+                    </select>
+                  </Field>
+                  <Field>
+                    <FieldLabel>Joining Week</FieldLabel>
+                    <Input
+                      type="number"
+                      min="1"
+                      value={row.joiningWeek}
+                      onChange={(e) =>
+                        updateRow(index, {
+                          joiningWeek: parseInt(e.target.value) || 1,
+                        })
+                      }
+                    />
+                  </Field>
+                  <Field>
+                    <FieldLabel>Joining Date</FieldLabel>
+                    <Input
+                      type="date"
+                      value={row.joiningDate}
+                      onChange={(e) =>
+                        updateRow(index, { joiningDate: e.target.value })
+                      }
+                      required
+                    />
+                  </Field>
+                  <Field>
+                    <FieldLabel>Weekly Amount (₹)</FieldLabel>
+                    <Input
+                      type="number"
+                      min="1"
+                      step="0.01"
+                      value={row.weeklyAmount}
+                      onChange={(e) =>
+                        updateRow(index, { weeklyAmount: e.target.value })
+                      }
+                      placeholder={formData.weeklyAmount || "100"}
+                    />
+                  </Field>
+                  <Field>
+                    <FieldLabel>Contributed So Far (₹)</FieldLabel>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={row.totalContributed}
+                      onChange={(e) =>
+                        updateRow(index, { totalContributed: e.target.value })
+                      }
+                      placeholder="0"
+                    />
+                  </Field>
+                  <Field>
+                    <FieldLabel>Savings Balance (₹)</FieldLabel>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={row.savings}
+                      onChange={(e) =>
+                        updateRow(index, { savings: e.target.value })
+                      }
+                      placeholder="0"
+                    />
+                  </Field>
+                </div>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={row.hasLoan}
+                    onChange={(e) =>
+                      updateRow(index, { hasLoan: e.target.checked })
+                    }
+                    className="rounded"
+                  />
+                  <span className="text-sm">Has a loan being repaid</span>
+                </label>
+                {row.hasLoan && (
+                  <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+                    <Field>
+                      <FieldLabel>Loan Amount (₹)</FieldLabel>
+                      <Input
+                        type="number"
+                        min="1"
+                        step="0.01"
+                        value={row.loanPrincipal}
+                        onChange={(e) =>
+                          updateRow(index, { loanPrincipal: e.target.value })
+                        }
+                        required
+                      />
+                    </Field>
+                    <Field>
+                      <FieldLabel>Outstanding (₹)</FieldLabel>
+                      <Input
+                        type="number"
+                        min="1"
+                        step="0.01"
+                        value={row.loanRemaining}
+                        onChange={(e) =>
+                          updateRow(index, { loanRemaining: e.target.value })
+                        }
+                        required
+                      />
+                    </Field>
+                    <Field>
+                      <FieldLabel>Weeks Repaid</FieldLabel>
+                      <Input
+                        type="number"
+                        min="0"
+                        max={formData.loanWeeks - 1}
+                        value={row.loanCurrentWeek}
+                        onChange={(e) =>
+                          updateRow(index, {
+                            loanCurrentWeek: parseInt(e.target.value) || 0,
+                          })
+                        }
+                      />
+                    </Field>
+                    <Field>
+                      <FieldLabel>Disbursed On</FieldLabel>
+                      <Input
+                        type="date"
+                        value={row.loanDisbursedAt}
+                        onChange={(e) =>
+                          updateRow(index, { loanDisbursedAt: e.target.value })
+                        }
+                        required
+                      />
+                    </Field>
+                  </div>
+                )}
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setRows([...rows, emptyRow(formData.cutoverDate)])}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Member
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>3. Review and Import</CardTitle>
+            <CardDescription>
+              Check these totals against the register before importing. They
+              are posted as opening balances and cannot be edited afterwards.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-4 sm:p-6 space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 text-sm">
+              <div>
+                <p className="text-muted-foreground">Members</p>
+                <p className="font-medium">{rows.length}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Group Fund</p>
+                <p className="font-medium">
+                  {formatMoney(rupeesToPaise(formData.fundBalance))}
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Member Savings</p>
+                <p className="font-medium">{formatMoney(totalSavings)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Loans Outstanding</p>
+                <p className="font-medium">{formatMoney(totalOutstanding)}</p>
+              </div>
+            </div>
+            <div className="flex gap-4">
+              <Button type="submit" className="flex-1" disabled={submitting}>
+                {submitting ? (
+                  <>
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                    Importing...
+                  </>
+                ) : (
+                  "Import Group"
+                )}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => router.push("/dashbaord/groups")}
+                disabled={submitting}>
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </form>
+    </div>
+  );
+}
@@ -21,6 +21,8 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { ArrowLeft, DollarSign, Percent, Calendar } from "lucide-react";
 import Link from "next/link";
 import { useAuth } from "@/hooks/use-auth";
+import { toPaise } from "@/lib/money";
+import type { InterestMethod, RatePeriod } from "@/lib/utils";
 
 export default function NewGroupPage() {
   const router = useRouter();
@@ -29,6 +31,8 @@ export default function NewGroupPage() {
     name: "",
     weeklyAmount: "", // Optional - can be empty
     interestRate: 0.0,
+    interestMethod: "FLAT" as InterestMethod,
+    interestRatePeriod: "WEEKLY" as RatePeriod,
     loanWeeks: 10,
   });
   const [error, setError] = useState("");
@@ -49,9 +53,11 @@ export default function NewGroupPage() {
           name: formData.name,
           weeklyAmount:
             formData.weeklyAmount && formData.weeklyAmount !== ""
-              ? parseFloat(formData.weeklyAmount)
+              ? toPaise(parseFloat(formData.weeklyAmount))
               : undefined,
-          interestRate: 0.0, // No interest
+          interestRate: formData.interestRate,
+          interestMethod: formData.interestMethod,
+          interestRatePeriod: formData.interestRatePeriod,
           loanWeeks: formData.loanWeeks,
         }),
       });
@@ -114,7 +120,7 @@ export default function NewGroupPage() {
           <CardDescription>
             Configure the group parameters. Members can join at any week and invest weekly. 
             New members joining mid-cycle need to pay backdated weekly payments. 
-            Loans are given from the pool and repaid within 10 weeks (principal only). 
+            Loans are given from the pool and repaid within the loan weeks, with interest if a rate is set. 
             When loans are completed, the collected amount is distributed as savings to all members.
           </CardDescription>
         </CardHeader>
@@ -202,6 +208,61 @@ export default function NewGroupPage() {
                 </FieldDescription>
               </Field>
 
+              <Field>
+                <FieldLabel htmlFor="interestRate">
+                  <Percent className="mr-2 h-4 w-4 inline" />
+                  Interest Rate (%)
+                </FieldLabel>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                  <Input
+                    id="interestRate"
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    value={formData.interestRate}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        interestRate: parseFloat(e.target.value) || 0,
+                      })
+                    }
+                  />
+                  <select
+                    id="interestRatePeriod"
+                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                    value={formData.interestRatePeriod}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        interestRatePeriod: e.target.value as RatePeriod,
+                      })
+                    }>
+                    <option value="WEEKLY">per week</option>
+                    <option value="MONTHLY">per month</option>
+                    <option value="ANNUAL">per year</option>
+                  </select>
+                  <select
+                    id="interestMethod"
+                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                    value={formData.interestMethod}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        interestMethod: e.target.value as InterestMethod,
+                      })
+                    }>
+                    <option value="FLAT">Flat (on original amount)</option>
+                    <option value="DECLINING">Declining balance</option>
+                  </select>
+                </div>
+                <FieldDescription>
+                  Charged on every loan from this group. Leave at 0 for
+                  interest-free loans. Existing loans keep the terms they were
+                  disbursed on.
+                </FieldDescription>
+              </Field>
+
               <div className="p-4 bg-muted rounded-lg">
                 <p className="text-sm font-medium mb-2">Group Information:</p>
                 <p className="text-xs text-muted-foreground">
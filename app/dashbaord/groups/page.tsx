@@ -19,14 +19,23 @@ import {
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/use-auth";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Users, Plus, ArrowRight } from "lucide-react";
+import { Users, Plus, ArrowRight, Upload } from "lucide-react";
 import Link from "next/link";
+import { formatMoney } from "@/lib/money";
+import {
+  describeInterestTerms,
+  interestTermsOf,
+  type InterestMethod,
+  type RatePeriod,
+} from "@/lib/utils";
 
 interface Group {
   id: string;
   name: string;
   weeklyAmount: number;
   interestRate: number;
+  interestMethod: InterestMethod;
+  interestRatePeriod: RatePeriod;
   loanWeeks: number;
   isActive: boolean;
   createdAt: string;
@@ -104,12 +113,20 @@ export default function GroupsPage() {
             Manage rotating savings and credit association groups
           </p>
         </div>
-        <Button asChild className="w-full sm:w-auto">
-          <Link href="/dashbaord/groups/new">
-            <Plus className="mr-2 h-4 w-4" />
-            Create Group
-          </Link>
-        </Button>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Button variant="outline" asChild className="w-full sm:w-auto">
+            <Link href="/dashbaord/groups/import">
+              <Upload className="mr-2 h-4 w-4" />
+              Import from Register
+            </Link>
+          </Button>
+          <Button asChild className="w-full sm:w-auto">
+            <Link href="/dashbaord/groups/new">
+              <Plus className="mr-2 h-4 w-4" />
+              Create Group
+            </Link>
+          </Button>
+        </div>
       </div>
 
       <Card>
@@ -117,7 +134,7 @@ export default function GroupsPage() {
           <CardTitle>Groups List</CardTitle>
           <CardDescription>
             All groups in the system. Members can join at any week and invest weekly. 
-            New members need to pay backdated payments. Loans are repaid within 10 weeks (principal only).
+            New members need to pay backdated payments. Loans are repaid within each group&apos;s loan weeks at its interest rate.
             time with different joining weeks. Pool amount is calculated based
             on active members each week. Admin can also join groups as members.
           </CardDescription>
@@ -131,6 +148,7 @@ export default function GroupsPage() {
                   <TableHead>Active Members</TableHead>
                   <TableHead>Weekly Amount</TableHead>
                   <TableHead>Loan Weeks</TableHead>
+                  <TableHead>Interest</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
@@ -160,8 +178,11 @@ export default function GroupsPage() {
                             {activeMembers}
                           </div>
                         </TableCell>
-                        <TableCell>₹{group.weeklyAmount.toFixed(2)}</TableCell>
+                        <TableCell>{formatMoney(group.weeklyAmount)}</TableCell>
                         <TableCell>{group.loanWeeks} weeks</TableCell>
+                        <TableCell>
+                          {describeInterestTerms(interestTermsOf(group))}
+                        </TableCell>
                         <TableCell>
                           <span
                             className={`px-2 py-1 rounded text-xs ${
@@ -10,9 +10,14 @@ export default function DashboardLayout({
   return (
     <SidebarProvider>
       <div className="flex w-full min-h-screen">
-        <AppSidebar />
+        {/* Printed pages (e.g. payoff quotes) leave out the navigation */}
+        <div className="contents print:hidden">
+          <AppSidebar />
+        </div>
         <main className="flex-1 flex flex-col">
-          <PageHeader />
+          <div className="contents print:hidden">
+            <PageHeader />
+          </div>
           <div className="flex-1 p-4">{children}</div>
         </main>
       </div>
@@ -1,7 +1,7 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { useParams } from "next/navigation";
+import { useParams, useRouter } from "next/navigation";
 import {
   Card,
   CardContent,
@@ -27,17 +27,50 @@ import {
 } from "@/components/ui/field";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import Link from "next/link";
-import { ArrowLeft, Calendar, AlertTriangle, CheckCircle2 } from "lucide-react";
+import {
+  ArrowLeft,
+  Calendar,
+  AlertTriangle,
+  CheckCircle2,
+  Undo2,
+  CalendarClock,
+  ArrowUpCircle,
+  FileText,
+} from "lucide-react";
 import { format } from "date-fns";
 import { useAuth } from "@/hooks/use-auth";
+import { formatMoney, fromPaise, sumMoney, toPaise } from "@/lib/money";
+import {
+  allocateRepayment,
+  calculateLateInstallments,
+  calculateRepaymentDues,
+  describeInterestTerms,
+  describePenaltyRules,
+  installmentDueDate,
+  interestTermsOf,
+  loanSchedule,
+  meetingPausesOf,
+  NO_PENALTY,
+  penaltyRulesOf,
+  type InterestMethod,
+  type MeetingPause,
+  type PaymentScheduleRow,
+  type PenaltyType,
+  type RatePeriod,
+} from "@/lib/utils";
 
 interface LoanTransaction {
   id: string;
   date: string;
   amount: number;
+  interest: number;
+  penalty: number;
   remaining: number;
   week: number;
   paymentMethod?: string;
+  type: "REPAYMENT" | "REVERSAL";
+  reversedAt?: string | null;
+  reversalReason?: string | null;
 }
 
 interface Loan {
@@ -51,6 +84,15 @@ interface Loan {
     startDate: string;
     totalMembers: number;
     weeklyAmount: number;
+    group?: {
+      penaltyType: PenaltyType;
+      penaltyAmount: number;
+      penaltyRate: number;
+      penaltyGraceDays: number;
+      meetingDay?: number | null;
+      loanWeeks?: number;
+      holidays?: MeetingPause[];
+    } | null;
   } | null;
   sequence?: {
     week: number;
@@ -64,9 +106,16 @@ interface Loan {
   status: string;
   disbursementMethod?: string;
   totalPrincipalPaid: number;
-  latePaymentPenalty: number;
+  totalInterestPaid: number;
+  interestMethod: InterestMethod;
+  interestRate: number;
+  interestRatePeriod: RatePeriod;
+  totalPenaltyPaid: number;
   disbursedAt?: string | null;
   completedAt?: string | null;
+  isOpeningBalance?: boolean;
+  openingWeek: number;
+  schedule?: PaymentScheduleRow[] | null;
   guarantor1?: {
     name: string;
     userId: string;
@@ -75,10 +124,115 @@ interface Loan {
     name: string;
     userId: string;
   } | null;
+  guarantor1Consent: GuarantorConsent;
+  guarantor1RespondedAt?: string | null;
+  guarantor2Consent: GuarantorConsent;
+  guarantor2RespondedAt?: string | null;
+  writtenOffAt?: string | null;
+  writtenOffAmount: number;
+  writeOffReason?: string | null;
+  totalRecovered: number;
   transactions: LoanTransaction[];
+  restructures?: LoanRestructure[];
+  recoveries?: LoanRecovery[];
+  topUpOfId?: string | null;
+  topUpAmount: number;
+  topUpChain?: TopUpChainLoan[];
+  installments?: LoanInstallment[];
+  moratoriums?: LoanMoratorium[];
   interestDistributions?: InterestDistribution[];
 }
 
+type GuarantorConsent = "PENDING" | "ACCEPTED" | "DECLINED";
+
+const consentLabels: Record<GuarantorConsent, string> = {
+  PENDING: "awaiting consent",
+  ACCEPTED: "accepted",
+  DECLINED: "declined",
+};
+
+const consentColors: Record<GuarantorConsent, string> = {
+  PENDING: "text-yellow-600",
+  ACCEPTED: "text-green-600",
+  DECLINED: "text-red-600",
+};
+
+interface LoanRestructure {
+  id: string;
+  date: string;
+  reason: string;
+  weeksBefore: number;
+  weeksAfter: number;
+  remaining: number;
+  installmentsKept: number;
+  scheduleBefore: PaymentScheduleRow[];
+  scheduleAfter: PaymentScheduleRow[];
+}
+
+interface LoanRecovery {
+  id: string;
+  date: string;
+  amount: number;
+  paymentMethod?: string | null;
+  note?: string | null;
+}
+
+type InstallmentStatus =
+  | "PENDING"
+  | "PARTIAL"
+  | "PAID"
+  | "PAID_LATE"
+  | "CARRIED_OVER";
+
+interface LoanInstallment {
+  id: string;
+  week: number;
+  dueDate: string;
+  principalDue: number;
+  interestDue: number;
+  principalPaid: number;
+  interestPaid: number;
+  paidAt?: string | null;
+  status: InstallmentStatus;
+}
+
+const installmentStatusLabels: Record<InstallmentStatus, string> = {
+  PENDING: "Due",
+  PARTIAL: "Part paid",
+  PAID: "Paid",
+  PAID_LATE: "Paid late",
+  CARRIED_OVER: "Carried to top-up",
+};
+
+const installmentStatusColors: Record<InstallmentStatus, string> = {
+  PENDING: "text-muted-foreground",
+  PARTIAL: "text-blue-600",
+  PAID: "text-green-600",
+  PAID_LATE: "text-yellow-600",
+  CARRIED_OVER: "text-muted-foreground",
+};
+
+// Weeks the loan's repayments are paused
+interface LoanMoratorium {
+  id: string;
+  startDate: string;
+  endDate: string;
+  reason: string;
+  createdAt: string;
+}
+
+// One loan in a chain of top-ups
+interface TopUpChainLoan {
+  id: string;
+  principal: number;
+  remaining: number;
+  topUpAmount: number;
+  status: string;
+  disbursedAt?: string | null;
+  completedAt?: string | null;
+  topUpOfId?: string | null;
+}
+
 interface InterestDistribution {
   id: string;
   amount: number;
@@ -94,70 +248,109 @@ interface InterestDistribution {
 
 export default function LoanDetailPage() {
   const params = useParams();
+  const router = useRouter();
   const { user } = useAuth();
   const [loan, setLoan] = useState<Loan | null>(null);
   const [loading, setLoading] = useState(true);
   const [repaying, setRepaying] = useState(false);
+  const [reversingId, setReversingId] = useState<string | null>(null);
   const [showPaymentForm, setShowPaymentForm] = useState(false);
   const [showSchedule, setShowSchedule] = useState(false);
   const [paymentForm, setPaymentForm] = useState({
+    amount: "", // Rupees; blank pays what is due now
     paymentDate: new Date().toISOString().split("T")[0],
     paymentMethod: "" as "CASH" | "UPI" | "BANK_TRANSFER" | "",
   });
+  const [showRestructureForm, setShowRestructureForm] = useState(false);
+  const [restructuring, setRestructuring] = useState(false);
+  const [restructureForm, setRestructureForm] = useState({
+    change: "WEEKS" as "WEEKS" | "INSTALLMENT",
+    weeks: "",
+    installmentAmount: "", // Rupees
+    startWeek: "",
+    reason: "",
+  });
+  const [openRestructureId, setOpenRestructureId] = useState<string | null>(
+    null
+  );
+  const [showTopUpForm, setShowTopUpForm] = useState(false);
+  const [toppingUp, setToppingUp] = useState(false);
+  const [topUpForm, setTopUpForm] = useState({
+    amount: "", // Rupees paid out on top of the balance
+    weeks: "",
+    disbursementMethod: "" as "CASH" | "UPI" | "BANK_TRANSFER" | "",
+    reason: "",
+  });
+  const [recording, setRecording] = useState(false);
+  const [pausing, setPausing] = useState(false);
+  const [moratoriumForm, setMoratoriumForm] = useState({
+    startDate: "",
+    endDate: "",
+    reason: "",
+  });
+  const [recoveryForm, setRecoveryForm] = useState({
+    amount: "", // Rupees
+    date: new Date().toISOString().split("T")[0],
+    paymentMethod: "" as "CASH" | "UPI" | "BANK_TRANSFER" | "",
+    note: "",
+  });
 
-  // Calculate weekly payment amount based on loan (no interest, no penalty)
-  const calculateWeeklyPayment = (loan: Loan) => {
-    if (!loan) return { principal: 0, interest: 0, total: 0 };
-    const weeklyPrincipal = loan.principal / loan.weeks;
-    return {
-      principal: weeklyPrincipal,
-      interest: 0, // No interest
-      total: weeklyPrincipal, // Only principal
-    };
-  };
+  const activeRepayments = (loan: Loan) =>
+    loan.transactions
+      .filter((t) => t.type === "REPAYMENT" && !t.reversedAt)
+      .map((t) => ({ week: t.week, date: t.date }));
+
+  // Restructured loans keep the schedule they were given then
+  const paymentSchedule = loan ? loanSchedule(loan) : [];
 
-  // Calculate missed weeks (no penalties)
-  const calculateMissedWeeks = (loan: Loan) => {
-    if (!loan || !loan.disbursedAt)
-      return {
-        missedWeeks: 0,
-        expectedWeek: loan?.currentWeek || 0,
-        isLate: false,
-      };
-
-    const disbursedDate = new Date(loan.disbursedAt);
-    const today = new Date();
-    const weeksSinceDisbursal = Math.floor(
-      (today.getTime() - disbursedDate.getTime()) / (7 * 24 * 60 * 60 * 1000)
+  const penaltyRules = (loan: Loan) =>
+    loan.cycle?.group ? penaltyRulesOf(loan.cycle.group) : NO_PENALTY;
+
+  // What the loan owes on a date, worked out the same way as the repay API
+  const calculateDues = (loan: Loan, asOf: Date) =>
+    calculateRepaymentDues(
+      {
+        ...loan,
+        disbursedAt: loan.disbursedAt ?? null,
+        meetingDay: loan.cycle?.group?.meetingDay,
+        pauses: meetingPausesOf(loan),
+      },
+      paymentSchedule,
+      activeRepayments(loan),
+      penaltyRules(loan),
+      asOf
     );
-    const expectedWeek = weeksSinceDisbursal + 1;
-    const missedWeeks = Math.max(0, expectedWeek - loan.currentWeek - 1);
-
-    // No penalties
-    return {
-      missedWeeks,
-      expectedWeek,
-      isLate: false, // No late payment concept
-      accumulatedInterest: 0,
-      accumulatedPenalty: 0,
-      totalPenalty: 0,
-    };
-  };
 
-  const weeklyPayment = loan
-    ? calculateWeeklyPayment(loan)
-    : { principal: 0, interest: 0, total: 0 };
-
-  const missedWeeksInfo = loan
-    ? calculateMissedWeeks(loan)
-    : {
-        missedWeeks: 0,
-        expectedWeek: 0,
-        isLate: false,
-        accumulatedInterest: 0,
-        accumulatedPenalty: 0,
-        totalPenalty: 0,
-      };
+  // Installments fined for being late, as of today
+  const lateInstallments = loan
+    ? calculateLateInstallments(
+        paymentSchedule,
+        {
+          disbursedAt: loan.disbursedAt ?? null,
+          openingWeek: loan.openingWeek,
+          meetingDay: loan.cycle?.group?.meetingDay,
+          pauses: meetingPausesOf(loan),
+        },
+        activeRepayments(loan),
+        penaltyRules(loan),
+        new Date()
+      )
+    : [];
+  const finesAccrued = sumMoney(lateInstallments.map((l) => l.penalty));
+
+  const todayDues = loan ? calculateDues(loan, new Date()) : null;
+
+  // Dues on the chosen payment date and how the amount entered is applied
+  const paymentDues = loan
+    ? calculateDues(loan, new Date(paymentForm.paymentDate))
+    : null;
+  const paymentAmount = paymentForm.amount
+    ? toPaise(parseFloat(paymentForm.amount) || 0)
+    : paymentDues?.dueNow ?? 0;
+  const paymentAllocation = paymentDues
+    ? allocateRepayment(paymentAmount, paymentDues)
+    : null;
+
   const [error, setError] = useState("");
   const [success, setSuccess] = useState("");
 
@@ -193,6 +386,9 @@ export default function LoanDetailPage() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           loanId: loan.id,
+          amount: paymentForm.amount
+            ? toPaise(parseFloat(paymentForm.amount))
+            : undefined,
           paymentDate: paymentForm.paymentDate,
           paymentMethod: paymentForm.paymentMethod || undefined,
         }),
@@ -200,13 +396,14 @@ export default function LoanDetailPage() {
 
       if (response.ok) {
         const data = await response.json();
-        const successMessage = `Payment of ₹${data.payment.total.toFixed(
-          2
+        const successMessage = `Payment of ${formatMoney(
+          data.payment.total
         )} recorded successfully!`;
 
         setSuccess(successMessage);
         setShowPaymentForm(false);
         setPaymentForm({
+          amount: "",
           paymentDate: new Date().toISOString().split("T")[0],
           paymentMethod: "",
         });
@@ -256,24 +453,342 @@ export default function LoanDetailPage() {
     }
   };
 
-  // Simple payment schedule - no interest, only principal
-  const paymentSchedule = loan
-    ? Array.from({ length: loan.weeks }, (_, i) => {
-        const week = i + 1;
-        const weeklyPrincipal = loan.principal / loan.weeks;
-        const principalRemaining = loan.principal - weeklyPrincipal * i;
-        const principalPayment = weeklyPrincipal;
-        const newBalance = Math.max(0, principalRemaining - principalPayment);
-        return {
-          week,
-          principalRemaining,
-          principalPayment,
-          interestPayment: 0,
-          totalPayment: principalPayment,
-          newBalance,
-        };
-      })
-    : [];
+  // Loans held back for their guarantors are paid out once they all accept;
+  // a top-up pays out only the new cash
+  const handleDisburse = async (fundOverrideReason?: string) => {
+    if (
+      !loan ||
+      (!fundOverrideReason &&
+        !confirm(
+          `Disburse ${formatMoney(
+            loan.topUpOfId ? loan.topUpAmount : loan.principal
+          )} to ${loan.member.name}?`
+        ))
+    ) {
+      return;
+    }
+
+    setError("");
+    setSuccess("");
+    try {
+      const response = await fetch("/api/loans/disburse", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ loanId: loan.id, fundOverrideReason }),
+      });
+
+      if (response.ok) {
+        setSuccess("Loan disbursed");
+        await fetchLoan(loan.id);
+        setTimeout(() => setSuccess(""), 3000);
+      } else {
+        const errorData = await response.json();
+        // The fund cannot cover it: the loan waits on the waitlist unless
+        // the admin pays it out anyway
+        if (errorData.required !== undefined && !fundOverrideReason) {
+          const reason = prompt(
+            `${errorData.error}.\n\nTo disburse it anyway, enter the reason for overriding the fund check:`
+          );
+          if (reason?.trim()) {
+            await handleDisburse(reason.trim());
+            return;
+          }
+        }
+        setError(errorData.error || "Failed to disburse loan");
+      }
+    } catch (error) {
+      console.error("Error disbursing loan:", error);
+      setError("Failed to disburse loan");
+    }
+  };
+
+  const handleWriteOff = async () => {
+    if (!loan) return;
+    const reason = prompt(
+      `Write off ${formatMoney(loan.remaining)} owed by ${
+        loan.member.name
+      }? This cannot be undone. Enter the reason:`
+    );
+    if (reason === null) return;
+    if (!reason.trim()) {
+      setError("A reason is required to write off a loan");
+      return;
+    }
+
+    setError("");
+    setSuccess("");
+    try {
+      const response = await fetch(`/api/loans/${loan.id}/write-off`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason: reason.trim() }),
+      });
+
+      if (response.ok) {
+        setSuccess("Loan written off");
+        await fetchLoan(loan.id);
+        setTimeout(() => setSuccess(""), 3000);
+      } else {
+        const errorData = await response.json();
+        setError(errorData.error || "Failed to write off loan");
+      }
+    } catch (error) {
+      console.error("Error writing off loan:", error);
+      setError("Failed to write off loan");
+    }
+  };
+
+  const handleRecordRecovery = async () => {
+    if (!loan) return;
+
+    setError("");
+    setSuccess("");
+    setRecording(true);
+    try {
+      const response = await fetch(`/api/loans/${loan.id}/recoveries`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          amount: toPaise(parseFloat(recoveryForm.amount)),
+          date: recoveryForm.date,
+          paymentMethod: recoveryForm.paymentMethod || undefined,
+          note: recoveryForm.note || undefined,
+        }),
+      });
+
+      if (response.ok) {
+        setSuccess("Recovery recorded");
+        setRecoveryForm({ ...recoveryForm, amount: "", note: "" });
+        await fetchLoan(loan.id);
+        setTimeout(() => setSuccess(""), 3000);
+      } else {
+        const errorData = await response.json();
+        setError(errorData.error || "Failed to record recovery");
+      }
+    } catch (error) {
+      console.error("Error recording recovery:", error);
+      setError("Failed to record recovery");
+    } finally {
+      setRecording(false);
+    }
+  };
+
+  const handleAddMoratorium = async () => {
+    if (!loan) return;
+
+    setError("");
+    setSuccess("");
+    setPausing(true);
+    try {
+      const response = await fetch(`/api/loans/${loan.id}/moratoriums`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(moratoriumForm),
+      });
+
+      if (response.ok) {
+        setSuccess("Moratorium added - installments moved on");
+        setMoratoriumForm({ startDate: "", endDate: "", reason: "" });
+        await fetchLoan(loan.id);
+        setTimeout(() => setSuccess(""), 3000);
+      } else {
+        const errorData = await response.json();
+        setError(errorData.error || "Failed to add moratorium");
+      }
+    } catch (error) {
+      console.error("Error adding moratorium:", error);
+      setError("Failed to add moratorium");
+    } finally {
+      setPausing(false);
+    }
+  };
+
+  const handleRemoveMoratorium = async (moratorium: LoanMoratorium) => {
+    if (
+      !loan ||
+      !confirm(
+        "Remove this moratorium? Installments move back to their dates and may become overdue."
+      )
+    ) {
+      return;
+    }
+
+    setError("");
+    setSuccess("");
+    try {
+      const response = await fetch(
+        `/api/loans/${loan.id}/moratoriums?moratoriumId=${moratorium.id}`,
+        { method: "DELETE" }
+      );
+
+      if (response.ok) {
+        setSuccess("Moratorium removed");
+        await fetchLoan(loan.id);
+        setTimeout(() => setSuccess(""), 3000);
+      } else {
+        const errorData = await response.json();
+        setError(errorData.error || "Failed to remove moratorium");
+      }
+    } catch (error) {
+      console.error("Error removing moratorium:", error);
+      setError("Failed to remove moratorium");
+    }
+  };
+
+  const handleTopUp = async (fundOverrideReason?: string) => {
+    if (!loan) return;
+
+    setError("");
+    setSuccess("");
+    setToppingUp(true);
+    try {
+      const response = await fetch(`/api/loans/${loan.id}/top-up`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          amount: toPaise(parseFloat(topUpForm.amount)),
+          weeks: topUpForm.weeks ? parseInt(topUpForm.weeks) : undefined,
+          disbursementMethod: topUpForm.disbursementMethod || undefined,
+          reason: topUpForm.reason,
+          fundOverrideReason,
+        }),
+      });
+
+      if (response.ok) {
+        // The balance now lives on the new loan, or will once its
+        // guarantors accept and it is disbursed
+        const data = await response.json();
+        setShowTopUpForm(false);
+        router.push(`/dashbaord/loans/${data.loan.id}`);
+      } else {
+        const errorData = await response.json();
+        if (errorData.required !== undefined && !fundOverrideReason) {
+          const reason = prompt(
+            `${errorData.error}.\n\nTo pay out the top-up anyway, enter the reason for overriding the fund check:`
+          );
+          if (reason?.trim()) {
+            await handleTopUp(reason.trim());
+            return;
+          }
+        }
+        setError(errorData.error || "Failed to top up loan");
+      }
+    } catch (error) {
+      console.error("Error topping up loan:", error);
+      setError("Failed to top up loan");
+    } finally {
+      setToppingUp(false);
+    }
+  };
+
+  const handleRestructure = async () => {
+    if (!loan) return;
+
+    setError("");
+    setSuccess("");
+    setRestructuring(true);
+    try {
+      const response = await fetch(`/api/loans/${loan.id}/restructure`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          weeks:
+            restructureForm.change === "WEEKS" && restructureForm.weeks
+              ? parseInt(restructureForm.weeks)
+              : undefined,
+          installmentAmount:
+            restructureForm.change === "INSTALLMENT" &&
+            restructureForm.installmentAmount
+              ? toPaise(parseFloat(restructureForm.installmentAmount))
+              : undefined,
+          startWeek: restructureForm.startWeek
+            ? parseInt(restructureForm.startWeek)
+            : undefined,
+          reason: restructureForm.reason,
+        }),
+      });
+
+      if (response.ok) {
+        setSuccess("Loan restructured");
+        setShowRestructureForm(false);
+        setRestructureForm({
+          change: "WEEKS",
+          weeks: "",
+          installmentAmount: "",
+          startWeek: "",
+          reason: "",
+        });
+        await fetchLoan(loan.id);
+        setTimeout(() => setSuccess(""), 3000);
+      } else {
+        const errorData = await response.json();
+        setError(errorData.error || "Failed to restructure loan");
+      }
+    } catch (error) {
+      console.error("Error restructuring loan:", error);
+      setError("Failed to restructure loan");
+    } finally {
+      setRestructuring(false);
+    }
+  };
+
+  const handleReverse = async (transaction: LoanTransaction) => {
+    if (!loan) return;
+
+    const reason = prompt(
+      `Reverse the ${format(
+        new Date(transaction.date),
+        "dd/MM/yyyy"
+      )} repayment of ${formatMoney(
+        transaction.amount + transaction.interest + transaction.penalty
+      )}? Enter a reason:`
+    );
+    if (reason === null) return;
+    if (!reason.trim()) {
+      setError("A reason is required to reverse a repayment");
+      return;
+    }
+
+    setError("");
+    setSuccess("");
+    setReversingId(transaction.id);
+    try {
+      const response = await fetch("/api/loans/reverse", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          transactionId: transaction.id,
+          reason: reason.trim(),
+        }),
+      });
+
+      if (response.ok) {
+        setSuccess("Repayment reversed");
+        await fetchLoan(loan.id);
+        setTimeout(() => setSuccess(""), 3000);
+      } else {
+        const errorData = await response.json();
+        setError(errorData.error || "Failed to reverse repayment");
+      }
+    } catch (error) {
+      console.error("Error reversing repayment:", error);
+      setError("Failed to reverse repayment");
+    } finally {
+      setReversingId(null);
+    }
+  };
+
+  // Only the latest repayment still in effect can be reversed
+  const reversibleTransactionId = loan?.transactions
+    .filter((t) => t.type === "REPAYMENT" && !t.reversedAt)
+    .sort(
+      (a, b) =>
+        b.week - a.week ||
+        new Date(b.date).getTime() - new Date(a.date).getTime()
+    )[0]?.id;
+
+  // An imported loan's weeks before the cut-over were repaid on paper
+  const weeksPaidBeforeImport = loan?.openingWeek ?? 0;
 
   if (loading) {
     return <div>Loading...</div>;
@@ -300,8 +815,30 @@ export default function LoanDetailPage() {
             {loan.member.name} - {loan.member.userId}
           </p>
         </div>
+        {(loan.status === "ACTIVE" || loan.status === "DEFAULTED") &&
+          loan.remaining > 0 && (
+            <Button variant="outline" asChild className="w-full sm:w-auto">
+              <Link href={`/dashbaord/loans/${loan.id}/payoff`}>
+                <FileText className="mr-2 h-4 w-4" />
+                Payoff Quote
+              </Link>
+            </Button>
+          )}
       </div>
 
+      {!showPaymentForm && error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      {!showPaymentForm && success && (
+        <Alert className="border-green-200 bg-green-50 dark:bg-green-900/20">
+          <AlertDescription className="text-green-800 dark:text-green-200">
+            {success}
+          </AlertDescription>
+        </Alert>
+      )}
+
       <div className="grid gap-4 sm:gap-6 grid-cols-1 lg:grid-cols-2">
         <Card>
           <CardHeader>
@@ -310,15 +847,29 @@ export default function LoanDetailPage() {
           <CardContent className="space-y-2">
             <div className="flex justify-between">
               <span className="text-muted-foreground">Principal:</span>
-              <span className="font-medium">₹{loan.principal.toFixed(2)}</span>
+              <span className="font-medium">{formatMoney(loan.principal)}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-muted-foreground">Remaining:</span>
-              <span className="font-medium">₹{loan.remaining.toFixed(2)}</span>
+              <span className="font-medium">{formatMoney(loan.remaining)}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-muted-foreground">Interest Rate:</span>
-              <span className="font-medium">0% (No interest)</span>
+              <span className="font-medium">
+                {describeInterestTerms(interestTermsOf(loan))}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Interest Paid:</span>
+              <span className="font-medium">
+                {formatMoney(loan.totalInterestPaid)}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Late Fines Paid:</span>
+              <span className="font-medium">
+                {formatMoney(loan.totalPenaltyPaid)}
+              </span>
             </div>
             <div className="flex justify-between">
               <span className="text-muted-foreground">Progress:</span>
@@ -326,16 +877,41 @@ export default function LoanDetailPage() {
                 {loan.currentWeek}/{loan.weeks} weeks
               </span>
             </div>
-            {loan.status === "ACTIVE" && loan.remaining > 0 && (
-              <div className="flex justify-between border-t pt-2 mt-2">
-                <span className="text-muted-foreground font-semibold">
-                  Weekly Payment:
-                </span>
-                <span className="font-bold text-lg text-blue-600">
-                  ₹{weeklyPayment.total.toFixed(2)}
+            {loan.isOpeningBalance && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Opening Balance:</span>
+                <span className="font-medium">
+                  Imported from paper register ({weeksPaidBeforeImport} weeks
+                  repaid before)
                 </span>
               </div>
             )}
+            {todayDues && loan.status === "ACTIVE" && loan.remaining > 0 && (
+              <>
+                <div className="flex justify-between border-t pt-2 mt-2">
+                  <span className="text-muted-foreground font-semibold">
+                    Due Now:
+                  </span>
+                  <span className="font-bold text-lg text-blue-600">
+                    {formatMoney(todayDues.dueNow)}
+                  </span>
+                </div>
+                {todayDues.overdue > 0 && (
+                  <div className="flex justify-between text-red-600">
+                    <span>Overdue Principal:</span>
+                    <span className="font-medium">
+                      {formatMoney(todayDues.overdue)}
+                    </span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Payoff Today:</span>
+                  <span className="font-medium">
+                    {formatMoney(todayDues.payoff)}
+                  </span>
+                </div>
+              </>
+            )}
             <div className="flex justify-between">
               <span className="text-muted-foreground">Status:</span>
               <span
@@ -388,7 +964,7 @@ export default function LoanDetailPage() {
                 Total Principal Paid:
               </span>
               <span className="font-medium">
-                ₹{loan.totalPrincipalPaid.toFixed(2)}
+                {formatMoney(loan.totalPrincipalPaid)}
               </span>
             </div>
             <div className="flex justify-between">
@@ -396,19 +972,54 @@ export default function LoanDetailPage() {
                 Remaining Balance:
               </span>
               <span className="font-medium">
-                ₹{loan.remaining.toFixed(2)}
+                {formatMoney(loan.remaining)}
               </span>
             </div>
-            {loan.guarantor1 && (
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Guarantor 1:</span>
-                <span className="font-medium">{loan.guarantor1.name}</span>
-              </div>
+            {[
+              {
+                guarantor: loan.guarantor1,
+                consent: loan.guarantor1Consent,
+                respondedAt: loan.guarantor1RespondedAt,
+              },
+              {
+                guarantor: loan.guarantor2,
+                consent: loan.guarantor2Consent,
+                respondedAt: loan.guarantor2RespondedAt,
+              },
+            ].map(
+              ({ guarantor, consent, respondedAt }, index) =>
+                guarantor && (
+                  <div key={index} className="flex justify-between">
+                    <span className="text-muted-foreground">
+                      Guarantor {index + 1}:
+                    </span>
+                    <span className="font-medium text-right">
+                      {guarantor.name}
+                      <span
+                        className={`block text-xs ${consentColors[consent]}`}>
+                        {consentLabels[consent]}
+                        {respondedAt &&
+                          ` ${format(new Date(respondedAt), "dd/MM/yyyy")}`}
+                      </span>
+                    </span>
+                  </div>
+                )
             )}
-            {loan.guarantor2 && (
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Guarantor 2:</span>
-                <span className="font-medium">{loan.guarantor2.name}</span>
+            {user?.role === "ADMIN" && loan.status === "PENDING" && (
+              <div className="pt-4 border-t space-y-2">
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+                {success && (
+                  <Alert>
+                    <AlertDescription>{success}</AlertDescription>
+                  </Alert>
+                )}
+                <Button className="w-full" onClick={() => handleDisburse()}>
+                  Disburse Loan
+                </Button>
               </div>
             )}
             {loan.status === "ACTIVE" && loan.remaining > 0 && (
@@ -417,7 +1028,7 @@ export default function LoanDetailPage() {
                   <Button
                     className="w-full"
                     onClick={() => setShowPaymentForm(true)}>
-                    Record Weekly Payment
+                    Record Payment
                   </Button>
                 ) : (
                   <Card className="border-2">
@@ -438,32 +1049,125 @@ export default function LoanDetailPage() {
                         </Alert>
                       )}
 
-                      <div className="p-3 rounded-lg border bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800">
-                        <div className="text-sm font-semibold mb-2 text-blue-900 dark:text-blue-100">
-                          Payment Breakdown
-                        </div>
-                        <div className="space-y-1 text-sm">
-                          <div className="flex justify-between">
-                            <span className="text-muted-foreground">
-                              Principal:
-                            </span>
-                            <span className="font-medium">
-                              ₹{weeklyPayment.principal.toFixed(2)}
-                            </span>
-                          </div>
-                          <div className="flex justify-between border-t pt-1 mt-1">
-                            <span className="font-semibold">
-                              Total Payment:
-                            </span>
-                            <span className="font-bold text-blue-600">
-                              ₹{weeklyPayment.total.toFixed(2)}
-                            </span>
-                          </div>
-                        </div>
-                        <FieldDescription className="mt-2">
-                          Only principal payment (no interest, no penalty)
+                      <Field>
+                        <FieldLabel htmlFor="amount">Amount (₹)</FieldLabel>
+                        <Input
+                          id="amount"
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          placeholder={
+                            paymentDues
+                              ? fromPaise(paymentDues.dueNow).toString()
+                              : ""
+                          }
+                          value={paymentForm.amount}
+                          onChange={(e) =>
+                            setPaymentForm({
+                              ...paymentForm,
+                              amount: e.target.value,
+                            })
+                          }
+                        />
+                        {paymentDues && (
+                          <div className="flex flex-wrap gap-2">
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              onClick={() =>
+                                setPaymentForm({
+                                  ...paymentForm,
+                                  amount: fromPaise(
+                                    paymentDues.dueNow
+                                  ).toString(),
+                                })
+                              }>
+                              Due now {formatMoney(paymentDues.dueNow)}
+                            </Button>
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              onClick={() =>
+                                setPaymentForm({
+                                  ...paymentForm,
+                                  amount: fromPaise(
+                                    paymentDues.payoff
+                                  ).toString(),
+                                })
+                              }>
+                              Pay off {formatMoney(paymentDues.payoff)}
+                            </Button>
+                          </div>
+                        )}
+                        <FieldDescription>
+                          Any amount - leave blank to pay what is due now
                         </FieldDescription>
-                      </div>
+                      </Field>
+                      {paymentAllocation && (
+                        <div className="p-3 rounded-lg border bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800">
+                          <div className="text-sm font-semibold mb-2 text-blue-900 dark:text-blue-100">
+                            Payment Breakdown
+                          </div>
+                          <div className="space-y-1 text-sm">
+                            {[
+                              {
+                                label: "Late Fine",
+                                value: paymentAllocation.penalty,
+                              },
+                              {
+                                label: "Interest",
+                                value: paymentAllocation.interest,
+                              },
+                              {
+                                label: "Overdue Installments",
+                                value: paymentAllocation.overdue,
+                              },
+                              {
+                                label: "Current Installment",
+                                value: paymentAllocation.current,
+                              },
+                              {
+                                label: "Prepayment",
+                                value: paymentAllocation.prepaid,
+                              },
+                            ]
+                              .filter((row) => row.value > 0)
+                              .map((row) => (
+                                <div
+                                  key={row.label}
+                                  className="flex justify-between">
+                                  <span className="text-muted-foreground">
+                                    {row.label}:
+                                  </span>
+                                  <span className="font-medium">
+                                    {formatMoney(row.value)}
+                                  </span>
+                                </div>
+                              ))}
+                            <div className="flex justify-between border-t pt-1 mt-1">
+                              <span className="font-semibold">
+                                Total Payment:
+                              </span>
+                              <span className="font-bold text-blue-600">
+                                {formatMoney(paymentAmount)}
+                              </span>
+                            </div>
+                            {paymentAllocation.excess > 0 && (
+                              <div className="text-red-600">
+                                {formatMoney(paymentAllocation.excess)} more
+                                than is needed to close the loan
+                              </div>
+                            )}
+                          </div>
+                          <FieldDescription className="mt-2">
+                            Applied to late fines first, then interest, overdue
+                            installments and the current installment; anything
+                            more prepays the loan
+                          </FieldDescription>
+                        </div>
+                      )}
                       <Field>
                         <FieldLabel htmlFor="paymentDate">
                           <Calendar className="mr-2 h-4 w-4 inline" />
@@ -527,6 +1231,263 @@ export default function LoanDetailPage() {
                 )}
               </div>
             )}
+            {user?.role === "ADMIN" &&
+              loan.status === "ACTIVE" &&
+              loan.remaining > 0 && (
+                <div className="pt-4 border-t space-y-3">
+                  {!showRestructureForm ? (
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      onClick={() => setShowRestructureForm(true)}>
+                      <CalendarClock className="mr-2 h-4 w-4" />
+                      Restructure Loan
+                    </Button>
+                  ) : (
+                    <FieldGroup>
+                      <Field>
+                        <FieldLabel htmlFor="restructureChange">
+                          Reschedule By
+                        </FieldLabel>
+                        <select
+                          id="restructureChange"
+                          className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                          value={restructureForm.change}
+                          onChange={(e) =>
+                            setRestructureForm({
+                              ...restructureForm,
+                              change: e.target.value as "WEEKS" | "INSTALLMENT",
+                            })
+                          }>
+                          <option value="WEEKS">Number of weeks</option>
+                          <option value="INSTALLMENT">Installment size</option>
+                        </select>
+                      </Field>
+                      {restructureForm.change === "WEEKS" ? (
+                        <Field>
+                          <FieldLabel htmlFor="restructureWeeks">
+                            Total Weeks
+                          </FieldLabel>
+                          <Input
+                            id="restructureWeeks"
+                            type="number"
+                            min={loan.currentWeek + 1}
+                            placeholder={loan.weeks.toString()}
+                            value={restructureForm.weeks}
+                            onChange={(e) =>
+                              setRestructureForm({
+                                ...restructureForm,
+                                weeks: e.target.value,
+                              })
+                            }
+                          />
+                          <FieldDescription>
+                            Including the {loan.currentWeek} installments
+                            already repaid
+                          </FieldDescription>
+                        </Field>
+                      ) : (
+                        <Field>
+                          <FieldLabel htmlFor="restructureInstallment">
+                            Principal per Installment (₹)
+                          </FieldLabel>
+                          <Input
+                            id="restructureInstallment"
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={restructureForm.installmentAmount}
+                            onChange={(e) =>
+                              setRestructureForm({
+                                ...restructureForm,
+                                installmentAmount: e.target.value,
+                              })
+                            }
+                          />
+                        </Field>
+                      )}
+                      <Field>
+                        <FieldLabel htmlFor="restructureStartWeek">
+                          First Installment Due in Week
+                        </FieldLabel>
+                        <Input
+                          id="restructureStartWeek"
+                          type="number"
+                          min="1"
+                          placeholder={(
+                            paymentSchedule[loan.currentWeek]?.dueWeek ?? ""
+                          ).toString()}
+                          value={restructureForm.startWeek}
+                          onChange={(e) =>
+                            setRestructureForm({
+                              ...restructureForm,
+                              startWeek: e.target.value,
+                            })
+                          }
+                        />
+                        <FieldDescription>
+                          Weeks after disbursal - leave blank to keep the
+                          next due date
+                        </FieldDescription>
+                      </Field>
+                      <Field>
+                        <FieldLabel htmlFor="restructureReason">
+                          Approval Reason
+                        </FieldLabel>
+                        <Input
+                          id="restructureReason"
+                          placeholder="e.g. Group agreed to extend during illness"
+                          value={restructureForm.reason}
+                          onChange={(e) =>
+                            setRestructureForm({
+                              ...restructureForm,
+                              reason: e.target.value,
+                            })
+                          }
+                        />
+                      </Field>
+                      <div className="flex flex-col sm:flex-row gap-2">
+                        <Button
+                          className="flex-1"
+                          onClick={handleRestructure}
+                          disabled={
+                            restructuring || !restructureForm.reason.trim()
+                          }>
+                          {restructuring ? "Saving..." : "Restructure"}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          onClick={() => setShowRestructureForm(false)}
+                          disabled={restructuring}>
+                          Cancel
+                        </Button>
+                      </div>
+                    </FieldGroup>
+                  )}
+                </div>
+              )}
+            {user?.role === "ADMIN" &&
+              loan.status === "ACTIVE" &&
+              loan.remaining > 0 && (
+                <div className="pt-4 border-t space-y-3">
+                  {!showTopUpForm ? (
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      onClick={() => setShowTopUpForm(true)}>
+                      <ArrowUpCircle className="mr-2 h-4 w-4" />
+                      Top Up Loan
+                    </Button>
+                  ) : (
+                    <FieldGroup>
+                      <Field>
+                        <FieldLabel htmlFor="topUpAmount">
+                          Top-up Amount (₹)
+                        </FieldLabel>
+                        <Input
+                          id="topUpAmount"
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={topUpForm.amount}
+                          onChange={(e) =>
+                            setTopUpForm({
+                              ...topUpForm,
+                              amount: e.target.value,
+                            })
+                          }
+                        />
+                        <FieldDescription>
+                          Paid to the member now. The{" "}
+                          {formatMoney(loan.remaining)} still owed is carried
+                          into the new loan
+                          {parseFloat(topUpForm.amount) > 0 &&
+                            ` of ${formatMoney(
+                              loan.remaining +
+                                toPaise(parseFloat(topUpForm.amount))
+                            )}`}
+                        </FieldDescription>
+                      </Field>
+                      <Field>
+                        <FieldLabel htmlFor="topUpWeeks">
+                          New Loan Weeks
+                        </FieldLabel>
+                        <Input
+                          id="topUpWeeks"
+                          type="number"
+                          min="1"
+                          placeholder={(
+                            loan.cycle?.group?.loanWeeks || loan.weeks
+                          ).toString()}
+                          value={topUpForm.weeks}
+                          onChange={(e) =>
+                            setTopUpForm({
+                              ...topUpForm,
+                              weeks: e.target.value,
+                            })
+                          }
+                        />
+                      </Field>
+                      <Field>
+                        <FieldLabel htmlFor="topUpMethod">
+                          Disbursement Method
+                        </FieldLabel>
+                        <select
+                          id="topUpMethod"
+                          className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                          value={topUpForm.disbursementMethod}
+                          onChange={(e) =>
+                            setTopUpForm({
+                              ...topUpForm,
+                              disbursementMethod: e.target.value as
+                                | "CASH"
+                                | "UPI"
+                                | "BANK_TRANSFER"
+                                | "",
+                            })
+                          }>
+                          <option value="">Select method</option>
+                          <option value="CASH">Cash</option>
+                          <option value="UPI">UPI</option>
+                          <option value="BANK_TRANSFER">Bank Transfer</option>
+                        </select>
+                      </Field>
+                      <Field>
+                        <FieldLabel htmlFor="topUpReason">Reason</FieldLabel>
+                        <Input
+                          id="topUpReason"
+                          placeholder="e.g. Second buffalo for dairy business"
+                          value={topUpForm.reason}
+                          onChange={(e) =>
+                            setTopUpForm({
+                              ...topUpForm,
+                              reason: e.target.value,
+                            })
+                          }
+                        />
+                      </Field>
+                      <div className="flex flex-col sm:flex-row gap-2">
+                        <Button
+                          className="flex-1"
+                          onClick={() => handleTopUp()}
+                          disabled={
+                            toppingUp ||
+                            !(parseFloat(topUpForm.amount) > 0) ||
+                            !topUpForm.reason.trim()
+                          }>
+                          {toppingUp ? "Saving..." : "Top Up"}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          onClick={() => setShowTopUpForm(false)}
+                          disabled={toppingUp}>
+                          Cancel
+                        </Button>
+                      </div>
+                    </FieldGroup>
+                  )}
+                </div>
+              )}
             {user?.role === "ADMIN" && loan.status === "ACTIVE" && (
               <div className="pt-4 border-t">
                 <Button
@@ -538,17 +1499,148 @@ export default function LoanDetailPage() {
                 </Button>
               </div>
             )}
+            {user?.role === "ADMIN" &&
+              loan.status === "DEFAULTED" &&
+              loan.remaining > 0 && (
+                <div className="pt-4 border-t space-y-2">
+                  <Button
+                    variant="destructive"
+                    className="w-full"
+                    onClick={handleWriteOff}>
+                    Write Off Loan
+                  </Button>
+                  <p className="text-xs text-muted-foreground">
+                    For balances the group no longer expects to collect. The
+                    loan history is kept and later recoveries can still be
+                    recorded.
+                  </p>
+                </div>
+              )}
           </CardContent>
         </Card>
       </div>
 
+      {loan.installments && loan.installments.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Repayment Card</CardTitle>
+            <CardDescription>
+              What was due each week against what has been paid
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-0 sm:p-6">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Week</TableHead>
+                    <TableHead>Due Date</TableHead>
+                    <TableHead>Principal Due</TableHead>
+                    <TableHead>Interest Due</TableHead>
+                    <TableHead>Paid</TableHead>
+                    <TableHead>Paid On</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loan.installments.map((installment) => {
+                    const settled =
+                      installment.status === "PAID" ||
+                      installment.status === "PAID_LATE";
+                    // Unpaid installments of a loan still being collected
+                    const overdue =
+                      !settled &&
+                      (loan.status === "ACTIVE" ||
+                        loan.status === "DEFAULTED") &&
+                      new Date(installment.dueDate) < new Date();
+                    return (
+                      <TableRow
+                        key={installment.id}
+                        className={
+                          settled ? "bg-green-50 dark:bg-green-900/20" : ""
+                        }>
+                        <TableCell className="font-medium">
+                          {installment.week}
+                        </TableCell>
+                        <TableCell>
+                          {format(new Date(installment.dueDate), "dd/MM/yyyy")}
+                        </TableCell>
+                        <TableCell>
+                          {formatMoney(installment.principalDue)}
+                        </TableCell>
+                        <TableCell>
+                          {formatMoney(installment.interestDue)}
+                        </TableCell>
+                        <TableCell>
+                          {formatMoney(
+                            installment.principalPaid + installment.interestPaid
+                          )}{" "}
+                          <span className="text-muted-foreground">
+                            /{" "}
+                            {formatMoney(
+                              installment.principalDue + installment.interestDue
+                            )}
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          {installment.paidAt
+                            ? format(new Date(installment.paidAt), "dd/MM/yyyy")
+                            : "-"}
+                        </TableCell>
+                        <TableCell
+                          className={`font-medium ${
+                            overdue
+                              ? "text-red-600"
+                              : installmentStatusColors[installment.status]
+                          }`}>
+                          {overdue
+                            ? "Overdue"
+                            : installmentStatusLabels[installment.status]}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+            <div className="mt-4 p-3 sm:p-4 bg-muted rounded-lg grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm">
+              <div>
+                <span className="text-muted-foreground">Total Due:</span>
+                <span className="ml-2 font-medium">
+                  {formatMoney(
+                    sumMoney(
+                      loan.installments.map(
+                        (i) => i.principalDue + i.interestDue
+                      )
+                    )
+                  )}
+                </span>
+              </div>
+              <div>
+                <span className="text-muted-foreground">Total Paid:</span>
+                <span className="ml-2 font-medium">
+                  {formatMoney(
+                    sumMoney(
+                      loan.installments.map(
+                        (i) => i.principalPaid + i.interestPaid
+                      )
+                    )
+                  )}
+                </span>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
             <div>
               <CardTitle>Payment Schedule</CardTitle>
               <CardDescription className="mt-1">
-                Complete 10-week payment breakdown (principal only, no interest)
+                Complete {loan.weeks}-week payment breakdown -{" "}
+                {describeInterestTerms(interestTermsOf(loan))}
               </CardDescription>
             </div>
             <Button
@@ -567,17 +1659,18 @@ export default function LoanDetailPage() {
                 <TableHeader>
                   <TableRow>
                     <TableHead>Week</TableHead>
+                    <TableHead>Due Date</TableHead>
                     <TableHead>Principal Remaining</TableHead>
                     <TableHead>Principal Payment</TableHead>
+                    <TableHead>Interest</TableHead>
                     <TableHead>Total Payment</TableHead>
                     <TableHead>New Balance</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {paymentSchedule.map((schedule, index) => {
-                    const isPaid = loan.transactions.some(
-                      (t) => t.week === schedule.week
-                    );
+                  {paymentSchedule.map((schedule) => {
+                    // Installments whose principal is fully repaid
+                    const isPaid = schedule.week <= loan.currentWeek;
                     return (
                       <TableRow
                         key={schedule.week}
@@ -591,15 +1684,29 @@ export default function LoanDetailPage() {
                           )}
                         </TableCell>
                         <TableCell>
-                          ₹{schedule.principalRemaining.toFixed(2)}
+                          {loan.disbursedAt
+                            ? format(
+                                installmentDueDate(
+                                  loan.disbursedAt,
+                                  schedule.dueWeek,
+                                  loan.cycle?.group?.meetingDay,
+                                  meetingPausesOf(loan)
+                                ),
+                                "dd/MM/yyyy"
+                              )
+                            : "-"}
                         </TableCell>
                         <TableCell>
-                          ₹{schedule.principalPayment.toFixed(2)}
+                          {formatMoney(schedule.principalRemaining)}
                         </TableCell>
+                        <TableCell>
+                          {formatMoney(schedule.principalPayment)}
+                        </TableCell>
+                        <TableCell>{formatMoney(schedule.interest)}</TableCell>
                         <TableCell className="font-medium">
-                          ₹{schedule.totalPayment.toFixed(2)}
+                          {formatMoney(schedule.totalPayment)}
                         </TableCell>
-                        <TableCell>₹{schedule.newBalance.toFixed(2)}</TableCell>
+                        <TableCell>{formatMoney(schedule.newBalance)}</TableCell>
                       </TableRow>
                     );
                   })}
@@ -609,13 +1716,12 @@ export default function LoanDetailPage() {
             <div className="mt-4 p-3 sm:p-4 bg-muted rounded-lg">
               <div className="text-sm">
                 <span className="text-muted-foreground">
-                  Total Repayment (Principal Only):
+                  Total Repayment (Principal + Interest):
                 </span>
                 <span className="ml-2 font-medium">
-                  ₹
-                  {paymentSchedule
-                    .reduce((sum, s) => sum + s.totalPayment, 0)
-                    .toFixed(2)}
+                  {formatMoney(
+                    paymentSchedule.reduce((sum, s) => sum + s.totalPayment, 0)
+                  )}
                 </span>
               </div>
             </div>
@@ -623,6 +1729,467 @@ export default function LoanDetailPage() {
         )}
       </Card>
 
+      {loan.topUpChain && loan.topUpChain.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Top-up History</CardTitle>
+            <CardDescription>
+              Each top-up closed the loan before it and carried its balance
+              into a new, larger loan
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Disbursed</TableHead>
+                    <TableHead>Principal</TableHead>
+                    <TableHead>Carried Over</TableHead>
+                    <TableHead>Top-up Paid Out</TableHead>
+                    <TableHead>Remaining</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loan.topUpChain.map((link, index, chain) => (
+                    <TableRow
+                      key={link.id}
+                      className={link.id === loan.id ? "bg-muted/50" : ""}>
+                      <TableCell>
+                        {link.id === loan.id ? (
+                          <span className="font-medium">
+                            {link.disbursedAt
+                              ? format(new Date(link.disbursedAt), "dd/MM/yyyy")
+                              : "-"}{" "}
+                            (this loan)
+                          </span>
+                        ) : (
+                          <Link
+                            href={`/dashbaord/loans/${link.id}`}
+                            className="text-primary hover:underline">
+                            {link.disbursedAt
+                              ? format(new Date(link.disbursedAt), "dd/MM/yyyy")
+                              : "-"}
+                          </Link>
+                        )}
+                      </TableCell>
+                      <TableCell>{formatMoney(link.principal)}</TableCell>
+                      <TableCell>
+                        {index === 0
+                          ? "-"
+                          : formatMoney(link.principal - link.topUpAmount)}
+                      </TableCell>
+                      <TableCell>
+                        {index === 0 ? "-" : formatMoney(link.topUpAmount)}
+                      </TableCell>
+                      <TableCell>{formatMoney(link.remaining)}</TableCell>
+                      <TableCell>
+                        {index < chain.length - 1
+                          ? "TOPPED UP"
+                          : link.status}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {((loan.moratoriums && loan.moratoriums.length > 0) ||
+        (user?.role === "ADMIN" &&
+          (loan.status === "ACTIVE" || loan.status === "DEFAULTED"))) && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Moratoriums</CardTitle>
+            <CardDescription>
+              Repayments paused for this loan. Installments that fall due in a
+              pause, or in a group holiday, move on to the meetings after it
+              and are not overdue.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {loan.moratoriums && loan.moratoriums.length > 0 && (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>From</TableHead>
+                      <TableHead>To</TableHead>
+                      <TableHead>Reason</TableHead>
+                      {user?.role === "ADMIN" && <TableHead />}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {loan.moratoriums.map((moratorium) => (
+                      <TableRow key={moratorium.id}>
+                        <TableCell>
+                          {format(new Date(moratorium.startDate), "dd/MM/yyyy")}
+                        </TableCell>
+                        <TableCell>
+                          {format(new Date(moratorium.endDate), "dd/MM/yyyy")}
+                        </TableCell>
+                        <TableCell>{moratorium.reason}</TableCell>
+                        {user?.role === "ADMIN" && (
+                          <TableCell className="text-right">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() =>
+                                handleRemoveMoratorium(moratorium)
+                              }>
+                              Remove
+                            </Button>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {user?.role === "ADMIN" &&
+              (loan.status === "ACTIVE" || loan.status === "DEFAULTED") && (
+                <FieldGroup className="border-t pt-4">
+                  <div className="grid gap-4 grid-cols-1 sm:grid-cols-3">
+                    <Field>
+                      <FieldLabel htmlFor="moratoriumStart">From</FieldLabel>
+                      <Input
+                        id="moratoriumStart"
+                        type="date"
+                        value={moratoriumForm.startDate}
+                        onChange={(e) =>
+                          setMoratoriumForm({
+                            ...moratoriumForm,
+                            startDate: e.target.value,
+                          })
+                        }
+                      />
+                    </Field>
+                    <Field>
+                      <FieldLabel htmlFor="moratoriumEnd">To</FieldLabel>
+                      <Input
+                        id="moratoriumEnd"
+                        type="date"
+                        value={moratoriumForm.endDate}
+                        onChange={(e) =>
+                          setMoratoriumForm({
+                            ...moratoriumForm,
+                            endDate: e.target.value,
+                          })
+                        }
+                      />
+                    </Field>
+                    <Field>
+                      <FieldLabel htmlFor="moratoriumReason">Reason</FieldLabel>
+                      <Input
+                        id="moratoriumReason"
+                        value={moratoriumForm.reason}
+                        onChange={(e) =>
+                          setMoratoriumForm({
+                            ...moratoriumForm,
+                            reason: e.target.value,
+                          })
+                        }
+                        placeholder="e.g. Crop failure"
+                      />
+                    </Field>
+                  </div>
+                  <Button
+                    className="w-full sm:w-auto"
+                    onClick={handleAddMoratorium}
+                    disabled={
+                      pausing ||
+                      !moratoriumForm.startDate ||
+                      !moratoriumForm.endDate ||
+                      !moratoriumForm.reason.trim()
+                    }>
+                    {pausing ? "Saving..." : "Add Moratorium"}
+                  </Button>
+                </FieldGroup>
+              )}
+          </CardContent>
+        </Card>
+      )}
+
+      {loan.status === "WRITTEN_OFF" && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Write-off and Recoveries</CardTitle>
+            <CardDescription>
+              Written off
+              {loan.writtenOffAt &&
+                ` on ${format(new Date(loan.writtenOffAt), "dd/MM/yyyy")}`}
+              {loan.writeOffReason && `: ${loan.writeOffReason}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 text-sm">
+              <div className="flex justify-between sm:block">
+                <div className="text-muted-foreground">Written Off</div>
+                <div className="font-medium">
+                  {formatMoney(loan.writtenOffAmount)}
+                </div>
+              </div>
+              <div className="flex justify-between sm:block">
+                <div className="text-muted-foreground">Recovered</div>
+                <div className="font-medium text-green-600">
+                  {formatMoney(loan.totalRecovered)}
+                </div>
+              </div>
+              <div className="flex justify-between sm:block">
+                <div className="text-muted-foreground">Not Recovered</div>
+                <div className="font-medium text-red-600">
+                  {formatMoney(loan.writtenOffAmount - loan.totalRecovered)}
+                </div>
+              </div>
+            </div>
+
+            {user?.role === "ADMIN" &&
+              loan.totalRecovered < loan.writtenOffAmount && (
+                <FieldGroup className="border-t pt-4">
+                  <div className="grid gap-4 grid-cols-1 sm:grid-cols-2">
+                    <Field>
+                      <FieldLabel htmlFor="recoveryAmount">
+                        Amount Recovered (₹)
+                      </FieldLabel>
+                      <Input
+                        id="recoveryAmount"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={recoveryForm.amount}
+                        onChange={(e) =>
+                          setRecoveryForm({
+                            ...recoveryForm,
+                            amount: e.target.value,
+                          })
+                        }
+                      />
+                    </Field>
+                    <Field>
+                      <FieldLabel htmlFor="recoveryDate">Date</FieldLabel>
+                      <Input
+                        id="recoveryDate"
+                        type="date"
+                        value={recoveryForm.date}
+                        onChange={(e) =>
+                          setRecoveryForm({
+                            ...recoveryForm,
+                            date: e.target.value,
+                          })
+                        }
+                      />
+                    </Field>
+                    <Field>
+                      <FieldLabel htmlFor="recoveryMethod">
+                        Payment Method
+                      </FieldLabel>
+                      <select
+                        id="recoveryMethod"
+                        className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                        value={recoveryForm.paymentMethod}
+                        onChange={(e) =>
+                          setRecoveryForm({
+                            ...recoveryForm,
+                            paymentMethod: e.target.value as
+                              | "CASH"
+                              | "UPI"
+                              | "BANK_TRANSFER"
+                              | "",
+                          })
+                        }>
+                        <option value="">Select payment method</option>
+                        <option value="CASH">Cash</option>
+                        <option value="UPI">UPI</option>
+                        <option value="BANK_TRANSFER">Bank Transfer</option>
+                      </select>
+                    </Field>
+                    <Field>
+                      <FieldLabel htmlFor="recoveryNote">Note</FieldLabel>
+                      <Input
+                        id="recoveryNote"
+                        value={recoveryForm.note}
+                        onChange={(e) =>
+                          setRecoveryForm({
+                            ...recoveryForm,
+                            note: e.target.value,
+                          })
+                        }
+                        placeholder="e.g. Paid by family member"
+                      />
+                    </Field>
+                  </div>
+                  <Button
+                    className="w-full sm:w-auto"
+                    onClick={handleRecordRecovery}
+                    disabled={
+                      recording || !(parseFloat(recoveryForm.amount) > 0)
+                    }>
+                    {recording ? "Saving..." : "Record Recovery"}
+                  </Button>
+                </FieldGroup>
+              )}
+
+            {loan.recoveries && loan.recoveries.length > 0 && (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Amount</TableHead>
+                      <TableHead>Method</TableHead>
+                      <TableHead>Note</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {loan.recoveries.map((recovery) => (
+                      <TableRow key={recovery.id}>
+                        <TableCell>
+                          {format(new Date(recovery.date), "dd/MM/yyyy")}
+                        </TableCell>
+                        <TableCell className="font-medium">
+                          {formatMoney(recovery.amount)}
+                        </TableCell>
+                        <TableCell>{recovery.paymentMethod || "-"}</TableCell>
+                        <TableCell>{recovery.note || "-"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {loan.restructures && loan.restructures.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Restructure History</CardTitle>
+            <CardDescription>
+              Schedules before and after each restructure
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {loan.restructures.map((restructure) => (
+              <div key={restructure.id} className="rounded-lg border p-3">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                  <div className="text-sm">
+                    <div className="font-medium">
+                      {format(new Date(restructure.date), "dd/MM/yyyy")} -{" "}
+                      {restructure.weeksBefore} weeks to{" "}
+                      {restructure.weeksAfter} weeks
+                    </div>
+                    <div className="text-muted-foreground">
+                      {restructure.reason} ·{" "}
+                      {formatMoney(restructure.remaining)} outstanding,{" "}
+                      {restructure.installmentsKept} installments kept
+                    </div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      setOpenRestructureId(
+                        openRestructureId === restructure.id
+                          ? null
+                          : restructure.id
+                      )
+                    }>
+                    {openRestructureId === restructure.id ? "Hide" : "Show"}{" "}
+                    Schedules
+                  </Button>
+                </div>
+                {openRestructureId === restructure.id && (
+                  <div className="mt-3 grid gap-4 lg:grid-cols-2">
+                    <ScheduleSummary
+                      title="Before"
+                      schedule={restructure.scheduleBefore}
+                      kept={restructure.installmentsKept}
+                    />
+                    <ScheduleSummary
+                      title="After"
+                      schedule={restructure.scheduleAfter}
+                      kept={restructure.installmentsKept}
+                    />
+                  </div>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {lateInstallments.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Late Fines</CardTitle>
+            <CardDescription>
+              {loan.cycle?.group
+                ? describePenaltyRules(penaltyRulesOf(loan.cycle.group))
+                : "No late fine"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-0 sm:p-6">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Week</TableHead>
+                    <TableHead>Due Date</TableHead>
+                    <TableHead>Paid On</TableHead>
+                    <TableHead>Days Late</TableHead>
+                    <TableHead>Fine</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lateInstallments.map((late) => (
+                    <TableRow key={late.week}>
+                      <TableCell className="font-medium">{late.week}</TableCell>
+                      <TableCell>{format(late.dueDate, "dd/MM/yyyy")}</TableCell>
+                      <TableCell>
+                        {late.paidAt ? (
+                          format(late.paidAt, "dd/MM/yyyy")
+                        ) : (
+                          <span className="text-red-600">Unpaid</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{late.daysLate}</TableCell>
+                      <TableCell>{formatMoney(late.penalty)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <div className="mt-4 space-y-1 px-4 pb-4 text-sm sm:px-0 sm:pb-0">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Fines Accrued:</span>
+                <span className="font-medium">
+                  {formatMoney(finesAccrued)}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Fines Paid:</span>
+                <span className="font-medium">
+                  {formatMoney(loan.totalPenaltyPaid)}
+                </span>
+              </div>
+              <div className="flex justify-between border-t pt-1">
+                <span className="font-semibold">Outstanding:</span>
+                <span className="font-bold text-red-600">
+                  {formatMoney(
+                    Math.max(0, finesAccrued - loan.totalPenaltyPaid)
+                  )}
+                </span>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
 
       <Card>
         <CardHeader>
@@ -636,28 +2203,48 @@ export default function LoanDetailPage() {
                     <TableHead>S.No</TableHead>
                     <TableHead>Date</TableHead>
                     <TableHead>Principal Paid</TableHead>
+                    <TableHead>Interest Paid</TableHead>
+                    <TableHead>Late Fine</TableHead>
                     <TableHead>Payment Method</TableHead>
                     <TableHead>Remaining</TableHead>
                     <TableHead>Week</TableHead>
+                    {user?.role === "ADMIN" && <TableHead />}
                   </TableRow>
               </TableHeader>
               <TableBody>
                 {loan.transactions.length === 0 ? (
                   <TableRow>
                     <TableCell
-                      colSpan={6}
+                      colSpan={user?.role === "ADMIN" ? 9 : 8}
                       className="text-center text-muted-foreground">
                       No transactions found
                     </TableCell>
                   </TableRow>
                 ) : (
                   loan.transactions.map((transaction, index) => (
-                    <TableRow key={transaction.id}>
+                    <TableRow
+                      key={transaction.id}
+                      className={
+                        transaction.reversedAt
+                          ? "line-through text-muted-foreground"
+                          : transaction.type === "REVERSAL"
+                          ? "text-red-600"
+                          : ""
+                      }>
                       <TableCell>{index + 1}</TableCell>
                       <TableCell>
                         {format(new Date(transaction.date), "dd/MM/yyyy")}
                       </TableCell>
-                      <TableCell>₹{transaction.amount.toFixed(2)}</TableCell>
+                      <TableCell>
+                        {formatMoney(transaction.amount)}
+                        {transaction.type === "REVERSAL" && (
+                          <div className="text-xs">
+                            Reversal: {transaction.reversalReason}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>{formatMoney(transaction.interest)}</TableCell>
+                      <TableCell>{formatMoney(transaction.penalty)}</TableCell>
                       <TableCell>
                         {transaction.paymentMethod
                           ? transaction.paymentMethod === "CASH"
@@ -667,8 +2254,24 @@ export default function LoanDetailPage() {
                             : "Bank Transfer"
                           : "-"}
                       </TableCell>
-                      <TableCell>₹{transaction.remaining.toFixed(2)}</TableCell>
+                      <TableCell>{formatMoney(transaction.remaining)}</TableCell>
                       <TableCell>{transaction.week}</TableCell>
+                      {user?.role === "ADMIN" && (
+                        <TableCell>
+                          {transaction.id === reversibleTransactionId && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleReverse(transaction)}
+                              disabled={reversingId === transaction.id}>
+                              <Undo2 className="mr-2 h-4 w-4" />
+                              {reversingId === transaction.id
+                                ? "Reversing..."
+                                : "Reverse"}
+                            </Button>
+                          )}
+                        </TableCell>
+                      )}
                     </TableRow>
                   ))
                 )}
@@ -680,3 +2283,52 @@ export default function LoanDetailPage() {
     </div>
   );
 }
+
+// One side of a restructure: installments already repaid are greyed out
+function ScheduleSummary({
+  title,
+  schedule,
+  kept,
+}: {
+  title: string;
+  schedule: PaymentScheduleRow[];
+  kept: number;
+}) {
+  return (
+    <div>
+      <div className="mb-2 text-sm font-semibold">
+        {title} - {schedule.length} weeks
+      </div>
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Week</TableHead>
+              <TableHead>Due Week</TableHead>
+              <TableHead>Principal</TableHead>
+              <TableHead>Interest</TableHead>
+              <TableHead>Total</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {schedule.map((row) => (
+              <TableRow
+                key={row.week}
+                className={row.week <= kept ? "text-muted-foreground" : ""}>
+                <TableCell>{row.week}</TableCell>
+                <TableCell>{row.dueWeek}</TableCell>
+                <TableCell>{formatMoney(row.principalPayment)}</TableCell>
+                <TableCell>{formatMoney(row.interest)}</TableCell>
+                <TableCell>{formatMoney(row.totalPayment)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      <div className="mt-2 text-sm text-muted-foreground">
+        Total repayment:{" "}
+        {formatMoney(sumMoney(schedule.map((row) => row.totalPayment)))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Field, FieldDescription, FieldLabel } from "@/components/ui/field";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ArrowLeft, Printer } from "lucide-react";
+import { format } from "date-fns";
+import { formatMoney } from "@/lib/money";
+import {
+  describeInterestTerms,
+  interestTermsOf,
+  type InterestMethod,
+  type RatePeriod,
+} from "@/lib/utils";
+
+interface PayoffQuote {
+  asOf: string;
+  principal: number;
+  interest: number;
+  penalty: number;
+  lateInstallments: Array<{
+    week: number;
+    dueDate: string;
+    paidAt: string | null;
+    daysLate: number;
+    penalty: number;
+  }>;
+  penaltyPaid: number;
+  waivers: Array<{ type: string; description: string; amount: number }>;
+  total: number;
+  loan: {
+    id: string;
+    status: string;
+    principal: number;
+    weeks: number;
+    currentWeek: number;
+    disbursedAt: string;
+    interestMethod: InterestMethod;
+    interestRate: number;
+    interestRatePeriod: RatePeriod;
+    totalPrincipalPaid: number;
+    totalInterestPaid: number;
+  };
+  member: { id: string; name: string; userId: string };
+  group: { id: string; name: string } | null;
+}
+
+export default function LoanPayoffPage() {
+  const params = useParams();
+  const [date, setDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [quote, setQuote] = useState<PayoffQuote | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (params.id) {
+      fetchQuote(params.id as string, date);
+    }
+  }, [params.id, date]);
+
+  const fetchQuote = async (id: string, quoteDate: string) => {
+    setError("");
+    try {
+      const response = await fetch(
+        `/api/loans/${id}/payoff${quoteDate ? `?date=${quoteDate}` : ""}`
+      );
+      const data = await response.json();
+      if (response.ok) {
+        setQuote(data.quote);
+      } else {
+        setQuote(null);
+        setError(data.error || "Failed to calculate payoff quote");
+      }
+    } catch (error) {
+      console.error("Error fetching payoff quote:", error);
+      setError("Failed to calculate payoff quote");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return <div>Loading...</div>;
+  }
+
+  const finesDue = quote?.lateInstallments.filter((late) => late.penalty > 0);
+
+  return (
+    <div className="space-y-4 sm:space-y-6 p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3 sm:gap-4 print:hidden">
+        <Button variant="outline" asChild className="w-full sm:w-auto">
+          <Link href={`/dashbaord/loans/${params.id}`}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Link>
+        </Button>
+        <div className="flex-1">
+          <h1 className="text-2xl sm:text-3xl font-bold">Payoff Quote</h1>
+          <p className="text-sm sm:text-base text-muted-foreground mt-1">
+            How much closes the loan on a given day
+          </p>
+        </div>
+        {quote && (
+          <Button onClick={() => window.print()} className="w-full sm:w-auto">
+            <Printer className="mr-2 h-4 w-4" />
+            Print
+          </Button>
+        )}
+      </div>
+
+      <Card className="print:hidden">
+        <CardContent className="pt-6">
+          <Field>
+            <FieldLabel htmlFor="payoffDate">Payoff Date</FieldLabel>
+            <Input
+              id="payoffDate"
+              type="date"
+              className="sm:w-56"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+            />
+            <FieldDescription>
+              The quote holds only for this date - interest and fines grow as
+              installments fall due
+            </FieldDescription>
+          </Field>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive" className="print:hidden">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {quote && (
+        <Card className="print:border-0 print:shadow-none">
+          <CardHeader>
+            <CardTitle>
+              Loan Payoff Quote - {format(new Date(quote.asOf), "dd/MM/yyyy")}
+            </CardTitle>
+            <CardDescription>
+              {quote.member.name} ({quote.member.userId})
+              {quote.group && ` - ${quote.group.name}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid gap-2 grid-cols-1 sm:grid-cols-2 text-sm">
+              <div className="flex justify-between sm:block">
+                <span className="text-muted-foreground">Loan: </span>
+                <span className="font-medium">
+                  {formatMoney(quote.loan.principal)} over {quote.loan.weeks}{" "}
+                  weeks
+                </span>
+              </div>
+              <div className="flex justify-between sm:block">
+                <span className="text-muted-foreground">Disbursed: </span>
+                <span className="font-medium">
+                  {format(new Date(quote.loan.disbursedAt), "dd/MM/yyyy")}
+                </span>
+              </div>
+              <div className="flex justify-between sm:block">
+                <span className="text-muted-foreground">Interest: </span>
+                <span className="font-medium">
+                  {describeInterestTerms(interestTermsOf(quote.loan))}
+                </span>
+              </div>
+              <div className="flex justify-between sm:block">
+                <span className="text-muted-foreground">Repaid so far: </span>
+                <span className="font-medium">
+                  {formatMoney(quote.loan.totalPrincipalPaid)} principal,{" "}
+                  {formatMoney(quote.loan.totalInterestPaid)} interest
+                </span>
+              </div>
+            </div>
+
+            <Table>
+              <TableBody>
+                <TableRow>
+                  <TableCell>Principal outstanding</TableCell>
+                  <TableCell className="text-right">
+                    {formatMoney(quote.principal)}
+                  </TableCell>
+                </TableRow>
+                <TableRow>
+                  <TableCell>Interest accrued</TableCell>
+                  <TableCell className="text-right">
+                    {formatMoney(quote.interest)}
+                  </TableCell>
+                </TableRow>
+                <TableRow>
+                  <TableCell>
+                    Late fines
+                    {quote.penaltyPaid > 0 && (
+                      <span className="text-muted-foreground">
+                        {" "}
+                        (after {formatMoney(quote.penaltyPaid)} already paid)
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatMoney(quote.penalty)}
+                  </TableCell>
+                </TableRow>
+                {quote.waivers.map((waiver) => (
+                  <TableRow key={waiver.type}>
+                    <TableCell className="text-muted-foreground">
+                      Waived: {waiver.description}
+                    </TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      ({formatMoney(waiver.amount)})
+                    </TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="font-bold text-base">
+                  <TableCell>Total to close the loan</TableCell>
+                  <TableCell className="text-right">
+                    {formatMoney(quote.total)}
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+
+            {finesDue && finesDue.length > 0 && (
+              <div>
+                <h3 className="font-semibold mb-2">Late Installments</h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Installment</TableHead>
+                      <TableHead>Due</TableHead>
+                      <TableHead>Paid</TableHead>
+                      <TableHead>Days Late</TableHead>
+                      <TableHead className="text-right">Fine</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {finesDue.map((late) => (
+                      <TableRow key={late.week}>
+                        <TableCell>Week {late.week}</TableCell>
+                        <TableCell>
+                          {format(new Date(late.dueDate), "dd/MM/yyyy")}
+                        </TableCell>
+                        <TableCell>
+                          {late.paidAt
+                            ? format(new Date(late.paidAt), "dd/MM/yyyy")
+                            : "Unpaid"}
+                        </TableCell>
+                        <TableCell>{late.daysLate}</TableCell>
+                        <TableCell className="text-right">
+                          {formatMoney(late.penalty)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              Valid for a repayment dated{" "}
+              {format(new Date(quote.asOf), "dd/MM/yyyy")} only. Quote
+              generated {format(new Date(), "dd/MM/yyyy HH:mm")}.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,678 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Field,
+  FieldDescription,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ArrowLeft, Check, Send, Wallet, X } from "lucide-react";
+import { format } from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import { formatMoney, toPaise } from "@/lib/money";
+import {
+  CreditFactorList,
+  CreditScoreBadge,
+  type CreditScoreData,
+} from "@/components/members/credit-score";
+
+type ApplicationStatus = "SUBMITTED" | "APPROVED" | "REJECTED" | "DISBURSED";
+
+interface LoanApplication {
+  id: string;
+  member: { id: string; name: string; userId: string };
+  group: { id: string; name: string };
+  amount: number;
+  weeks: number;
+  reason: string;
+  guarantor1?: { name: string } | null;
+  guarantor2?: { name: string } | null;
+  status: ApplicationStatus;
+  submittedAt: string;
+  reviewedAt?: string | null;
+  reviewComment?: string | null;
+  disbursedAt?: string | null;
+  loan?: {
+    id: string;
+    status: string;
+    guarantor1Consent: string;
+    guarantor2Consent: string;
+  } | null;
+  credit?: CreditScoreData | null; // Applicant's score, while awaiting review
+}
+
+interface MemberGroup {
+  group: { id: string; name: string };
+}
+
+interface GroupMemberOption {
+  memberId: string;
+  member: { id: string; name: string; userId: string };
+}
+
+const selectClassName =
+  "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50";
+
+const statusColors: Record<ApplicationStatus, string> = {
+  SUBMITTED: "text-yellow-600",
+  APPROVED: "text-blue-600",
+  REJECTED: "text-red-600",
+  DISBURSED: "text-green-600",
+};
+
+const emptyForm = {
+  groupId: "",
+  amount: "", // Rupees
+  weeks: "",
+  reason: "",
+  guarantor1Id: "",
+  guarantor2Id: "",
+};
+
+export default function LoanApplicationsPage() {
+  const { user } = useAuth();
+  const isAdmin = user?.role === "ADMIN";
+  const [applications, setApplications] = useState<LoanApplication[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<ApplicationStatus | "">(
+    ""
+  );
+  const [memberId, setMemberId] = useState<string | null>(null);
+  const [groups, setGroups] = useState<MemberGroup[]>([]);
+  const [groupMembers, setGroupMembers] = useState<GroupMemberOption[]>([]);
+  const [formData, setFormData] = useState(emptyForm);
+  const [submitting, setSubmitting] = useState(false);
+  const [actingId, setActingId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+
+  useEffect(() => {
+    fetchProfile();
+  }, []);
+
+  useEffect(() => {
+    fetchApplications(statusFilter);
+  }, [statusFilter]);
+
+  useEffect(() => {
+    if (formData.groupId) {
+      fetchGroupMembers(formData.groupId);
+    } else {
+      setGroupMembers([]);
+    }
+  }, [formData.groupId]);
+
+  const fetchApplications = async (status: ApplicationStatus | "") => {
+    try {
+      const response = await fetch(
+        `/api/loans/applications${status ? `?status=${status}` : ""}`
+      );
+      if (response.ok) {
+        const data = await response.json();
+        setApplications(data.applications);
+      }
+    } catch (error) {
+      console.error("Error fetching loan applications:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Members apply for themselves, so the form needs their member record
+  const fetchProfile = async () => {
+    try {
+      const response = await fetch("/api/members/profile");
+      if (response.ok) {
+        const data = await response.json();
+        setMemberId(data.member.id);
+        setGroups(data.groups);
+      }
+    } catch (error) {
+      console.error("Error fetching member profile:", error);
+    }
+  };
+
+  const fetchGroupMembers = async (groupId: string) => {
+    try {
+      const response = await fetch(`/api/groups/${groupId}`);
+      if (response.ok) {
+        const data = await response.json();
+        setGroupMembers(data.group.members);
+      }
+    } catch (error) {
+      console.error("Error fetching group members:", error);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setSuccess("");
+    setSubmitting(true);
+
+    try {
+      const response = await fetch("/api/loans/applications", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          groupId: formData.groupId,
+          amount: toPaise(parseFloat(formData.amount)),
+          weeks: formData.weeks ? parseInt(formData.weeks) : undefined,
+          reason: formData.reason,
+          guarantor1Id: formData.guarantor1Id || undefined,
+          guarantor2Id: formData.guarantor2Id || undefined,
+        }),
+      });
+
+      if (response.ok) {
+        setSuccess("Application submitted");
+        setFormData(emptyForm);
+        await fetchApplications(statusFilter);
+        setTimeout(() => setSuccess(""), 3000);
+      } else {
+        const errorData = await response.json();
+        setError(errorData.error || "Failed to submit application");
+      }
+    } catch (error) {
+      console.error("Error submitting application:", error);
+      setError("Failed to submit application");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleReview = async (
+    application: LoanApplication,
+    action: "APPROVE" | "REJECT"
+  ) => {
+    const comment = prompt(
+      action === "APPROVE"
+        ? `Approve ${application.member.name}'s application for ${formatMoney(
+            application.amount
+          )}? Comment (optional):`
+        : `Reject ${application.member.name}'s application? Enter a reason:`
+    );
+    if (comment === null) return;
+    if (action === "REJECT" && !comment.trim()) {
+      setError("A comment is required to reject an application");
+      return;
+    }
+
+    setError("");
+    setSuccess("");
+    setActingId(application.id);
+    try {
+      const response = await fetch(
+        `/api/loans/applications/${application.id}`,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            action,
+            comment: comment.trim() || undefined,
+          }),
+        }
+      );
+
+      if (response.ok) {
+        const data = await response.json();
+        setSuccess(
+          action === "REJECT"
+            ? "Application rejected"
+            : data.waitlistEntry
+            ? "Application approved - the group fund cannot cover it yet, so it is on the waitlist"
+            : "Application approved"
+        );
+        await fetchApplications(statusFilter);
+        setTimeout(() => setSuccess(""), 3000);
+      } else {
+        const errorData = await response.json();
+        setError(errorData.error || "Failed to review application");
+      }
+    } catch (error) {
+      console.error("Error reviewing application:", error);
+      setError("Failed to review application");
+    } finally {
+      setActingId(null);
+    }
+  };
+
+  const handleDisburse = async (
+    application: LoanApplication,
+    fundOverrideReason?: string
+  ) => {
+    if (
+      !application.loan ||
+      (!fundOverrideReason &&
+        !confirm(
+          `Disburse ${formatMoney(application.amount)} to ${
+            application.member.name
+          } from ${application.group.name}'s fund?`
+        ))
+    ) {
+      return;
+    }
+
+    setError("");
+    setSuccess("");
+    setActingId(application.id);
+    try {
+      const response = await fetch("/api/loans/disburse", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          loanId: application.loan.id,
+          fundOverrideReason,
+        }),
+      });
+
+      if (response.ok) {
+        setSuccess("Loan disbursed");
+        await fetchApplications(statusFilter);
+        setTimeout(() => setSuccess(""), 3000);
+      } else {
+        const errorData = await response.json();
+        // The fund cannot cover it: the loan waits on the waitlist unless
+        // the admin pays it out anyway
+        if (errorData.required !== undefined && !fundOverrideReason) {
+          const reason = prompt(
+            `${errorData.error}.\n\nTo disburse it anyway, enter the reason for overriding the fund check:`
+          );
+          if (reason?.trim()) {
+            await handleDisburse(application, reason.trim());
+            return;
+          }
+        }
+        setError(errorData.error || "Failed to disburse loan");
+      }
+    } catch (error) {
+      console.error("Error disbursing loan:", error);
+      setError("Failed to disburse loan");
+    } finally {
+      setActingId(null);
+    }
+  };
+
+  // Guarantors come from the same group, never the applicant
+  const guarantorOptions = groupMembers.filter(
+    (gm) => gm.memberId !== memberId
+  );
+
+  if (loading) {
+    return <div>Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-4 sm:space-y-6 p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3 sm:gap-4">
+        <Button variant="outline" asChild className="w-full sm:w-auto">
+          <Link href="/dashbaord/loans">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Link>
+        </Button>
+        <div className="flex-1 min-w-0">
+          <h1 className="text-2xl sm:text-3xl font-bold">Loan Applications</h1>
+          <p className="text-sm sm:text-base text-muted-foreground mt-1">
+            {isAdmin
+              ? "Review applications and disburse approved loans"
+              : "Apply for a loan and follow its progress"}
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      {success && (
+        <Alert className="border-green-200 bg-green-50 dark:bg-green-900/20">
+          <AlertDescription className="text-green-800 dark:text-green-200">
+            {success}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {memberId && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Apply for a Loan</CardTitle>
+            <CardDescription>
+              The group&apos;s admin reviews your application
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {groups.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                You need to be a member of a group to apply for a loan
+              </p>
+            ) : (
+              <form onSubmit={handleSubmit}>
+                <FieldGroup>
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <Field>
+                      <FieldLabel htmlFor="groupId">Group *</FieldLabel>
+                      <select
+                        id="groupId"
+                        className={selectClassName}
+                        value={formData.groupId}
+                        onChange={(e) =>
+                          setFormData({
+                            ...formData,
+                            groupId: e.target.value,
+                            guarantor1Id: "",
+                            guarantor2Id: "",
+                          })
+                        }
+                        required>
+                        <option value="">Select a group</option>
+                        {groups.map((gm) => (
+                          <option key={gm.group.id} value={gm.group.id}>
+                            {gm.group.name}
+                          </option>
+                        ))}
+                      </select>
+                    </Field>
+                    <Field>
+                      <FieldLabel htmlFor="amount">Amount (₹) *</FieldLabel>
+                      <Input
+                        id="amount"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={formData.amount}
+                        onChange={(e) =>
+                          setFormData({ ...formData, amount: e.target.value })
+                        }
+                        required
+                      />
+                    </Field>
+                    <Field>
+                      <FieldLabel htmlFor="weeks">Repayment Weeks</FieldLabel>
+                      <Input
+                        id="weeks"
+                        type="number"
+                        min="1"
+                        value={formData.weeks}
+                        onChange={(e) =>
+                          setFormData({ ...formData, weeks: e.target.value })
+                        }
+                      />
+                      <FieldDescription>
+                        Leave blank for the group&apos;s usual term
+                      </FieldDescription>
+                    </Field>
+                    <Field>
+                      <FieldLabel htmlFor="reason">Purpose *</FieldLabel>
+                      <Input
+                        id="reason"
+                        value={formData.reason}
+                        onChange={(e) =>
+                          setFormData({ ...formData, reason: e.target.value })
+                        }
+                        required
+                      />
+                    </Field>
+                    {(["guarantor1Id", "guarantor2Id"] as const).map(
+                      (key, index) => (
+                        <Field key={key}>
+                          <FieldLabel htmlFor={key}>
+                            Guarantor {index + 1}
+                          </FieldLabel>
+                          <select
+                            id={key}
+                            className={selectClassName}
+                            value={formData[key]}
+                            onChange={(e) =>
+                              setFormData({
+                                ...formData,
+                                [key]: e.target.value,
+                              })
+                            }
+                            disabled={!formData.groupId}>
+                            <option value="">None</option>
+                            {guarantorOptions.map((gm) => (
+                              <option key={gm.memberId} value={gm.memberId}>
+                                {gm.member.name} ({gm.member.userId})
+                              </option>
+                            ))}
+                          </select>
+                        </Field>
+                      )
+                    )}
+                  </div>
+                  <Button
+                    type="submit"
+                    className="w-full sm:w-auto"
+                    disabled={submitting}>
+                    <Send className="mr-2 h-4 w-4" />
+                    {submitting ? "Submitting..." : "Submit Application"}
+                  </Button>
+                </FieldGroup>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+            <CardTitle>
+              {isAdmin ? "All Applications" : "My Applications"}
+            </CardTitle>
+            <select
+              className={`${selectClassName} sm:w-48`}
+              value={statusFilter}
+              onChange={(e) =>
+                setStatusFilter(e.target.value as ApplicationStatus | "")
+              }>
+              <option value="">All statuses</option>
+              <option value="SUBMITTED">Submitted</option>
+              <option value="APPROVED">Approved</option>
+              <option value="REJECTED">Rejected</option>
+              <option value="DISBURSED">Disbursed</option>
+            </select>
+          </div>
+        </CardHeader>
+        <CardContent className="p-0 sm:p-6">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {isAdmin && <TableHead>Member</TableHead>}
+                  {isAdmin && <TableHead>Credit Score</TableHead>}
+                  <TableHead>Group</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Weeks</TableHead>
+                  <TableHead>Purpose</TableHead>
+                  <TableHead>Guarantors</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Progress</TableHead>
+                  {isAdmin && <TableHead />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {applications.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={isAdmin ? 10 : 7}
+                      className="text-center text-muted-foreground">
+                      No applications found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  applications.map((application) => (
+                    <TableRow key={application.id}>
+                      {isAdmin && (
+                        <TableCell className="font-medium">
+                          {application.member.name}
+                          <div className="text-xs text-muted-foreground">
+                            {application.member.userId}
+                          </div>
+                        </TableCell>
+                      )}
+                      {isAdmin && (
+                        <TableCell className="min-w-48">
+                          {application.credit ? (
+                            <div className="space-y-1">
+                              <Link
+                                href={`/dashbaord/members/${application.member.id}`}
+                                className="hover:underline">
+                                <CreditScoreBadge credit={application.credit} />
+                              </Link>
+                              <CreditFactorList
+                                credit={application.credit}
+                                compact
+                              />
+                            </div>
+                          ) : (
+                            "-"
+                          )}
+                        </TableCell>
+                      )}
+                      <TableCell>{application.group.name}</TableCell>
+                      <TableCell>{formatMoney(application.amount)}</TableCell>
+                      <TableCell>{application.weeks}</TableCell>
+                      <TableCell>{application.reason}</TableCell>
+                      <TableCell>
+                        {[
+                          {
+                            guarantor: application.guarantor1,
+                            consent: application.loan?.guarantor1Consent,
+                          },
+                          {
+                            guarantor: application.guarantor2,
+                            consent: application.loan?.guarantor2Consent,
+                          },
+                        ]
+                          .flatMap(({ guarantor, consent }) =>
+                            guarantor
+                              ? [
+                                  // Guarantors answer once the loan is approved
+                                  consent && application.status === "APPROVED"
+                                    ? `${guarantor.name} (${consent.toLowerCase()})`
+                                    : guarantor.name,
+                                ]
+                              : []
+                          )
+                          .join(", ") || "-"}
+                      </TableCell>
+                      <TableCell
+                        className={`font-medium ${
+                          statusColors[application.status]
+                        }`}>
+                        {application.status}
+                      </TableCell>
+                      <TableCell className="text-xs space-y-1">
+                        <div>
+                          Submitted{" "}
+                          {format(
+                            new Date(application.submittedAt),
+                            "dd/MM/yyyy HH:mm"
+                          )}
+                        </div>
+                        {application.reviewedAt && (
+                          <div>
+                            {application.status === "REJECTED"
+                              ? "Rejected"
+                              : "Approved"}{" "}
+                            {format(
+                              new Date(application.reviewedAt),
+                              "dd/MM/yyyy HH:mm"
+                            )}
+                          </div>
+                        )}
+                        {application.reviewComment && (
+                          <div className="text-muted-foreground">
+                            &ldquo;{application.reviewComment}&rdquo;
+                          </div>
+                        )}
+                        {application.disbursedAt && (
+                          <div>
+                            Disbursed{" "}
+                            {format(
+                              new Date(application.disbursedAt),
+                              "dd/MM/yyyy HH:mm"
+                            )}
+                          </div>
+                        )}
+                        {application.loan &&
+                          application.status === "DISBURSED" && (
+                            <Link
+                              href={`/dashbaord/loans/${application.loan.id}`}
+                              className="text-blue-600 hover:underline">
+                              View loan
+                            </Link>
+                          )}
+                      </TableCell>
+                      {isAdmin && (
+                        <TableCell>
+                          <div className="flex gap-2">
+                            {application.status === "SUBMITTED" && (
+                              <>
+                                <Button
+                                  size="sm"
+                                  onClick={() =>
+                                    handleReview(application, "APPROVE")
+                                  }
+                                  disabled={actingId === application.id}>
+                                  <Check className="mr-1 h-4 w-4" />
+                                  Approve
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() =>
+                                    handleReview(application, "REJECT")
+                                  }
+                                  disabled={actingId === application.id}>
+                                  <X className="mr-1 h-4 w-4" />
+                                  Reject
+                                </Button>
+                              </>
+                            )}
+                            {application.status === "APPROVED" && (
+                              <Button
+                                size="sm"
+                                onClick={() => handleDisburse(application)}
+                                disabled={actingId === application.id}>
+                                <Wallet className="mr-1 h-4 w-4" />
+                                Disburse
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
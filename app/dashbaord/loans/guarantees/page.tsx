@@ -0,0 +1,264 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ArrowLeft, Check, X } from "lucide-react";
+import { format } from "date-fns";
+import { formatMoney } from "@/lib/money";
+
+type GuarantorConsent = "PENDING" | "ACCEPTED" | "DECLINED";
+
+interface GuaranteedLoan {
+  id: string;
+  member: { id: string; name: string; userId: string };
+  cycle?: { cycleNumber: number; group?: { name: string } | null } | null;
+  principal: number;
+  remaining: number;
+  weeks: number;
+  reason?: string | null;
+  status: string;
+  createdAt: string;
+  guarantor1Id?: string | null;
+  guarantor1Consent: GuarantorConsent;
+  guarantor1RespondedAt?: string | null;
+  guarantor2Id?: string | null;
+  guarantor2Consent: GuarantorConsent;
+  guarantor2RespondedAt?: string | null;
+}
+
+const consentColors: Record<GuarantorConsent, string> = {
+  PENDING: "text-yellow-600",
+  ACCEPTED: "text-green-600",
+  DECLINED: "text-red-600",
+};
+
+export default function GuaranteesPage() {
+  const [loans, setLoans] = useState<GuaranteedLoan[]>([]);
+  const [memberId, setMemberId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [actingId, setActingId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+
+  useEffect(() => {
+    fetchGuarantees();
+  }, []);
+
+  const fetchGuarantees = async () => {
+    try {
+      const response = await fetch("/api/loans/guarantees");
+      if (response.ok) {
+        const data = await response.json();
+        setMemberId(data.memberId ?? null);
+        setLoans(data.loans);
+      }
+    } catch (error) {
+      console.error("Error fetching guarantees:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The logged-in member's own answer on a loan
+  const myConsent = (loan: GuaranteedLoan) =>
+    loan.guarantor1Id === memberId
+      ? { consent: loan.guarantor1Consent, at: loan.guarantor1RespondedAt }
+      : { consent: loan.guarantor2Consent, at: loan.guarantor2RespondedAt };
+
+  const handleRespond = async (
+    loan: GuaranteedLoan,
+    response: "ACCEPTED" | "DECLINED"
+  ) => {
+    if (
+      !confirm(
+        response === "ACCEPTED"
+          ? `Guarantee ${loan.member.name}'s loan of ${formatMoney(
+              loan.principal
+            )}? You may be asked to repay it if they cannot.`
+          : `Decline to guarantee ${loan.member.name}'s loan?`
+      )
+    ) {
+      return;
+    }
+
+    setError("");
+    setSuccess("");
+    setActingId(loan.id);
+    try {
+      const res = await fetch("/api/loans/guarantees", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ loanId: loan.id, response }),
+      });
+
+      if (res.ok) {
+        setSuccess(
+          response === "ACCEPTED" ? "Guarantee accepted" : "Guarantee declined"
+        );
+        await fetchGuarantees();
+        setTimeout(() => setSuccess(""), 3000);
+      } else {
+        const errorData = await res.json();
+        setError(errorData.error || "Failed to record your answer");
+      }
+    } catch (error) {
+      console.error("Error responding to guarantee:", error);
+      setError("Failed to record your answer");
+    } finally {
+      setActingId(null);
+    }
+  };
+
+  if (loading) {
+    return <div>Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-4 sm:space-y-6 p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3 sm:gap-4">
+        <Button variant="outline" asChild className="w-full sm:w-auto">
+          <Link href="/dashbaord/loans">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Link>
+        </Button>
+        <div className="flex-1 min-w-0">
+          <h1 className="text-2xl sm:text-3xl font-bold">Guarantees</h1>
+          <p className="text-sm sm:text-base text-muted-foreground mt-1">
+            Loans you have been named as a guarantor on
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      {success && (
+        <Alert>
+          <AlertDescription>{success}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>My Guarantees</CardTitle>
+          <CardDescription>
+            A loan is only disbursed once every guarantor has accepted. You can
+            change your answer until it is disbursed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-0 sm:p-6">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Borrower</TableHead>
+                  <TableHead>Group</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Outstanding</TableHead>
+                  <TableHead>Purpose</TableHead>
+                  <TableHead>Loan Status</TableHead>
+                  <TableHead>Your Answer</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loans.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={8}
+                      className="text-center text-muted-foreground">
+                      You are not guaranteeing any loans
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  loans.map((loan) => {
+                    const { consent, at } = myConsent(loan);
+                    return (
+                      <TableRow key={loan.id}>
+                        <TableCell className="font-medium">
+                          {loan.member.name}
+                          <div className="text-xs text-muted-foreground">
+                            {loan.member.userId}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {loan.cycle?.group?.name ?? "-"}
+                        </TableCell>
+                        <TableCell>{formatMoney(loan.principal)}</TableCell>
+                        <TableCell>
+                          {loan.status === "PENDING"
+                            ? "-"
+                            : formatMoney(loan.remaining)}
+                        </TableCell>
+                        <TableCell>{loan.reason || "-"}</TableCell>
+                        <TableCell>{loan.status}</TableCell>
+                        <TableCell
+                          className={`font-medium ${consentColors[consent]}`}>
+                          {consent}
+                          {at && (
+                            <div className="text-xs text-muted-foreground font-normal">
+                              {format(new Date(at), "dd/MM/yyyy HH:mm")}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {loan.status === "PENDING" && (
+                            <div className="flex gap-2">
+                              {consent !== "ACCEPTED" && (
+                                <Button
+                                  size="sm"
+                                  onClick={() =>
+                                    handleRespond(loan, "ACCEPTED")
+                                  }
+                                  disabled={actingId === loan.id}>
+                                  <Check className="mr-1 h-4 w-4" />
+                                  Accept
+                                </Button>
+                              )}
+                              {consent !== "DECLINED" && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() =>
+                                    handleRespond(loan, "DECLINED")
+                                  }
+                                  disabled={actingId === loan.id}>
+                                  <X className="mr-1 h-4 w-4" />
+                                  Decline
+                                </Button>
+                              )}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { Button } from '@/components/ui/button'
 import Link from 'next/link'
+import { formatMoney } from '@/lib/money'
 
 interface Loan {
   id: string
@@ -51,9 +52,19 @@ export default function LoansPage() {
 
   return (
     <div className="space-y-4 sm:space-y-6 p-4 sm:p-6">
-      <div>
-        <h1 className="text-2xl sm:text-3xl font-bold">Loan Details</h1>
-        <p className="text-sm sm:text-base text-muted-foreground mt-1">View and manage loans</p>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold">Loan Details</h1>
+          <p className="text-sm sm:text-base text-muted-foreground mt-1">View and manage loans</p>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Button asChild variant="outline" className="w-full sm:w-auto">
+            <Link href="/dashbaord/loans/waitlist">Loan Waitlist</Link>
+          </Button>
+          <Button asChild className="w-full sm:w-auto">
+            <Link href="/dashbaord/loans/applications">Loan Applications</Link>
+          </Button>
+        </div>
       </div>
 
       <Card>
@@ -87,8 +98,8 @@ export default function LoansPage() {
                   <TableRow key={loan.id}>
                     <TableCell>{index + 1}</TableCell>
                     <TableCell className="font-medium">{loan.member.name}</TableCell>
-                    <TableCell>₹{loan.principal.toFixed(2)}</TableCell>
-                    <TableCell>₹{loan.remaining.toFixed(2)}</TableCell>
+                    <TableCell>{formatMoney(loan.principal)}</TableCell>
+                    <TableCell>{formatMoney(loan.remaining)}</TableCell>
                     <TableCell>
                       <span className={`px-2 py-1 text-xs rounded whitespace-nowrap ${
                         loan.status === 'COMPLETED' ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' :
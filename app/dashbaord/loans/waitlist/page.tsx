@@ -0,0 +1,382 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ArrowDown, ArrowLeft, ArrowUp, Wallet, X } from "lucide-react";
+import { format } from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import { formatMoney } from "@/lib/money";
+
+interface WaitlistEntry {
+  id: string;
+  priority: number;
+  amount: number;
+  reason: string;
+  createdAt: string;
+  member: { id: string; name: string; userId: string };
+  loan?: {
+    id: string;
+    status: string;
+    reason?: string | null;
+    application?: { id: string } | null;
+  } | null;
+  sequence?: { id: string; week: number } | null;
+  projectedDate: string | null;
+  coveredNow: boolean;
+}
+
+interface CycleWaitlist {
+  cycle: {
+    id: string;
+    cycleNumber: number;
+    isActive: boolean;
+    group: { id: string; name: string } | null;
+  };
+  balance: number;
+  waiting: number;
+  contributionsPerMeeting: number;
+  entries: WaitlistEntry[];
+}
+
+export default function LoanWaitlistPage() {
+  const { user } = useAuth();
+  const isAdmin = user?.role === "ADMIN";
+  const [waitlist, setWaitlist] = useState<CycleWaitlist[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [actingId, setActingId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+
+  useEffect(() => {
+    fetchWaitlist();
+  }, []);
+
+  const fetchWaitlist = async () => {
+    try {
+      const response = await fetch("/api/loans/waitlist");
+      if (response.ok) {
+        const data = await response.json();
+        setWaitlist(data.waitlist);
+      }
+    } catch (error) {
+      console.error("Error fetching loan waitlist:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateEntry = async (
+    entry: WaitlistEntry,
+    body: Record<string, unknown>,
+    successMessage: string
+  ) => {
+    setError("");
+    setSuccess("");
+    setActingId(entry.id);
+    try {
+      const response = await fetch("/api/loans/waitlist", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ entryId: entry.id, ...body }),
+      });
+
+      if (response.ok) {
+        setSuccess(successMessage);
+        await fetchWaitlist();
+        setTimeout(() => setSuccess(""), 3000);
+      } else {
+        const errorData = await response.json();
+        setError(errorData.error || "Failed to update waitlist");
+      }
+    } catch (error) {
+      console.error("Error updating loan waitlist:", error);
+      setError("Failed to update waitlist");
+    } finally {
+      setActingId(null);
+    }
+  };
+
+  const handleCancel = (entry: WaitlistEntry) => {
+    const reason = prompt(
+      `Take ${entry.member.name}'s ${formatMoney(
+        entry.amount
+      )} off the waitlist? Enter a reason:`
+    );
+    if (reason === null) return;
+    if (!reason.trim()) {
+      setError("A reason is required to cancel a waitlist entry");
+      return;
+    }
+    updateEntry(
+      entry,
+      { action: "CANCEL", reason: reason.trim() },
+      "Removed from the waitlist"
+    );
+  };
+
+  const handleDisburse = async (
+    entry: WaitlistEntry,
+    fundOverrideReason?: string
+  ) => {
+    if (
+      !fundOverrideReason &&
+      !confirm(
+        `Disburse ${formatMoney(entry.amount)} to ${entry.member.name}?`
+      )
+    ) {
+      return;
+    }
+
+    setError("");
+    setSuccess("");
+    setActingId(entry.id);
+    try {
+      const response = await fetch("/api/loans/disburse", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...(entry.sequence
+            ? { sequenceId: entry.sequence.id }
+            : { loanId: entry.loan?.id }),
+          fundOverrideReason,
+        }),
+      });
+
+      if (response.ok) {
+        setSuccess("Loan disbursed");
+        await fetchWaitlist();
+        setTimeout(() => setSuccess(""), 3000);
+      } else {
+        const errorData = await response.json();
+        if (errorData.required !== undefined && !fundOverrideReason) {
+          const reason = prompt(
+            `${errorData.error}.\n\nTo disburse it anyway, enter the reason for overriding the fund check:`
+          );
+          if (reason?.trim()) {
+            await handleDisburse(entry, reason.trim());
+            return;
+          }
+        }
+        setError(errorData.error || "Failed to disburse loan");
+      }
+    } catch (error) {
+      console.error("Error disbursing loan:", error);
+      setError("Failed to disburse loan");
+    } finally {
+      setActingId(null);
+    }
+  };
+
+  if (loading) {
+    return <div>Loading...</div>;
+  }
+
+  if (!isAdmin) {
+    return <div>Only admins can view the loan waitlist</div>;
+  }
+
+  return (
+    <div className="space-y-4 sm:space-y-6 p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3 sm:gap-4">
+        <Button variant="outline" asChild className="w-full sm:w-auto">
+          <Link href="/dashbaord/loans">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Link>
+        </Button>
+        <div className="flex-1 min-w-0">
+          <h1 className="text-2xl sm:text-3xl font-bold">Loan Waitlist</h1>
+          <p className="text-sm sm:text-base text-muted-foreground mt-1">
+            Loans the group fund cannot cover yet, in the order they will be
+            paid
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {success && (
+        <Alert>
+          <AlertDescription>{success}</AlertDescription>
+        </Alert>
+      )}
+
+      {waitlist.length === 0 ? (
+        <Card>
+          <CardContent className="py-6 text-center text-muted-foreground">
+            Nothing is waiting for funds
+          </CardContent>
+        </Card>
+      ) : (
+        waitlist.map(
+          ({ cycle, balance, waiting, contributionsPerMeeting, entries }) => (
+            <Card key={cycle.id}>
+              <CardHeader>
+                <CardTitle>
+                  {cycle.group?.name || "Unassigned"} - Cycle #
+                  {cycle.cycleNumber}
+                </CardTitle>
+                <CardDescription>
+                  Fund balance {formatMoney(balance)} &middot; Waiting{" "}
+                  {formatMoney(waiting)} &middot;{" "}
+                  {cycle.isActive
+                    ? `${formatMoney(contributionsPerMeeting)} collected per meeting`
+                    : "Cycle closed - no contributions expected"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="p-0 sm:p-6">
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>#</TableHead>
+                        <TableHead>Member</TableHead>
+                        <TableHead>Amount</TableHead>
+                        <TableHead>For</TableHead>
+                        <TableHead>Waitlisted</TableHead>
+                        <TableHead>Projected Cover</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {entries.map((entry, index) => (
+                        <TableRow key={entry.id}>
+                          <TableCell>{index + 1}</TableCell>
+                          <TableCell className="font-medium">
+                            {entry.member.name}
+                            <div className="text-xs text-muted-foreground">
+                              {entry.member.userId}
+                            </div>
+                          </TableCell>
+                          <TableCell>{formatMoney(entry.amount)}</TableCell>
+                          <TableCell>
+                            {entry.sequence ? (
+                              `Rotation week ${entry.sequence.week}`
+                            ) : entry.loan?.application ? (
+                              <Link
+                                href="/dashbaord/loans/applications"
+                                className="text-blue-600 hover:underline">
+                                Application
+                              </Link>
+                            ) : entry.loan ? (
+                              <Link
+                                href={`/dashbaord/loans/${entry.loan.id}`}
+                                className="text-blue-600 hover:underline">
+                                Pending loan
+                              </Link>
+                            ) : (
+                              "-"
+                            )}
+                            {entry.loan?.reason && (
+                              <div className="text-xs text-muted-foreground">
+                                {entry.loan.reason}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-xs">
+                            {format(new Date(entry.createdAt), "dd/MM/yyyy")}
+                            <div className="text-muted-foreground">
+                              {entry.reason}
+                            </div>
+                          </TableCell>
+                          <TableCell
+                            className={
+                              entry.coveredNow
+                                ? "font-medium text-green-600"
+                                : entry.projectedDate
+                                ? ""
+                                : "text-red-600"
+                            }>
+                            {entry.coveredNow
+                              ? "Covered now"
+                              : entry.projectedDate
+                              ? format(
+                                  new Date(entry.projectedDate),
+                                  "dd/MM/yyyy"
+                                )
+                              : "Not within a year"}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex gap-2">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() =>
+                                  updateEntry(
+                                    entry,
+                                    { action: "MOVE_UP" },
+                                    "Moved up"
+                                  )
+                                }
+                                disabled={
+                                  index === 0 || actingId === entry.id
+                                }>
+                                <ArrowUp className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() =>
+                                  updateEntry(
+                                    entry,
+                                    { action: "MOVE_DOWN" },
+                                    "Moved down"
+                                  )
+                                }
+                                disabled={
+                                  index === entries.length - 1 ||
+                                  actingId === entry.id
+                                }>
+                                <ArrowDown className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                onClick={() => handleDisburse(entry)}
+                                disabled={actingId === entry.id}>
+                                <Wallet className="mr-2 h-4 w-4" />
+                                Disburse
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="destructive"
+                                onClick={() => handleCancel(entry)}
+                                disabled={actingId === entry.id}>
+                                <X className="mr-2 h-4 w-4" />
+                                Cancel
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          )
+        )
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,13 @@
 
 import { useEffect, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
 import {
@@ -33,6 +39,11 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import {
+  CreditFactorList,
+  CreditScoreBadge,
+  type CreditScoreData,
+} from "@/components/members/credit-score";
 
 interface Member {
   id: string;
@@ -53,6 +64,7 @@ export default function MemberDetailPage() {
   const router = useRouter();
   const { user } = useAuth();
   const [member, setMember] = useState<Member | null>(null);
+  const [credit, setCredit] = useState<CreditScoreData | null>(null);
   const [loading, setLoading] = useState(true);
   const [isEditing, setIsEditing] = useState(false);
   const [formData, setFormData] = useState({
@@ -74,9 +86,22 @@ export default function MemberDetailPage() {
   useEffect(() => {
     if (params.id) {
       fetchMember(params.id as string);
+      fetchCredit(params.id as string);
     }
   }, [params.id]);
 
+  const fetchCredit = async (id: string) => {
+    try {
+      const response = await fetch(`/api/members/${id}/credit`);
+      if (response.ok) {
+        const data = await response.json();
+        setCredit(data.credit);
+      }
+    } catch (error) {
+      console.error("Error fetching credit score:", error);
+    }
+  };
+
   const fetchMember = async (id: string) => {
     try {
       const response = await fetch(`/api/members/${id}`);
@@ -492,6 +517,24 @@ export default function MemberDetailPage() {
             </div>
           </CardContent>
         </Card>
+
+        {credit && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-2">
+                <CardTitle>Credit Score</CardTitle>
+                <CreditScoreBadge credit={credit} />
+              </div>
+              <CardDescription>
+                Out of 100, from the member&apos;s repayments, contributions,
+                time in the group, savings and the loans they guaranteed
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <CreditFactorList credit={credit} />
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
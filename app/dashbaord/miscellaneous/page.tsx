@@ -6,6 +6,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Button } from '@/components/ui/button'
 import { useAuth } from '@/hooks/use-auth'
 import { format } from 'date-fns'
+import { formatMoney } from '@/lib/money'
 
 interface Transaction {
   id: string
@@ -87,7 +88,7 @@ export default function MiscellaneousPage() {
                     <TableCell>{index + 1}</TableCell>
                     <TableCell>{format(new Date(transaction.date), 'dd/MM/yyyy')}</TableCell>
                     <TableCell>{transaction.purpose || '-'}</TableCell>
-                    <TableCell>₹{transaction.amount.toFixed(2)}</TableCell>
+                    <TableCell>{formatMoney(transaction.amount)}</TableCell>
                     <TableCell>{transaction.member.name}</TableCell>
                     <TableCell>
                       {transaction.photo ? (
@@ -30,6 +30,7 @@ import {
   Filter,
 } from "lucide-react";
 import { format } from "date-fns";
+import { formatMoney } from "@/lib/money";
 // Using native select for now
 
 interface MemberProfile {
@@ -67,7 +68,7 @@ interface MemberProfile {
     interestRate: number;
     weeks: number;
     currentWeek: number;
-    totalInterest: number;
+    totalInterestPaid: number;
     disbursedAt: string | null;
     completedAt: string | null;
     cycle: {
@@ -208,7 +209,7 @@ export default function ProfilePage() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              ₹{profile.summary.totalSavings.toFixed(2)}
+              {formatMoney(profile.summary.totalSavings)}
             </div>
           </CardContent>
         </Card>
@@ -222,7 +223,7 @@ export default function ProfilePage() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              ₹{profile.summary.totalContributions.toFixed(2)}
+              {formatMoney(profile.summary.totalContributions)}
             </div>
           </CardContent>
         </Card>
@@ -238,7 +239,7 @@ export default function ProfilePage() {
               {profile.summary.activeLoansCount}
             </div>
             <p className="text-xs text-muted-foreground">
-              ₹{profile.summary.totalLoansRemaining.toFixed(2)} remaining
+              {formatMoney(profile.summary.totalLoansRemaining)} remaining
             </p>
           </CardContent>
         </Card>
@@ -307,7 +308,7 @@ export default function ProfilePage() {
                           Weekly Amount
                         </p>
                         <p className="font-medium">
-                          ₹{gm.weeklyAmount.toFixed(2)}
+                          {formatMoney(gm.weeklyAmount)}
                         </p>
                       </div>
                       <div>
@@ -315,7 +316,7 @@ export default function ProfilePage() {
                           Total Contributed
                         </p>
                         <p className="font-medium">
-                          ₹{gm.totalContributed.toFixed(2)}
+                          {formatMoney(gm.totalContributed)}
                         </p>
                       </div>
                     </div>
@@ -367,7 +368,7 @@ export default function ProfilePage() {
                   <option value="all">All Loans</option>
                   {profile.loans.map((loan) => (
                     <option key={loan.id} value={loan.id}>
-                      ₹{loan.principal.toFixed(2)} -{" "}
+                      {formatMoney(loan.principal)} -{" "}
                       {loan.cycle?.group?.name || "No Group"}
                     </option>
                   ))}
@@ -399,7 +400,7 @@ export default function ProfilePage() {
                   {filteredLoans.map((loan) => (
                     <TableRow key={loan.id}>
                       <TableCell className="font-medium">
-                        ₹{loan.principal.toFixed(2)}
+                        {formatMoney(loan.principal)}
                       </TableCell>
                       <TableCell>{loan.cycle?.group?.name || "-"}</TableCell>
                       <TableCell>
@@ -414,11 +415,11 @@ export default function ProfilePage() {
                           {loan.status}
                         </span>
                       </TableCell>
-                      <TableCell>₹{loan.remaining.toFixed(2)}</TableCell>
+                      <TableCell>{formatMoney(loan.remaining)}</TableCell>
                       <TableCell>
                         {loan.currentWeek}/{loan.weeks} weeks
                       </TableCell>
-                      <TableCell>₹{loan.totalInterest.toFixed(2)}</TableCell>
+                      <TableCell>{formatMoney(loan.totalInterestPaid)}</TableCell>
                       <TableCell>
                         <Button
                           variant="outline"
@@ -451,7 +452,7 @@ export default function ProfilePage() {
                   <div className="flex justify-between items-center mb-2">
                     <span className="font-semibold">Total Savings</span>
                     <span className="text-lg font-bold">
-                      ₹{saving.totalAmount.toFixed(2)}
+                      {formatMoney(saving.totalAmount)}
                     </span>
                   </div>
                   {saving.transactions.length > 0 && (
@@ -468,7 +469,7 @@ export default function ProfilePage() {
                               {format(new Date(tx.date), "dd/MM/yyyy")}
                             </span>
                             <span className="font-medium">
-                              +₹{tx.amount.toFixed(2)}
+                              +{formatMoney(tx.amount)}
                             </span>
                           </div>
                         ))}
@@ -0,0 +1,178 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { format } from "date-fns";
+import {
+  ReportFilters,
+  ReportFilterValues,
+  emptyReportFilters,
+  reportQuery,
+} from "@/components/reports/report-filters";
+import { formatMoney } from "@/lib/money";
+
+interface CashBookRow {
+  id: string;
+  date: string;
+  description: string;
+  receipt: number;
+  payment: number;
+  balance: number;
+}
+
+interface CashBook {
+  openingBalance: number;
+  rows: CashBookRow[];
+  totalReceipts: number;
+  totalPayments: number;
+  closingBalance: number;
+}
+
+export default function CashBookPage() {
+  const [cashBook, setCashBook] = useState<CashBook | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    fetchCashBook(emptyReportFilters);
+  }, []);
+
+  const fetchCashBook = async (filters: ReportFilterValues) => {
+    setError("");
+    try {
+      const response = await fetch(
+        `/api/reports/cash-book?${reportQuery(filters)}`
+      );
+      if (response.ok) {
+        const data = await response.json();
+        setCashBook(data.cashBook);
+      } else {
+        const errorData = await response.json();
+        setError(errorData.error || "Failed to fetch cash book");
+      }
+    } catch (error) {
+      console.error("Error fetching cash book:", error);
+      setError("Failed to fetch cash book");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return <div>Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-4 sm:space-y-6 p-4 sm:p-6">
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold">Cash Book</h1>
+        <p className="text-sm sm:text-base text-muted-foreground mt-1">
+          Cash receipts and payments with running balance
+        </p>
+      </div>
+
+      <ReportFilters onApply={fetchCashBook} />
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {cashBook && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Cash Transactions</CardTitle>
+            <CardDescription>
+              Opening {formatMoney(cashBook.openingBalance)} · Closing{" "}
+              {formatMoney(cashBook.closingBalance)}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-0 sm:p-6">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Particulars</TableHead>
+                    <TableHead className="text-right">Receipt</TableHead>
+                    <TableHead className="text-right">Payment</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  <TableRow className="bg-muted/50">
+                    <TableCell />
+                    <TableCell className="font-medium">
+                      Opening Balance
+                    </TableCell>
+                    <TableCell />
+                    <TableCell />
+                    <TableCell className="text-right font-medium">
+                      {formatMoney(cashBook.openingBalance)}
+                    </TableCell>
+                  </TableRow>
+                  {cashBook.rows.length === 0 ? (
+                    <TableRow>
+                      <TableCell
+                        colSpan={5}
+                        className="text-center text-muted-foreground">
+                        No cash transactions found
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    cashBook.rows.map((row) => (
+                      <TableRow key={row.id}>
+                        <TableCell>
+                          {format(new Date(row.date), "dd/MM/yyyy")}
+                        </TableCell>
+                        <TableCell>{row.description}</TableCell>
+                        <TableCell className="text-right text-green-600">
+                          {row.receipt ? formatMoney(row.receipt) : "-"}
+                        </TableCell>
+                        <TableCell className="text-right text-red-600">
+                          {row.payment ? formatMoney(row.payment) : "-"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatMoney(row.balance)}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                  <TableRow className="font-bold border-t-2">
+                    <TableCell />
+                    <TableCell>Closing Balance</TableCell>
+                    <TableCell className="text-right">
+                      {formatMoney(cashBook.totalReceipts)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatMoney(cashBook.totalPayments)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatMoney(cashBook.closingBalance)}
+                    </TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+"use client";
+
+import { Fragment, useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { format } from "date-fns";
+import {
+  ReportFilters,
+  ReportFilterValues,
+  emptyReportFilters,
+  reportQuery,
+} from "@/components/reports/report-filters";
+import { formatMoney } from "@/lib/money";
+
+interface JournalLine {
+  id: string;
+  account: string;
+  debit: number;
+  credit: number;
+}
+
+interface JournalEntry {
+  id: string;
+  date: string;
+  description: string;
+  source: string;
+  lines: JournalLine[];
+}
+
+interface DayBookDay {
+  date: string;
+  entries: JournalEntry[];
+  totalDebit: number;
+  totalCredit: number;
+}
+
+const accountLabel = (account: string) =>
+  account
+    .toLowerCase()
+    .split("_")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+
+export default function DayBookPage() {
+  const [days, setDays] = useState<DayBookDay[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    fetchDayBook(emptyReportFilters);
+  }, []);
+
+  const fetchDayBook = async (filters: ReportFilterValues) => {
+    setError("");
+    try {
+      const response = await fetch(
+        `/api/reports/day-book?${reportQuery(filters)}`
+      );
+      if (response.ok) {
+        const data = await response.json();
+        setDays(data.dayBook.days);
+      } else {
+        const errorData = await response.json();
+        setError(errorData.error || "Failed to fetch day book");
+      }
+    } catch (error) {
+      console.error("Error fetching day book:", error);
+      setError("Failed to fetch day book");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return <div>Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-4 sm:space-y-6 p-4 sm:p-6">
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold">Day Book</h1>
+        <p className="text-sm sm:text-base text-muted-foreground mt-1">
+          All journal entries, day by day
+        </p>
+      </div>
+
+      <ReportFilters onApply={fetchDayBook} />
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {days.length === 0 ? (
+        <Card>
+          <CardContent className="py-10 text-center text-muted-foreground">
+            No journal entries found
+          </CardContent>
+        </Card>
+      ) : (
+        days.map((day) => (
+          <Card key={day.date}>
+            <CardHeader>
+              <CardTitle>{format(new Date(day.date), "dd/MM/yyyy")}</CardTitle>
+              <CardDescription>
+                {day.entries.length} entr{day.entries.length === 1 ? "y" : "ies"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-0 sm:p-6">
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Particulars</TableHead>
+                      <TableHead>Account</TableHead>
+                      <TableHead className="text-right">Debit</TableHead>
+                      <TableHead className="text-right">Credit</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {day.entries.map((entry) => (
+                      <Fragment key={entry.id}>
+                        {entry.lines.map((line, index) => (
+                          <TableRow key={line.id}>
+                            <TableCell className="font-medium">
+                              {index === 0 ? entry.description : ""}
+                            </TableCell>
+                            <TableCell
+                              className={line.credit ? "pl-8" : undefined}>
+                              {accountLabel(line.account)}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {line.debit ? formatMoney(line.debit) : ""}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {line.credit ? formatMoney(line.credit) : ""}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </Fragment>
+                    ))}
+                    <TableRow className="font-bold border-t-2">
+                      <TableCell colSpan={2}>Day Total</TableCell>
+                      <TableCell className="text-right">
+                        {formatMoney(day.totalDebit)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatMoney(day.totalCredit)}
+                      </TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import Link from "next/link";
+import {
+  Card,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+const reports = [
+  {
+    title: "Trial Balance",
+    description: "Debit and credit totals per ledger account",
+    url: "/dashbaord/reports/trial-balance",
+  },
+  {
+    title: "Cash Book",
+    description: "Cash receipts and payments with running balance",
+    url: "/dashbaord/reports/cash-book",
+  },
+  {
+    title: "Day Book",
+    description: "All journal entries, day by day",
+    url: "/dashbaord/reports/day-book",
+  },
+  {
+    title: "Portfolio at Risk",
+    description: "Outstanding loans aged by days in arrears, per group",
+    url: "/dashbaord/reports/portfolio-at-risk",
+  },
+];
+
+export default function ReportsPage() {
+  return (
+    <div className="space-y-4 sm:space-y-6 p-4 sm:p-6">
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold">Reports</h1>
+        <p className="text-sm sm:text-base text-muted-foreground mt-1">
+          Accounting reports from the general ledger and loan book
+        </p>
+      </div>
+
+      <div className="grid gap-4 sm:gap-6 grid-cols-1 md:grid-cols-3">
+        {reports.map((report) => (
+          <Link key={report.url} href={report.url}>
+            <Card className="h-full hover:bg-muted/50 transition-colors">
+              <CardHeader>
+                <CardTitle>{report.title}</CardTitle>
+                <CardDescription>{report.description}</CardDescription>
+              </CardHeader>
+            </Card>
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,427 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Field, FieldLabel } from "@/components/ui/field";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { format } from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import { formatMoney } from "@/lib/money";
+import type { ParBucket } from "@/lib/utils";
+
+interface LoanAtRisk {
+  loanId: string;
+  status: string;
+  member: { id: string; name: string; userId: string };
+  principal: number;
+  remaining: number;
+  arrears: {
+    installmentsDue: number;
+    installmentsPaid: number;
+    weeksInArrears: number;
+    daysInArrears: number;
+    arrears: number;
+    oldestDueDate: string | null;
+    bucket: ParBucket;
+  };
+}
+
+interface GroupPortfolio {
+  group: { id: string; name: string } | null;
+  loans: LoanAtRisk[];
+  outstanding: number;
+  buckets: Record<ParBucket, { loans: number; outstanding: number }>;
+  par: Record<
+    Exclude<ParBucket, "CURRENT">,
+    { outstanding: number; ratio: number }
+  >;
+}
+
+interface PortfolioAtRisk {
+  asOf: string;
+  groups: GroupPortfolio[];
+  totals: GroupPortfolio;
+}
+
+const bucketLabels: Record<ParBucket, string> = {
+  CURRENT: "Current",
+  PAR_1: "1-29 days",
+  PAR_30: "30-59 days",
+  PAR_60: "60-89 days",
+  PAR_90: "90+ days",
+};
+
+const bucketColors: Record<ParBucket, string> = {
+  CURRENT: "text-green-600",
+  PAR_1: "text-yellow-600",
+  PAR_30: "text-orange-600",
+  PAR_60: "text-red-600",
+  PAR_90: "text-red-800",
+};
+
+const parThresholds = [
+  { bucket: "PAR_1", label: "PAR 1" },
+  { bucket: "PAR_30", label: "PAR 30" },
+  { bucket: "PAR_60", label: "PAR 60" },
+  { bucket: "PAR_90", label: "PAR 90" },
+] as const;
+
+const selectClassName =
+  "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+const emptyFilters = { groupId: "", asOf: "" };
+
+const formatRatio = (ratio: number) => `${(ratio * 100).toFixed(1)}%`;
+
+export default function PortfolioAtRiskPage() {
+  const { user } = useAuth();
+  const [report, setReport] = useState<PortfolioAtRisk | null>(null);
+  const [groups, setGroups] = useState<Array<{ id: string; name: string }>>(
+    []
+  );
+  const [filters, setFilters] = useState(emptyFilters);
+  // Filters the report on screen was run with; applying or re-running the
+  // overdue check replaces them, which fetches the report again
+  const [applied, setApplied] = useState(emptyFilters);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+
+  useEffect(() => {
+    const fetchGroups = async () => {
+      try {
+        const response = await fetch("/api/groups");
+        if (response.ok) {
+          const data = await response.json();
+          setGroups(data.groups);
+        }
+      } catch (error) {
+        console.error("Error fetching groups:", error);
+      }
+    };
+    fetchGroups();
+  }, []);
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      try {
+        const params = new URLSearchParams();
+        if (applied.groupId) params.set("groupId", applied.groupId);
+        if (applied.asOf) params.set("asOf", applied.asOf);
+        const response = await fetch(
+          `/api/reports/portfolio-at-risk?${params.toString()}`
+        );
+        if (response.ok) {
+          const data = await response.json();
+          setReport(data.report);
+        } else {
+          const errorData = await response.json();
+          setError(errorData.error || "Failed to fetch portfolio at risk");
+        }
+      } catch (error) {
+        console.error("Error fetching portfolio at risk:", error);
+        setError("Failed to fetch portfolio at risk");
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchReport();
+  }, [applied]);
+
+  const handleRunCheck = async () => {
+    if (
+      !confirm(
+        "Mark every loan past its group's default limit as DEFAULTED? This cannot be undone."
+      )
+    ) {
+      return;
+    }
+
+    setError("");
+    setSuccess("");
+    setRunning(true);
+    try {
+      const response = await fetch("/api/loans/arrears", { method: "POST" });
+      const data = await response.json();
+      if (response.ok) {
+        setSuccess(data.message);
+        setApplied({ ...applied });
+      } else {
+        setError(data.error || "Failed to run overdue check");
+      }
+    } catch (error) {
+      console.error("Error running overdue check:", error);
+      setError("Failed to run overdue check");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  if (loading) {
+    return <div>Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-4 sm:space-y-6 p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold">Portfolio at Risk</h1>
+          <p className="text-sm sm:text-base text-muted-foreground mt-1">
+            Outstanding loans aged by days in arrears
+          </p>
+        </div>
+        {user?.role === "ADMIN" && (
+          <Button
+            variant="outline"
+            className="w-full sm:w-auto"
+            onClick={handleRunCheck}
+            disabled={running}>
+            {running ? "Checking..." : "Run Overdue Check"}
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid gap-4 grid-cols-1 sm:grid-cols-3 items-end">
+            <Field>
+              <FieldLabel htmlFor="groupId">Group</FieldLabel>
+              <select
+                id="groupId"
+                className={selectClassName}
+                value={filters.groupId}
+                onChange={(e) =>
+                  setFilters({ ...filters, groupId: e.target.value })
+                }>
+                <option value="">All groups</option>
+                {groups.map((group) => (
+                  <option key={group.id} value={group.id}>
+                    {group.name}
+                  </option>
+                ))}
+              </select>
+            </Field>
+            <Field>
+              <FieldLabel htmlFor="asOf">As of</FieldLabel>
+              <Input
+                id="asOf"
+                type="date"
+                value={filters.asOf}
+                onChange={(e) =>
+                  setFilters({ ...filters, asOf: e.target.value })
+                }
+              />
+            </Field>
+            <Button
+              onClick={() => {
+                setError("");
+                setApplied(filters);
+              }}>
+              Apply
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      {success && (
+        <Alert>
+          <AlertDescription>{success}</AlertDescription>
+        </Alert>
+      )}
+
+      {report && report.groups.length === 0 && (
+        <Card>
+          <CardContent className="pt-6 text-center text-muted-foreground">
+            No outstanding loans
+          </CardContent>
+        </Card>
+      )}
+
+      {report && report.groups.length > 1 && (
+        <PortfolioSummary title="All Groups" portfolio={report.totals} />
+      )}
+
+      {report?.groups.map((portfolio) => (
+        <div key={portfolio.group?.id ?? "none"} className="space-y-4">
+          <PortfolioSummary
+            title={portfolio.group?.name ?? "Loans outside a group"}
+            portfolio={portfolio}
+          />
+          <Card>
+            <CardHeader>
+              <CardTitle>Loans</CardTitle>
+              <CardDescription>
+                As of {format(new Date(report.asOf), "dd/MM/yyyy")}, most
+                overdue first
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-0 sm:p-6">
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Member</TableHead>
+                      <TableHead className="text-right">Outstanding</TableHead>
+                      <TableHead className="text-right">Arrears</TableHead>
+                      <TableHead>Installments Paid / Due</TableHead>
+                      <TableHead>Oldest Unpaid</TableHead>
+                      <TableHead className="text-right">Weeks Behind</TableHead>
+                      <TableHead className="text-right">Days Behind</TableHead>
+                      <TableHead>Ageing</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {portfolio.loans.map((loan) => (
+                      <TableRow key={loan.loanId}>
+                        <TableCell className="font-medium">
+                          <Link
+                            href={`/dashbaord/loans/${loan.loanId}`}
+                            className="hover:underline">
+                            {loan.member.name}
+                          </Link>
+                          <div className="text-xs text-muted-foreground">
+                            {loan.member.userId}
+                            {loan.status === "DEFAULTED" && (
+                              <span className="ml-2 text-red-600">
+                                DEFAULTED
+                              </span>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatMoney(loan.remaining)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {loan.arrears.arrears
+                            ? formatMoney(loan.arrears.arrears)
+                            : "-"}
+                        </TableCell>
+                        <TableCell>
+                          {loan.arrears.installmentsPaid} /{" "}
+                          {loan.arrears.installmentsDue}
+                        </TableCell>
+                        <TableCell>
+                          {loan.arrears.oldestDueDate
+                            ? format(
+                                new Date(loan.arrears.oldestDueDate),
+                                "dd/MM/yyyy"
+                              )
+                            : "-"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {loan.arrears.weeksInArrears}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {loan.arrears.daysInArrears}
+                        </TableCell>
+                        <TableCell
+                          className={`font-medium ${
+                            bucketColors[loan.arrears.bucket]
+                          }`}>
+                          {bucketLabels[loan.arrears.bucket]}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function PortfolioSummary({
+  title,
+  portfolio,
+}: {
+  title: string;
+  portfolio: GroupPortfolio;
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>
+          {portfolio.loans.length} outstanding loans,{" "}
+          {formatMoney(portfolio.outstanding)} outstanding
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+          {parThresholds.map(({ bucket, label }) => (
+            <div key={bucket}>
+              <div className="text-sm text-muted-foreground">{label}</div>
+              <div className="text-xl font-bold">
+                {formatRatio(portfolio.par[bucket].ratio)}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {formatMoney(portfolio.par[bucket].outstanding)}
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Ageing</TableHead>
+                <TableHead className="text-right">Loans</TableHead>
+                <TableHead className="text-right">Outstanding</TableHead>
+                <TableHead className="text-right">Share</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(Object.keys(bucketLabels) as ParBucket[]).map((bucket) => (
+                <TableRow key={bucket}>
+                  <TableCell className={`font-medium ${bucketColors[bucket]}`}>
+                    {bucketLabels[bucket]}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {portfolio.buckets[bucket].loans}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatMoney(portfolio.buckets[bucket].outstanding)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatRatio(
+                      portfolio.outstanding > 0
+                        ? portfolio.buckets[bucket].outstanding /
+                            portfolio.outstanding
+                        : 0
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,184 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  ReportFilters,
+  ReportFilterValues,
+  emptyReportFilters,
+  reportQuery,
+} from "@/components/reports/report-filters";
+import { formatMoney } from "@/lib/money";
+
+interface TrialBalanceRow {
+  account: string;
+  code: string;
+  name: string;
+  totalDebit: number;
+  totalCredit: number;
+  debitBalance: number;
+  creditBalance: number;
+}
+
+interface TrialBalance {
+  rows: TrialBalanceRow[];
+  totals: {
+    totalDebit: number;
+    totalCredit: number;
+    debitBalance: number;
+    creditBalance: number;
+  };
+}
+
+export default function TrialBalancePage() {
+  const [trialBalance, setTrialBalance] = useState<TrialBalance | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    fetchTrialBalance(emptyReportFilters);
+  }, []);
+
+  const fetchTrialBalance = async (filters: ReportFilterValues) => {
+    setError("");
+    try {
+      const response = await fetch(
+        `/api/reports/trial-balance?${reportQuery(filters)}`
+      );
+      if (response.ok) {
+        const data = await response.json();
+        setTrialBalance(data.trialBalance);
+      } else {
+        const errorData = await response.json();
+        setError(errorData.error || "Failed to fetch trial balance");
+      }
+    } catch (error) {
+      console.error("Error fetching trial balance:", error);
+      setError("Failed to fetch trial balance");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return <div>Loading...</div>;
+  }
+
+  const isBalanced =
+    trialBalance &&
+    trialBalance.totals.debitBalance === trialBalance.totals.creditBalance;
+
+  return (
+    <div className="space-y-4 sm:space-y-6 p-4 sm:p-6">
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold">Trial Balance</h1>
+        <p className="text-sm sm:text-base text-muted-foreground mt-1">
+          Debit and credit totals per ledger account
+        </p>
+      </div>
+
+      <ReportFilters onApply={fetchTrialBalance} />
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {trialBalance && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Accounts</CardTitle>
+            <CardDescription>
+              {isBalanced
+                ? "Debits equal credits"
+                : "Debits and credits do not match"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-0 sm:p-6">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Code</TableHead>
+                    <TableHead>Account</TableHead>
+                    <TableHead className="text-right">Total Debit</TableHead>
+                    <TableHead className="text-right">Total Credit</TableHead>
+                    <TableHead className="text-right">Debit Balance</TableHead>
+                    <TableHead className="text-right">Credit Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {trialBalance.rows.length === 0 ? (
+                    <TableRow>
+                      <TableCell
+                        colSpan={6}
+                        className="text-center text-muted-foreground">
+                        No ledger entries found
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    trialBalance.rows.map((row) => (
+                      <TableRow key={row.account}>
+                        <TableCell>{row.code}</TableCell>
+                        <TableCell className="font-medium">{row.name}</TableCell>
+                        <TableCell className="text-right">
+                          {formatMoney(row.totalDebit)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatMoney(row.totalCredit)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {row.debitBalance
+                            ? formatMoney(row.debitBalance)
+                            : "-"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {row.creditBalance
+                            ? formatMoney(row.creditBalance)
+                            : "-"}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                  {trialBalance.rows.length > 0 && (
+                    <TableRow className="font-bold border-t-2">
+                      <TableCell colSpan={2}>Total</TableCell>
+                      <TableCell className="text-right">
+                        {formatMoney(trialBalance.totals.totalDebit)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatMoney(trialBalance.totals.totalCredit)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatMoney(trialBalance.totals.debitBalance)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatMoney(trialBalance.totals.creditBalance)}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
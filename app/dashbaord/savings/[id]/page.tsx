@@ -8,6 +8,7 @@ import { Button } from '@/components/ui/button'
 import Link from 'next/link'
 import { ArrowLeft } from 'lucide-react'
 import { format } from 'date-fns'
+import { formatMoney } from '@/lib/money'
 
 interface Transaction {
   id: string
@@ -76,7 +77,7 @@ export default function SavingsDetailPage() {
 
       <Card>
         <CardHeader>
-          <CardTitle>Total Savings: ₹{savings.totalAmount.toFixed(2)}</CardTitle>
+          <CardTitle>Total Savings: {formatMoney(savings.totalAmount)}</CardTitle>
         </CardHeader>
         <CardContent>
           <Table>
@@ -100,8 +101,8 @@ export default function SavingsDetailPage() {
                   <TableRow key={transaction.id}>
                     <TableCell>{index + 1}</TableCell>
                     <TableCell>{format(new Date(transaction.date), 'dd/MM/yyyy')}</TableCell>
-                    <TableCell>₹{transaction.amount.toFixed(2)}</TableCell>
-                    <TableCell>₹{transaction.total.toFixed(2)}</TableCell>
+                    <TableCell>{formatMoney(transaction.amount)}</TableCell>
+                    <TableCell>{formatMoney(transaction.total)}</TableCell>
                   </TableRow>
                 ))
               )}
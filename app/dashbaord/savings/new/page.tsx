@@ -10,6 +10,7 @@ import { Alert, AlertDescription } from '@/components/ui/alert'
 import { ArrowLeft, DollarSign, Calendar, User } from 'lucide-react'
 import Link from 'next/link'
 import { useAuth } from '@/hooks/use-auth'
+import { toPaise } from '@/lib/money'
 
 interface Member {
   id: string
@@ -73,7 +74,7 @@ export default function NewSavingsPage() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           memberId: formData.memberId,
-          amount: parseFloat(formData.amount),
+          amount: toPaise(parseFloat(formData.amount)),
           date: formData.date,
         }),
       })
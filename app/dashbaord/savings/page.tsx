@@ -7,6 +7,7 @@ import { Button } from '@/components/ui/button'
 import Link from 'next/link'
 import { useAuth } from '@/hooks/use-auth'
 import { Plus } from 'lucide-react'
+import { formatMoney } from '@/lib/money'
 
 interface Savings {
   id: string
@@ -91,7 +92,7 @@ export default function SavingsPage() {
                     <TableCell>{index + 1}</TableCell>
                     <TableCell className="font-medium">{saving.member.name}</TableCell>
                     <TableCell>{saving.member.userId}</TableCell>
-                    <TableCell>₹{saving.totalAmount.toFixed(2)}</TableCell>
+                    <TableCell>{formatMoney(saving.totalAmount)}</TableCell>
                     <TableCell>
                       <Button variant="outline" size="sm" asChild>
                         <Link href={`/dashbaord/savings/${saving.id}`}>View Details</Link>
@@ -5,7 +5,9 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { Button } from '@/components/ui/button'
 import { useAuth } from '@/hooks/use-auth'
-import { Download } from 'lucide-react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Download, Lock, LockOpen } from 'lucide-react'
+import { format } from 'date-fns'
 
 interface Statement {
   id: string
@@ -14,6 +16,16 @@ interface Statement {
   pdfUrl?: string
 }
 
+interface AccountingPeriod {
+  id: string
+  month: number
+  year: number
+  status: 'OPEN' | 'CLOSED'
+  closedAt?: string | null
+  reopenedAt?: string | null
+  reopenReason?: string | null
+}
+
 const monthNames = [
   'January', 'February', 'March', 'April', 'May', 'June',
   'July', 'August', 'September', 'October', 'November', 'December'
@@ -21,13 +33,88 @@ const monthNames = [
 
 export default function StatementsPage() {
   const [statements, setStatements] = useState<Statement[]>([])
+  const [periods, setPeriods] = useState<AccountingPeriod[]>([])
   const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
   const { user } = useAuth()
 
+  // Default to closing last month
+  const lastMonth = new Date()
+  lastMonth.setDate(1)
+  lastMonth.setMonth(lastMonth.getMonth() - 1)
+  const [closeForm, setCloseForm] = useState({
+    month: lastMonth.getMonth() + 1,
+    year: lastMonth.getFullYear(),
+  })
+
   useEffect(() => {
     fetchStatements()
+    fetchPeriods()
   }, [])
 
+  const fetchPeriods = async () => {
+    try {
+      const response = await fetch('/api/periods')
+      if (response.ok) {
+        const data = await response.json()
+        setPeriods(data.periods)
+      }
+    } catch (error) {
+      console.error('Error fetching periods:', error)
+    }
+  }
+
+  const handleClose = async (month: number, year: number) => {
+    if (!confirm(`Close ${monthNames[month - 1]} ${year}? Nothing can be posted into it until it is reopened.`)) {
+      return
+    }
+
+    setError('')
+    try {
+      const response = await fetch('/api/periods', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ month, year }),
+      })
+      if (response.ok) {
+        await fetchPeriods()
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Failed to close period')
+      }
+    } catch (error) {
+      console.error('Error closing period:', error)
+      setError('Failed to close period')
+    }
+  }
+
+  const handleReopen = async (period: AccountingPeriod) => {
+    const reason = prompt(`Reopen ${monthNames[period.month - 1]} ${period.year}? Statements already published for it may no longer match. Enter a reason:`)
+    if (reason === null) return
+    if (!reason.trim()) {
+      setError('A reason is required to reopen a period')
+      return
+    }
+
+    setError('')
+    try {
+      const response = await fetch('/api/periods/reopen', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ month: period.month, year: period.year, reason: reason.trim() }),
+      })
+      if (response.ok) {
+        await fetchPeriods()
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Failed to reopen period')
+      }
+    } catch (error) {
+      console.error('Error reopening period:', error)
+      setError('Failed to reopen period')
+    }
+  }
+
   const fetchStatements = async () => {
     try {
       const response = await fetch('/api/statements')
@@ -105,6 +192,95 @@ export default function StatementsPage() {
             </Table>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Accounting Periods</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            {user?.role === 'ADMIN' && (
+              <div className="flex gap-2">
+                <select
+                  className="flex h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+                  value={closeForm.month}
+                  onChange={(e) => setCloseForm({ ...closeForm, month: parseInt(e.target.value) })}
+                >
+                  {monthNames.map((name, index) => (
+                    <option key={name} value={index + 1}>{name}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  className="flex h-9 w-24 rounded-md border border-input bg-background px-3 py-1 text-sm"
+                  value={closeForm.year}
+                  onChange={(e) => setCloseForm({ ...closeForm, year: parseInt(e.target.value) || closeForm.year })}
+                />
+                <Button size="sm" onClick={() => handleClose(closeForm.month, closeForm.year)}>
+                  <Lock className="mr-2 h-4 w-4" />
+                  Close Month
+                </Button>
+              </div>
+            )}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Month</TableHead>
+                  <TableHead>Status</TableHead>
+                  {user?.role === 'ADMIN' && <TableHead />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {periods.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center text-muted-foreground">
+                      No closed periods
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  periods.map((period) => (
+                    <TableRow key={period.id}>
+                      <TableCell className="font-medium">
+                        {monthNames[period.month - 1]} {period.year}
+                      </TableCell>
+                      <TableCell>
+                        {period.status === 'CLOSED' ? (
+                          <span className="text-red-600">
+                            Closed{period.closedAt && ` on ${format(new Date(period.closedAt), 'dd/MM/yyyy')}`}
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground">
+                            Reopened{period.reopenedAt && ` on ${format(new Date(period.reopenedAt), 'dd/MM/yyyy')}`}
+                            {period.reopenReason && ` - ${period.reopenReason}`}
+                          </span>
+                        )}
+                      </TableCell>
+                      {user?.role === 'ADMIN' && (
+                        <TableCell>
+                          {period.status === 'CLOSED' ? (
+                            <Button variant="outline" size="sm" onClick={() => handleReopen(period)}>
+                              <LockOpen className="mr-2 h-4 w-4" />
+                              Reopen
+                            </Button>
+                          ) : (
+                            <Button variant="outline" size="sm" onClick={() => handleClose(period.month, period.year)}>
+                              <Lock className="mr-2 h-4 w-4" />
+                              Close
+                            </Button>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
       </div>
     </div>
   )
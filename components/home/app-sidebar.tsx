@@ -29,6 +29,7 @@ import {
   RotateCcw,
   Building2,
   User,
+  BookOpen,
 } from "lucide-react";
 
 export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
@@ -66,7 +67,11 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
       title: "Loan Details",
       url: "/dashbaord/loans",
       icon: CreditCard,
-      items: [],
+      items: [
+        { title: "All Loans", url: "/dashbaord/loans" },
+        { title: "Applications", url: "/dashbaord/loans/applications" },
+        { title: "Guarantees", url: "/dashbaord/loans/guarantees" },
+      ],
     },
     {
       title: "Loan Cycles",
@@ -86,6 +91,16 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
       icon: FileText,
       items: [],
     },
+    {
+      title: "Reports",
+      url: "/dashbaord/reports",
+      icon: BookOpen,
+      items: [
+        { title: "Trial Balance", url: "/dashbaord/reports/trial-balance" },
+        { title: "Cash Book", url: "/dashbaord/reports/cash-book" },
+        { title: "Day Book", url: "/dashbaord/reports/day-book" },
+      ],
+    },
     {
       title: "Events",
       url: "/dashbaord/events",
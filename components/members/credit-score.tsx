@@ -0,0 +1,64 @@
+"use client";
+
+import type { CreditRating, CreditScore } from "@/lib/credit";
+
+// Credit score as returned by the API (dates as strings)
+export type CreditScoreData = Omit<CreditScore, "asOf"> & { asOf: string };
+
+const ratingColors: Record<CreditRating, string> = {
+  EXCELLENT: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  GOOD: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
+  FAIR: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+  POOR: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+};
+
+export function CreditScoreBadge({ credit }: { credit: CreditScoreData }) {
+  return (
+    <span className="inline-flex items-center gap-2">
+      <span className="text-lg font-bold">{credit.score}</span>
+      <span
+        className={`px-2 py-0.5 text-xs rounded ${ratingColors[credit.rating]}`}>
+        {credit.rating}
+      </span>
+    </span>
+  );
+}
+
+// Points earned by each factor, with what they were worked out from
+export function CreditFactorList({
+  credit,
+  compact = false,
+}: {
+  credit: CreditScoreData;
+  compact?: boolean;
+}) {
+  return (
+    <div className={compact ? "space-y-1" : "space-y-3"}>
+      {credit.factors.map((factor) => (
+        <div key={factor.key}>
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <span className={compact ? "text-xs" : "font-medium"}>
+              {factor.label}
+            </span>
+            <span className={compact ? "text-xs" : "font-medium"}>
+              {factor.points}/{factor.weight}
+            </span>
+          </div>
+          {!compact && (
+            <>
+              <div className="h-2 w-full rounded bg-muted mt-1">
+                <div
+                  className="h-2 rounded bg-primary"
+                  style={{ width: `${Math.round(factor.score * 100)}%` }}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                {factor.detail}
+              </p>
+            </>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Field, FieldLabel } from "@/components/ui/field";
+
+export interface ReportFilterValues {
+  groupId: string;
+  cycleId: string;
+  from: string;
+  to: string;
+}
+
+export const emptyReportFilters: ReportFilterValues = {
+  groupId: "",
+  cycleId: "",
+  from: "",
+  to: "",
+};
+
+// Query string for the /api/reports endpoints
+export function reportQuery(filters: ReportFilterValues) {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+  return params.toString();
+}
+
+const selectClassName =
+  "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+export function ReportFilters({
+  onApply,
+}: {
+  onApply: (filters: ReportFilterValues) => void;
+}) {
+  const [filters, setFilters] = useState<ReportFilterValues>(emptyReportFilters);
+  const [groups, setGroups] = useState<Array<{ id: string; name: string }>>(
+    []
+  );
+  const [cycles, setCycles] = useState<
+    Array<{ id: string; cycleNumber: number; groupId?: string | null }>
+  >([]);
+
+  useEffect(() => {
+    const fetchOptions = async () => {
+      try {
+        const [groupsResponse, cyclesResponse] = await Promise.all([
+          fetch("/api/groups"),
+          fetch("/api/cycles"),
+        ]);
+        if (groupsResponse.ok) {
+          const data = await groupsResponse.json();
+          setGroups(data.groups);
+        }
+        if (cyclesResponse.ok) {
+          const data = await cyclesResponse.json();
+          setCycles(data.cycles);
+        }
+      } catch (error) {
+        console.error("Error fetching report filters:", error);
+      }
+    };
+    fetchOptions();
+  }, []);
+
+  const visibleCycles = filters.groupId
+    ? cycles.filter((c) => c.groupId === filters.groupId)
+    : cycles;
+
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <div className="grid gap-4 grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 items-end">
+          <Field>
+            <FieldLabel htmlFor="groupId">Group</FieldLabel>
+            <select
+              id="groupId"
+              className={selectClassName}
+              value={filters.groupId}
+              onChange={(e) =>
+                setFilters({ ...filters, groupId: e.target.value, cycleId: "" })
+              }>
+              <option value="">All groups</option>
+              {groups.map((group) => (
+                <option key={group.id} value={group.id}>
+                  {group.name}
+                </option>
+              ))}
+            </select>
+          </Field>
+          <Field>
+            <FieldLabel htmlFor="cycleId">Cycle</FieldLabel>
+            <select
+              id="cycleId"
+              className={selectClassName}
+              value={filters.cycleId}
+              onChange={(e) =>
+                setFilters({ ...filters, cycleId: e.target.value })
+              }>
+              <option value="">All cycles</option>
+              {visibleCycles.map((cycle) => (
+                <option key={cycle.id} value={cycle.id}>
+                  Cycle #{cycle.cycleNumber}
+                </option>
+              ))}
+            </select>
+          </Field>
+          <Field>
+            <FieldLabel htmlFor="from">From</FieldLabel>
+            <Input
+              id="from"
+              type="date"
+              value={filters.from}
+              onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+            />
+          </Field>
+          <Field>
+            <FieldLabel htmlFor="to">To</FieldLabel>
+            <Input
+              id="to"
+              type="date"
+              value={filters.to}
+              onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+            />
+          </Field>
+          <Button onClick={() => onApply(filters)}>Apply</Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,230 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import { recordAudit } from "./audit";
+import { sumMoney } from "./money";
+import {
+  calculateArrears,
+  loanSchedule,
+  meetingPausesOf,
+  PAR_BUCKETS,
+  type LoanArrears,
+  type ParBucket,
+} from "./utils";
+
+// ==================== Arrears ====================
+
+const outstandingLoanInclude = {
+  member: { select: { id: true, name: true, userId: true } },
+  moratoriums: true,
+  cycle: { include: { group: { include: { holidays: true } } } },
+} as const;
+
+type OutstandingLoan = Prisma.LoanGetPayload<{ include: typeof outstandingLoanInclude }>;
+
+export interface LoanAtRisk {
+  loanId: string;
+  status: string;
+  member: { id: string; name: string; userId: string };
+  principal: number;
+  remaining: number;
+  disbursedAt: Date | null;
+  arrears: LoanArrears;
+}
+
+export interface GroupPortfolioAtRisk {
+  group: { id: string; name: string } | null; // null for loans outside a group
+  loans: LoanAtRisk[];
+  outstanding: number; // Principal owed on all active and defaulted loans
+  buckets: Record<ParBucket, { loans: number; outstanding: number }>;
+  // PAR n: outstanding principal of loans n or more days in arrears, and its
+  // share of the whole portfolio
+  par: Record<
+    Exclude<ParBucket, "CURRENT">,
+    { outstanding: number; ratio: number }
+  >;
+}
+
+// Loans still being collected: active and defaulted. Written-off loans are
+// out of the portfolio.
+async function findOutstandingLoans(
+  db: Prisma.TransactionClient,
+  filters: { groupId?: string; status?: "ACTIVE" } = {}
+): Promise<OutstandingLoan[]> {
+  const { groupId, status } = filters;
+  return db.loan.findMany({
+    where: {
+      status: status ?? { in: ["ACTIVE", "DEFAULTED"] },
+      ...(groupId && { cycle: { is: { groupId } } }),
+    },
+    include: outstandingLoanInclude,
+    orderBy: { disbursedAt: "asc" },
+  });
+}
+
+function arrearsOf(loan: OutstandingLoan, asOf: Date): LoanArrears {
+  return calculateArrears(
+    loanSchedule(loan),
+    {
+      ...loan,
+      meetingDay: loan.cycle?.group?.meetingDay,
+      pauses: meetingPausesOf(loan),
+    },
+    asOf
+  );
+}
+
+/**
+ * Portfolio-at-risk report: outstanding loans aged by days in arrears, per
+ * group
+ * @param db - Prisma client or transaction client
+ * @param filters - Optional group, and the date arrears are worked out at
+ * @returns One entry per group with outstanding loans, plus totals across
+ *   them
+ */
+export async function getPortfolioAtRisk(
+  db: Prisma.TransactionClient,
+  filters: { groupId?: string; asOf: Date }
+) {
+  const loans = await findOutstandingLoans(db, { groupId: filters.groupId });
+
+  const byGroup = new Map<
+    string,
+    { group: GroupPortfolioAtRisk["group"]; loans: LoanAtRisk[] }
+  >();
+  for (const loan of loans) {
+    const group = loan.cycle?.group ?? null;
+    const key = group?.id ?? "";
+    if (!byGroup.has(key)) {
+      byGroup.set(key, {
+        group: group && { id: group.id, name: group.name },
+        loans: [],
+      });
+    }
+    byGroup.get(key)?.loans.push({
+      loanId: loan.id,
+      status: loan.status,
+      member: loan.member,
+      principal: loan.principal,
+      remaining: loan.remaining,
+      disbursedAt: loan.disbursedAt,
+      arrears: arrearsOf(loan, filters.asOf),
+    });
+  }
+
+  const groups = [...byGroup.values()]
+    .map(({ group, loans }) => summarisePortfolio(group, loans))
+    .sort((a, b) => (a.group?.name ?? "").localeCompare(b.group?.name ?? ""));
+
+  return {
+    asOf: filters.asOf,
+    groups,
+    totals: summarisePortfolio(null, groups.flatMap((g) => g.loans)),
+  };
+}
+
+function summarisePortfolio(
+  group: GroupPortfolioAtRisk["group"],
+  loans: LoanAtRisk[]
+): GroupPortfolioAtRisk {
+  const outstanding = sumMoney(loans.map((l) => l.remaining));
+
+  const buckets = Object.fromEntries(
+    PAR_BUCKETS.map(({ bucket }) => {
+      const inBucket = loans.filter((l) => l.arrears.bucket === bucket);
+      return [
+        bucket,
+        {
+          loans: inBucket.length,
+          outstanding: sumMoney(inBucket.map((l) => l.remaining)),
+        },
+      ];
+    })
+  ) as GroupPortfolioAtRisk["buckets"];
+
+  const par = Object.fromEntries(
+    PAR_BUCKETS.filter(({ days }) => days > 0).map(({ bucket, days }) => {
+      const atRisk = sumMoney(
+        loans
+          .filter((l) => l.arrears.daysInArrears >= days)
+          .map((l) => l.remaining)
+      );
+      return [
+        bucket,
+        {
+          outstanding: atRisk,
+          ratio: outstanding > 0 ? atRisk / outstanding : 0,
+        },
+      ];
+    })
+  ) as GroupPortfolioAtRisk["par"];
+
+  return {
+    group,
+    loans: [...loans].sort(
+      (a, b) => b.arrears.daysInArrears - a.arrears.daysInArrears
+    ),
+    outstanding,
+    buckets,
+    par,
+  };
+}
+
+/**
+ * Overdue check: mark loans DEFAULTED once they are too far in arrears
+ * A loan is defaulted when its days in arrears reach its group's
+ * defaultAfterDays; groups with 0 never default loans automatically. Each
+ * default is written to the audit log with the arrears behind it.
+ * @param db - Prisma client; each default is written in its own transaction
+ * @param asOf - Date arrears are worked out at
+ * @param userId - Admin who ran the check, or null for a scheduled run
+ * @returns Loans checked and the loans defaulted
+ */
+export async function flagDefaultedLoans(
+  db: PrismaClient,
+  asOf: Date,
+  userId: string | null
+) {
+  const loans = await findOutstandingLoans(db, { status: "ACTIVE" });
+  const defaulted: LoanAtRisk[] = [];
+
+  for (const loan of loans) {
+    const defaultAfterDays = loan.cycle?.group?.defaultAfterDays ?? 0;
+    if (defaultAfterDays <= 0) continue;
+
+    const arrears = arrearsOf(loan, asOf);
+    if (arrears.daysInArrears < defaultAfterDays) continue;
+
+    await db.$transaction(async (tx) => {
+      await tx.loan.update({
+        where: { id: loan.id },
+        data: { status: "DEFAULTED" },
+      });
+      await recordAudit(tx, {
+        action: "LOAN_AUTO_DEFAULTED",
+        entityType: "Loan",
+        entityId: loan.id,
+        reason: `${arrears.daysInArrears} days in arrears (group rule: ${defaultAfterDays} days)`,
+        details: {
+          status: { from: "ACTIVE", to: "DEFAULTED" },
+          asOf: asOf.toISOString(),
+          daysInArrears: arrears.daysInArrears,
+          weeksInArrears: arrears.weeksInArrears,
+          arrears: arrears.arrears,
+          remaining: loan.remaining,
+        },
+        userId,
+      });
+    });
+
+    defaulted.push({
+      loanId: loan.id,
+      status: "DEFAULTED",
+      member: loan.member,
+      principal: loan.principal,
+      remaining: loan.remaining,
+      disbursedAt: loan.disbursedAt,
+      arrears,
+    });
+  }
+
+  return { checked: loans.length, defaulted };
+}
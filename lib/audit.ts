@@ -0,0 +1,35 @@
+import { Prisma } from "@prisma/client";
+
+// ==================== Audit Log ====================
+
+export interface AuditLogInput {
+  action: string;
+  entityType: string;
+  entityId: string;
+  reason?: string | null;
+  details?: Prisma.InputJsonValue;
+  userId?: string | null;
+}
+
+/**
+ * Record who changed what and why
+ * @param db - Prisma client or transaction client, so the log is written
+ * together with the change it describes
+ * @param input - Action, affected record, reason and before/after details
+ * @returns The created audit log entry
+ */
+export async function recordAudit(
+  db: Prisma.TransactionClient,
+  input: AuditLogInput
+) {
+  return db.auditLog.create({
+    data: {
+      action: input.action,
+      entityType: input.entityType,
+      entityId: input.entityId,
+      reason: input.reason || null,
+      details: input.details,
+      userId: input.userId || null,
+    },
+  });
+}
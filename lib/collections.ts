@@ -0,0 +1,31 @@
+import { Prisma } from "@prisma/client";
+import { sumMoney } from "./money";
+
+// ==================== Weekly Collections ====================
+
+/**
+ * Refresh a weekly collection's total and completion from its paid payments
+ * @param db - Prisma client or transaction client
+ * @param collectionId - Collection to refresh
+ * @returns Total collected in paise
+ */
+export async function syncCollectionTotal(
+  db: Prisma.TransactionClient,
+  collectionId: string
+) {
+  const collection = await db.weeklyCollection.findUniqueOrThrow({
+    where: { id: collectionId },
+    include: { payments: { where: { status: "PAID" } } },
+  });
+  const totalCollected = sumMoney(collection.payments.map((p) => p.amount));
+
+  await db.weeklyCollection.update({
+    where: { id: collectionId },
+    data: {
+      totalCollected,
+      isCompleted: totalCollected >= (collection.expectedAmount || 0),
+    },
+  });
+
+  return totalCollected;
+}
@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import { Prisma } from "@prisma/client";
+import { creditRatingOf, getCreditScore } from "./credit";
+
+const day = (date: number) => new Date(2025, 0, date);
+
+// Just the reads getCreditScore makes; a write would fail the test
+function readOnlyDb(data: {
+  member: object | null;
+  collections?: object[];
+  guaranteed?: object[];
+}) {
+  return {
+    member: { findUnique: async () => data.member },
+    weeklyCollection: { findMany: async () => data.collections ?? [] },
+    loan: { findMany: async () => data.guaranteed ?? [] },
+  } as unknown as Prisma.TransactionClient;
+}
+
+const newMember = {
+  id: "member-1",
+  savings: [],
+  groupMembers: [],
+  loans: [],
+};
+
+const pointsOf = (
+  score: NonNullable<Awaited<ReturnType<typeof getCreditScore>>>
+) => Object.fromEntries(score.factors.map((f) => [f.key, f.points]));
+
+describe("creditRatingOf", () => {
+  it("bands scores into ratings", () => {
+    expect(creditRatingOf(100)).toBe("EXCELLENT");
+    expect(creditRatingOf(80)).toBe("EXCELLENT");
+    expect(creditRatingOf(79)).toBe("GOOD");
+    expect(creditRatingOf(65)).toBe("GOOD");
+    expect(creditRatingOf(50)).toBe("FAIR");
+    expect(creditRatingOf(49)).toBe("POOR");
+  });
+});
+
+describe("getCreditScore", () => {
+  it("returns null for a member that does not exist", async () => {
+    expect(
+      await getCreditScore(readOnlyDb({ member: null }), "missing", day(21))
+    ).toBeNull();
+  });
+
+  it("scores a member with no history as neutral", async () => {
+    const score = await getCreditScore(
+      readOnlyDb({ member: newMember }),
+      "member-1",
+      day(21)
+    );
+    expect(pointsOf(score!)).toEqual({
+      REPAYMENT: 18,
+      CONTRIBUTIONS: 13,
+      TENURE: 0,
+      SAVINGS: 0,
+      GUARANTEES: 10,
+    });
+    expect(score!.score).toBe(41);
+    expect(score!.rating).toBe("POOR");
+  });
+
+  it("works out installments of loans that have none stored", async () => {
+    const loan = {
+      id: "loan-1",
+      principal: 20000,
+      weeks: 2,
+      interestMethod: "FLAT",
+      interestRate: 0,
+      interestRatePeriod: "WEEKLY",
+      schedule: null,
+      openingWeek: 0,
+      totalPrincipalPaid: 10000,
+      disbursedAt: day(6),
+      moratoriums: [],
+      cycle: null,
+      installments: [],
+      transactions: [{ date: day(13), amount: 10000, interest: 0 }],
+    };
+    const score = await getCreditScore(
+      readOnlyDb({ member: { ...newMember, loans: [loan] } }),
+      "member-1",
+      day(21)
+    );
+    const repayment = score!.factors.find((f) => f.key === "REPAYMENT")!;
+    // Installment 1 was repaid on its due date, installment 2 fell due on
+    // the 20th and is unpaid
+    expect(repayment.score).toBe(0.5);
+    expect(repayment.detail).toBe(
+      "1 of 2 installments on time, 0 late, 1 overdue"
+    );
+  });
+
+  it("does not count what a top-up carried over as overdue", async () => {
+    const installment = (week: number, status: string) => ({
+      week,
+      dueDate: day(6 + 7 * week),
+      status,
+    });
+    const loan = {
+      id: "loan-1",
+      status: "COMPLETED",
+      topUp: { id: "loan-2" },
+      disbursedAt: day(6),
+      installments: [installment(1, "PAID"), installment(2, "PENDING")],
+      transactions: [],
+    };
+    const score = await getCreditScore(
+      readOnlyDb({ member: { ...newMember, loans: [loan] } }),
+      "member-1",
+      day(21)
+    );
+    const repayment = score!.factors.find((f) => f.key === "REPAYMENT")!;
+    expect(repayment.score).toBe(1);
+    expect(repayment.detail).toBe(
+      "1 of 1 installment on time, 0 late, 0 overdue"
+    );
+  });
+
+  it("counts contributions paid on time, late and not at all", async () => {
+    const member = {
+      ...newMember,
+      groupMembers: [
+        {
+          groupId: "group-1",
+          isActive: true,
+          joiningDate: day(1),
+          weeklyAmount: 10000,
+        },
+      ],
+    };
+    const collections = [
+      { collectionDate: day(6), payments: [{ paymentDate: day(6) }] },
+      { collectionDate: day(13), payments: [{ paymentDate: day(27) }] },
+      { collectionDate: day(20), payments: [] },
+    ];
+    const score = await getCreditScore(
+      readOnlyDb({ member, collections }),
+      "member-1",
+      day(28)
+    );
+    const contributions = score!.factors.find(
+      (f) => f.key === "CONTRIBUTIONS"
+    )!;
+    expect(contributions.score).toBe(0.5);
+    expect(contributions.detail).toBe(
+      "1 of 3 weeks paid on time, 1 late, 1 unpaid"
+    );
+  });
+
+  it("marks down guarantees of loans that went bad", async () => {
+    const score = await getCreditScore(
+      readOnlyDb({
+        member: newMember,
+        guaranteed: [{ status: "ACTIVE" }, { status: "WRITTEN_OFF" }],
+      }),
+      "member-1",
+      day(21)
+    );
+    expect(pointsOf(score!).GUARANTEES).toBe(5);
+  });
+});
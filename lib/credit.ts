@@ -0,0 +1,287 @@
+import { Prisma } from "@prisma/client";
+import { loanCalendarInclude } from "./installments";
+import { DEFAULT_WEEKLY_AMOUNT, formatMoney, sumMoney } from "./money";
+import { allocateInstallments, loanSchedule, meetingPausesOf } from "./utils";
+
+// ==================== Credit Score ====================
+// A 0-100 score to help decide who gets the next loan, built from the
+// member's record in the group: installments repaid on schedule, weekly
+// contributions paid, time in the group, savings held and loans they
+// guaranteed that went bad. Each factor scores 0-1 and is worth a fixed
+// number of points.
+
+export type CreditFactorKey =
+  | "REPAYMENT"
+  | "CONTRIBUTIONS"
+  | "TENURE"
+  | "SAVINGS"
+  | "GUARANTEES";
+
+export type CreditRating = "EXCELLENT" | "GOOD" | "FAIR" | "POOR";
+
+export interface CreditFactor {
+  key: CreditFactorKey;
+  label: string;
+  weight: number; // Points the factor is worth
+  score: number; // 0-1
+  points: number; // Points earned, weight x score rounded
+  detail: string;
+}
+
+export interface CreditScore {
+  memberId: string;
+  asOf: Date;
+  score: number; // 0-100, the sum of the factors' points
+  rating: CreditRating;
+  factors: CreditFactor[];
+}
+
+const CREDIT_WEIGHTS: Record<CreditFactorKey, number> = {
+  REPAYMENT: 35,
+  CONTRIBUTIONS: 25,
+  TENURE: 15,
+  SAVINGS: 15,
+  GUARANTEES: 10,
+};
+
+const LATE_CREDIT = 0.5; // An installment or contribution paid late earns half
+const NO_HISTORY = 0.5; // A factor with nothing to go on yet scores neutral
+const CONTRIBUTION_GRACE_DAYS = 7; // Paid before the next meeting counts as on time
+const FULL_TENURE_MONTHS = 24;
+const FULL_SAVINGS_WEEKS = 26; // Savings worth half a year of contributions
+const GUARANTEE_DEFAULT_PENALTY = 0.5; // Per guaranteed loan that went bad
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Rating band for a score
+ * @param score - Credit score, 0-100
+ * @returns EXCELLENT (80+), GOOD (65+), FAIR (50+) or POOR
+ */
+export function creditRatingOf(score: number): CreditRating {
+  if (score >= 80) return "EXCELLENT";
+  if (score >= 65) return "GOOD";
+  if (score >= 50) return "FAIR";
+  return "POOR";
+}
+
+function factor(
+  key: CreditFactorKey,
+  label: string,
+  score: number,
+  detail: string
+): CreditFactor {
+  const clamped = Math.min(1, Math.max(0, score));
+  const weight = CREDIT_WEIGHTS[key];
+  return {
+    key,
+    label,
+    weight,
+    score: clamped,
+    points: Math.round(weight * clamped),
+    detail,
+  };
+}
+
+const plural = (count: number, word: string) =>
+  `${count} ${word}${count === 1 ? "" : "s"}`;
+
+/**
+ * Work out a member's credit score
+ * Loans disbursed before installments were stored are judged on the
+ * installments worked out from their schedule; nothing is written.
+ * @param db - Prisma client or transaction client
+ * @param memberId - Member to score
+ * @param asOf - Date the record is judged at (defaults to now)
+ * @returns The score, its rating and the breakdown by factor, or null if the
+ *   member does not exist
+ */
+export async function getCreditScore(
+  db: Prisma.TransactionClient,
+  memberId: string,
+  asOf: Date = new Date()
+): Promise<CreditScore | null> {
+  const member = await db.member.findUnique({
+    where: { id: memberId },
+    include: {
+      savings: true,
+      groupMembers: true,
+      loans: {
+        where: { disbursedAt: { not: null } },
+        include: {
+          ...loanCalendarInclude,
+          topUp: { select: { id: true } },
+          installments: true,
+          transactions: {
+            where: { type: "REPAYMENT", reversedAt: null },
+            select: { date: true, amount: true, interest: true },
+          },
+        },
+      },
+    },
+  });
+  if (!member) return null;
+
+  // Installments repaid by their due date, against every installment that
+  // has fallen due or been paid. A closed loan owes nothing more: what a
+  // top-up closed was carried over to the top-up loan.
+  const installments = member.loans.flatMap((loan) => {
+    const closed = loan.status === "COMPLETED" || !!loan.topUp;
+    const loanInstallments =
+      loan.installments.length > 0 || !loan.disbursedAt
+        ? loan.installments
+        : allocateInstallments(
+            loanSchedule(loan),
+            {
+              ...loan,
+              disbursedAt: loan.disbursedAt,
+              meetingDay: loan.cycle?.group?.meetingDay,
+              pauses: meetingPausesOf(loan),
+              toppedUp: closed && !!loan.topUp,
+            },
+            loan.transactions
+          );
+    return closed
+      ? loanInstallments.filter(
+          (i) => i.status === "PAID" || i.status === "PAID_LATE"
+        )
+      : loanInstallments;
+  });
+  const paidOnTime = installments.filter((i) => i.status === "PAID").length;
+  const paidLate = installments.filter((i) => i.status === "PAID_LATE").length;
+  const missed = installments.filter(
+    (i) =>
+      (i.status === "PENDING" || i.status === "PARTIAL") && i.dueDate <= asOf
+  ).length;
+  const installmentsCounted = paidOnTime + paidLate + missed;
+  const repayment = factor(
+    "REPAYMENT",
+    "Loan repayments",
+    installmentsCounted > 0
+      ? (paidOnTime + paidLate * LATE_CREDIT) / installmentsCounted
+      : NO_HISTORY,
+    installmentsCounted > 0
+      ? `${paidOnTime} of ${plural(
+          installmentsCounted,
+          "installment"
+        )} on time, ${paidLate} late, ${missed} overdue`
+      : "No installments due yet"
+  );
+
+  // Weekly collections held since the member joined each of their groups
+  const memberships = member.groupMembers.filter((gm) => gm.isActive);
+  const collections = memberships.length
+    ? await db.weeklyCollection.findMany({
+        where: {
+          collectionDate: { lte: asOf },
+          OR: memberships.map((gm) => ({
+            groupId: gm.groupId,
+            collectionDate: { gte: gm.joiningDate },
+          })),
+        },
+        include: {
+          payments: { where: { memberId, status: "PAID" } },
+        },
+      })
+    : [];
+  let contributedOnTime = 0;
+  let contributedLate = 0;
+  for (const collection of collections) {
+    const payment = collection.payments[0];
+    if (!payment) continue;
+    const daysLate =
+      (payment.paymentDate.getTime() - collection.collectionDate.getTime()) /
+      DAY_MS;
+    if (daysLate <= CONTRIBUTION_GRACE_DAYS) contributedOnTime++;
+    else contributedLate++;
+  }
+  const contributionsMissed =
+    collections.length - contributedOnTime - contributedLate;
+  const contributions = factor(
+    "CONTRIBUTIONS",
+    "Weekly contributions",
+    collections.length > 0
+      ? (contributedOnTime + contributedLate * LATE_CREDIT) /
+          collections.length
+      : NO_HISTORY,
+    collections.length > 0
+      ? `${contributedOnTime} of ${plural(
+          collections.length,
+          "week"
+        )} paid on time, ${contributedLate} late, ${contributionsMissed} unpaid`
+      : "No collections since joining"
+  );
+
+  // Longest membership, in whole months
+  const firstJoined = member.groupMembers.reduce<Date | null>(
+    (earliest, gm) =>
+      !earliest || gm.joiningDate < earliest ? gm.joiningDate : earliest,
+    null
+  );
+  const months = firstJoined
+    ? Math.max(
+        0,
+        Math.floor((asOf.getTime() - firstJoined.getTime()) / (30 * DAY_MS))
+      )
+    : 0;
+  const tenure = factor(
+    "TENURE",
+    "Time in the group",
+    months / FULL_TENURE_MONTHS,
+    firstJoined
+      ? `${plural(months, "month")} since joining (full marks at ${FULL_TENURE_MONTHS})`
+      : "Not a member of any group"
+  );
+
+  // Savings against half a year of the member's weekly contributions
+  const savingsBalance = sumMoney(member.savings.map((s) => s.totalAmount));
+  const weeklyAmount =
+    sumMoney(memberships.map((gm) => gm.weeklyAmount)) ||
+    DEFAULT_WEEKLY_AMOUNT;
+  const savingsTarget = weeklyAmount * FULL_SAVINGS_WEEKS;
+  const savings = factor(
+    "SAVINGS",
+    "Savings balance",
+    savingsBalance / savingsTarget,
+    `${formatMoney(savingsBalance)} saved (full marks at ${formatMoney(
+      savingsTarget
+    )})`
+  );
+
+  // Loans the member stood behind that defaulted or were written off
+  const guaranteed = await db.loan.findMany({
+    where: {
+      OR: [
+        { guarantor1Id: memberId, guarantor1Consent: { not: "DECLINED" } },
+        { guarantor2Id: memberId, guarantor2Consent: { not: "DECLINED" } },
+      ],
+      disbursedAt: { not: null },
+    },
+    select: { status: true },
+  });
+  const guaranteeDefaults = guaranteed.filter(
+    (loan) => loan.status === "DEFAULTED" || loan.status === "WRITTEN_OFF"
+  ).length;
+  const guarantees = factor(
+    "GUARANTEES",
+    "Guaranteed loans",
+    1 - guaranteeDefaults * GUARANTEE_DEFAULT_PENALTY,
+    guaranteed.length > 0
+      ? `${guaranteeDefaults} of ${plural(
+          guaranteed.length,
+          "guaranteed loan"
+        )} defaulted`
+      : "Has not guaranteed a loan"
+  );
+
+  const factors = [repayment, contributions, tenure, savings, guarantees];
+  const score = factors.reduce((sum, f) => sum + f.points, 0);
+
+  return {
+    memberId,
+    asOf,
+    score,
+    rating: creditRatingOf(score),
+    factors,
+  };
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  drawRotationOrder,
+  generateDrawSeed,
+  verifyRotationDraw,
+} from "./draw";
+
+const members = ["a", "b", "c", "d", "e", "f"];
+
+describe("generateDrawSeed", () => {
+  it("returns 32 hex characters, fresh each time", () => {
+    const seed = generateDrawSeed();
+    expect(seed).toMatch(/^[0-9a-f]{32}$/);
+    expect(generateDrawSeed()).not.toBe(seed);
+  });
+});
+
+describe("drawRotationOrder", () => {
+  it("gives the order recorded for a seed", () => {
+    // Draws already recorded must re-run to the same order
+    expect(drawRotationOrder("meeting-42", members)).toEqual([
+      "f",
+      "c",
+      "a",
+      "b",
+      "d",
+      "e",
+    ]);
+  });
+
+  it("does not depend on the order the members are passed in", () => {
+    expect(drawRotationOrder("meeting-42", [...members].reverse())).toEqual(
+      drawRotationOrder("meeting-42", members)
+    );
+  });
+
+  it("draws every member exactly once", () => {
+    const order = drawRotationOrder(generateDrawSeed(), members);
+    expect([...order].sort()).toEqual(members);
+  });
+
+  it("gives another order for another seed", () => {
+    expect(drawRotationOrder("meeting-43", members)).not.toEqual(
+      drawRotationOrder("meeting-42", members)
+    );
+  });
+
+  it("handles groups of one and none", () => {
+    expect(drawRotationOrder("seed", ["a"])).toEqual(["a"]);
+    expect(drawRotationOrder("seed", [])).toEqual([]);
+  });
+});
+
+describe("verifyRotationDraw", () => {
+  it("accepts the order the seed produces", () => {
+    const seed = generateDrawSeed();
+    expect(
+      verifyRotationDraw({
+        seed,
+        memberIds: members,
+        order: drawRotationOrder(seed, members),
+      })
+    ).toBe(true);
+  });
+
+  it("rejects an order that was changed", () => {
+    const order = drawRotationOrder("meeting-42", members);
+    [order[0], order[1]] = [order[1], order[0]];
+    expect(
+      verifyRotationDraw({ seed: "meeting-42", memberIds: members, order })
+    ).toBe(false);
+  });
+
+  it("rejects an order with a member left out", () => {
+    expect(
+      verifyRotationDraw({
+        seed: "meeting-42",
+        memberIds: members,
+        order: drawRotationOrder("meeting-42", members).slice(1),
+      })
+    ).toBe(false);
+  });
+});
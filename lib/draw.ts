@@ -0,0 +1,53 @@
+import { createHash, randomBytes } from "crypto";
+
+// ==================== Rotation Draw ====================
+// Drawing lots for a cycle's rotation order, reproducibly. The eligible
+// members are sorted by id and shuffled with Fisher-Yates, taking each swap
+// position from SHA-256("<seed>:<step>"). Anyone holding the seed and the
+// member list can re-run the draw - here or with any SHA-256 tool - and must
+// get the same order.
+
+/**
+ * Pick a fresh seed for a draw
+ * @returns 32 hex characters of randomness
+ */
+export function generateDrawSeed(): string {
+  return randomBytes(16).toString("hex");
+}
+
+/**
+ * Shuffle members into a rotation order from a seed
+ * @param seed - Recorded seed; the same seed and members give the same order
+ * @param memberIds - Members to draw, in any order
+ * @returns Member ids in the drawn order, first week first
+ */
+export function drawRotationOrder(seed: string, memberIds: string[]): string[] {
+  const order = [...memberIds].sort();
+
+  for (let i = order.length - 1; i > 0; i--) {
+    // First 6 bytes of the digest as a number; the modulo bias is negligible
+    // for groups of a few dozen members
+    const digest = createHash("sha256").update(`${seed}:${i}`).digest();
+    const j = digest.readUIntBE(0, 6) % (i + 1);
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+
+  return order;
+}
+
+/**
+ * Re-run a recorded draw
+ * @param draw - Seed, eligible members and the order that was saved
+ * @returns Whether the saved order is what the seed produces
+ */
+export function verifyRotationDraw(draw: {
+  seed: string;
+  memberIds: string[];
+  order: string[];
+}): boolean {
+  const expected = drawRotationOrder(draw.seed, draw.memberIds);
+  return (
+    expected.length === draw.order.length &&
+    expected.every((memberId, index) => memberId === draw.order[index])
+  );
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { fundShortfallMessage, projectFundCoverage } from "./funds";
+
+describe("fundShortfallMessage", () => {
+  it("states what is available and what is required", () => {
+    expect(
+      fundShortfallMessage({
+        balance: 50000,
+        reserved: 0,
+        available: 50000,
+        required: 100000,
+      })
+    ).toBe(
+      "Insufficient funds in group pool - ₹500.00 available, ₹1,000.00 required"
+    );
+  });
+
+  it("mentions what the waitlist holds, and never a negative amount", () => {
+    expect(
+      fundShortfallMessage({
+        balance: 10000,
+        reserved: 20000,
+        available: -10000,
+        required: 5000,
+      })
+    ).toBe(
+      "Insufficient funds in group pool - ₹0.00 available after ₹200.00 held for the waitlist, ₹50.00 required"
+    );
+  });
+});
+
+describe("projectFundCoverage", () => {
+  const asOf = new Date(2025, 0, 6);
+  const week1 = new Date(2025, 0, 13);
+  const week2 = new Date(2025, 0, 20);
+
+  it("covers requests in order as inflows arrive", () => {
+    expect(
+      projectFundCoverage(
+        1000,
+        // Inflows in any order
+        [
+          { date: week2, amount: 500 },
+          { date: week1, amount: 500 },
+        ],
+        [800, 500, 2000],
+        asOf
+      )
+    ).toEqual([asOf, week1, null]);
+  });
+
+  it("covers everything now when the balance is enough", () => {
+    expect(
+      projectFundCoverage(5000, [{ date: week1, amount: 500 }], [1000, 4000], asOf)
+    ).toEqual([asOf, asOf]);
+  });
+
+  it("never covers a request ahead of one that is not covered", () => {
+    expect(
+      projectFundCoverage(0, [{ date: week1, amount: 500 }], [1000, 100], asOf)
+    ).toEqual([null, null]);
+  });
+});
@@ -0,0 +1,571 @@
+import { Prisma } from "@prisma/client";
+import { recordAudit } from "./audit";
+import {
+  getAccountBalance,
+  postJournalEntry,
+  syncGroupFund,
+  syncSavings,
+} from "./ledger";
+import {
+  allocateProportionally,
+  DEFAULT_WEEKLY_AMOUNT,
+  formatMoney,
+  sumMoney,
+  type Money,
+} from "./money";
+import { collectionDateOf } from "./utils";
+
+// ==================== Fund Availability ====================
+
+/** Meetings ahead the waitlist projection looks (about a year) */
+export const PROJECTION_WEEKS = 52;
+
+export interface FundShortfall {
+  balance: Money; // Cash in the cycle's group fund
+  reserved: Money; // Held for waitlisted requests ahead of this one
+  available: Money; // balance - reserved
+  required: Money;
+}
+
+// A pending loan or rotation slot being paid out; either may already be on
+// the waitlist
+interface FundRequest {
+  cycleId?: string | null;
+  amount: Money;
+  loanId?: string | null;
+  sequenceId?: string | null;
+}
+
+function waitlistEntryOf(request: FundRequest) {
+  if (request.loanId) return { loanId: request.loanId };
+  if (request.sequenceId) return { sequenceId: request.sequenceId };
+  return null;
+}
+
+/**
+ * Check that a cycle's group fund can pay out an amount
+ * Every route that pays a loan out of a group fund calls this before writing.
+ * Waitlisted requests are paid in priority order, so what they need is held
+ * back: a request on the waitlist sees the fund less the entries ahead of
+ * it, anything else sees the fund less the whole waitlist.
+ * @param db - Prisma client or transaction client
+ * @param request - Cycle paying out, amount, and the pending loan or rotation
+ *   slot being paid
+ * @returns The shortfall, or null if the fund covers it (or the cycle has no
+ *   group fund)
+ */
+export async function checkFundAvailable(
+  db: Prisma.TransactionClient,
+  request: FundRequest
+): Promise<FundShortfall | null> {
+  if (!request.cycleId) return null;
+
+  const fund = await db.groupFund.findUnique({
+    where: { cycleId: request.cycleId },
+  });
+  if (!fund) return null;
+
+  const entryOf = waitlistEntryOf(request);
+  const own = entryOf
+    ? await db.loanWaitlistEntry.findFirst({
+        where: { ...entryOf, cycleId: request.cycleId, status: "WAITING" },
+      })
+    : null;
+  const ahead = await db.loanWaitlistEntry.findMany({
+    where: {
+      cycleId: request.cycleId,
+      status: "WAITING",
+      ...(own && { priority: { lt: own.priority }, id: { not: own.id } }),
+    },
+    select: { amount: true },
+  });
+
+  const reserved = sumMoney(ahead.map((entry) => entry.amount));
+  const available = fund.totalFunds - reserved;
+  if (available >= request.amount) return null;
+
+  return {
+    balance: fund.totalFunds,
+    reserved,
+    available,
+    required: request.amount,
+  };
+}
+
+/**
+ * Error message for a payout the fund cannot cover
+ * @param shortfall - Result of checkFundAvailable
+ * @returns e.g. "Insufficient funds in group pool - ₹500.00 available, ₹1,000.00 required"
+ */
+export function fundShortfallMessage(shortfall: FundShortfall): string {
+  const held =
+    shortfall.reserved > 0
+      ? ` after ${formatMoney(shortfall.reserved)} held for the waitlist`
+      : "";
+  return `Insufficient funds in group pool - ${formatMoney(
+    Math.max(shortfall.available, 0)
+  )} available${held}, ${formatMoney(shortfall.required)} required`;
+}
+
+/**
+ * Record an admin paying a loan out although the fund could not cover it
+ * @param db - Prisma client or transaction client, so the log is written
+ *   together with the disbursement
+ * @param input - Loan paid out, the shortfall overridden, the admin's reason
+ */
+export async function recordFundOverride(
+  db: Prisma.TransactionClient,
+  input: {
+    loanId: string;
+    cycleId?: string | null;
+    shortfall: FundShortfall;
+    reason: string;
+    userId: string;
+  }
+) {
+  return recordAudit(db, {
+    action: "FUND_CHECK_OVERRIDDEN",
+    entityType: "Loan",
+    entityId: input.loanId,
+    reason: input.reason,
+    details: { cycleId: input.cycleId ?? null, ...input.shortfall },
+    userId: input.userId,
+  });
+}
+
+/**
+ * Put a pending loan or rotation slot the fund cannot cover on the cycle's
+ * waitlist, after the entries already waiting
+ * @param db - Prisma client or transaction client
+ * @param input - What is waiting, for whom, and why
+ * @returns The entry (the existing one if it is already waiting)
+ */
+export async function addToWaitlist(
+  db: Prisma.TransactionClient,
+  input: {
+    cycleId: string;
+    memberId: string;
+    amount: Money;
+    loanId?: string | null;
+    sequenceId?: string | null;
+    reason: string;
+    userId: string;
+  }
+) {
+  const entryOf = waitlistEntryOf(input);
+  if (entryOf) {
+    const existing = await db.loanWaitlistEntry.findFirst({
+      where: { ...entryOf, status: "WAITING" },
+    });
+    if (existing) return existing;
+  }
+
+  const last = await db.loanWaitlistEntry.findFirst({
+    where: { cycleId: input.cycleId, status: "WAITING" },
+    orderBy: { priority: "desc" },
+  });
+
+  const entry = await db.loanWaitlistEntry.create({
+    data: {
+      cycleId: input.cycleId,
+      memberId: input.memberId,
+      loanId: input.loanId || null,
+      sequenceId: input.sequenceId || null,
+      amount: input.amount,
+      priority: last ? last.priority + 1 : 1,
+      reason: input.reason,
+      createdById: input.userId,
+    },
+  });
+
+  await recordAudit(db, {
+    action: "LOAN_WAITLISTED",
+    entityType: "LoanWaitlistEntry",
+    entityId: entry.id,
+    reason: input.reason,
+    details: {
+      cycleId: input.cycleId,
+      loanId: entry.loanId,
+      sequenceId: entry.sequenceId,
+      amount: input.amount,
+      priority: entry.priority,
+    },
+    userId: input.userId,
+  });
+
+  return entry;
+}
+
+/**
+ * Take a pending loan or rotation slot off the waitlist once it is paid out
+ * @param db - Prisma client or transaction client
+ * @param request - The pending loan or rotation slot disbursed
+ * @param fundedAt - Disbursal date
+ */
+export async function markWaitlistFunded(
+  db: Prisma.TransactionClient,
+  request: { loanId?: string | null; sequenceId?: string | null },
+  fundedAt: Date
+) {
+  const filters = [
+    request.loanId && { loanId: request.loanId },
+    request.sequenceId && { sequenceId: request.sequenceId },
+  ].filter((filter): filter is { loanId: string } | { sequenceId: string } =>
+    Boolean(filter)
+  );
+  if (filters.length === 0) return;
+
+  await db.loanWaitlistEntry.updateMany({
+    where: { status: "WAITING", OR: filters },
+    data: { status: "FUNDED", fundedAt },
+  });
+}
+
+/**
+ * Project when a fund covers each request on its waitlist
+ * Money comes in as dated inflows; requests are paid in order, each once the
+ * balance plus everything received so far covers it and all before it.
+ * @param balance - Cash in the fund now
+ * @param inflows - Expected receipts, in any order
+ * @param amounts - Requests in priority order
+ * @param asOf - Date of the projection
+ * @returns For each request, asOf when the fund covers it now, the date of
+ *   the inflow that covers it, or null if it is not covered by the last
+ *   inflow
+ */
+export function projectFundCoverage(
+  balance: Money,
+  inflows: Array<{ date: Date; amount: Money }>,
+  amounts: Money[],
+  asOf: Date
+): Array<Date | null> {
+  const incoming = [...inflows].sort(
+    (a, b) => a.date.getTime() - b.date.getTime()
+  );
+
+  let cash = balance;
+  let next = 0;
+  let needed = 0;
+  return amounts.map((amount) => {
+    needed += amount;
+    if (cash >= needed && next === 0) return asOf;
+    while (cash < needed && next < incoming.length) {
+      cash += incoming[next].amount;
+      next++;
+    }
+    return cash >= needed ? incoming[next - 1]?.date ?? asOf : null;
+  });
+}
+
+/**
+ * Waitlisted requests with when their cycle's fund is projected to cover
+ * them
+ * The projection counts the active members' weekly contributions at each
+ * meeting still to come (skipping holidays) and the installments of the
+ * cycle's loans not yet due. Overdue installments are left out.
+ * @param db - Prisma client or transaction client
+ * @param filters - Optional group or cycle, and the date of the projection
+ * @returns One entry per cycle with requests waiting, entries in priority
+ *   order
+ */
+export async function getWaitlist(
+  db: Prisma.TransactionClient,
+  filters: { groupId?: string; cycleId?: string; asOf: Date }
+) {
+  const { groupId, cycleId, asOf } = filters;
+  const entries = await db.loanWaitlistEntry.findMany({
+    where: {
+      status: "WAITING",
+      ...(cycleId && { cycleId }),
+      ...(groupId && { cycle: { is: { groupId } } }),
+    },
+    include: {
+      member: { select: { id: true, name: true, userId: true } },
+      loan: {
+        select: {
+          id: true,
+          status: true,
+          reason: true,
+          application: { select: { id: true } },
+        },
+      },
+      sequence: { select: { id: true, week: true } },
+    },
+    orderBy: [{ priority: "asc" }, { createdAt: "asc" }],
+  });
+
+  const cycleIds = [...new Set(entries.map((entry) => entry.cycleId))];
+  const cycles = await db.loanCycle.findMany({
+    where: { id: { in: cycleIds } },
+    include: {
+      groupFund: true,
+      group: {
+        include: {
+          holidays: true,
+          members: { where: { isActive: true } },
+        },
+      },
+      loans: {
+        where: { status: { in: ["ACTIVE", "DEFAULTED"] } },
+        include: { installments: true },
+      },
+    },
+    orderBy: { startDate: "asc" },
+  });
+
+  return cycles.map((cycle) => {
+    const group = cycle.group;
+
+    // Contributions at each meeting still to come
+    const contributions =
+      cycle.isActive && group
+        ? sumMoney(
+            group.members.map(
+              (gm) =>
+                gm.weeklyAmount || group.weeklyAmount || DEFAULT_WEEKLY_AMOUNT
+            )
+          )
+        : 0;
+    const meetings: Date[] = [];
+    for (
+      let week = 1;
+      contributions > 0 && meetings.length < PROJECTION_WEEKS && week < 5000;
+      week++
+    ) {
+      const date = collectionDateOf(
+        cycle.startDate,
+        week,
+        group?.meetingDay,
+        group?.holidays
+      );
+      if (date > asOf) meetings.push(date);
+    }
+    const horizon = new Date(asOf);
+    horizon.setDate(horizon.getDate() + PROJECTION_WEEKS * 7);
+
+    const inflows = [
+      ...meetings.map((date) => ({ date, amount: contributions })),
+      ...cycle.loans.flatMap((loan) =>
+        loan.installments
+          .filter((i) => i.dueDate > asOf && i.dueDate <= horizon)
+          .map((i) => ({
+            date: i.dueDate,
+            amount:
+              i.principalDue + i.interestDue - i.principalPaid - i.interestPaid,
+          }))
+          .filter((inflow) => inflow.amount > 0)
+      ),
+    ];
+
+    const waiting = entries.filter((entry) => entry.cycleId === cycle.id);
+    const balance = cycle.groupFund?.totalFunds ?? 0;
+    const projected = projectFundCoverage(
+      balance,
+      inflows,
+      waiting.map((entry) => entry.amount),
+      asOf
+    );
+
+    return {
+      cycle: {
+        id: cycle.id,
+        cycleNumber: cycle.cycleNumber,
+        isActive: cycle.isActive,
+        group: group ? { id: group.id, name: group.name } : null,
+      },
+      balance,
+      waiting: sumMoney(waiting.map((entry) => entry.amount)),
+      contributionsPerMeeting: contributions,
+      entries: waiting.map((entry, index) => ({
+        ...entry,
+        projectedDate: projected[index],
+        coveredNow: projected[index] === asOf,
+      })),
+    };
+  });
+}
+
+// ==================== Share-out ====================
+
+/**
+ * Share a finished cycle's fund out to its members' savings
+ * A cycle is finished once it is closed and none of its loans is pending,
+ * active or defaulted, so this is called when a cycle is closed and when a
+ * loan in a closed cycle is repaid or written off, or brings in a
+ * recovery. The principal its loans repaid that has not been shared out yet
+ * is split in proportion to what each member contributed, and all of the
+ * cycle's cash leaves the group fund.
+ * @param db - Prisma client or transaction client
+ * @param input - Cycle, date and description of the entry, what triggered it
+ *   (the loan that finished it, or the cycle) and the user
+ * @returns Amount shared out, or null if the cycle is not finished
+ */
+export async function shareOutCycleFund(
+  db: Prisma.TransactionClient,
+  input: {
+    cycleId: string;
+    date: Date;
+    description: string;
+    sourceId: string;
+    userId: string;
+  }
+): Promise<Money | null> {
+  const cycle = await db.loanCycle.findUnique({
+    where: { id: input.cycleId },
+    include: {
+      group: {
+        include: {
+          members: {
+            where: { isActive: true },
+            include: { member: true },
+          },
+        },
+      },
+      loans: { select: { id: true, status: true, totalPrincipalPaid: true } },
+    },
+  });
+  if (
+    !cycle ||
+    cycle.isActive ||
+    cycle.loans.some((loan) =>
+      ["PENDING", "ACTIVE", "DEFAULTED"].includes(loan.status)
+    )
+  ) {
+    return null;
+  }
+
+  // Shared out before: on completion of a loan, before a cycle held many
+  // loans, or before a share-out was reversed and the cycle finished again
+  const shareOuts = await db.journalEntry.findMany({
+    where: { source: "SAVINGS_DISTRIBUTION", cycleId: cycle.id },
+    include: { lines: true },
+  });
+  const reversals = await db.journalEntry.findMany({
+    where: { reversesEntryId: { in: shareOuts.map((entry) => entry.id) } },
+    select: { reversesEntryId: true },
+  });
+  const reversed = new Set(reversals.map((entry) => entry.reversesEntryId));
+  const sharedOut = sumMoney(
+    shareOuts
+      .filter((entry) => !reversed.has(entry.id))
+      .flatMap((entry) => entry.lines)
+      .filter((line) => line.account === "MEMBER_CONTRIBUTIONS")
+      .map((line) => line.debit)
+  );
+
+  // Loans finished before the ledger was kept have no journal lines; their
+  // principal was shared out when they completed and is already in the
+  // opening savings balances, even once merged into a cycle with later loans
+  const loansInLedger = await db.journalLine.findMany({
+    where: { loanId: { in: cycle.loans.map((loan) => loan.id) } },
+    select: { loanId: true },
+    distinct: ["loanId"],
+  });
+  const inLedger = new Set(loansInLedger.map((line) => line.loanId));
+  const principalCollected = Math.max(
+    sumMoney(
+      cycle.loans
+        .filter((loan) => inLedger.has(loan.id))
+        .map((loan) => loan.totalPrincipalPaid)
+    ) - sharedOut,
+    0
+  );
+
+  // The cycle's group members; without a group, everyone who has saved or
+  // contributed
+  const members =
+    cycle.group && cycle.group.members.length > 0
+      ? cycle.group.members.map((gm) => gm.member)
+      : await db.member.findMany({
+          where: {
+            OR: [
+              { savings: { some: {} } },
+              { collectionPayments: { some: {} } },
+            ],
+          },
+        });
+
+  // Principal is shared in proportion to each member's paid contributions
+  const contributed: Money[] = [];
+  for (const member of members) {
+    const paid = await db.collectionPayment.aggregate({
+      _sum: { amount: true },
+      where: { memberId: member.id, status: "PAID" },
+    });
+    contributed.push(paid._sum.amount || 0);
+  }
+  const shares =
+    principalCollected > 0
+      ? allocateProportionally(principalCollected, contributed)
+      : members.map(() => 0);
+  const distributions = members
+    .map((member, index) => ({
+      memberId: member.id,
+      savingsAmount: shares[index],
+    }))
+    .filter((d) => d.savingsAmount > 0);
+  const totalDistributed = sumMoney(distributions.map((d) => d.savingsAmount));
+
+  // All of the cycle's cash leaves the group fund: the distributed share
+  // becomes member savings, and the fund itself is emptied
+  const fundBalance = await getAccountBalance(db, "CASH", {
+    cycleId: cycle.id,
+  });
+
+  if (totalDistributed > 0 || fundBalance !== 0) {
+    await postJournalEntry(db, {
+      date: input.date,
+      description: input.description,
+      source: "SAVINGS_DISTRIBUTION",
+      sourceId: input.sourceId,
+      groupId: cycle.groupId,
+      cycleId: cycle.id,
+      createdById: input.userId,
+      lines: [
+        {
+          account: "CASH",
+          debit: Math.max(-fundBalance, 0),
+          credit: Math.max(fundBalance, 0),
+        },
+        {
+          account: "CASH",
+          cycleId: null,
+          debit: Math.max(fundBalance, 0),
+          credit: Math.max(-fundBalance, 0),
+        },
+        { account: "MEMBER_CONTRIBUTIONS", debit: totalDistributed },
+        ...distributions.map((d) => ({
+          account: "MEMBER_SAVINGS" as const,
+          cycleId: null,
+          memberId: d.memberId,
+          credit: d.savingsAmount,
+        })),
+      ],
+    });
+  }
+
+  for (const distribution of distributions) {
+    const savings =
+      (await db.savings.findFirst({
+        where: { memberId: distribution.memberId },
+      })) ??
+      (await db.savings.create({
+        data: { memberId: distribution.memberId, totalAmount: 0 },
+      }));
+
+    // Savings total is derived from the member's savings in the ledger
+    const newTotal = await syncSavings(db, savings.id, distribution.memberId);
+    await db.savingsTransaction.create({
+      data: {
+        savingsId: savings.id,
+        date: input.date,
+        amount: distribution.savingsAmount,
+        total: newTotal,
+      },
+    });
+  }
+
+  await syncGroupFund(db, cycle.id);
+
+  return totalDistributed;
+}
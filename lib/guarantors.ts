@@ -0,0 +1,124 @@
+import { Prisma } from "@prisma/client";
+import { formatMoney } from "./money";
+import type { GuarantorRules } from "./utils";
+
+// ==================== Guarantors ====================
+
+/**
+ * Check proposed guarantors against a group's guarantor rules
+ * Every route that names guarantors on a loan calls this before writing.
+ * Guarantees a guarantor has declined don't count towards their limits; a
+ * defaulted loan still does until it is repaid or written off.
+ * @param db - Prisma client or transaction client
+ * @param loan - Borrower, proposed guarantors and amount to be guaranteed;
+ *   loanId leaves the loan itself out when it is already saved, and
+ *   topUpOfId the loan a top-up will close
+ * @param rules - The group's guarantor rules
+ * @returns An error message, or null if the guarantors are allowed
+ */
+export async function checkGuarantors(
+  db: Prisma.TransactionClient,
+  loan: {
+    borrowerId: string;
+    guarantorIds: Array<string | null | undefined>;
+    amount: number;
+    loanId?: string;
+    topUpOfId?: string | null;
+  },
+  rules: GuarantorRules
+): Promise<string | null> {
+  const guarantorIds = loan.guarantorIds.filter((id): id is string => !!id);
+  const excludedLoanIds = [loan.loanId, loan.topUpOfId].filter(
+    (id): id is string => !!id
+  );
+
+  if (guarantorIds.includes(loan.borrowerId)) {
+    return "A member cannot guarantee their own loan";
+  }
+  if (new Set(guarantorIds).size !== guarantorIds.length) {
+    return "The two guarantors must be different members";
+  }
+
+  for (const guarantorId of guarantorIds) {
+    const guarantor = await db.member.findUnique({
+      where: { id: guarantorId },
+      include: { savings: true },
+    });
+    if (!guarantor) {
+      return "Guarantor not found";
+    }
+
+    if (rules.maxActiveGuarantees <= 0 && rules.savingsMultiple <= 0) {
+      continue;
+    }
+
+    const guaranteed = await db.loan.findMany({
+      where: {
+        ...(excludedLoanIds.length > 0 && { id: { notIn: excludedLoanIds } }),
+        status: { in: ["PENDING", "ACTIVE", "DEFAULTED"] },
+        OR: [
+          { guarantor1Id: guarantorId, guarantor1Consent: { not: "DECLINED" } },
+          { guarantor2Id: guarantorId, guarantor2Consent: { not: "DECLINED" } },
+        ],
+      },
+      select: { remaining: true },
+    });
+
+    if (
+      rules.maxActiveGuarantees > 0 &&
+      guaranteed.length >= rules.maxActiveGuarantees
+    ) {
+      return `${guarantor.name} already guarantees ${guaranteed.length} outstanding loan${
+        guaranteed.length === 1 ? "" : "s"
+      } (limit ${rules.maxActiveGuarantees})`;
+    }
+
+    if (rules.savingsMultiple > 0) {
+      const savings = guarantor.savings.reduce(
+        (sum, s) => sum + s.totalAmount,
+        0
+      );
+      const exposure =
+        guaranteed.reduce((sum, l) => sum + l.remaining, 0) + loan.amount;
+      if (exposure > savings * rules.savingsMultiple) {
+        return `${guarantor.name} would guarantee ${formatMoney(
+          exposure
+        )}, more than ${rules.savingsMultiple}× their savings of ${formatMoney(
+          savings
+        )}`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check that every guarantor on a loan has accepted
+ * @param loan - Loan with its guarantors and their answers
+ * @returns An error message naming who is holding it up, or null if the loan
+ *   can be disbursed
+ */
+export function guarantorConsentError(loan: {
+  guarantor1: { name: string } | null;
+  guarantor1Consent: string;
+  guarantor2: { name: string } | null;
+  guarantor2Consent: string;
+}): string | null {
+  const guarantors = [
+    { guarantor: loan.guarantor1, consent: loan.guarantor1Consent },
+    { guarantor: loan.guarantor2, consent: loan.guarantor2Consent },
+  ];
+
+  for (const { guarantor, consent } of guarantors) {
+    if (!guarantor) continue;
+    if (consent === "DECLINED") {
+      return `${guarantor.name} declined to guarantee this loan - choose another guarantor`;
+    }
+    if (consent !== "ACCEPTED") {
+      return `Waiting for ${guarantor.name} to accept the guarantee`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,122 @@
+import { createHash } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+
+// ==================== Idempotent Requests ====================
+// Clients send a unique Idempotency-Key header with a write request and reuse
+// it when retrying. The first response is stored with the key; a replay with
+// the same key and body gets that response back without running again.
+
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+
+const MAX_KEY_LENGTH = 255;
+
+type IdempotencyClient = Prisma.TransactionClient;
+
+/**
+ * Read the Idempotency-Key header
+ * @param request - Incoming request
+ * @returns The key (null when not sent), or an error message for a bad key
+ */
+export function readIdempotencyKey(
+  request: NextRequest
+): { key: string | null } | { error: string } {
+  const header = request.headers.get(IDEMPOTENCY_HEADER);
+  if (header === null) return { key: null };
+
+  const key = header.trim();
+  if (!key || key.length > MAX_KEY_LENGTH) {
+    return {
+      error: `${IDEMPOTENCY_HEADER} must be 1-${MAX_KEY_LENGTH} characters`,
+    };
+  }
+  return { key };
+}
+
+/**
+ * Fingerprint a request body so a key reused for a different request is caught
+ * @param body - Parsed JSON body
+ * @returns SHA-256 hex digest
+ */
+export function hashRequestBody(body: unknown): string {
+  return createHash("sha256").update(JSON.stringify(body)).digest("hex");
+}
+
+/**
+ * Return the stored response for a key that was already used
+ * @param db - Prisma client or transaction client
+ * @param scope - Endpoint, e.g. "PUT /api/collections"
+ * @param key - Idempotency key
+ * @param requestHash - Hash of the current request body
+ * @returns The original response, a 422 if the key was used for a different
+ * request, or null if the key is new
+ */
+export async function replayIdempotentResponse(
+  db: IdempotencyClient,
+  scope: string,
+  key: string,
+  requestHash: string
+): Promise<NextResponse | null> {
+  const stored = await db.idempotencyKey.findUnique({
+    where: { scope_key: { scope, key } },
+  });
+  if (!stored) return null;
+
+  if (stored.requestHash !== requestHash) {
+    return NextResponse.json(
+      {
+        error: `${IDEMPOTENCY_HEADER} was already used for a different request`,
+      },
+      { status: 422 }
+    );
+  }
+
+  return NextResponse.json(stored.response, {
+    status: stored.statusCode,
+    headers: { "Idempotent-Replayed": "true" },
+  });
+}
+
+/**
+ * Store the response for a key
+ * Call inside the same transaction as the writes, so the key is saved if and
+ * only if they are. A concurrent request with the same key then fails on the
+ * unique (scope, key) index - see isUniqueConstraintError.
+ * @param db - Transaction client
+ * @param input - Key, request hash and the response being returned
+ */
+export async function saveIdempotentResponse(
+  db: IdempotencyClient,
+  input: {
+    scope: string;
+    key: string;
+    requestHash: string;
+    statusCode: number;
+    response: unknown;
+    createdById?: string | null;
+  }
+) {
+  await db.idempotencyKey.create({
+    data: {
+      scope: input.scope,
+      key: input.key,
+      requestHash: input.requestHash,
+      statusCode: input.statusCode,
+      // Round-trip through JSON so dates are stored as they are sent
+      response: JSON.parse(JSON.stringify(input.response)),
+      createdById: input.createdById ?? null,
+    },
+  });
+}
+
+/**
+ * Check for a unique constraint violation (e.g. a key saved by a concurrent request)
+ * @param error - Caught error
+ * @returns True for Prisma error P2002
+ */
+export function isUniqueConstraintError(error: unknown): boolean {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === "P2002"
+  );
+}
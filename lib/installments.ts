@@ -0,0 +1,91 @@
+import { Prisma } from "@prisma/client";
+import { allocateInstallments, loanSchedule, meetingPausesOf } from "./utils";
+
+// ==================== Installments ====================
+
+// Loan relations that decide when its installments fall due: the group's
+// meeting day and holidays, and the loan's moratoriums
+export const loanCalendarInclude = {
+  moratoriums: true,
+  cycle: { include: { group: { include: { holidays: true } } } },
+} satisfies Prisma.LoanInclude;
+
+/**
+ * Rebuild a loan's installments from its schedule and the repayments in
+ * effect
+ * Every route that disburses, repays, reverses or reschedules a loan calls
+ * this afterwards, so the installments always match the loan. A loan that
+ * has not been disbursed has none, and one closed by a top-up has what it
+ * still owed carried over.
+ * @param db - Prisma client or transaction client
+ * @param loanId - Loan whose installments should be rebuilt
+ * @returns The loan's installments, in order
+ */
+export async function syncInstallments(
+  db: Prisma.TransactionClient,
+  loanId: string
+) {
+  const loan = await db.loan.findUniqueOrThrow({
+    where: { id: loanId },
+    include: {
+      ...loanCalendarInclude,
+      topUp: { select: { id: true } },
+      transactions: {
+        where: { type: "REPAYMENT", reversedAt: null },
+        select: { date: true, amount: true, interest: true },
+      },
+    },
+  });
+
+  await db.loanInstallment.deleteMany({ where: { loanId } });
+
+  if (!loan.disbursedAt) {
+    return [];
+  }
+
+  const installments = allocateInstallments(
+    loanSchedule(loan),
+    {
+      ...loan,
+      disbursedAt: loan.disbursedAt,
+      meetingDay: loan.cycle?.group?.meetingDay,
+      pauses: meetingPausesOf(loan),
+      toppedUp: loan.status === "COMPLETED" && !!loan.topUp,
+    },
+    loan.transactions
+  );
+
+  await db.loanInstallment.createMany({
+    data: installments.map((installment) => ({ loanId, ...installment })),
+  });
+
+  return db.loanInstallment.findMany({
+    where: { loanId },
+    orderBy: { week: "asc" },
+  });
+}
+
+/**
+ * Rebuild the installments of a group's outstanding loans
+ * Called when the group's holidays change, since they move due dates.
+ * @param db - Prisma client or transaction client
+ * @param groupId - Group whose holidays changed
+ * @returns Number of loans rebuilt
+ */
+export async function syncGroupInstallments(
+  db: Prisma.TransactionClient,
+  groupId: string
+) {
+  const loans = await db.loan.findMany({
+    where: {
+      status: { in: ["ACTIVE", "DEFAULTED"] },
+      cycle: { is: { groupId } },
+    },
+    select: { id: true },
+  });
+
+  for (const loan of loans) {
+    await syncInstallments(db, loan.id);
+  }
+  return loans.length;
+}
@@ -0,0 +1,306 @@
+import { Prisma, LedgerAccount, JournalSource } from "@prisma/client";
+import { isMoney, Money, sumMoney } from "./money";
+
+// ==================== General Ledger ====================
+
+export type LedgerClient = Prisma.TransactionClient;
+
+type NormalBalance = "DEBIT" | "CREDIT";
+
+/**
+ * Chart of accounts. Balances are reported on the account's normal side,
+ * so a positive CASH balance means money held and a positive MEMBER_SAVINGS
+ * balance means money owed to members.
+ */
+export const CHART_OF_ACCOUNTS: Record<
+  LedgerAccount,
+  { code: string; name: string; normalBalance: NormalBalance }
+> = {
+  CASH: { code: "1000", name: "Cash / Group Fund", normalBalance: "DEBIT" },
+  LOANS_RECEIVABLE: {
+    code: "1100",
+    name: "Loans Receivable",
+    normalBalance: "DEBIT",
+  },
+  MEMBER_SAVINGS: {
+    code: "2000",
+    name: "Member Savings",
+    normalBalance: "CREDIT",
+  },
+  MEMBER_CONTRIBUTIONS: {
+    code: "3000",
+    name: "Member Contributions",
+    normalBalance: "CREDIT",
+  },
+  CAPITAL_INVESTMENT: {
+    code: "3100",
+    name: "Capital Investment",
+    normalBalance: "CREDIT",
+  },
+  OPENING_BALANCE: {
+    code: "3900",
+    name: "Opening Balance Equity",
+    normalBalance: "CREDIT",
+  },
+  INTEREST_INCOME: {
+    code: "4000",
+    name: "Interest Income",
+    normalBalance: "CREDIT",
+  },
+  PENALTY_INCOME: {
+    code: "4100",
+    name: "Penalty Income",
+    normalBalance: "CREDIT",
+  },
+  RECOVERY_INCOME: {
+    code: "4200",
+    name: "Recovery Income",
+    normalBalance: "CREDIT",
+  },
+  LOAN_LOSS: {
+    code: "5000",
+    name: "Loan Loss (Write-offs)",
+    normalBalance: "DEBIT",
+  },
+};
+
+export interface JournalLineInput {
+  account: LedgerAccount;
+  debit?: Money;
+  credit?: Money;
+  groupId?: string | null;
+  cycleId?: string | null;
+  memberId?: string | null;
+  loanId?: string | null;
+}
+
+export interface JournalEntryInput {
+  date: Date;
+  description: string;
+  source: JournalSource;
+  sourceId?: string | null;
+  groupId?: string | null;
+  cycleId?: string | null;
+  createdById?: string | null;
+  reversesEntryId?: string | null;
+  lines: JournalLineInput[];
+}
+
+/**
+ * Post a balanced journal entry
+ * @param db - Prisma client or transaction client
+ * @param input - Entry header and its debit/credit lines
+ * @returns The created journal entry with its lines
+ * @throws Error if a line is not one-sided or the entry does not balance
+ */
+export async function postJournalEntry(
+  db: LedgerClient,
+  input: JournalEntryInput
+) {
+  const lines = input.lines
+    .map((line) => ({
+      ...line,
+      debit: line.debit || 0,
+      credit: line.credit || 0,
+    }))
+    .filter((line) => line.debit !== 0 || line.credit !== 0);
+
+  for (const line of lines) {
+    if (!isMoney(line.debit) || !isMoney(line.credit)) {
+      throw new Error(
+        `Invalid journal line for ${line.account}: amounts must be whole paise`
+      );
+    }
+    if (line.debit < 0 || line.credit < 0 || (line.debit && line.credit)) {
+      throw new Error(
+        `Invalid journal line for ${line.account}: a line must have either a positive debit or a positive credit`
+      );
+    }
+  }
+
+  const totalDebit = sumMoney(lines.map((l) => l.debit));
+  const totalCredit = sumMoney(lines.map((l) => l.credit));
+
+  if (lines.length < 2 || totalDebit !== totalCredit) {
+    throw new Error(
+      `Unbalanced journal entry "${input.description}": debits ${totalDebit} != credits ${totalCredit}`
+    );
+  }
+
+  return db.journalEntry.create({
+    data: {
+      date: input.date,
+      description: input.description,
+      source: input.source,
+      sourceId: input.sourceId || null,
+      groupId: input.groupId || null,
+      cycleId: input.cycleId || null,
+      createdById: input.createdById || null,
+      reversesEntryId: input.reversesEntryId || null,
+      lines: {
+        create: lines.map((line) => ({
+          account: line.account,
+          debit: line.debit,
+          credit: line.credit,
+          // Lines inherit the entry's group/cycle unless they set their own (null included)
+          groupId:
+            line.groupId === undefined ? input.groupId || null : line.groupId,
+          cycleId:
+            line.cycleId === undefined ? input.cycleId || null : line.cycleId,
+          memberId: line.memberId || null,
+          loanId: line.loanId || null,
+        })),
+      },
+    },
+    include: { lines: true },
+  });
+}
+
+/**
+ * Cancel a journal entry by posting its mirror image
+ * Every line is posted again with debit and credit swapped and the same
+ * dimensions, so all balances return to what they were before the entry.
+ * @param db - Prisma client or transaction client
+ * @param entryId - Entry to reverse
+ * @param input - Date, description and user for the reversing entry
+ * @returns The reversing journal entry
+ * @throws Error if the entry does not exist or was already reversed
+ */
+export async function reverseJournalEntry(
+  db: LedgerClient,
+  entryId: string,
+  input: { date: Date; description: string; createdById?: string | null }
+) {
+  const entry = await db.journalEntry.findUnique({
+    where: { id: entryId },
+    include: { lines: true },
+  });
+  if (!entry) {
+    throw new Error(`Journal entry ${entryId} not found`);
+  }
+
+  const existing = await db.journalEntry.findFirst({
+    where: { reversesEntryId: entryId },
+  });
+  if (existing) {
+    throw new Error(`Journal entry ${entryId} has already been reversed`);
+  }
+
+  return postJournalEntry(db, {
+    date: input.date,
+    description: input.description,
+    source: "REVERSAL",
+    sourceId: entry.sourceId,
+    groupId: entry.groupId,
+    cycleId: entry.cycleId,
+    createdById: input.createdById,
+    reversesEntryId: entry.id,
+    lines: entry.lines.map((line) => ({
+      account: line.account,
+      debit: line.credit,
+      credit: line.debit,
+      groupId: line.groupId,
+      cycleId: line.cycleId,
+      memberId: line.memberId,
+      loanId: line.loanId,
+    })),
+  });
+}
+
+/**
+ * Get the balance of an account on its normal side
+ * @param db - Prisma client or transaction client
+ * @param account - Ledger account
+ * @param filter - Optional dimension filter (cycle, member, group, loan)
+ * @returns Balance in paise (positive when on the account's normal side)
+ */
+export async function getAccountBalance(
+  db: LedgerClient,
+  account: LedgerAccount,
+  filter: Omit<Prisma.JournalLineWhereInput, "account"> = {}
+): Promise<Money> {
+  const result = await db.journalLine.aggregate({
+    _sum: { debit: true, credit: true },
+    where: { ...filter, account },
+  });
+
+  const debit = result._sum.debit || 0;
+  const credit = result._sum.credit || 0;
+  return CHART_OF_ACCOUNTS[account].normalBalance === "DEBIT"
+    ? debit - credit
+    : credit - debit;
+}
+
+/**
+ * Refresh a cycle's GroupFund from the cash held by that cycle in the ledger
+ * @param db - Prisma client or transaction client
+ * @param cycleId - Cycle whose fund should be refreshed
+ * @returns Current fund balance
+ */
+export async function syncGroupFund(
+  db: LedgerClient,
+  cycleId: string
+): Promise<Money> {
+  const balance = await getAccountBalance(db, "CASH", { cycleId });
+
+  await db.groupFund.updateMany({
+    where: { cycleId },
+    data: {
+      investmentPool: balance,
+      totalFunds: balance,
+    },
+  });
+
+  return balance;
+}
+
+/**
+ * Refresh a member's Savings total from the ledger
+ * @param db - Prisma client or transaction client
+ * @param savingsId - Savings record to refresh
+ * @param memberId - Member owning the savings
+ * @returns Current savings balance
+ */
+export async function syncSavings(
+  db: LedgerClient,
+  savingsId: string,
+  memberId: string
+): Promise<Money> {
+  const balance = await getAccountBalance(db, "MEMBER_SAVINGS", { memberId });
+
+  await db.savings.update({
+    where: { id: savingsId },
+    data: { totalAmount: balance },
+  });
+
+  return balance;
+}
+
+/**
+ * Refresh a group member's total contributed from their paid collection payments
+ * plus anything contributed before the group was imported from a paper register
+ * @param db - Prisma client or transaction client
+ * @param groupMemberId - Group member to refresh
+ * @returns Total contributed
+ */
+export async function syncGroupMemberContribution(
+  db: LedgerClient,
+  groupMemberId: string
+): Promise<Money> {
+  const result = await db.collectionPayment.aggregate({
+    _sum: { amount: true },
+    where: { groupMemberId, status: "PAID" },
+  });
+  const groupMember = await db.groupMember.findUniqueOrThrow({
+    where: { id: groupMemberId },
+    select: { openingContributed: true },
+  });
+  const total = (result._sum.amount || 0) + groupMember.openingContributed;
+
+  await db.groupMember.update({
+    where: { id: groupMemberId },
+    data: { totalContributed: total },
+  });
+
+  return total;
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  allocateProportionally,
+  formatMoney,
+  fromPaise,
+  isMoney,
+  moneySchema,
+  multiplyMoney,
+  splitEvenly,
+  sumMoney,
+  toPaise,
+} from "./money";
+
+describe("toPaise", () => {
+  it("converts rupees to whole paise", () => {
+    expect(toPaise(12.34)).toBe(1234);
+    expect(toPaise(100)).toBe(10000);
+    expect(toPaise(0)).toBe(0);
+  });
+
+  it("rounds half away from zero", () => {
+    expect(toPaise(0.125)).toBe(13);
+    expect(toPaise(-0.125)).toBe(-13);
+  });
+
+  it("round-trips with fromPaise", () => {
+    expect(fromPaise(1234)).toBe(12.34);
+    expect(toPaise(fromPaise(987654))).toBe(987654);
+  });
+});
+
+describe("isMoney", () => {
+  it("accepts only safe integers", () => {
+    expect(isMoney(1500)).toBe(true);
+    expect(isMoney(-1500)).toBe(true);
+    expect(isMoney(15.5)).toBe(false);
+    expect(isMoney(Number.MAX_SAFE_INTEGER + 1)).toBe(false);
+  });
+});
+
+describe("multiplyMoney", () => {
+  it("rounds the product to whole paise, half away from zero", () => {
+    expect(multiplyMoney(1005, 0.5)).toBe(503);
+    expect(multiplyMoney(-1005, 0.5)).toBe(-503);
+    expect(multiplyMoney(100000, 0.01)).toBe(1000);
+  });
+});
+
+describe("sumMoney", () => {
+  it("adds amounts, and an empty list is zero", () => {
+    expect(sumMoney([100, 250, -50])).toBe(300);
+    expect(sumMoney([])).toBe(0);
+  });
+});
+
+describe("splitEvenly", () => {
+  it("gives the leftover paise to the earliest parts", () => {
+    expect(splitEvenly(100000, 3)).toEqual([33334, 33333, 33333]);
+    expect(splitEvenly(10, 4)).toEqual([3, 3, 2, 2]);
+  });
+
+  it("returns no parts for a non-positive count", () => {
+    expect(splitEvenly(100, 0)).toEqual([]);
+  });
+});
+
+describe("allocateProportionally", () => {
+  it("shares sum exactly to the total", () => {
+    const shares = allocateProportionally(100, [1, 1, 1]);
+    expect(shares).toEqual([34, 33, 33]);
+    expect(sumMoney(shares)).toBe(100);
+  });
+
+  it("gives leftover paise to the largest remainders", () => {
+    expect(allocateProportionally(10, [1, 2])).toEqual([3, 7]);
+  });
+
+  it("treats negative weights as zero", () => {
+    expect(allocateProportionally(100, [1, -1])).toEqual([100, 0]);
+  });
+
+  it("allocates nothing without any weight", () => {
+    expect(allocateProportionally(1000, [0, 0])).toEqual([0, 0]);
+  });
+});
+
+describe("formatMoney", () => {
+  it("formats paise as rupees with Indian digit grouping", () => {
+    expect(formatMoney(10000000)).toBe("₹1,00,000.00");
+    expect(formatMoney(5)).toBe("₹0.05");
+    expect(formatMoney(-5050)).toBe("-₹50.50");
+  });
+});
+
+describe("moneySchema", () => {
+  it("accepts whole paise only", () => {
+    expect(moneySchema.safeParse(1500).success).toBe(true);
+    expect(moneySchema.safeParse(15.5).success).toBe(false);
+  });
+});
@@ -0,0 +1,130 @@
+import { z } from "zod";
+
+// ==================== Money ====================
+// All amounts are stored and passed around as integer paise (₹1 = 100 paise).
+// Convert to rupees only at the edges: form inputs and display.
+
+/** Integer number of paise */
+export type Money = number;
+
+export const PAISE_PER_RUPEE = 100;
+
+/** Default weekly contribution per member (₹100) */
+export const DEFAULT_WEEKLY_AMOUNT: Money = 10000;
+
+/**
+ * Convert a rupee amount (e.g. from a form input) to paise
+ * @param rupees - Amount in rupees, may have up to 2 decimals
+ * @returns Amount in paise, rounded half away from zero
+ */
+export function toPaise(rupees: number): Money {
+  const paise = Math.round(Math.abs(rupees) * PAISE_PER_RUPEE);
+  return rupees < 0 ? -paise : paise;
+}
+
+/**
+ * Convert paise to rupees (e.g. to prefill a form input)
+ * @param paise - Amount in paise
+ * @returns Amount in rupees
+ */
+export function fromPaise(paise: Money): number {
+  return paise / PAISE_PER_RUPEE;
+}
+
+/**
+ * Check that a value is a whole number of paise
+ * @param value - Value to check
+ * @returns True if the value is a safe integer
+ */
+export function isMoney(value: number): value is Money {
+  return Number.isSafeInteger(value);
+}
+
+/**
+ * Multiply an amount by a rate and round to whole paise
+ * @param amount - Amount in paise
+ * @param rate - Multiplier (e.g. 0.01 for 1%)
+ * @returns Rounded amount in paise
+ */
+export function multiplyMoney(amount: Money, rate: number): Money {
+  const product = Math.round(Math.abs(amount * rate));
+  return amount * rate < 0 ? -product : product;
+}
+
+/**
+ * Sum amounts in paise
+ * @param amounts - Amounts in paise
+ * @returns Total in paise
+ */
+export function sumMoney(amounts: Money[]): Money {
+  return amounts.reduce((sum, amount) => sum + amount, 0);
+}
+
+/**
+ * Split an amount into equal parts without losing paise
+ * The leftover paise go to the earliest parts, so 100000 / 3 = [33334, 33333, 33333]
+ * @param total - Amount in paise
+ * @param parts - Number of parts
+ * @returns Parts in paise, summing exactly to total
+ */
+export function splitEvenly(total: Money, parts: number): Money[] {
+  if (parts <= 0) return [];
+  const base = Math.floor(total / parts);
+  const remainder = total - base * parts;
+  return Array.from({ length: parts }, (_, i) =>
+    i < remainder ? base + 1 : base
+  );
+}
+
+/**
+ * Allocate an amount in proportion to weights without losing paise
+ * Uses the largest remainder method so the shares sum exactly to total
+ * @param total - Amount in paise
+ * @param weights - Relative weights (e.g. each member's contributions)
+ * @returns Shares in paise, one per weight
+ */
+export function allocateProportionally(
+  total: Money,
+  weights: number[]
+): Money[] {
+  const totalWeight = weights.reduce((sum, w) => sum + Math.max(w, 0), 0);
+  if (totalWeight <= 0) return weights.map(() => 0);
+
+  const exact = weights.map((w) => (total * Math.max(w, 0)) / totalWeight);
+  const shares = exact.map((value) => Math.floor(value));
+  let leftover = total - sumMoney(shares);
+
+  const order = exact
+    .map((value, i) => ({ i, fraction: value - Math.floor(value) }))
+    .sort((a, b) => b.fraction - a.fraction);
+  for (const { i } of order) {
+    if (leftover <= 0) break;
+    shares[i] += 1;
+    leftover -= 1;
+  }
+
+  return shares;
+}
+
+const rupeeFormatter = new Intl.NumberFormat("en-IN", {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+});
+
+/**
+ * Format paise for display
+ * @param paise - Amount in paise
+ * @returns Formatted amount, e.g. "₹1,00,000.00"
+ */
+export function formatMoney(paise: Money): string {
+  const formatted = rupeeFormatter.format(Math.abs(paise) / PAISE_PER_RUPEE);
+  return paise < 0 ? `-₹${formatted}` : `₹${formatted}`;
+}
+
+// Zod schemas for amounts in API payloads (integer paise)
+export const moneySchema = z
+  .number()
+  .int("Amount must be a whole number of paise");
+export const positiveMoneySchema = moneySchema.positive(
+  "Amount must be positive"
+);
@@ -0,0 +1,66 @@
+import { Prisma } from "@prisma/client";
+
+// ==================== Accounting Periods ====================
+
+const monthNames = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+/**
+ * Accounting period (calendar month) a date falls in
+ * @param date - Any date
+ * @returns Year and month (1-12)
+ */
+export function periodOf(date: Date): { year: number; month: number } {
+  return { year: date.getFullYear(), month: date.getMonth() + 1 };
+}
+
+/**
+ * Display name of a period
+ * @param year - Year
+ * @param month - Month (1-12)
+ * @returns e.g. "March 2026"
+ */
+export function periodLabel(year: number, month: number): string {
+  return `${monthNames[month - 1]} ${year}`;
+}
+
+/**
+ * Check that none of the dates fall in a closed period
+ * Every route that records a money movement calls this before writing.
+ * @param db - Prisma client or transaction client
+ * @param dates - Accounting dates of the movements about to be posted
+ * @returns An error message naming the closed period, or null if all are open
+ */
+export async function checkPeriodsOpen(
+  db: Prisma.TransactionClient,
+  ...dates: Date[]
+): Promise<string | null> {
+  const periods = dates
+    .filter((date) => !isNaN(date.getTime()))
+    .map(periodOf);
+  if (periods.length === 0) return null;
+
+  const closed = await db.accountingPeriod.findFirst({
+    where: {
+      status: "CLOSED",
+      OR: periods.map(({ year, month }) => ({ year, month })),
+    },
+    orderBy: [{ year: "asc" }, { month: "asc" }],
+  });
+
+  return closed
+    ? `${periodLabel(closed.year, closed.month)} is closed - an admin must reopen it before anything can be posted into it`
+    : null;
+}
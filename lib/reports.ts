@@ -0,0 +1,222 @@
+import { LedgerAccount, Prisma } from "@prisma/client";
+import { CHART_OF_ACCOUNTS, LedgerClient } from "./ledger";
+import { sumMoney } from "./money";
+
+// ==================== Ledger Reports ====================
+
+export interface ReportFilters {
+  groupId?: string;
+  cycleId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Read report filters from a query string
+ * `from` and `to` are dates (yyyy-MM-dd); `to` includes the whole day
+ * @param searchParams - Request query parameters
+ * @returns Parsed filters, or an error message for an invalid date
+ */
+export function parseReportFilters(
+  searchParams: URLSearchParams
+): { filters: ReportFilters } | { error: string } {
+  const filters: ReportFilters = {};
+  const groupId = searchParams.get("groupId");
+  const cycleId = searchParams.get("cycleId");
+  const from = searchParams.get("from");
+  const to = searchParams.get("to");
+
+  if (groupId) filters.groupId = groupId;
+  if (cycleId) filters.cycleId = cycleId;
+
+  if (from) {
+    const date = new Date(from);
+    if (isNaN(date.getTime())) return { error: "Invalid from date" };
+    date.setHours(0, 0, 0, 0);
+    filters.from = date;
+  }
+
+  if (to) {
+    const date = new Date(to);
+    if (isNaN(date.getTime())) return { error: "Invalid to date" };
+    date.setHours(23, 59, 59, 999);
+    filters.to = date;
+  }
+
+  if (filters.from && filters.to && filters.from > filters.to) {
+    return { error: "from date must be before to date" };
+  }
+
+  return { filters };
+}
+
+function lineWhere(
+  filters: ReportFilters,
+  dateRange: { gte?: Date; lte?: Date; lt?: Date }
+): Prisma.JournalLineWhereInput {
+  const where: Prisma.JournalLineWhereInput = {};
+  if (filters.groupId) where.groupId = filters.groupId;
+  if (filters.cycleId) where.cycleId = filters.cycleId;
+  if (Object.keys(dateRange).length > 0) {
+    where.entry = { is: { date: dateRange } };
+  }
+  return where;
+}
+
+/**
+ * Trial balance: debit and credit totals per account for the period
+ * @param db - Prisma client or transaction client
+ * @param filters - Group, cycle and date range
+ * @returns One row per account with activity, plus column totals
+ */
+export async function getTrialBalance(db: LedgerClient, filters: ReportFilters) {
+  const lines = await db.journalLine.findMany({
+    where: lineWhere(filters, {
+      ...(filters.from && { gte: filters.from }),
+      ...(filters.to && { lte: filters.to }),
+    }),
+    select: { account: true, debit: true, credit: true },
+  });
+
+  const totals = new Map<LedgerAccount, { debit: number; credit: number }>();
+  for (const line of lines) {
+    const current = totals.get(line.account) || { debit: 0, credit: 0 };
+    current.debit += line.debit;
+    current.credit += line.credit;
+    totals.set(line.account, current);
+  }
+
+  const rows = (Object.keys(CHART_OF_ACCOUNTS) as LedgerAccount[])
+    .filter((account) => totals.has(account))
+    .map((account) => {
+      const { debit, credit } = totals.get(account)!;
+      const net = debit - credit;
+      return {
+        account,
+        code: CHART_OF_ACCOUNTS[account].code,
+        name: CHART_OF_ACCOUNTS[account].name,
+        totalDebit: debit,
+        totalCredit: credit,
+        // Closing balance shown in the debit or credit column
+        debitBalance: net > 0 ? net : 0,
+        creditBalance: net < 0 ? -net : 0,
+      };
+    });
+
+  return {
+    rows,
+    totals: {
+      totalDebit: sumMoney(rows.map((r) => r.totalDebit)),
+      totalCredit: sumMoney(rows.map((r) => r.totalCredit)),
+      debitBalance: sumMoney(rows.map((r) => r.debitBalance)),
+      creditBalance: sumMoney(rows.map((r) => r.creditBalance)),
+    },
+  };
+}
+
+/**
+ * Cash book: every receipt and payment of cash with a running balance
+ * @param db - Prisma client or transaction client
+ * @param filters - Group, cycle and date range
+ * @returns Opening balance, dated rows and closing balance
+ */
+export async function getCashBook(db: LedgerClient, filters: ReportFilters) {
+  let openingBalance = 0;
+  if (filters.from) {
+    const before = await db.journalLine.aggregate({
+      _sum: { debit: true, credit: true },
+      where: {
+        ...lineWhere(filters, { lt: filters.from }),
+        account: "CASH",
+      },
+    });
+    openingBalance = (before._sum.debit || 0) - (before._sum.credit || 0);
+  }
+
+  const lines = await db.journalLine.findMany({
+    where: {
+      ...lineWhere(filters, {
+        ...(filters.from && { gte: filters.from }),
+        ...(filters.to && { lte: filters.to }),
+      }),
+      account: "CASH",
+    },
+    include: { entry: true },
+  });
+
+  lines.sort(
+    (a, b) =>
+      a.entry.date.getTime() - b.entry.date.getTime() ||
+      a.createdAt.getTime() - b.createdAt.getTime()
+  );
+
+  let balance = openingBalance;
+  const rows = lines.map((line) => {
+    balance = balance + line.debit - line.credit;
+    return {
+      id: line.id,
+      entryId: line.entryId,
+      date: line.entry.date,
+      description: line.entry.description,
+      source: line.entry.source,
+      cycleId: line.cycleId,
+      receipt: line.debit,
+      payment: line.credit,
+      balance,
+    };
+  });
+
+  return {
+    openingBalance,
+    rows,
+    totalReceipts: sumMoney(rows.map((r) => r.receipt)),
+    totalPayments: sumMoney(rows.map((r) => r.payment)),
+    closingBalance: balance,
+  };
+}
+
+/**
+ * Day book: journal entries in date order, grouped by day
+ * @param db - Prisma client or transaction client
+ * @param filters - Group, cycle and date range
+ * @returns Days with their entries and day totals
+ */
+export async function getDayBook(db: LedgerClient, filters: ReportFilters) {
+  const where: Prisma.JournalEntryWhereInput = {};
+  if (filters.from || filters.to) {
+    where.date = {
+      ...(filters.from && { gte: filters.from }),
+      ...(filters.to && { lte: filters.to }),
+    };
+  }
+  if (filters.groupId || filters.cycleId) {
+    where.lines = { some: lineWhere(filters, {}) };
+  }
+
+  const entries = await db.journalEntry.findMany({
+    where,
+    include: { lines: true },
+    orderBy: [{ date: "asc" }, { createdAt: "asc" }],
+  });
+
+  const days = new Map<
+    string,
+    { date: string; entries: typeof entries; totalDebit: number; totalCredit: number }
+  >();
+
+  for (const entry of entries) {
+    const day = entry.date.toISOString().split("T")[0];
+    const current = days.get(day) || {
+      date: day,
+      entries: [],
+      totalDebit: 0,
+      totalCredit: 0,
+    };
+    current.entries.push(entry);
+    current.totalDebit += sumMoney(entry.lines.map((l) => l.debit));
+    current.totalCredit += sumMoney(entry.lines.map((l) => l.credit));
+    days.set(day, current);
+  }
+
+  return { days: Array.from(days.values()) };
+}
@@ -0,0 +1,202 @@
+import { Prisma } from "@prisma/client";
+import { recordAudit } from "./audit";
+import { loanCalendarInclude, syncInstallments } from "./installments";
+import { postJournalEntry, syncGroupFund } from "./ledger";
+import { formatMoney } from "./money";
+import {
+  calculateArrears,
+  calculateRepaymentDues,
+  loanSchedule,
+  meetingPausesOf,
+  NO_PENALTY,
+  penaltyRulesOf,
+} from "./utils";
+
+// ==================== Top-ups ====================
+
+/**
+ * Check that a loan can be topped up on a date
+ * A top-up closes the loan and carries only its principal over, so the
+ * member must be up to date: no installment overdue, and no interest or late
+ * fines left unpaid. Checked when the top-up is requested and again when it
+ * is paid out.
+ * @param db - Prisma client or transaction client
+ * @param loanId - Loan to be topped up
+ * @param date - Date the top-up is paid out
+ * @returns An error message, or null if the loan can be topped up
+ */
+export async function checkTopUpAllowed(
+  db: Prisma.TransactionClient,
+  loanId: string,
+  date: Date
+): Promise<string | null> {
+  const loan = await db.loan.findUnique({
+    where: { id: loanId },
+    include: {
+      ...loanCalendarInclude,
+      transactions: {
+        where: { type: "REPAYMENT", reversedAt: null },
+        select: { week: true, date: true },
+      },
+    },
+  });
+
+  if (!loan || loan.status !== "ACTIVE" || loan.remaining <= 0) {
+    return "Only active loans with a balance can be topped up";
+  }
+
+  const group = loan.cycle?.group;
+  const schedule = loanSchedule(loan);
+  const calendar = {
+    ...loan,
+    meetingDay: group?.meetingDay,
+    pauses: meetingPausesOf(loan),
+  };
+
+  const arrears = calculateArrears(schedule, calendar, date);
+  if (arrears.weeksInArrears > 0) {
+    return `${arrears.weeksInArrears} installment${
+      arrears.weeksInArrears === 1 ? " is" : "s are"
+    } overdue - only loans that are up to date can be topped up`;
+  }
+
+  const dues = calculateRepaymentDues(
+    calendar,
+    schedule,
+    loan.transactions,
+    group ? penaltyRulesOf(group) : NO_PENALTY,
+    date
+  );
+  const unpaid = dues.interest + dues.penalty;
+  if (unpaid > 0) {
+    return `${formatMoney(
+      unpaid
+    )} of interest and late fines is due - record a repayment for it before topping up`;
+  }
+
+  return null;
+}
+
+/**
+ * Pay out a top-up loan
+ * The loan it tops up is closed, and the balance still owed on it becomes
+ * part of the top-up's principal; only the new cash leaves the cycle's group
+ * fund. Callers check the loan with checkTopUpAllowed and the fund with
+ * checkFundAvailable first.
+ * @param db - Transaction client, so the old loan closes with the payout
+ * @param input - Top-up loan, payout date and method, and the admin
+ * @returns The top-up loan and the loan it closed
+ */
+export async function payOutTopUp(
+  db: Prisma.TransactionClient,
+  input: {
+    topUpId: string;
+    date: Date;
+    disbursementMethod?: "CASH" | "UPI" | "BANK_TRANSFER" | null;
+    userId: string;
+  }
+) {
+  const topUp = await db.loan.findUniqueOrThrow({
+    where: { id: input.topUpId },
+    include: {
+      topUpOf: {
+        include: { member: true, cycle: { include: { group: true } } },
+      },
+    },
+  });
+  const loan = topUp.topUpOf;
+  if (!loan) {
+    throw new Error(`Loan ${topUp.id} is not a top-up`);
+  }
+
+  // Repayments made while the top-up waited for its guarantors shrink the
+  // balance carried over
+  const principal = loan.remaining + topUp.topUpAmount;
+  const group = loan.cycle?.group;
+
+  const toppedUp = await db.loan.update({
+    where: { id: topUp.id },
+    data: {
+      status: "ACTIVE",
+      principal,
+      remaining: principal,
+      disbursedAt: input.date,
+      disbursementMethod: input.disbursementMethod || null,
+    },
+    include: {
+      member: true,
+      cycle: true,
+      sequence: true,
+    },
+  });
+
+  const closedLoan = await db.loan.update({
+    where: { id: loan.id },
+    data: {
+      status: "COMPLETED",
+      remaining: 0,
+      completedAt: input.date,
+    },
+  });
+
+  if (group) {
+    await db.groupMember.updateMany({
+      where: { groupId: group.id, memberId: loan.memberId },
+      data: { totalReceived: { increment: topUp.topUpAmount } },
+    });
+  }
+
+  // The old balance moves to the new loan; the top-up is paid out of the
+  // cycle's group fund
+  await postJournalEntry(db, {
+    date: input.date,
+    description: `Loan topped up for ${loan.member.name}${
+      topUp.reason ? `: ${topUp.reason}` : ""
+    }`,
+    source: "LOAN_TOP_UP",
+    sourceId: topUp.id,
+    groupId: group?.id,
+    cycleId: loan.cycleId,
+    createdById: input.userId,
+    lines: [
+      {
+        account: "LOANS_RECEIVABLE",
+        debit: principal,
+        memberId: loan.memberId,
+        loanId: topUp.id,
+      },
+      {
+        account: "LOANS_RECEIVABLE",
+        credit: loan.remaining,
+        memberId: loan.memberId,
+        loanId: loan.id,
+      },
+      { account: "CASH", credit: topUp.topUpAmount },
+    ],
+  });
+
+  // Group fund balance is derived from the cycle's cash in the ledger
+  if (loan.cycleId) {
+    await syncGroupFund(db, loan.cycleId);
+  }
+
+  await syncInstallments(db, topUp.id);
+  await syncInstallments(db, loan.id);
+
+  await recordAudit(db, {
+    action: "LOAN_TOPPED_UP",
+    entityType: "Loan",
+    entityId: topUp.id,
+    reason: topUp.reason,
+    details: {
+      topUpOfId: loan.id,
+      carriedOver: loan.remaining,
+      topUpAmount: topUp.topUpAmount,
+      principal,
+      weeks: topUp.weeks,
+    },
+    userId: input.userId,
+  });
+
+  return { loan: toppedUp, closedLoan };
+}
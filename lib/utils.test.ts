@@ -0,0 +1,345 @@
+import { describe, expect, it } from "vitest";
+import {
+  allocateInstallments,
+  allocateRepayment,
+  calculateArrears,
+  calculateLatePenalty,
+  calculateRepaymentDues,
+  calculateTotalInterestDeclining,
+  calculateTotalInterestFlat,
+  collectionDateOf,
+  generatePaymentSchedule,
+  installmentDueDate,
+  installmentsCovered,
+  NO_INTEREST,
+  NO_PENALTY,
+  parBucketOf,
+  restructuredWeeks,
+  restructureSchedule,
+  weeklyInterestRate,
+  type PenaltyRules,
+  type RepaymentDues,
+} from "./utils";
+
+// Monday 6 January 2025; the weeks after it have no daylight saving change
+const disbursedAt = new Date(2025, 0, 6);
+const day = (date: number) => new Date(2025, 0, date);
+
+describe("interest", () => {
+  it("converts a rate to a weekly fraction", () => {
+    expect(weeklyInterestRate(1)).toBe(0.01);
+    expect(weeklyInterestRate(52, "ANNUAL")).toBeCloseTo(0.01);
+  });
+
+  it("charges flat interest on the full principal", () => {
+    expect(calculateTotalInterestFlat(100000, 1, 10)).toBe(10000);
+  });
+
+  it("charges declining interest on the balance still owed", () => {
+    expect(calculateTotalInterestDeclining(100000, 1, 2)).toBe(1500);
+  });
+});
+
+describe("generatePaymentSchedule", () => {
+  it("splits the principal evenly without losing paise", () => {
+    const schedule = generatePaymentSchedule(100000, 3);
+    expect(schedule.map((row) => row.principalPayment)).toEqual([
+      33334, 33333, 33333,
+    ]);
+    expect(schedule.map((row) => row.interest)).toEqual([0, 0, 0]);
+    expect(schedule[2].newBalance).toBe(0);
+    expect(schedule.map((row) => row.dueWeek)).toEqual([1, 2, 3]);
+  });
+
+  it("spreads flat interest evenly over the weeks", () => {
+    const schedule = generatePaymentSchedule(100000, 10, {
+      method: "FLAT",
+      rate: 1,
+      ratePeriod: "WEEKLY",
+    });
+    expect(schedule.every((row) => row.interest === 1000)).toBe(true);
+    expect(schedule[0].totalPayment).toBe(11000);
+  });
+
+  it("charges declining interest on each week's opening balance", () => {
+    const schedule = generatePaymentSchedule(100000, 2, {
+      method: "DECLINING",
+      rate: 1,
+      ratePeriod: "WEEKLY",
+    });
+    expect(schedule.map((row) => row.interest)).toEqual([1000, 500]);
+  });
+});
+
+describe("installmentDueDate", () => {
+  it("falls due a week per installment after disbursal", () => {
+    expect(installmentDueDate(disbursedAt, 1)).toEqual(day(13));
+    expect(installmentDueDate(disbursedAt, 2)).toEqual(day(20));
+  });
+
+  it("moves on to the group's meeting day", () => {
+    // Friday
+    expect(installmentDueDate(disbursedAt, 1, 5)).toEqual(day(17));
+  });
+
+  it("skips meetings in a holiday or moratorium", () => {
+    const pauses = [{ startDate: day(13), endDate: day(13) }];
+    expect(installmentDueDate(disbursedAt, 1, null, pauses)).toEqual(day(20));
+    expect(installmentDueDate(disbursedAt, 2, null, pauses)).toEqual(day(27));
+  });
+});
+
+describe("collectionDateOf", () => {
+  it("holds week 1 on the cycle's first meeting", () => {
+    expect(collectionDateOf(disbursedAt, 1)).toEqual(day(6));
+    expect(collectionDateOf(disbursedAt, 2)).toEqual(day(13));
+  });
+
+  it("skips the group's holidays", () => {
+    const holidays = [{ startDate: day(13), endDate: day(14) }];
+    expect(collectionDateOf(disbursedAt, 2, null, holidays)).toEqual(day(20));
+  });
+});
+
+describe("calculateLatePenalty", () => {
+  it("charges a fixed fine or a percentage of the installment", () => {
+    const fixed: PenaltyRules = { ...NO_PENALTY, type: "FIXED", amount: 500 };
+    const percent: PenaltyRules = { ...NO_PENALTY, type: "PERCENT", rate: 10 };
+    expect(calculateLatePenalty(10050, fixed)).toBe(500);
+    expect(calculateLatePenalty(10050, percent)).toBe(1005);
+    expect(calculateLatePenalty(10050, NO_PENALTY)).toBe(0);
+  });
+});
+
+describe("restructureSchedule", () => {
+  const schedule = generatePaymentSchedule(100000, 4);
+
+  it("keeps repaid installments and reschedules the rest by installment size", () => {
+    const rescheduled = restructureSchedule(
+      schedule,
+      2,
+      100000,
+      NO_INTEREST,
+      { installmentAmount: 20000 },
+      30,
+    );
+    expect(rescheduled.slice(0, 2)).toEqual(schedule.slice(0, 2));
+    expect(rescheduled.slice(2).map((row) => row.principalPayment)).toEqual([
+      20000, 20000, 10000,
+    ]);
+    expect(rescheduled.slice(2).map((row) => row.dueWeek)).toEqual([3, 4, 5]);
+  });
+
+  it("spreads the rest over a new term from a later start week", () => {
+    const rescheduled = restructureSchedule(
+      schedule,
+      2,
+      100000,
+      NO_INTEREST,
+      { weeks: 6, startWeek: 6 },
+      30,
+    );
+    expect(rescheduled.slice(2).map((row) => row.principalPayment)).toEqual([
+      12500, 12500, 12500, 12500,
+    ]);
+    expect(rescheduled.slice(2).map((row) => row.dueWeek)).toEqual([
+      6, 7, 8, 9,
+    ]);
+  });
+
+  it("turns down a schedule past the longest term before building it", () => {
+    // 1 paisa installments would make 50,000 rows
+    expect(
+      restructuredWeeks(schedule, 2, 100000, { installmentAmount: 1 }),
+    ).toBe(50002);
+    expect(() =>
+      restructureSchedule(
+        schedule,
+        2,
+        100000,
+        NO_INTEREST,
+        { installmentAmount: 1 },
+        30,
+      ),
+    ).toThrow(RangeError);
+    expect(() =>
+      restructureSchedule(schedule, 2, 100000, NO_INTEREST, { weeks: 31 }, 30),
+    ).toThrow(RangeError);
+  });
+});
+
+describe("installmentsCovered", () => {
+  it("counts installments the principal repaid fully covers", () => {
+    const schedule = generatePaymentSchedule(90000, 3);
+    expect(installmentsCovered(schedule, 0)).toBe(0);
+    expect(installmentsCovered(schedule, 59999)).toBe(1);
+    expect(installmentsCovered(schedule, 60000)).toBe(2);
+    expect(installmentsCovered(schedule, 90000)).toBe(3);
+  });
+});
+
+describe("allocateInstallments", () => {
+  it("fills installments in order and marks late ones", () => {
+    const installments = allocateInstallments(
+      generatePaymentSchedule(90000, 3),
+      { disbursedAt, totalPrincipalPaid: 60000, openingWeek: 0 },
+      [
+        { date: day(13), amount: 30000, interest: 0 },
+        { date: day(22), amount: 30000, interest: 0 },
+      ],
+    );
+    expect(installments.map((i) => i.status)).toEqual([
+      "PAID",
+      "PAID_LATE",
+      "PENDING",
+    ]);
+    expect(installments[1].paidAt).toEqual(day(22));
+  });
+
+  it("fills the first installments with principal repaid before an import", () => {
+    const installments = allocateInstallments(
+      generatePaymentSchedule(90000, 3),
+      { disbursedAt, totalPrincipalPaid: 40000, openingWeek: 1 },
+      [],
+    );
+    expect(installments.map((i) => i.status)).toEqual([
+      "PAID",
+      "PARTIAL",
+      "PENDING",
+    ]);
+    expect(installments[1].principalPaid).toBe(10000);
+  });
+
+  it("carries over what a topped-up loan still owed", () => {
+    const installments = allocateInstallments(
+      generatePaymentSchedule(90000, 3),
+      {
+        disbursedAt,
+        totalPrincipalPaid: 40000,
+        openingWeek: 0,
+        toppedUp: true,
+      },
+      [{ date: day(13), amount: 40000, interest: 0 }],
+    );
+    expect(installments.map((i) => i.status)).toEqual([
+      "PAID",
+      "CARRIED_OVER",
+      "CARRIED_OVER",
+    ]);
+  });
+});
+
+describe("calculateRepaymentDues", () => {
+  const loan = {
+    principal: 100000,
+    remaining: 100000,
+    currentWeek: 0,
+    openingWeek: 0,
+    totalInterestPaid: 0,
+    totalPenaltyPaid: 0,
+    disbursedAt,
+  };
+  const schedule = generatePaymentSchedule(100000, 10);
+
+  it("splits what is owed into overdue and current installments", () => {
+    // Installments 1 and 2 fell due on the 13th and the 20th
+    const dues = calculateRepaymentDues(
+      loan,
+      schedule,
+      [],
+      NO_PENALTY,
+      day(21),
+    );
+    expect(dues).toMatchObject({
+      penalty: 0,
+      interest: 0,
+      overdue: 20000,
+      current: 10000,
+      installmentWeek: 3,
+      dueNow: 30000,
+      payoff: 100000,
+    });
+  });
+
+  it("fines each installment past its grace days", () => {
+    const rules: PenaltyRules = { ...NO_PENALTY, type: "FIXED", amount: 500 };
+    const dues = calculateRepaymentDues(loan, schedule, [], rules, day(21));
+    expect(dues.penalty).toBe(1000);
+    expect(
+      calculateRepaymentDues(
+        loan,
+        schedule,
+        [],
+        { ...rules, graceDays: 3 },
+        day(21),
+      ).penalty,
+    ).toBe(500);
+  });
+});
+
+describe("allocateRepayment", () => {
+  const dues: RepaymentDues = {
+    penalty: 100,
+    interest: 200,
+    overdue: 1000,
+    current: 1000,
+    remaining: 5000,
+    installmentWeek: 3,
+    dueNow: 2300,
+    payoff: 5300,
+  };
+
+  it("pays fines, then interest, then overdue and current installments", () => {
+    expect(allocateRepayment(1500, dues)).toEqual({
+      penalty: 100,
+      interest: 200,
+      overdue: 1000,
+      current: 200,
+      prepaid: 0,
+      principal: 1200,
+      excess: 0,
+    });
+  });
+
+  it("prepays the rest of the principal and returns any excess", () => {
+    expect(allocateRepayment(7000, dues)).toEqual({
+      penalty: 100,
+      interest: 200,
+      overdue: 1000,
+      current: 1000,
+      prepaid: 3000,
+      principal: 5000,
+      excess: 1700,
+    });
+  });
+});
+
+describe("calculateArrears", () => {
+  it("ages a loan from its oldest unpaid installment", () => {
+    const arrears = calculateArrears(
+      generatePaymentSchedule(100000, 10),
+      { principal: 100000, remaining: 90000, openingWeek: 0, disbursedAt },
+      day(21),
+    );
+    expect(arrears).toMatchObject({
+      installmentsDue: 2,
+      installmentsPaid: 1,
+      weeksInArrears: 1,
+      daysInArrears: 1,
+      arrears: 10000,
+      oldestDueDate: day(20),
+      bucket: "PAR_1",
+    });
+  });
+});
+
+describe("parBucketOf", () => {
+  it("puts a loan in the highest bucket its days in arrears reach", () => {
+    expect(parBucketOf(0)).toBe("CURRENT");
+    expect(parBucketOf(1)).toBe("PAR_1");
+    expect(parBucketOf(29)).toBe("PAR_1");
+    expect(parBucketOf(30)).toBe("PAR_30");
+    expect(parBucketOf(60)).toBe("PAR_60");
+    expect(parBucketOf(365)).toBe("PAR_90");
+  });
+});
@@ -1,5 +1,12 @@
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { z } from "zod";
+import {
+  DEFAULT_WEEKLY_AMOUNT,
+  formatMoney,
+  multiplyMoney,
+  splitEvenly,
+} from "./money";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -10,160 +17,1226 @@ export function generateOTP(): string {
 }
 
 // ==================== ROSCA Financial Calculations ====================
+// Amounts are integer paise (see lib/money.ts)
 
-export type InterestMethod = "SIMPLE" | "DECLINING";
+export type InterestMethod = "FLAT" | "DECLINING";
+export type RatePeriod = "WEEKLY" | "MONTHLY" | "ANNUAL";
 
 /**
- * Calculate interest for a given week using declining balance method
- * @param remainingBalance - Current remaining principal
- * @param interestRate - Weekly interest rate (e.g., 1.0 for 1%)
- * @returns Interest amount for this week (always 0 - no interest)
+ * Interest terms of a group or loan
+ * rate is a percentage per ratePeriod (e.g. 2 with MONTHLY for 2% a month)
+ */
+export interface InterestTerms {
+  method: InterestMethod;
+  rate: number;
+  ratePeriod: RatePeriod;
+}
+
+export const NO_INTEREST: InterestTerms = {
+  method: "FLAT",
+  rate: 0,
+  ratePeriod: "WEEKLY",
+};
+
+// Interest settings accepted by the group APIs (all optional - unset fields
+// keep the group's current value, or the interest-free default on create)
+export const interestTermsSchema = z.object({
+  interestMethod: z.enum(["FLAT", "DECLINING"]).optional(),
+  interestRate: z
+    .number()
+    .min(0, "Interest rate cannot be negative")
+    .max(100, "Interest rate is a percentage")
+    .optional(),
+  interestRatePeriod: z.enum(["WEEKLY", "MONTHLY", "ANNUAL"]).optional(),
+});
+
+const WEEKS_PER_RATE_PERIOD: Record<RatePeriod, number> = {
+  WEEKLY: 1,
+  MONTHLY: 52 / 12,
+  ANNUAL: 52,
+};
+
+/**
+ * Read the interest terms stored on a group or loan
+ * @param record - Group or loan with interestMethod, interestRate and interestRatePeriod
+ * @returns Interest terms
+ */
+export function interestTermsOf(record: {
+  interestMethod: InterestMethod;
+  interestRate: number;
+  interestRatePeriod: RatePeriod;
+}): InterestTerms {
+  return {
+    method: record.interestMethod,
+    rate: record.interestRate,
+    ratePeriod: record.interestRatePeriod,
+  };
+}
+
+/**
+ * Describe interest terms for display
+ * @param terms - Interest terms
+ * @returns e.g. "2% per month, declining balance" or "No interest"
+ */
+export function describeInterestTerms(terms: InterestTerms): string {
+  if (terms.rate <= 0) return "No interest";
+  const period = { WEEKLY: "week", MONTHLY: "month", ANNUAL: "year" }[
+    terms.ratePeriod
+  ];
+  const method = terms.method === "DECLINING" ? "declining balance" : "flat";
+  return `${terms.rate}% per ${period}, ${method}`;
+}
+
+/**
+ * Convert a rate quoted per period into a weekly fraction
+ * @param interestRate - Percentage per ratePeriod
+ * @param ratePeriod - Period the rate is quoted for
+ * @returns Weekly rate as a fraction (1% weekly = 0.01)
+ */
+export function weeklyInterestRate(
+  interestRate: number,
+  ratePeriod: RatePeriod = "WEEKLY"
+): number {
+  return interestRate / 100 / WEEKS_PER_RATE_PERIOD[ratePeriod];
+}
+
+/**
+ * Calculate one week's interest on a balance
+ * @param remainingBalance - Principal the interest is charged on
+ * @param interestRate - Percentage per ratePeriod
+ * @param ratePeriod - Period the rate is quoted for
+ * @returns Interest in whole paise
  */
 export function calculateWeeklyInterest(
   remainingBalance: number,
-  interestRate: number = 0.0
+  interestRate: number = 0.0,
+  ratePeriod: RatePeriod = "WEEKLY"
 ): number {
-  return 0; // No interest
+  return multiplyMoney(
+    remainingBalance,
+    weeklyInterestRate(interestRate, ratePeriod)
+  );
 }
 
 /**
  * Calculate weekly payment for declining balance method
  * @param remainingBalance - Current remaining principal
- * @param principalPayment - Principal payment amount (usually ₹100)
- * @param interestRate - Weekly interest rate (default 0% - no interest)
- * @returns Total payment (principal only, no interest)
+ * @param principalPayment - Principal payment amount (usually ₹100 = 10000 paise)
+ * @param interestRate - Percentage per ratePeriod
+ * @param ratePeriod - Period the rate is quoted for
+ * @returns Principal, interest on the remaining balance, total and new balance
  */
 export function calculateWeeklyPayment(
   remainingBalance: number,
-  principalPayment: number = 100,
-  interestRate: number = 0.0
+  principalPayment: number = DEFAULT_WEEKLY_AMOUNT,
+  interestRate: number = 0.0,
+  ratePeriod: RatePeriod = "WEEKLY"
 ): { principal: number; interest: number; total: number; newBalance: number } {
-  const interest = 0; // No interest
-  const total = principalPayment; // Only principal
-  const newBalance = Math.max(0, remainingBalance - principalPayment);
+  const principal = Math.min(principalPayment, remainingBalance);
+  const interest = calculateWeeklyInterest(
+    remainingBalance,
+    interestRate,
+    ratePeriod
+  );
 
   return {
-    principal: principalPayment,
+    principal,
     interest,
-    total,
-    newBalance,
+    total: principal + interest,
+    newBalance: remainingBalance - principal,
   };
 }
 
 /**
- * Calculate total interest for declining balance method over 10 weeks
+ * Calculate total interest for declining balance method
+ * Principal is repaid in even weekly installments and each week is charged
+ * on the balance still outstanding.
  * @param principal - Original loan amount
- * @param weeklyPrincipalPayment - Principal payment per week (default ₹100)
- * @param interestRate - Weekly interest rate (default 0% - no interest)
+ * @param interestRate - Percentage per ratePeriod
  * @param weeks - Number of weeks (default 10)
- * @returns Total interest paid (always 0 - no interest)
+ * @param ratePeriod - Period the rate is quoted for
+ * @returns Total interest over the term
  */
 export function calculateTotalInterestDeclining(
   principal: number,
-  weeklyPrincipalPayment: number = 100,
   interestRate: number = 0.0,
-  weeks: number = 10
+  weeks: number = 10,
+  ratePeriod: RatePeriod = "WEEKLY"
 ): number {
-  return 0; // No interest
+  let remaining = principal;
+  let total = 0;
+  for (const installment of splitEvenly(principal, weeks)) {
+    total += calculateWeeklyInterest(remaining, interestRate, ratePeriod);
+    remaining -= installment;
+  }
+  return total;
 }
 
 /**
- * Calculate total interest for simple interest method
+ * Calculate total interest for flat method
  * @param principal - Original loan amount
- * @param interestRate - Weekly interest rate (default 0% - no interest)
+ * @param interestRate - Percentage per ratePeriod
  * @param weeks - Number of weeks (default 10)
- * @returns Total interest paid (always 0 - no interest)
+ * @param ratePeriod - Period the rate is quoted for
+ * @returns Total interest over the term, charged on the full principal
  */
-export function calculateTotalInterestSimple(
+export function calculateTotalInterestFlat(
   principal: number,
   interestRate: number = 0.0,
-  weeks: number = 10
+  weeks: number = 10,
+  ratePeriod: RatePeriod = "WEEKLY"
 ): number {
-  return 0; // No interest
+  return multiplyMoney(
+    principal,
+    weeklyInterestRate(interestRate, ratePeriod) * weeks
+  );
+}
+
+/**
+ * Calculate the interest due with a loan's next installment
+ * Flat interest is spread evenly over the weeks; declining interest is
+ * charged on what is actually still outstanding.
+ * @param loan - Principal, remaining balance, term and installments paid so far
+ * @param terms - Interest terms of the loan
+ * @returns Interest in whole paise
+ */
+export function calculateInstallmentInterest(
+  loan: {
+    principal: number;
+    remaining: number;
+    weeks: number;
+    currentWeek: number;
+  },
+  terms: InterestTerms
+): number {
+  if (terms.rate <= 0 || loan.remaining <= 0) return 0;
+
+  if (terms.method === "DECLINING") {
+    return calculateWeeklyInterest(
+      loan.remaining,
+      terms.rate,
+      terms.ratePeriod
+    );
+  }
+
+  const totalInterest = calculateTotalInterestFlat(
+    loan.principal,
+    terms.rate,
+    loan.weeks,
+    terms.ratePeriod
+  );
+  return splitEvenly(totalInterest, loan.weeks)[loan.currentWeek] ?? 0;
+}
+
+export interface PaymentScheduleRow {
+  week: number; // Installment number
+  dueWeek: number; // Weeks after disbursal the installment falls due
+  principalRemaining: number;
+  principalPayment: number;
+  interest: number;
+  totalPayment: number;
+  newBalance: number;
 }
 
 /**
  * Generate payment schedule for a loan
+ * Principal is split evenly over the weeks in whole paise, the same
+ * installments /api/loans/repay charges.
  * @param principal - Original loan amount
- * @param weeklyPrincipalPayment - Principal payment per week
- * @param interestRate - Weekly interest rate
  * @param weeks - Number of weeks
- * @param method - Interest calculation method
+ * @param terms - Interest terms (default interest-free)
  * @returns Array of weekly payment details
  */
 export function generatePaymentSchedule(
   principal: number,
-  weeklyPrincipalPayment: number = 100,
-  interestRate: number = 0.0,
   weeks: number = 10,
-  method: InterestMethod = "DECLINING"
-): Array<{
-  week: number;
-  principalRemaining: number;
-  principalPayment: number;
-  interest: number;
-  totalPayment: number;
-  newBalance: number;
-}> {
-  const schedule: Array<{
-    week: number;
-    principalRemaining: number;
-    principalPayment: number;
-    interest: number;
-    totalPayment: number;
-    newBalance: number;
-  }> = [];
+  terms: InterestTerms = NO_INTEREST
+): PaymentScheduleRow[] {
+  const schedule: PaymentScheduleRow[] = [];
 
   let remaining = principal;
 
-  for (let week = 1; week <= weeks; week++) {
-    const interest = 0; // No interest
-
-    const principalPayment = Math.min(weeklyPrincipalPayment, remaining);
-    const totalPayment = principalPayment; // Only principal
-    const newBalance = Math.max(0, remaining - principalPayment);
+  splitEvenly(principal, weeks).forEach((principalPayment, index) => {
+    const interest = calculateInstallmentInterest(
+      { principal, remaining, weeks, currentWeek: index },
+      terms
+    );
+    const newBalance = remaining - principalPayment;
 
     schedule.push({
-      week,
+      week: index + 1,
+      dueWeek: index + 1,
       principalRemaining: remaining,
       principalPayment,
-      interest: 0, // No interest
-      totalPayment: Math.round(totalPayment * 100) / 100,
-      newBalance: Math.round(newBalance * 100) / 100,
+      interest,
+      totalPayment: principalPayment + interest,
+      newBalance,
     });
 
     remaining = newBalance;
-  }
+  });
 
   return schedule;
 }
 
+/**
+ * The schedule a loan is repaid on
+ * A restructured loan keeps the schedule it was given then; otherwise the
+ * schedule follows from the loan's principal, term and interest terms.
+ * @param loan - Loan with its stored schedule, if any
+ * @returns Array of weekly payment details
+ */
+export function loanSchedule(loan: {
+  principal: number;
+  weeks: number;
+  interestMethod: InterestMethod;
+  interestRate: number;
+  interestRatePeriod: RatePeriod;
+  schedule?: unknown;
+}): PaymentScheduleRow[] {
+  if (Array.isArray(loan.schedule)) {
+    return loan.schedule as PaymentScheduleRow[];
+  }
+  return generatePaymentSchedule(
+    loan.principal,
+    loan.weeks,
+    interestTermsOf(loan)
+  );
+}
+
+export interface RestructureTerms {
+  weeks?: number; // New total number of installments
+  installmentAmount?: number; // Principal per installment instead
+  startWeek?: number; // Week after disbursal the first new installment is due
+}
+
+// A restructured loan may run to this many times the group's loan term
+export const MAX_RESTRUCTURE_TERM_MULTIPLE = 3;
+
+/**
+ * Number of installments a restructured schedule would have
+ * Worked out without building the schedule, so an oversized one can be
+ * turned down first.
+ * @param schedule - The loan's current schedule
+ * @param covered - Installments already repaid
+ * @param principal - Original loan amount
+ * @param change - New term or installment size
+ * @returns Installments in the new schedule, the repaid ones included
+ */
+export function restructuredWeeks(
+  schedule: PaymentScheduleRow[],
+  covered: number,
+  principal: number,
+  change: RestructureTerms
+): number {
+  if (!change.installmentAmount) {
+    return change.weeks ?? schedule.length;
+  }
+  const outstanding =
+    principal -
+    schedule
+      .slice(0, covered)
+      .reduce((sum, row) => sum + row.principalPayment, 0);
+  return (
+    covered + Math.ceil(Math.max(0, outstanding) / change.installmentAmount)
+  );
+}
+
+/**
+ * Reschedule what a loan still owes
+ * Installments already repaid stay as they were. The principal left after
+ * them is spread over new installments - a set number of them, or as many as
+ * a fixed installment size needs - falling due weekly from startWeek
+ * (by default when the next installment was due anyway).
+ * @param schedule - The loan's current schedule
+ * @param covered - Installments already repaid
+ * @param principal - Original loan amount
+ * @param terms - Interest terms of the loan
+ * @param change - New term, installment size and/or start week
+ * @param maxWeeks - Most installments the new schedule may have
+ * @returns The new schedule
+ * @throws RangeError if the new schedule would have more than maxWeeks
+ *   installments
+ */
+export function restructureSchedule(
+  schedule: PaymentScheduleRow[],
+  covered: number,
+  principal: number,
+  terms: InterestTerms,
+  change: RestructureTerms,
+  maxWeeks: number
+): PaymentScheduleRow[] {
+  const total = restructuredWeeks(schedule, covered, principal, change);
+  if (total > maxWeeks) {
+    throw new RangeError(
+      `A restructured schedule can have at most ${maxWeeks} installments, not ${total}`
+    );
+  }
+
+  const kept = schedule.slice(0, covered);
+  const outstanding =
+    principal - kept.reduce((sum, row) => sum + row.principalPayment, 0);
+
+  let installments: number[];
+  if (change.installmentAmount) {
+    installments = [];
+    for (let left = outstanding; left > 0; left -= change.installmentAmount) {
+      installments.push(Math.min(left, change.installmentAmount));
+    }
+  } else {
+    installments = splitEvenly(
+      outstanding,
+      (change.weeks ?? schedule.length) - covered
+    );
+  }
+
+  const weeks = covered + installments.length;
+  const startWeek =
+    change.startWeek ??
+    schedule[covered]?.dueWeek ??
+    (kept[kept.length - 1]?.dueWeek ?? 0) + 1;
+
+  let remaining = outstanding;
+  const rescheduled = installments.map((principalPayment, index) => {
+    const interest = calculateInstallmentInterest(
+      { principal, remaining, weeks, currentWeek: covered + index },
+      terms
+    );
+    const row: PaymentScheduleRow = {
+      week: covered + index + 1,
+      dueWeek: startWeek + index,
+      principalRemaining: remaining,
+      principalPayment,
+      interest,
+      totalPayment: principalPayment + interest,
+      newBalance: remaining - principalPayment,
+    };
+    remaining = row.newBalance;
+    return row;
+  });
+
+  return [...kept, ...rescheduled];
+}
+
 /**
  * Calculate loan amount for a group cycle
  * @param totalMembers - Number of active members
- * @param weeklyAmount - Weekly contribution per member (default ₹100)
+ * @param weeklyAmount - Weekly contribution per member (default ₹100 = 10000 paise)
  * @returns Total loan amount available
  */
 export function calculateLoanAmount(
   totalMembers: number,
-  weeklyAmount: number = 100
+  weeklyAmount: number = DEFAULT_WEEKLY_AMOUNT
 ): number {
   return totalMembers * weeklyAmount;
 }
 
+export type PenaltyType = "NONE" | "FIXED" | "PERCENT";
+
+/**
+ * Late fine rules of a group
+ * A FIXED fine is an amount in paise, a PERCENT fine a percentage of the
+ * late installment; either applies once per installment paid more than
+ * graceDays after its due date.
+ */
+export interface PenaltyRules {
+  type: PenaltyType;
+  amount: number;
+  rate: number;
+  graceDays: number;
+}
+
+export const NO_PENALTY: PenaltyRules = {
+  type: "NONE",
+  amount: 0,
+  rate: 0,
+  graceDays: 0,
+};
+
+// Late fine settings accepted by the group APIs (all optional, like interestTermsSchema)
+export const penaltyRulesSchema = z.object({
+  penaltyType: z.enum(["NONE", "FIXED", "PERCENT"]).optional(),
+  penaltyAmount: z
+    .number()
+    .int("Amount must be a whole number of paise")
+    .min(0, "Penalty amount cannot be negative")
+    .optional(),
+  penaltyRate: z
+    .number()
+    .min(0, "Penalty rate cannot be negative")
+    .max(100, "Penalty rate is a percentage")
+    .optional(),
+  penaltyGraceDays: z.number().int().min(0).optional(),
+});
+
+/**
+ * Read the late fine rules stored on a group
+ * @param group - Group with penaltyType, penaltyAmount, penaltyRate and penaltyGraceDays
+ * @returns Penalty rules
+ */
+export function penaltyRulesOf(group: {
+  penaltyType: PenaltyType;
+  penaltyAmount: number;
+  penaltyRate: number;
+  penaltyGraceDays: number;
+}): PenaltyRules {
+  return {
+    type: group.penaltyType,
+    amount: group.penaltyAmount,
+    rate: group.penaltyRate,
+    graceDays: group.penaltyGraceDays,
+  };
+}
+
 /**
- * Calculate late payment penalty
- * @param overdueWeeks - Number of weeks payment is overdue
- * @param baseAmount - Base amount for penalty calculation
- * @param penaltyRate - Penalty rate per week (default 0% - no penalty)
- * @returns Penalty amount (always 0 - no penalty)
+ * Describe late fine rules for display
+ * @param rules - Penalty rules
+ * @returns e.g. "₹10.00 per late installment after 3 days grace" or "No late fine"
+ */
+export function describePenaltyRules(rules: PenaltyRules): string {
+  if (rules.type === "NONE") return "No late fine";
+  const fine =
+    rules.type === "FIXED"
+      ? `${formatMoney(rules.amount)} per late installment`
+      : `${rules.rate}% of the late installment`;
+  if (rules.graceDays <= 0) return fine;
+  const days = rules.graceDays === 1 ? "day" : "days";
+  return `${fine} after ${rules.graceDays} ${days} grace`;
+}
+
+/**
+ * Calculate the fine on one late installment
+ * @param installmentAmount - Installment due (principal + interest)
+ * @param rules - Penalty rules
+ * @returns Fine in whole paise
  */
 export function calculateLatePenalty(
-  overdueWeeks: number,
-  baseAmount: number,
-  penaltyRate: number = 0.0
+  installmentAmount: number,
+  rules: PenaltyRules
+): number {
+  if (rules.type === "FIXED") return rules.amount;
+  if (rules.type === "PERCENT") {
+    return multiplyMoney(installmentAmount, rules.rate / 100);
+  }
+  return 0;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days the group does not meet: a group holiday (harvest, festivals) or a
+ * moratorium on one loan. Both dates are inclusive.
+ */
+export interface MeetingPause {
+  startDate: Date | string;
+  endDate: Date | string;
+}
+
+function isPaused(date: Date, pauses: MeetingPause[]): boolean {
+  return pauses.some((pause) => {
+    const start = new Date(pause.startDate);
+    start.setHours(0, 0, 0, 0);
+    const end = new Date(pause.endDate);
+    end.setHours(0, 0, 0, 0);
+    return date >= start && date.getTime() < end.getTime() + DAY_MS;
+  });
+}
+
+// Meetings are weekly from a start date, on the meeting day when the group
+// has one. A meeting that falls in a pause is not held and does not count,
+// so the ones after it move on a week. Returns the count-th meeting held,
+// looking from firstWeek weeks after the start.
+function heldMeeting(
+  from: Date | string,
+  count: number,
+  firstWeek: number,
+  meetingDay: number | null | undefined,
+  pauses: MeetingPause[]
+): Date {
+  const meetingOn = (week: number) => {
+    const date = new Date(new Date(from).getTime() + week * 7 * DAY_MS);
+    if (meetingDay !== null && meetingDay !== undefined) {
+      date.setDate(date.getDate() + ((meetingDay - date.getDay() + 7) % 7));
+    }
+    return date;
+  };
+
+  let week = firstWeek;
+  let held = 0;
+  // Pauses are a few weeks long, so this always ends well within the limit
+  for (let tries = 0; tries < count + 520; tries++, week++) {
+    if (!isPaused(meetingOn(week), pauses) && ++held >= count) break;
+  }
+  return meetingOn(week);
+}
+
+/**
+ * Date an installment falls due
+ * dueWeek weeks after disbursal, moved on to the group's meeting day when it
+ * has one, since that is when repayments are collected. Weeks the group does
+ * not meet (holidays, or a moratorium on the loan) are skipped, so the
+ * installment falls due that many meetings later.
+ * @param disbursedAt - Date the loan was paid out
+ * @param dueWeek - Weeks after disbursal the installment falls due
+ * @param meetingDay - Group's meeting day (0 = Sunday ... 6 = Saturday), or
+ *   null to keep the weekday the loan was disbursed on
+ * @param pauses - Group holidays and the loan's moratoriums
+ * @returns Due date
+ */
+export function installmentDueDate(
+  disbursedAt: Date | string,
+  dueWeek: number,
+  meetingDay?: number | null,
+  pauses: MeetingPause[] = []
+): Date {
+  if (dueWeek <= 0) return heldMeeting(disbursedAt, 0, dueWeek, meetingDay, []);
+  return heldMeeting(disbursedAt, dueWeek, 1, meetingDay, pauses);
+}
+
+/**
+ * Date of a cycle's weekly collection
+ * Week 1 is the first meeting held from the cycle's start; each later week is
+ * the next meeting held, skipping the group's holidays.
+ * @param startDate - Cycle start date
+ * @param week - Collection week (1, 2, 3...)
+ * @param meetingDay - Group's meeting day, or null to keep the weekday the
+ *   cycle started on
+ * @param holidays - The group's holidays
+ * @returns Collection date
+ */
+export function collectionDateOf(
+  startDate: Date | string,
+  week: number,
+  meetingDay?: number | null,
+  holidays: MeetingPause[] = []
+): Date {
+  return heldMeeting(startDate, week, 0, meetingDay, holidays);
+}
+
+/**
+ * Whether the group meets on a date
+ * @param date - Date to check
+ * @param holidays - The group's holidays
+ * @returns False when the date falls in a holiday
+ */
+export function isMeetingHeld(date: Date, holidays: MeetingPause[]): boolean {
+  return !isPaused(date, holidays);
+}
+
+/**
+ * Everything that pauses a loan's installments
+ * @param loan - The loan with its moratoriums and its group's holidays
+ * @returns The group's holidays and the loan's moratoriums together
+ */
+export function meetingPausesOf(loan: {
+  moratoriums?: MeetingPause[];
+  cycle?: { group?: { holidays?: MeetingPause[] } | null } | null;
+}): MeetingPause[] {
+  return [...(loan.cycle?.group?.holidays ?? []), ...(loan.moratoriums ?? [])];
+}
+
+export interface LateInstallment {
+  week: number;
+  dueDate: Date;
+  paidAt: Date | null; // null while still unpaid
+  daysLate: number;
+  penalty: number;
+}
+
+/**
+ * Find the installments of a loan that are fined for being late
+ * Each installment falls due on installmentDueDate. It is late when the
+ * repayment
+ * that settled it was made (or, if still unpaid, asOf is) more than graceDays
+ * after that.
+ * @param schedule - The loan's payment schedule
+ * @param loan - Disbursal date, installments settled before an import and
+ *   the group's meeting day
+ * @param repayments - Repayments in effect (not reversed), with the
+ *   installments settled once each was made
+ * @param rules - The group's penalty rules
+ * @param asOf - Date dues are worked out at
+ * @returns Late installments with their fines
+ */
+export function calculateLateInstallments(
+  schedule: PaymentScheduleRow[],
+  loan: {
+    disbursedAt: Date | string | null;
+    openingWeek: number;
+    meetingDay?: number | null;
+    pauses?: MeetingPause[];
+  },
+  repayments: Array<{ week: number; date: Date | string }>,
+  rules: PenaltyRules,
+  asOf: Date
+): LateInstallment[] {
+  if (rules.type === "NONE" || !loan.disbursedAt) return [];
+
+  const disbursedAt = loan.disbursedAt;
+  const late: LateInstallment[] = [];
+  const inOrder = [...repayments].sort(
+    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+  );
+
+  for (const row of schedule) {
+    // Paid on paper before an opening balance import - nothing to judge it
+    // by, so it counts as on time
+    if (row.week <= loan.openingWeek) continue;
+
+    const dueDate = installmentDueDate(
+      disbursedAt,
+      row.dueWeek,
+      loan.meetingDay,
+      loan.pauses
+    );
+    const repayment = inOrder.find((r) => r.week >= row.week);
+
+    const paidAt = repayment ? new Date(repayment.date) : null;
+    const daysLate = Math.floor(
+      ((paidAt ?? asOf).getTime() - dueDate.getTime()) / DAY_MS
+    );
+
+    if (daysLate > rules.graceDays) {
+      late.push({
+        week: row.week,
+        dueDate,
+        paidAt,
+        daysLate,
+        penalty: calculateLatePenalty(row.totalPayment, rules),
+      });
+    }
+  }
+
+  return late;
+}
+
+/**
+ * Count the installments a loan's principal repayments fully cover
+ * @param schedule - The loan's payment schedule
+ * @param principalPaid - Principal repaid so far
+ * @returns Installments paid off, from 0 to the length of the schedule
+ */
+export function installmentsCovered(
+  schedule: PaymentScheduleRow[],
+  principalPaid: number
 ): number {
-  return 0; // No penalty
+  let covered = 0;
+  let cumulative = 0;
+  for (const row of schedule) {
+    cumulative += row.principalPayment;
+    if (cumulative > principalPaid) break;
+    covered++;
+  }
+  return covered;
+}
+
+export type InstallmentStatus =
+  | "PENDING"
+  | "PARTIAL"
+  | "PAID"
+  | "PAID_LATE"
+  | "CARRIED_OVER";
+
+export interface InstallmentState {
+  week: number;
+  dueWeek: number;
+  dueDate: Date;
+  principalDue: number;
+  interestDue: number;
+  principalPaid: number;
+  interestPaid: number;
+  paidAt: Date | null; // When it was fully paid
+  status: InstallmentStatus;
+}
+
+/**
+ * Work out what has been paid towards each installment of a loan
+ * Principal and interest from the repayments, oldest first, fill the
+ * installments in order. Principal repaid without a repayment on record (on
+ * paper before an opening balance import) fills the first installments, and
+ * interest is not owed on installments settled before the import. On a loan
+ * that was topped up, whatever was still unpaid moved to the top-up loan.
+ * @param schedule - The loan's payment schedule
+ * @param loan - Disbursal date, principal repaid so far, installments settled
+ *   before an import, the group's meeting day and whether it was topped up
+ * @param repayments - Repayments in effect (not reversed)
+ * @returns One entry per installment of the schedule
+ */
+export function allocateInstallments(
+  schedule: PaymentScheduleRow[],
+  loan: {
+    disbursedAt: Date | string;
+    totalPrincipalPaid: number;
+    openingWeek: number;
+    meetingDay?: number | null;
+    pauses?: MeetingPause[];
+    toppedUp?: boolean;
+  },
+  repayments: Array<{ date: Date | string; amount: number; interest: number }>
+): InstallmentState[] {
+  const installments = schedule.map((row) => ({
+    week: row.week,
+    dueWeek: row.dueWeek,
+    dueDate: installmentDueDate(
+      loan.disbursedAt,
+      row.dueWeek,
+      loan.meetingDay,
+      loan.pauses
+    ),
+    principalDue: row.principalPayment,
+    interestDue: row.interest,
+    principalPaid: 0,
+    interestPaid: row.week <= loan.openingWeek ? row.interest : 0,
+    paidAt: null as Date | null,
+  }));
+
+  const settled = (i: (typeof installments)[number]) =>
+    i.principalPaid >= i.principalDue && i.interestPaid >= i.interestDue;
+
+  const fill = (
+    amount: number,
+    part: "principal" | "interest",
+    date: Date | null
+  ) => {
+    for (const installment of installments) {
+      if (amount <= 0) break;
+      const due =
+        part === "principal"
+          ? installment.principalDue
+          : installment.interestDue;
+      const paid =
+        part === "principal"
+          ? installment.principalPaid
+          : installment.interestPaid;
+      const taken = Math.min(amount, due - paid);
+      if (taken <= 0) continue;
+
+      if (part === "principal") installment.principalPaid += taken;
+      else installment.interestPaid += taken;
+      amount -= taken;
+      if (settled(installment)) installment.paidAt = date;
+    }
+  };
+
+  const inOrder = [...repayments].sort(
+    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+  );
+  const principalOnRecord = inOrder.reduce((sum, r) => sum + r.amount, 0);
+  fill(
+    Math.max(0, loan.totalPrincipalPaid - principalOnRecord),
+    "principal",
+    null
+  );
+
+  for (const repayment of inOrder) {
+    const date = new Date(repayment.date);
+    fill(repayment.amount, "principal", date);
+    fill(repayment.interest, "interest", date);
+  }
+
+  return installments.map((installment) => {
+    let status: InstallmentStatus = "PENDING";
+    if (settled(installment)) {
+      const daysLate = installment.paidAt
+        ? Math.floor(
+            (installment.paidAt.getTime() - installment.dueDate.getTime()) /
+              DAY_MS
+          )
+        : 0;
+      status = daysLate > 0 ? "PAID_LATE" : "PAID";
+    } else if (loan.toppedUp) {
+      status = "CARRIED_OVER";
+    } else if (installment.principalPaid + installment.interestPaid > 0) {
+      status = "PARTIAL";
+    }
+    return { ...installment, status };
+  });
+}
+
+export interface RepaymentDues {
+  penalty: number; // Late fines accrued and not yet paid
+  interest: number; // Interest charged and not yet paid
+  overdue: number; // Principal of installments past their due date
+  current: number; // Principal of the installment being paid now
+  remaining: number; // All principal still owed
+  installmentWeek: number; // Installment interest is charged up to
+  dueNow: number; // Penalty, interest, overdue and current together
+  payoff: number; // Everything needed to close the loan today
+}
+
+/**
+ * Work out what a loan owes on a given date
+ * Each installment falls due on installmentDueDate. Interest follows the
+ * schedule and is charged for each installment once it falls due or is being
+ * paid, so a loan cleared early carries no interest for the weeks it never
+ * reached. Installments settled before an opening balance import owe nothing.
+ * @param loan - The loan, with what has been paid towards it so far
+ * @param schedule - The loan's payment schedule
+ * @param repayments - Repayments in effect (not reversed)
+ * @param rules - The group's penalty rules
+ * @param asOf - Date dues are worked out at
+ * @returns Dues in whole paise
+ */
+export function calculateRepaymentDues(
+  loan: {
+    principal: number;
+    remaining: number;
+    currentWeek: number;
+    openingWeek: number;
+    totalInterestPaid: number;
+    totalPenaltyPaid: number;
+    disbursedAt: Date | string | null;
+    meetingDay?: number | null;
+    pauses?: MeetingPause[];
+  },
+  schedule: PaymentScheduleRow[],
+  repayments: Array<{ week: number; date: Date | string }>,
+  rules: PenaltyRules,
+  asOf: Date
+): RepaymentDues {
+  const principalPaid = loan.principal - loan.remaining;
+  const principalDueBy = (week: number) =>
+    schedule
+      .filter((row) => row.week <= week)
+      .reduce((sum, row) => sum + row.principalPayment, 0);
+
+  const disbursedAt = loan.disbursedAt;
+  const weeksDue = disbursedAt
+    ? schedule.filter(
+        (row) =>
+          installmentDueDate(
+            disbursedAt,
+            row.dueWeek,
+            loan.meetingDay,
+            loan.pauses
+          ) <= asOf
+      ).length
+    : 0;
+  const installmentWeek = Math.min(
+    schedule.length,
+    Math.max(loan.currentWeek, weeksDue) + 1
+  );
+
+  const owedBy = (week: number) =>
+    Math.min(loan.remaining, Math.max(0, principalDueBy(week) - principalPaid));
+  const overdue = owedBy(weeksDue);
+  const current = owedBy(installmentWeek) - overdue;
+
+  const interestCharged =
+    loan.remaining > 0
+      ? schedule
+          .filter(
+            (row) => row.week > loan.openingWeek && row.week <= installmentWeek
+          )
+          .reduce((sum, row) => sum + row.interest, 0)
+      : 0;
+  const interest = Math.max(0, interestCharged - loan.totalInterestPaid);
+
+  const finesAccrued = calculateLateInstallments(
+    schedule,
+    loan,
+    repayments,
+    rules,
+    asOf
+  ).reduce((sum, late) => sum + late.penalty, 0);
+  const penalty = Math.max(0, finesAccrued - loan.totalPenaltyPaid);
+
+  return {
+    penalty,
+    interest,
+    overdue,
+    current,
+    remaining: loan.remaining,
+    installmentWeek,
+    dueNow: penalty + interest + overdue + current,
+    payoff: penalty + interest + loan.remaining,
+  };
+}
+
+export interface RepaymentAllocation {
+  penalty: number;
+  interest: number;
+  overdue: number;
+  current: number;
+  prepaid: number; // Principal paid ahead of the schedule
+  principal: number; // overdue + current + prepaid
+  excess: number; // More than the loan needs to be closed
+}
+
+/**
+ * Split a repayment across what the loan owes
+ * Fines come first, then interest, overdue installments, the current
+ * installment, and anything left over prepays the remaining principal.
+ * @param amount - Amount paid
+ * @param dues - What the loan owes (see calculateRepaymentDues)
+ * @returns How the amount is applied
+ */
+export function allocateRepayment(
+  amount: number,
+  dues: RepaymentDues
+): RepaymentAllocation {
+  let left = amount;
+  const take = (due: number) => {
+    const part = Math.min(left, due);
+    left -= part;
+    return part;
+  };
+
+  const penalty = take(dues.penalty);
+  const interest = take(dues.interest);
+  const overdue = take(dues.overdue);
+  const current = take(dues.current);
+  const prepaid = take(dues.remaining - dues.overdue - dues.current);
+
+  return {
+    penalty,
+    interest,
+    overdue,
+    current,
+    prepaid,
+    principal: overdue + current + prepaid,
+    excess: left,
+  };
+}
+
+export interface PayoffWaiver {
+  type: "INTEREST_NOT_ACCRUED";
+  description: string;
+  amount: number;
+}
+
+export interface PayoffQuote {
+  asOf: Date;
+  principal: number; // Principal still owed
+  interest: number; // Interest accrued and not yet paid
+  penalty: number; // Late fines accrued and not yet paid
+  lateInstallments: LateInstallment[]; // Every installment fined, paid or not
+  penaltyPaid: number; // Fines already paid towards them
+  waivers: PayoffWaiver[]; // What closing on asOf saves against the schedule
+  total: number; // Amount that closes the loan on asOf
+}
+
+/**
+ * Quote what it takes to close a loan on a given date
+ * Uses the same dues as a repayment on that date, so paying the total through
+ * the repayment route closes the loan. Interest for installments the loan
+ * never reaches is not charged and is shown as waived.
+ * @param loan - The loan, with what has been paid towards it so far
+ * @param schedule - The loan's payment schedule
+ * @param repayments - Repayments in effect (not reversed)
+ * @param rules - The group's penalty rules
+ * @param asOf - Date the loan would be closed
+ * @returns The quote in whole paise
+ */
+export function calculatePayoffQuote(
+  loan: Parameters<typeof calculateRepaymentDues>[0],
+  schedule: PaymentScheduleRow[],
+  repayments: Array<{ week: number; date: Date | string }>,
+  rules: PenaltyRules,
+  asOf: Date
+): PayoffQuote {
+  const dues = calculateRepaymentDues(loan, schedule, repayments, rules, asOf);
+
+  const interestNotAccrued = schedule
+    .filter((row) => row.week > dues.installmentWeek)
+    .reduce((sum, row) => sum + row.interest, 0);
+  const waivers: PayoffWaiver[] =
+    interestNotAccrued > 0
+      ? [
+          {
+            type: "INTEREST_NOT_ACCRUED",
+            description: `Interest on installments ${
+              dues.installmentWeek + 1
+            }-${schedule.length}, not reached when closing early`,
+            amount: interestNotAccrued,
+          },
+        ]
+      : [];
+
+  return {
+    asOf,
+    principal: dues.remaining,
+    interest: dues.interest,
+    penalty: dues.penalty,
+    lateInstallments: calculateLateInstallments(
+      schedule,
+      loan,
+      repayments,
+      rules,
+      asOf
+    ),
+    penaltyPaid: loan.totalPenaltyPaid,
+    waivers,
+    total: dues.payoff,
+  };
+}
+
+/**
+ * Portfolio-at-risk ageing buckets
+ * A loan sits in the highest bucket its days in arrears reach: PAR 1 is 1-29
+ * days, PAR 30 is 30-59, PAR 60 is 60-89 and PAR 90 is 90 days or more.
+ */
+export type ParBucket = "CURRENT" | "PAR_1" | "PAR_30" | "PAR_60" | "PAR_90";
+
+export const PAR_BUCKETS: Array<{ bucket: ParBucket; days: number }> = [
+  { bucket: "CURRENT", days: 0 },
+  { bucket: "PAR_1", days: 1 },
+  { bucket: "PAR_30", days: 30 },
+  { bucket: "PAR_60", days: 60 },
+  { bucket: "PAR_90", days: 90 },
+];
+
+/**
+ * Ageing bucket for a number of days in arrears
+ * @param daysInArrears - Days since the oldest unpaid installment fell due
+ * @returns PAR bucket
+ */
+export function parBucketOf(daysInArrears: number): ParBucket {
+  let bucket: ParBucket = "CURRENT";
+  for (const par of PAR_BUCKETS) {
+    if (daysInArrears >= par.days) bucket = par.bucket;
+  }
+  return bucket;
+}
+
+export interface LoanArrears {
+  installmentsDue: number; // Installments past their due date
+  installmentsPaid: number; // Installments whose principal is fully repaid
+  weeksInArrears: number; // Installments due but not yet repaid
+  daysInArrears: number; // Days since the oldest unpaid installment fell due
+  arrears: number; // Principal of the installments in arrears
+  oldestDueDate: Date | null; // Due date of the oldest unpaid installment
+  bucket: ParBucket;
+}
+
+/**
+ * Work out how far behind its schedule a loan is
+ * Compares the installments that have fallen due with the principal actually
+ * repaid. Installments settled before an opening balance import count as
+ * repaid.
+ * @param schedule - The loan's payment schedule
+ * @param loan - The loan, with its principal still owed and the group's
+ *   meeting day
+ * @param asOf - Date arrears are worked out at
+ * @returns Arrears in installments, days and whole paise
+ */
+export function calculateArrears(
+  schedule: PaymentScheduleRow[],
+  loan: {
+    principal: number;
+    remaining: number;
+    openingWeek: number;
+    disbursedAt: Date | string | null;
+    meetingDay?: number | null;
+    pauses?: MeetingPause[];
+  },
+  asOf: Date
+): LoanArrears {
+  const disbursedAt = loan.disbursedAt;
+  const principalPaid = loan.principal - loan.remaining;
+  const installmentsPaid = Math.max(
+    loan.openingWeek,
+    installmentsCovered(schedule, principalPaid)
+  );
+  const due = disbursedAt
+    ? schedule.filter(
+        (row) =>
+          installmentDueDate(
+            disbursedAt,
+            row.dueWeek,
+            loan.meetingDay,
+            loan.pauses
+          ) <= asOf
+      )
+    : [];
+
+  const unpaid = due.filter((row) => row.week > installmentsPaid);
+  const oldestDueDate =
+    disbursedAt && unpaid.length > 0
+      ? installmentDueDate(
+          disbursedAt,
+          unpaid[0].dueWeek,
+          loan.meetingDay,
+          loan.pauses
+        )
+      : null;
+  const daysInArrears = oldestDueDate
+    ? Math.floor((asOf.getTime() - oldestDueDate.getTime()) / DAY_MS)
+    : 0;
+  const principalDue = due.reduce((sum, row) => sum + row.principalPayment, 0);
+
+  return {
+    installmentsDue: due.length,
+    installmentsPaid,
+    weeksInArrears: unpaid.length,
+    daysInArrears,
+    arrears: Math.min(loan.remaining, Math.max(0, principalDue - principalPaid)),
+    oldestDueDate,
+    bucket: parBucketOf(daysInArrears),
+  };
+}
+
+// Meeting day and automatic default fields accepted by the group APIs
+// (all optional)
+export const arrearsRulesSchema = z.object({
+  meetingDay: z.number().int().min(0).max(6).nullable().optional(), // 0 = Sunday
+  defaultAfterDays: z.number().int().min(0).optional(),
+});
+
+/**
+ * Guarantor limits of a group
+ * A member never guarantees their own loan. On top of that a group can cap
+ * the loans one member guarantees at a time, and the balance they guarantee
+ * as a multiple of their savings. 0 means no limit.
+ */
+export interface GuarantorRules {
+  maxActiveGuarantees: number;
+  savingsMultiple: number;
+}
+
+export const NO_GUARANTOR_LIMITS: GuarantorRules = {
+  maxActiveGuarantees: 0,
+  savingsMultiple: 0,
+};
+
+// Guarantor limit fields accepted by the group APIs (all optional)
+export const guarantorRulesSchema = z.object({
+  maxActiveGuarantees: z.number().int().min(0).optional(),
+  guaranteeSavingsMultiple: z
+    .number()
+    .min(0, "Savings multiple cannot be negative")
+    .optional(),
+});
+
+/**
+ * Read the guarantor limits stored on a group
+ * @param group - Group with maxActiveGuarantees and guaranteeSavingsMultiple
+ * @returns Guarantor rules
+ */
+export function guarantorRulesOf(group: {
+  maxActiveGuarantees: number;
+  guaranteeSavingsMultiple: number;
+}): GuarantorRules {
+  return {
+    maxActiveGuarantees: group.maxActiveGuarantees,
+    savingsMultiple: group.guaranteeSavingsMultiple,
+  };
+}
+
+/**
+ * Describe guarantor limits for display
+ * @param rules - Guarantor rules
+ * @returns e.g. "Up to 2 loans, 3× savings" or "No limits"
+ */
+export function describeGuarantorRules(rules: GuarantorRules): string {
+  const limits = [
+    rules.maxActiveGuarantees > 0 &&
+      `Up to ${rules.maxActiveGuarantees} loan${
+        rules.maxActiveGuarantees === 1 ? "" : "s"
+      }`,
+    rules.savingsMultiple > 0 && `${rules.savingsMultiple}× savings`,
+  ].filter(Boolean);
+  return limits.length > 0 ? limits.join(", ") : "No limits";
 }
 
 /**
@@ -185,12 +1258,9 @@ export function calculateGroupFundAllocation(
   adminFee: number;
   distributable: number;
 } {
-  const emergencyReserve =
-    Math.round(((interestPool * reservePercentage) / 100) * 100) / 100;
-  const insuranceFund =
-    Math.round(((interestPool * insurancePercentage) / 100) * 100) / 100;
-  const adminFee =
-    Math.round(((interestPool * adminFeePercentage) / 100) * 100) / 100;
+  const emergencyReserve = multiplyMoney(interestPool, reservePercentage / 100);
+  const insuranceFund = multiplyMoney(interestPool, insurancePercentage / 100);
+  const adminFee = multiplyMoney(interestPool, adminFeePercentage / 100);
   const distributable =
     interestPool - emergencyReserve - insuranceFund - adminFee;
 
@@ -198,6 +1268,6 @@ export function calculateGroupFundAllocation(
     emergencyReserve,
     insuranceFund,
     adminFee,
-    distributable: Math.round(distributable * 100) / 100,
+    distributable,
   };
 }
@@ -11,6 +11,7 @@ export async function proxy(request: NextRequest) {
     "/auth/login",
     "/api/auth/login",
     "/api/auth/logout",
+    "/api/loans/arrears", // Scheduled runs authenticate with CRON_SECRET; the route checks auth itself
   ];
   const isPublicRoute = publicRoutes.some((route) => {
     if (route === "/") {
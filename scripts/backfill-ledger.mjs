@@ -0,0 +1,137 @@
+// One-off backfill for the general ledger.
+// Posts opening balances for group funds, member savings and outstanding loans
+// from the counters that were kept before every money movement was journaled,
+// so balances derived from the ledger match what members already see.
+//
+// Amounts are integer paise, so run db:migrate-money first on older data.
+//
+// Usage: npm run db:backfill-ledger
+
+import { PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+async function postOpening(date, description, sourceId, groupId, cycleId, lines) {
+  await prisma.journalEntry.create({
+    data: {
+      date,
+      description,
+      source: "OPENING_BALANCE",
+      sourceId,
+      groupId,
+      cycleId,
+      lines: {
+        create: lines.map((line) => ({
+          debit: 0,
+          credit: 0,
+          groupId,
+          cycleId,
+          memberId: null,
+          loanId: null,
+          ...line,
+        })),
+      },
+    },
+  });
+}
+
+// Debit/credit pair that moves `amount` onto the normal side of `account`
+function openingLines(account, amount, dimensions = {}) {
+  const debitNormal = account === "CASH" || account === "LOANS_RECEIVABLE";
+  const onNormalSide = amount > 0;
+  const value = Math.round(Math.abs(amount));
+  const accountIsDebit = debitNormal === onNormalSide;
+
+  return [
+    {
+      account,
+      ...dimensions,
+      debit: accountIsDebit ? value : 0,
+      credit: accountIsDebit ? 0 : value,
+    },
+    {
+      account: "OPENING_BALANCE",
+      debit: accountIsDebit ? 0 : value,
+      credit: accountIsDebit ? value : 0,
+    },
+  ];
+}
+
+async function main() {
+  const existing = await prisma.journalEntry.count({
+    where: { source: "OPENING_BALANCE" },
+  });
+  if (existing > 0) {
+    console.log("Opening balances already posted, nothing to do.");
+    return;
+  }
+
+  const now = new Date();
+  let posted = 0;
+
+  // Group funds: cash held by each cycle
+  const funds = await prisma.groupFund.findMany({ include: { cycle: true } });
+  for (const fund of funds) {
+    if (!fund.cycleId || Math.round(fund.totalFunds) === 0) continue;
+    await postOpening(
+      now,
+      `Opening group fund balance for cycle #${fund.cycle?.cycleNumber ?? "-"}`,
+      fund.id,
+      fund.cycle?.groupId ?? null,
+      fund.cycleId,
+      openingLines("CASH", fund.totalFunds)
+    );
+    posted++;
+  }
+
+  // Member savings: owed to the member and held as general cash
+  const savings = await prisma.savings.findMany();
+  for (const record of savings) {
+    if (Math.round(record.totalAmount) === 0) continue;
+    await postOpening(
+      now,
+      "Opening savings balance",
+      record.id,
+      null,
+      null,
+      [
+        { account: "CASH", debit: Math.round(record.totalAmount) },
+        {
+          account: "MEMBER_SAVINGS",
+          memberId: record.memberId,
+          credit: Math.round(record.totalAmount),
+        },
+      ]
+    );
+    posted++;
+  }
+
+  // Outstanding loans: principal still receivable
+  const loans = await prisma.loan.findMany({
+    where: { status: { in: ["ACTIVE", "DEFAULTED"] }, remaining: { gt: 0 } },
+    include: { cycle: true },
+  });
+  for (const loan of loans) {
+    await postOpening(
+      loan.disbursedAt ?? now,
+      "Opening loan balance",
+      loan.id,
+      loan.cycle?.groupId ?? null,
+      loan.cycleId,
+      openingLines("LOANS_RECEIVABLE", loan.remaining, {
+        memberId: loan.memberId,
+        loanId: loan.id,
+      })
+    );
+    posted++;
+  }
+
+  console.log(`Posted ${posted} opening balance entries.`);
+}
+
+main()
+  .catch((error) => {
+    console.error("Ledger backfill failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
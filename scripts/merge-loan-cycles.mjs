@@ -0,0 +1,176 @@
+// One-off migration of one-loan cycles into one cycle per group.
+// Creating a cycle used to create a new cycle, with its own group fund, for
+// every loan. A cycle is now a period of a group's lending with one fund and
+// many loans, so each group's one-loan cycles (fixed allocation, no rotation
+// slots or auctions, at most one loan) are merged into its earliest one:
+//   - loans, waitlist entries and journal entries move to the merged cycle,
+//     so its group fund is the cash the old cycles held between them
+//   - collections keep their dates and payments and are renumbered week
+//     1, 2, 3... in date order
+//   - the merged cycle is active if any of the old ones was
+//   - loans that finished before the ledger was kept stay out of the merged
+//     cycle's share-out, as their principal was already shared out to savings
+//     (see shareOutCycleFund)
+// Cycles without a group are merged the same way. Each group is merged in one
+// transaction, so a failed merge leaves that group's cycles as they were and
+// re-running the script merges them again. Re-running it after a complete run
+// only merges a group that again has two or more cycles of at most one loan,
+// such as a merged cycle left with one loan and a cycle started since - run
+// it once, when upgrading, and check the dry run before any later run.
+//
+// Usage: npm run db:merge-cycles (add -- --dry-run to only list the merges)
+
+import { PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+const dryRun = process.argv.includes("--dry-run");
+
+async function mergeCycles(tx, target, sources) {
+  const sourceIds = sources.map((cycle) => cycle.id);
+  const cycleIds = [target.id, ...sourceIds];
+
+  await tx.loan.updateMany({
+    where: { cycleId: { in: sourceIds } },
+    data: { cycleId: target.id },
+  });
+  await tx.loanWaitlistEntry.updateMany({
+    where: { cycleId: { in: sourceIds } },
+    data: { cycleId: target.id },
+  });
+  await tx.journalEntry.updateMany({
+    where: { cycleId: { in: sourceIds } },
+    data: { cycleId: target.id },
+  });
+  await tx.journalLine.updateMany({
+    where: { cycleId: { in: sourceIds } },
+    data: { cycleId: target.id },
+  });
+
+  // Renumber in two passes so no two collections share a week in between
+  const collections = await tx.weeklyCollection.findMany({
+    where: { cycleId: { in: cycleIds } },
+    orderBy: [{ collectionDate: "asc" }, { createdAt: "asc" }],
+  });
+  for (const [index, collection] of collections.entries()) {
+    await tx.weeklyCollection.update({
+      where: { id: collection.id },
+      data: { cycleId: target.id, week: -(index + 1) },
+    });
+  }
+  for (const [index, collection] of collections.entries()) {
+    await tx.weeklyCollection.update({
+      where: { id: collection.id },
+      data: { week: index + 1 },
+    });
+  }
+
+  const all = [target, ...sources];
+  const isActive = all.some((cycle) => cycle.isActive);
+  const endDates = all
+    .map((cycle) => cycle.endDate)
+    .filter(Boolean)
+    .sort((a, b) => b.getTime() - a.getTime());
+  await tx.loanCycle.update({
+    where: { id: target.id },
+    data: {
+      isActive,
+      endDate: isActive ? null : endDates[0] ?? null,
+      currentWeek: Math.max(
+        collections.length,
+        ...all.map((cycle) => cycle.currentWeek)
+      ),
+    },
+  });
+
+  await tx.groupFund.deleteMany({ where: { cycleId: { in: sourceIds } } });
+  await tx.loanCycle.deleteMany({ where: { id: { in: sourceIds } } });
+
+  // Group fund balance is derived from the cycle's cash in the ledger
+  const cash = await tx.journalLine.aggregate({
+    _sum: { debit: true, credit: true },
+    where: { account: "CASH", cycleId: target.id },
+  });
+  const balance = (cash._sum.debit || 0) - (cash._sum.credit || 0);
+  await tx.groupFund.upsert({
+    where: { cycleId: target.id },
+    create: { cycleId: target.id, investmentPool: balance, totalFunds: balance },
+    update: { investmentPool: balance, totalFunds: balance },
+  });
+
+  return { collections: collections.length, balance, isActive };
+}
+
+async function main() {
+  const cycles = await prisma.loanCycle.findMany({
+    include: {
+      group: { select: { name: true } },
+      _count: { select: { loans: true, sequences: true, auctions: true } },
+    },
+    orderBy: [{ startDate: "asc" }, { cycleNumber: "asc" }],
+  });
+
+  // Each group's one-loan cycles, earliest first
+  const byGroup = new Map();
+  for (const cycle of cycles) {
+    const oneLoan =
+      cycle.allocationMode === "FIXED" &&
+      cycle._count.sequences === 0 &&
+      cycle._count.auctions === 0 &&
+      cycle._count.loans <= 1;
+    if (!oneLoan) continue;
+
+    const key = cycle.groupId ?? "";
+    byGroup.set(key, [...(byGroup.get(key) ?? []), cycle]);
+  }
+
+  let merged = 0;
+  for (const [groupId, groupCycles] of byGroup) {
+    if (groupCycles.length < 2) continue;
+
+    const [target, ...sources] = groupCycles;
+    const name = target.group?.name ?? "cycles without a group";
+    console.log(
+      `${name}: merging cycles ${sources
+        .map((cycle) => `#${cycle.cycleNumber}`)
+        .join(", ")} into #${target.cycleNumber}`
+    );
+    if (dryRun) continue;
+
+    const result = await prisma.$transaction(
+      (tx) => mergeCycles(tx, target, sources),
+      { timeout: 60000 }
+    );
+    merged += sources.length;
+    console.log(
+      `  ${result.collections} collections, fund balance ${(
+        result.balance / 100
+      ).toFixed(2)}, ${result.isActive ? "active" : "closed"}`
+    );
+
+    // A group runs one cycle at a time; leave the choice of which to close
+    // to an admin
+    const activeCycles = groupId
+      ? await prisma.loanCycle.count({ where: { groupId, isActive: true } })
+      : 0;
+    if (activeCycles > 1) {
+      console.warn(
+        `  ${name} now has ${activeCycles} active cycles - close all but one`
+      );
+    }
+  }
+
+  console.log(
+    dryRun
+      ? "Dry run - nothing was changed"
+      : merged > 0
+      ? `Merged ${merged} cycles`
+      : "Nothing to merge - every group's loans already share a cycle"
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error("Cycle merge failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
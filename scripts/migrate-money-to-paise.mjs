@@ -0,0 +1,81 @@
+// One-off migration of stored amounts from rupees to integer paise.
+// Money fields used to be Float rupees; they are now Int paise (see lib/money.ts).
+// Only values still stored as doubles are converted, so the script is safe to
+// re-run and picks up where it left off if interrupted.
+//
+// Usage: npm run db:migrate-money
+
+import { PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+// MongoDB collection -> money fields stored in it
+const MONEY_FIELDS = {
+  savings: ["totalAmount"],
+  savings_transactions: ["amount", "total"],
+  groups: ["weeklyAmount"],
+  group_members: [
+    "weeklyAmount",
+    "totalContributed",
+    "totalReceived",
+    "benefitAmount",
+  ],
+  loan_cycles: ["weeklyAmount"],
+  loan_sequences: ["loanAmount"],
+  loans: ["principal", "remaining", "totalPrincipalPaid"],
+  loan_transactions: ["amount", "remaining"],
+  weekly_collections: ["totalCollected", "expectedAmount"],
+  collection_payments: ["amount"],
+  transactions: ["amount"],
+  investment_pool: ["totalAmount", "totalLoansGiven", "totalLoansCollected"],
+  group_funds: ["investmentPool", "totalFunds"],
+  journal_lines: ["debit", "credit"],
+};
+
+async function migrateField(collection, field) {
+  const result = await prisma.$runCommandRaw({
+    update: collection,
+    updates: [
+      {
+        q: { [field]: { $type: "double" } },
+        u: [
+          {
+            $set: {
+              [field]: {
+                $toInt: { $round: [{ $multiply: [`$${field}`, 100] }, 0] },
+              },
+            },
+          },
+        ],
+        multi: true,
+      },
+    ],
+  });
+  return result.nModified ?? 0;
+}
+
+async function main() {
+  let total = 0;
+  for (const [collection, fields] of Object.entries(MONEY_FIELDS)) {
+    for (const field of fields) {
+      const modified = await migrateField(collection, field);
+      if (modified > 0) {
+        console.log(`${collection}.${field}: ${modified} converted`);
+      }
+      total += modified;
+    }
+  }
+
+  console.log(
+    total > 0
+      ? `Converted ${total} amounts to paise`
+      : "Nothing to convert - amounts are already in paise"
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error("Money migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());